@@ -0,0 +1,26 @@
+import { AuditLogEntry } from './types';
+
+/**
+ * Interface for append-only audit log storage
+ */
+export interface IAuditLog {
+  /**
+   * Append entries to the log. Entries are never updated or removed afterwards.
+   */
+  append(entries: AuditLogEntry[]): Promise<void>;
+
+  /**
+   * Get every entry for an exchange, oldest first
+   */
+  getEntriesByExchange(exchangeId: string): Promise<AuditLogEntry[]>;
+
+  /**
+   * Get every entry listing the user as actor or party, oldest first
+   */
+  getEntriesByUser(userId: string): Promise<AuditLogEntry[]>;
+
+  /**
+   * Clear the log (useful for testing)
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,23 @@
+import { SeedExchange } from './types';
+
+/**
+ * Exchanges changed since a checkpoint, and the checkpoint to read the next batch from
+ */
+export interface ExchangeChangeBatch {
+  exchanges: SeedExchange[];
+  checkpoint: string;
+}
+
+/**
+ * Interface for reading the exchanges a storage backend has written, in the order they were written.
+ * Like the Cosmos DB change feed, each exchange appears in its latest state: an exchange written several
+ * times since the checkpoint may appear once, and removed exchanges do not appear at all.
+ */
+export interface IExchangeChangeFeed {
+  /**
+   * Read the next batch of changes
+   * @param checkpoint - Checkpoint returned with the previous batch (default: the start of the feed)
+   * @returns An empty batch once every change has been read
+   */
+  readChanges(checkpoint?: string): Promise<ExchangeChangeBatch>;
+}
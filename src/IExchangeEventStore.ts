@@ -0,0 +1,70 @@
+import { SeedExchange } from './types';
+
+/**
+ * What happened to an exchange
+ * - OfferSubmitted / RequestSubmitted: A new open entry joined the queue
+ * - RemainderCreated: The unfilled part of a partially matched entry was split into a new open entry
+ * - Requeued: One side of a cancelled exchange returned to the queue at its original time
+ * - Matched: An open entry was claimed and became a confirmed exchange
+ * - QuantityReduced: Packets were drawn from an open entry without it being claimed
+ * - Consumed: An open entry was used up by a match
+ * - Withdrawn: An entry was removed by its owner
+ * - Shipped, Received, Disputed, Cancelled, Expired: The exchange moved to that status
+ * - DisputeUpdated: A disputed exchange changed without leaving the disputed status
+ * - Created / Updated: Any other write, e.g. entries added directly through the collections
+ */
+export type ExchangeEventType =
+  | 'OfferSubmitted'
+  | 'RequestSubmitted'
+  | 'RemainderCreated'
+  | 'Requeued'
+  | 'Matched'
+  | 'QuantityReduced'
+  | 'Consumed'
+  | 'Withdrawn'
+  | 'Shipped'
+  | 'Received'
+  | 'Disputed'
+  | 'DisputeUpdated'
+  | 'Cancelled'
+  | 'Expired'
+  | 'Created'
+  | 'Updated';
+
+/**
+ * A single entry in the exchange event stream.
+ * Events carry the full exchange state after the change so projections can be rebuilt from the stream alone.
+ */
+export interface ExchangeEvent {
+  /** Position in the stream, starting at 1 and increasing by one per event */
+  sequence: number;
+  type: ExchangeEventType;
+  exchangeId: string;
+  plantId: string;
+  /** The exchange after the event, without an etag; null when the event removes it */
+  exchange: SeedExchange | null;
+  timestamp: Date;
+}
+
+/**
+ * Interface for append-only exchange event storage
+ */
+export interface IExchangeEventStore {
+  /**
+   * Append events to the end of the stream as one unit
+   * @param expectedSequence - Sequence of the last event the writer has seen; the new events continue from it
+   * @throws ConflictError if another writer has appended since `expectedSequence`
+   */
+  append(events: ExchangeEvent[], expectedSequence: number): Promise<void>;
+
+  /**
+   * Read events in sequence order
+   * @param afterSequence - Only return events after this sequence (default: the start of the stream)
+   */
+  read(afterSequence?: number): Promise<ExchangeEvent[]>;
+
+  /**
+   * Clear the stream (useful for testing)
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,21 @@
+/**
+ * Interface for storing how far each change feed processor has read, so a restarted
+ * processor resumes from its last checkpoint
+ */
+export interface ILeaseStore {
+  /**
+   * Get a processor's last checkpoint
+   * @returns The checkpoint, or undefined if the processor has never saved one
+   */
+  getCheckpoint(processorName: string): Promise<string | undefined>;
+
+  /**
+   * Save a processor's checkpoint, replacing the previous one
+   */
+  setCheckpoint(processorName: string, checkpoint: string): Promise<void>;
+
+  /**
+   * Clear every checkpoint (useful for testing)
+   */
+  clear(): Promise<void>;
+}
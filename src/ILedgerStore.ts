@@ -0,0 +1,139 @@
+/**
+ * Why credits moved
+ * - starting-credits: Credits granted when a user's account is opened
+ * - shipped: The offerer shipped packets and is credited for them
+ * - received: The requester received packets and is debited for them
+ * - refund: A dispute was resolved as a refund or as fraudulent, reversing the shipment and any receipt
+ */
+export type LedgerTransactionKind = 'starting-credits' | 'shipped' | 'received' | 'refund';
+
+/**
+ * One side of a transaction: a credit (positive amount) or debit (negative amount) to an account
+ */
+export interface LedgerPosting {
+  /** `user:<user id>` for users; system accounts are prefixed with `system:` */
+  account: string;
+  /** Packets; positive for a credit, negative for a debit */
+  amount: number;
+}
+
+/**
+ * A balanced set of postings: the amounts add up to zero
+ */
+export interface LedgerTransaction {
+  /** `<kind>:<exchange id>`, or `starting-credits:<user id>`, so posting the same transaction twice has no effect */
+  id: string;
+  kind: LedgerTransactionKind;
+  exchangeId?: string;
+  description: string;
+  time: Date;
+  postings: LedgerPosting[];
+}
+
+/**
+ * A posting as stored against its account
+ */
+export interface LedgerEntry extends LedgerPosting {
+  /** `<transaction id>:<account>` */
+  id: string;
+  transactionId: string;
+  kind: LedgerTransactionKind;
+  exchangeId?: string;
+  description: string;
+  time: Date;
+}
+
+/**
+ * Time range of a ledger query; `from` is inclusive and `to` exclusive
+ */
+export interface LedgerRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * A user's credits as of now
+ */
+export interface CreditBalance {
+  userId: string;
+  /** Sum of the user's ledger entries */
+  balance: number;
+  /** Packets the user has requested but not yet been debited for: open requests and unreceived exchanges */
+  reserved: number;
+  /** balance - reserved; new requests may take this down to minus the overdraft limit */
+  available: number;
+}
+
+/**
+ * A user's ledger entries over a time range, with the balance either side of it
+ */
+export interface CreditStatement {
+  userId: string;
+  from?: Date;
+  to?: Date;
+  /** Balance of the entries before `from`; 0 without `from` */
+  openingBalance: number;
+  /** openingBalance plus the entries in the range */
+  closingBalance: number;
+  entries: LedgerEntry[];
+}
+
+/**
+ * Credits set aside for a request while it is being placed
+ */
+export interface CreditHold {
+  id: string;
+  /** Packets the request asks for */
+  quantity: number;
+  /** When the hold was taken; holds older than CREDIT_HOLD_TTL_MS are ignored */
+  time: Date;
+}
+
+/**
+ * A user's credit holds, kept as one record so that taking a hold is a single conditional write
+ */
+export interface CreditHolds {
+  userId: string;
+  holds: CreditHold[];
+  /** Changes on every write; pass it back to saveCreditHolds to only save over what was read */
+  etag?: string;
+}
+
+/**
+ * Interface for credit ledger storage
+ */
+export interface ILedgerStore {
+  /**
+   * Post a transaction's entries, skipping any already posted
+   * @throws Error if the postings do not add up to zero
+   */
+  postTransaction(transaction: LedgerTransaction): Promise<void>;
+
+  /**
+   * Get an account's entries within a time range, oldest first
+   */
+  getEntries(account: string, range?: LedgerRange): Promise<LedgerEntry[]>;
+
+  /**
+   * Get the sum of an account's entries, optionally only those before a time
+   */
+  getBalance(account: string, before?: Date): Promise<number>;
+
+  /**
+   * Get a user's credit holds
+   * @returns undefined if the user has never held credits
+   */
+  getCreditHolds(userId: string): Promise<CreditHolds | undefined>;
+
+  /**
+   * Save a user's credit holds, only if they have not changed since they were read
+   * @param ifMatch - Etag of the holds that were read; undefined if there were none
+   * @throws ConflictError if the holds were saved by someone else since they were read
+   */
+  saveCreditHolds(holds: CreditHolds, ifMatch: string | undefined): Promise<void>;
+
+  /**
+   * Clear all entries and holds (useful for testing)
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,94 @@
+import { DomainEventType } from './domainEvents';
+
+/**
+ * Domain events users can be emailed about
+ */
+export type NotificationEventType = Extract<
+  DomainEventType,
+  'ExchangeMatched' | 'ExchangeShipped' | 'ExchangeReceived' | 'ExchangeExpired'
+>;
+
+/**
+ * A user's email address and which notifications they want
+ */
+export interface NotificationPreferences {
+  userId: string;
+  /** Address from the user's token (AzureUserToken.email) the last time they used the exchange */
+  email?: string;
+  /** Display name from the user's token, used to greet them */
+  name?: string;
+  /** False turns off every notification */
+  enabled: boolean;
+  eventTypes: NotificationEventType[];
+  updatedTime: Date;
+}
+
+/**
+ * Where a message is in its lifecycle
+ * - pending: Waiting for its first attempt or a retry
+ * - sent: The transport accepted the message
+ * - failed: Every attempt failed; the message is kept for inspection
+ */
+export type OutboxMessageStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * An email queued in the outbox
+ */
+export interface OutboxMessage {
+  /** `<event id>:<user id>`, so an event published twice is queued once */
+  id: string;
+  userId: string;
+  eventId: string;
+  eventType: NotificationEventType;
+  to: string;
+  subject: string;
+  text: string;
+  status: OutboxMessageStatus;
+  attempts: number;
+  /** When the next attempt is due (pending messages only) */
+  nextAttemptTime: Date;
+  createdTime: Date;
+  sentTime?: Date;
+  /** Error message of the last failed attempt */
+  lastError?: string;
+}
+
+/**
+ * Interface for notification preference and outbox storage
+ */
+export interface INotificationStore {
+  /**
+   * Get a user's preferences, or undefined if they have none yet
+   */
+  getPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+
+  /**
+   * Replace a user's preferences
+   */
+  setPreferences(preferences: NotificationPreferences): Promise<void>;
+
+  /**
+   * Queue messages, skipping any whose id is already queued
+   */
+  addMessages(messages: OutboxMessage[]): Promise<void>;
+
+  /**
+   * Get the messages queued for a user, oldest first
+   */
+  getMessagesByUser(userId: string): Promise<OutboxMessage[]>;
+
+  /**
+   * Get pending messages whose next attempt is due, earliest first
+   */
+  getDueMessages(now: Date, limit: number): Promise<OutboxMessage[]>;
+
+  /**
+   * Replace a message with its updated state
+   */
+  updateMessage(message: OutboxMessage): Promise<void>;
+
+  /**
+   * Clear all preferences and messages (useful for testing)
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,19 @@
+/**
+ * A plain-text email ready to send
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Interface for sending emails, e.g. over SMTP, or to a file or the console for local testing
+ */
+export interface INotificationTransport {
+  /**
+   * Send one email
+   * @throws When the message was not accepted; the outbox retries it later
+   */
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,38 @@
+import { Plant, PlantCategory } from './types';
+
+/**
+ * Interface for plant catalog storage
+ */
+export interface IPlantCatalog {
+  /**
+   * Get a plant by its canonical id
+   */
+  getPlant(id: string): Promise<Plant | undefined>;
+
+  /**
+   * Find a plant by id, alias, common name or scientific name.
+   * Lookups ignore case, surrounding whitespace and the difference between spaces, hyphens and underscores.
+   */
+  findPlant(name: string): Promise<Plant | undefined>;
+
+  /**
+   * List catalog plants, optionally limited to one category
+   */
+  listPlants(category?: PlantCategory): Promise<Plant[]>;
+
+  /**
+   * Add a plant to the catalog
+   * @throws ConflictError if its id or any of its names already resolve to another plant
+   */
+  addPlant(plant: Plant): Promise<void>;
+
+  /**
+   * Remove a plant from the catalog
+   */
+  removePlant(id: string): Promise<void>;
+
+  /**
+   * Clear the catalog (useful for testing)
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,87 @@
+import { ExchangeRole } from './ISeedExchangeCollections';
+
+/**
+ * Outcomes counted towards a user's reputation
+ */
+export interface ReputationCounts {
+  /** Exchanges the user was matched into, as either party */
+  exchangesMatched: number;
+  /** Exchanges the user shipped as the offerer */
+  shipped: number;
+  /** Shipments sent within the ship deadline of confirmation */
+  shippedOnTime: number;
+  /** Shipments the user confirmed receiving as the requester, before any dispute */
+  receiptsConfirmed: number;
+  /** Confirmed exchanges the user cancelled */
+  cancellations: number;
+  /** Disputes opened against the user as the offerer */
+  disputesAgainst: number;
+  /** Disputes against the user resolved as a refund or as fraudulent */
+  disputesLost: number;
+}
+
+/**
+ * What one exchange contributes to one of its parties' reputation.
+ * Recomputed from the exchange on every change, so handling the same change twice has no effect.
+ */
+export interface ReputationContribution {
+  userId: string;
+  exchangeId: string;
+  role: ExchangeRole;
+  counts: ReputationCounts;
+  /** When the offerer's shipment becomes late, while it has not shipped */
+  shipDueTime?: Date;
+  /** When the requester's receipt becomes overdue, while it is shipped but not received or disputed */
+  receiptDueTime?: Date;
+}
+
+/**
+ * Running totals of a user's contributions
+ */
+export interface ReputationRecord {
+  userId: string;
+  counts: ReputationCounts;
+  /** Due times of unshipped exchanges, by exchange id, so late shipments count without another change */
+  pendingShipments: Record<string, Date>;
+  /** Due times of unconfirmed receipts, by exchange id */
+  pendingReceipts: Record<string, Date>;
+  updatedTime: Date;
+}
+
+/**
+ * A user's reputation as of a point in time
+ */
+export interface UserReputation extends ReputationCounts {
+  userId: string;
+  /** 0-100, where 100 is a perfect record; users with no history score 100 */
+  score: number;
+  /** Unshipped exchanges past their ship deadline */
+  overdueShipments: number;
+  /** Shipments past their receipt deadline that the user has not confirmed */
+  overdueReceipts: number;
+}
+
+/**
+ * Interface for reputation storage
+ */
+export interface IReputationStore {
+  /**
+   * Get a user's running totals, or undefined if they have never been matched
+   */
+  getRecord(userId: string): Promise<ReputationRecord | undefined>;
+
+  /**
+   * Get what an exchange last contributed to a user's reputation
+   */
+  getContribution(userId: string, exchangeId: string): Promise<ReputationContribution | undefined>;
+
+  /**
+   * Save an exchange's new contribution together with the user's updated totals, atomically
+   */
+  saveContribution(contribution: ReputationContribution, record: ReputationRecord): Promise<void>;
+
+  /**
+   * Clear all reputation data (useful for testing)
+   */
+  clear(): Promise<void>;
+}
@@ -1,4 +1,89 @@
-import { SeedExchange } from './types';
+import { SeedExchange, ExchangeStatus } from './types';
+
+/**
+ * Options for updating a seed exchange entry
+ */
+export interface UpdateExchangeOptions {
+  /**
+   * Only apply the update if the stored entry still has this etag.
+   * A ConflictError is thrown if the entry has changed or been removed since it was read.
+   */
+  ifMatch?: string;
+}
+
+/**
+ * Options for reading one page of a list query
+ */
+export interface PageOptions {
+  /** Maximum number of exchanges to return (defaults to DEFAULT_PAGE_SIZE) */
+  pageSize?: number;
+  /** Token returned with the previous page; omit to start from the beginning */
+  continuationToken?: string;
+}
+
+/**
+ * One page of a list query, ordered by exchange id unless the query sets its own order
+ */
+export interface ExchangePage {
+  exchanges: SeedExchange[];
+  /**
+   * Pass back in `PageOptions` to read the next page; undefined on the last page.
+   * Tokens are opaque and only valid for the query and backend that returned them.
+   * A page may hold fewer than `pageSize` exchanges before the last one, so read until the token is undefined.
+   */
+  continuationToken?: string;
+}
+
+/**
+ * Timestamp fields an exchange search can filter and sort on
+ */
+export type ExchangeTimeField = 'seedRequestTime' | 'seedOfferTime' | 'confirmationTime' | 'shipTime' | 'receivedTime';
+
+/**
+ * Fields an exchange search can sort on
+ */
+export type ExchangeSortField = 'id' | 'quantity' | ExchangeTimeField;
+
+/**
+ * Which side of an exchange a user is on
+ */
+export type ExchangeRole = 'requester' | 'offerer';
+
+/**
+ * A time window; `from` is inclusive and `to` is exclusive. Exchanges without the timestamp never match.
+ */
+export interface TimeRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Criteria for searching exchanges. Every criterion that is set must match.
+ */
+export interface ExchangeFilter {
+  /** One status, or any of several */
+  status?: ExchangeStatus | ExchangeStatus[];
+  /** One plant, or any of several */
+  plantId?: string | string[];
+  /** A user who is the requester or offerer */
+  userId?: string;
+  /** Narrow `userId` to one side of the exchange; requires `userId` */
+  role?: ExchangeRole;
+  /** Windows on timestamp fields */
+  timeRanges?: Partial<Record<ExchangeTimeField, TimeRange>>;
+  /** Field to sort on (defaults to 'id'); exchanges without the field sort first in ascending order */
+  sortBy?: ExchangeSortField;
+  /** Sort direction (defaults to 'asc') */
+  sortDirection?: 'asc' | 'desc';
+}
+
+/**
+ * A single write within an all-or-nothing batch of exchange changes
+ */
+export type ExchangeWriteOperation =
+  | { type: 'create'; exchange: SeedExchange }
+  | { type: 'replace'; exchange: SeedExchange; ifMatch?: string }
+  | { type: 'delete'; id: string; plantId: string; ifMatch?: string };
 
 /**
  * Interface for seed exchange collections storage
@@ -14,16 +99,39 @@ export interface ISeedExchangeCollections {
    */
   getOpenOffersByPlant(plantId: string): Promise<SeedExchange[]>;
 
+  /**
+   * Get open requests created before `requestCutoff` and open offers created before `offerCutoff`, across all plants
+   */
+  getStaleOpenEntries(requestCutoff: Date, offerCutoff: Date): Promise<SeedExchange[]>;
+
   /**
    * Get all confirmed exchanges
    */
   getConfirmedExchanges(): Promise<SeedExchange[]>;
 
+  /**
+   * Get one page of confirmed exchanges
+   * @throws ValidationError if the page size or continuation token is invalid
+   */
+  getConfirmedExchangesPage(options?: PageOptions): Promise<ExchangePage>;
+
   /**
    * Get all exchanges for a specific user
    */
   getExchangesByUser(userId: string): Promise<SeedExchange[]>;
 
+  /**
+   * Get one page of exchanges for a specific user
+   * @throws ValidationError if the page size or continuation token is invalid
+   */
+  getExchangesByUserPage(userId: string, options?: PageOptions): Promise<ExchangePage>;
+
+  /**
+   * Get one page of exchanges matching a filter, in the filter's sort order
+   * @throws ValidationError if the filter, page size or continuation token is invalid
+   */
+  searchExchanges(filter: ExchangeFilter, options?: PageOptions): Promise<ExchangePage>;
+
   /**
    * Add a new seed exchange entry
    */
@@ -31,24 +139,42 @@ export interface ISeedExchangeCollections {
 
   /**
    * Get a seed exchange by ID
+   * @param plantId - The exchange's plant, if known; lets partitioned storage read it without searching every plant
    */
-  getExchange(id: string): Promise<SeedExchange | undefined>;
+  getExchange(id: string, plantId?: string): Promise<SeedExchange | undefined>;
 
   /**
    * Remove a seed exchange entry
+   * @param plantId - The exchange's plant, if known; lets partitioned storage delete it without searching every plant
    */
-  removeExchange(id: string): Promise<void>;
+  removeExchange(id: string, plantId?: string): Promise<void>;
 
   /**
    * Update a seed exchange entry
+   * @throws ConflictError if `options.ifMatch` does not match the stored etag
    */
-  updateExchange(exchange: SeedExchange): Promise<void>;
+  updateExchange(exchange: SeedExchange, options?: UpdateExchangeOptions): Promise<void>;
+
+  /**
+   * Apply several writes as a single unit of work: either all of them are committed or none are.
+   * All operations must target the same plant, since plantId is the Cosmos DB partition key.
+   * @throws ValidationError with code MIXED_PLANT_BATCH if the operations span more than one plant
+   * @throws ConflictError if a replace or delete precondition fails, a created id already exists,
+   * or a replaced/deleted entry no longer exists
+   */
+  executeBatch(operations: ExchangeWriteOperation[]): Promise<void>;
 
   /**
    * Get all seed exchanges
    */
   getAllExchanges(): Promise<SeedExchange[]>;
 
+  /**
+   * Get one page of all seed exchanges
+   * @throws ValidationError if the page size or continuation token is invalid
+   */
+  getAllExchangesPage(options?: PageOptions): Promise<ExchangePage>;
+
   /**
    * Clear all collections (useful for testing)
    */
@@ -0,0 +1,71 @@
+/**
+ * A mailing address seeds can be shipped to
+ */
+export interface PostalAddress {
+  /** Name on the parcel */
+  recipientName: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  /** State, province or county */
+  region?: string;
+  postalCode?: string;
+  country: string;
+}
+
+/**
+ * Settings a client stores for the user, such as a preferred unit or language.
+ * Values are opaque to the exchange.
+ */
+export type UserProfilePreferences = Record<string, string | number | boolean>;
+
+/**
+ * What a user tells the exchange about themselves.
+ * The address is only revealed to the offerer of an exchange that ships to the user (see GetShippingAddress).
+ */
+export interface UserProfile {
+  userId: string;
+  displayName?: string;
+  /** Where the user gardens, e.g. "Pacific Northwest" or a hardiness zone */
+  region?: string;
+  address?: PostalAddress;
+  preferences: UserProfilePreferences;
+  updatedTime: Date;
+}
+
+/**
+ * Where the offerer of an exchange ships the seeds
+ */
+export interface ShippingAddress {
+  exchangeId: string;
+  requestUserId: string;
+  displayName?: string;
+  address: PostalAddress;
+  /** When the address stops being available to the offerer; unset until the seeds are received */
+  availableUntil?: Date;
+}
+
+/**
+ * Interface for user profile storage
+ */
+export interface IUserProfileStore {
+  /**
+   * Get a user's profile, or undefined if they have not created one
+   */
+  getProfile(userId: string): Promise<UserProfile | undefined>;
+
+  /**
+   * Replace a user's profile
+   */
+  setProfile(profile: UserProfile): Promise<void>;
+
+  /**
+   * Delete a user's profile, if they have one
+   */
+  deleteProfile(userId: string): Promise<void>;
+
+  /**
+   * Clear all profiles (useful for testing)
+   */
+  clear(): Promise<void>;
+}
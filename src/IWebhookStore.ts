@@ -0,0 +1,110 @@
+import { DomainEventType } from './domainEvents';
+
+/**
+ * A tenant's request to be sent domain events over HTTP
+ */
+export interface WebhookSubscription {
+  id: string;
+  /** The partner (e.g. a seed library) that owns the subscription */
+  tenantId: string;
+  /** HTTPS (or, for local testing, HTTP) endpoint that receives the events */
+  url: string;
+  eventTypes: DomainEventType[];
+  /** Shared secret the payloads are signed with (see signWebhookPayload) */
+  secret: string;
+  /**
+   * The tenant's members. Only events about exchanges one of them is party to are sent.
+   * Omit to be sent events about every exchange.
+   */
+  userIds?: string[];
+  createdTime: Date;
+}
+
+/**
+ * A subscription as listed to admins: the secret is only returned when the subscription is created
+ */
+export type WebhookSubscriptionSummary = Omit<WebhookSubscription, 'secret'>;
+
+/**
+ * Where a delivery is in its lifecycle
+ * - pending: Waiting for its first attempt or a retry
+ * - delivered: The receiver answered with a 2xx status
+ * - dead-lettered: Every attempt failed; the delivery is kept for inspection and manual retry
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead-lettered';
+
+/**
+ * One event queued for one subscription
+ */
+export interface WebhookDelivery {
+  /** `<subscription id>:<event id>`, so an event published twice is queued once */
+  id: string;
+  tenantId: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: DomainEventType;
+  /** JSON body to send, built when the event was queued */
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When the next attempt is due (pending deliveries only) */
+  nextAttemptTime: Date;
+  lastAttemptTime?: Date;
+  /** HTTP status or error message of the last failed attempt */
+  lastError?: string;
+}
+
+/**
+ * Interface for webhook subscription and delivery queue storage
+ */
+export interface IWebhookStore {
+  /**
+   * Add a subscription
+   */
+  addSubscription(subscription: WebhookSubscription): Promise<void>;
+
+  /**
+   * Get a tenant's subscriptions
+   */
+  getSubscriptions(tenantId: string): Promise<WebhookSubscription[]>;
+
+  /**
+   * Get every tenant's subscriptions
+   */
+  getAllSubscriptions(): Promise<WebhookSubscription[]>;
+
+  /**
+   * Remove a subscription. Deliveries already queued for it are kept.
+   */
+  removeSubscription(tenantId: string, subscriptionId: string): Promise<void>;
+
+  /**
+   * Queue deliveries, skipping any whose id is already queued
+   */
+  addDeliveries(deliveries: WebhookDelivery[]): Promise<void>;
+
+  /**
+   * Get a delivery by ID
+   */
+  getDelivery(tenantId: string, deliveryId: string): Promise<WebhookDelivery | undefined>;
+
+  /**
+   * Get a tenant's deliveries, optionally only those with a status
+   */
+  getDeliveries(tenantId: string, status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]>;
+
+  /**
+   * Get pending deliveries whose next attempt is due, earliest first
+   */
+  getDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+
+  /**
+   * Replace a delivery with its updated state
+   */
+  updateDelivery(delivery: WebhookDelivery): Promise<void>;
+
+  /**
+   * Clear all subscriptions and deliveries (useful for testing)
+   */
+  clear(): Promise<void>;
+}
@@ -1,6 +1,28 @@
-import { SubmitSeedOffer, SubmitSeedRequest, Withdraw } from './api';
+import {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  Withdraw,
+  MarkShipped,
+  MarkReceived,
+  CancelExchange,
+  GetExchange,
+  OpenDispute,
+  RespondToDispute,
+  ResolveDispute
+} from './api';
+import { ADMIN_ROLE } from './roles';
 import { SeedExchangeCollections } from './collections';
 import { AzureUserToken } from './types';
+import {
+  NotFoundError,
+  ForbiddenError,
+  InvalidStateError,
+  ValidationError,
+  ConflictError,
+  ConfigurationError,
+  SeedExchangeError
+} from './errors';
+import { loadExchangeConfig } from './exchangeConfig';
 
 describe('SeedExchange API', () => {
   let collections: SeedExchangeCollections;
@@ -26,6 +48,7 @@ describe('SeedExchange API', () => {
       expect(result.remainingOffer?.offerUserId).toBe('user-1');
       expect(result.remainingOffer?.requestUserId).toBeNull();
       expect(result.remainingOffer?.seedOfferTime).toBeDefined();
+      expect(result.remainingOffer?.status).toBe('open-offer');
     });
 
     it('should fill one request and create offer for remainder', async () => {
@@ -40,6 +63,7 @@ describe('SeedExchange API', () => {
       expect(result.filledExchanges[0].requestUserId).toBe('user-2');
       expect(result.filledExchanges[0].quantity).toBe(1);
       expect(result.filledExchanges[0].confirmationTime).toBeDefined();
+      expect(result.filledExchanges[0].status).toBe('confirmed');
       expect(result.remainingOffer).toBeDefined();
       expect(result.remainingOffer?.quantity).toBe(4);
 
@@ -109,6 +133,33 @@ describe('SeedExchange API', () => {
     });
   });
 
+  describe('SubmitSeedOffer validation', () => {
+    it('should reject zero, negative and fractional packet quantities', async () => {
+      for (const quantity of [0, -3, 2.5, NaN]) {
+        await expect(SubmitSeedOffer(user1, 'tomato-123', quantity, collections))
+          .rejects.toMatchObject({ code: 'INVALID_QUANTITY' });
+      }
+
+      const openOffers = await collections.getOpenOffersByPlant('tomato-123');
+      expect(openOffers).toHaveLength(0);
+    });
+
+    it('should reject an empty plant id', async () => {
+      await expect(SubmitSeedOffer(user1, '', 3, collections)).rejects.toThrow(ValidationError);
+      await expect(SubmitSeedOffer(user1, '   ', 3, collections))
+        .rejects.toMatchObject({ code: 'INVALID_PLANT_ID' });
+      await expect(SubmitSeedRequest(user1, '', collections)).rejects.toThrow(ValidationError);
+    });
+
+    it('should raise errors that share the SeedExchangeError base class', async () => {
+      const error = await SubmitSeedOffer(user1, '', 3, collections).catch(e => e);
+
+      expect(error).toBeInstanceOf(SeedExchangeError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('ValidationError');
+    });
+  });
+
   describe('SubmitSeedRequest', () => {
     it('should add request to the collection when no offers exist', async () => {
       const result = await SubmitSeedRequest(user1, 'tomato-123', collections);
@@ -121,6 +172,7 @@ describe('SeedExchange API', () => {
       expect(result.remainingRequest?.requestUserId).toBe('user-1');
       expect(result.remainingRequest?.offerUserId).toBeNull();
       expect(result.remainingRequest?.seedRequestTime).toBeDefined();
+      expect(result.remainingRequest?.status).toBe('open-request');
     });
 
     it('should fill request from existing offer', async () => {
@@ -205,13 +257,93 @@ describe('SeedExchange API', () => {
       expect(result.remainingRequest).toBeDefined();
     });
 
-    it('should always request exactly 1 packet', async () => {
+    it('should default to requesting 1 packet when no quantity is given', async () => {
       const result = await SubmitSeedRequest(user1, 'tomato-123', collections);
 
       expect(result.remainingRequest?.quantity).toBe(1);
     });
   });
 
+  describe('SubmitSeedRequest with multiple packets', () => {
+    const originalMaxQuantity = process.env.SEED_EXCHANGE_MAX_REQUEST_QUANTITY;
+
+    afterEach(() => {
+      if (originalMaxQuantity !== undefined) {
+        process.env.SEED_EXCHANGE_MAX_REQUEST_QUANTITY = originalMaxQuantity;
+      } else {
+        delete process.env.SEED_EXCHANGE_MAX_REQUEST_QUANTITY;
+      }
+      loadExchangeConfig();
+    });
+
+    it('should fill across multiple offers in FIFO order', async () => {
+      await SubmitSeedOffer(user1, 'milkweed-001', 3, collections);
+      await SubmitSeedOffer(user2, 'milkweed-001', 4, collections);
+
+      const result = await SubmitSeedRequest(user3, 'milkweed-001', collections, 5);
+
+      expect(result.filled).toBe(true);
+      expect(result.filledExchanges).toHaveLength(2);
+      expect(result.filledExchanges[0].offerUserId).toBe('user-1');
+      expect(result.filledExchanges[0].quantity).toBe(3);
+      expect(result.filledExchanges[1].offerUserId).toBe('user-2');
+      expect(result.filledExchanges[1].quantity).toBe(2);
+      expect(result.exchange).toBe(result.filledExchanges[0]);
+      expect(result.remainingRequest).toBeUndefined();
+
+      const openOffers = await collections.getOpenOffersByPlant('milkweed-001');
+      expect(openOffers).toHaveLength(1);
+      expect(openOffers[0].offerUserId).toBe('user-2');
+      expect(openOffers[0].quantity).toBe(2);
+    });
+
+    it('should leave an open request for the unfilled remainder', async () => {
+      await SubmitSeedOffer(user1, 'milkweed-001', 3, collections);
+
+      const result = await SubmitSeedRequest(user2, 'milkweed-001', collections, 10);
+
+      expect(result.filled).toBe(false);
+      expect(result.filledExchanges).toHaveLength(1);
+      expect(result.filledExchanges[0].quantity).toBe(3);
+      expect(result.remainingRequest?.quantity).toBe(7);
+      expect(result.remainingRequest?.requestUserId).toBe('user-2');
+
+      const openOffers = await collections.getOpenOffersByPlant('milkweed-001');
+      expect(openOffers).toHaveLength(0);
+    });
+
+    it('should reject quantities above the configured cap', async () => {
+      await expect(
+        SubmitSeedRequest(user1, 'milkweed-001', collections, 3, { config: { maxRequestQuantity: 2 } })
+      ).rejects.toMatchObject({ code: 'QUANTITY_LIMIT_EXCEEDED' });
+
+      const openRequests = await collections.getOpenRequestsByPlant('milkweed-001');
+      expect(openRequests).toHaveLength(0);
+    });
+
+    it('should read the cap from the environment', async () => {
+      process.env.SEED_EXCHANGE_MAX_REQUEST_QUANTITY = '20';
+      loadExchangeConfig();
+
+      const result = await SubmitSeedRequest(user1, 'milkweed-001', collections, 15);
+
+      expect(result.remainingRequest?.quantity).toBe(15);
+    });
+
+    it('should reject non-positive and fractional quantities', async () => {
+      await expect(SubmitSeedRequest(user1, 'milkweed-001', collections, 0)).rejects.toThrow(ValidationError);
+      await expect(SubmitSeedRequest(user1, 'milkweed-001', collections, 1.5)).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject an invalid cap in the environment or in an override', async () => {
+      process.env.SEED_EXCHANGE_MAX_REQUEST_QUANTITY = 'ten';
+
+      expect(() => loadExchangeConfig()).toThrow(ConfigurationError);
+      await expect(SubmitSeedRequest(user1, 'milkweed-001', collections, 1, { config: { maxRequestQuantity: 0 } }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+    });
+  });
+
   describe('Confirmed Exchanges', () => {
     it('should record all confirmed exchanges in the collection', async () => {
       await SubmitSeedRequest(user2, 'tomato-123', collections);
@@ -275,14 +407,31 @@ describe('SeedExchange API', () => {
       expect(openOffers).toHaveLength(0);
     });
 
+    it('should not remove an entry matched while it was being withdrawn', async () => {
+      const requestResult = await SubmitSeedRequest(user1, 'tomato-123', collections);
+      const exchangeId = requestResult.remainingRequest!.id;
+      const getExchange = collections.getExchange.bind(collections);
+      jest.spyOn(collections, 'getExchange').mockImplementationOnce(async id => {
+        const snapshot = await getExchange(id);
+        // An offer fills the request after Withdraw has read it
+        await SubmitSeedOffer(user2, 'tomato-123', 1, collections);
+        return snapshot;
+      });
+
+      await expect(Withdraw(user1, exchangeId, collections)).rejects.toMatchObject({ code: 'CONFLICT' });
+
+      const confirmedExchanges = await collections.getConfirmedExchanges();
+      expect(confirmedExchanges).toHaveLength(1);
+      expect(confirmedExchanges[0].requestUserId).toBe(user1.userId);
+    });
+
     it('should not withdraw a confirmed exchange', async () => {
       await SubmitSeedRequest(user2, 'tomato-123', collections);
       const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 2, collections);
       const confirmedExchangeId = offerResult.filledExchanges[0].id;
 
-      const withdrawResult = await Withdraw(user1, confirmedExchangeId, collections);
-
-      expect(withdrawResult.success).toBe(false);
+      await expect(Withdraw(user1, confirmedExchangeId, collections))
+        .rejects.toMatchObject({ code: 'EXCHANGE_NOT_OPEN' });
 
       const confirmedExchanges = await collections.getConfirmedExchanges();
       expect(confirmedExchanges).toHaveLength(1);
@@ -292,19 +441,525 @@ describe('SeedExchange API', () => {
       const requestResult = await SubmitSeedRequest(user1, 'tomato-123', collections);
       const exchangeId = requestResult.remainingRequest!.id;
 
-      const withdrawResult = await Withdraw(user2, exchangeId, collections);
+      await expect(Withdraw(user2, exchangeId, collections)).rejects.toThrow(ForbiddenError);
+
+      const openRequests = await collections.getOpenRequestsByPlant('tomato-123');
+      expect(openRequests).toHaveLength(1);
+    });
+
+    it('should throw NotFoundError for non-existent exchange', async () => {
+      await expect(Withdraw(user1, 'non-existent-id', collections)).rejects.toThrow(NotFoundError);
+      await expect(Withdraw(user1, 'non-existent-id', collections))
+        .rejects.toMatchObject({ code: 'EXCHANGE_NOT_FOUND' });
+    });
+  });
+
+  describe('MarkShipped', () => {
+    it('should mark a confirmed exchange as shipped by the offerer', async () => {
+      await SubmitSeedRequest(user2, 'tomato-123', collections);
+      const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+      const exchangeId = offerResult.filledExchanges[0].id;
+
+      const shipResult = await MarkShipped(user1, exchangeId, collections);
+
+      expect(shipResult.success).toBe(true);
+      expect(shipResult.shippedExchange?.status).toBe('shipped');
+      expect(shipResult.shippedExchange?.shipTime).toBeInstanceOf(Date);
+      expect(shipResult.shippedExchange?.receivedTime).toBeNull();
+
+      const stored = await collections.getExchange(exchangeId);
+      expect(stored?.shipTime).toEqual(shipResult.shippedExchange?.shipTime);
+    });
+
+    it('should not allow the requester to mark an exchange as shipped', async () => {
+      await SubmitSeedRequest(user2, 'tomato-123', collections);
+      const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+
+      await expect(MarkShipped(user2, offerResult.filledExchanges[0].id, collections))
+        .rejects.toMatchObject({ code: 'NOT_EXCHANGE_OFFERER' });
+      const stored = await collections.getExchange(offerResult.filledExchanges[0].id);
+      expect(stored?.shipTime).toBeNull();
+    });
+
+    it('should not ship an open offer', async () => {
+      const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 3, collections);
+
+      await expect(MarkShipped(user1, offerResult.remainingOffer!.id, collections))
+        .rejects.toThrow(InvalidStateError);
+    });
 
-      expect(withdrawResult.success).toBe(false);
+    it('should not ship an exchange twice', async () => {
+      await SubmitSeedRequest(user2, 'tomato-123', collections);
+      const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+      const exchangeId = offerResult.filledExchanges[0].id;
+
+      await MarkShipped(user1, exchangeId, collections);
+      await expect(MarkShipped(user1, exchangeId, collections)).rejects.toThrow(InvalidStateError);
+    });
+
+    it('should throw NotFoundError for non-existent exchange', async () => {
+      await expect(MarkShipped(user1, 'non-existent-id', collections)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('MarkReceived', () => {
+    it('should mark a shipped exchange as received by the requester', async () => {
+      await SubmitSeedRequest(user2, 'tomato-123', collections);
+      const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+      const exchangeId = offerResult.filledExchanges[0].id;
+      await MarkShipped(user1, exchangeId, collections);
+
+      const receiveResult = await MarkReceived(user2, exchangeId, collections);
+
+      expect(receiveResult.success).toBe(true);
+      expect(receiveResult.receivedExchange?.status).toBe('received');
+      expect(receiveResult.receivedExchange?.receivedTime).toBeInstanceOf(Date);
+      expect(receiveResult.receivedExchange?.shipTime).toBeInstanceOf(Date);
+    });
+
+    it('should not receive an exchange that has not shipped', async () => {
+      await SubmitSeedRequest(user2, 'tomato-123', collections);
+      const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+
+      await expect(MarkReceived(user2, offerResult.filledExchanges[0].id, collections))
+        .rejects.toThrow(InvalidStateError);
+    });
+
+    it('should not allow the offerer to mark an exchange as received', async () => {
+      await SubmitSeedRequest(user2, 'tomato-123', collections);
+      const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+      const exchangeId = offerResult.filledExchanges[0].id;
+      await MarkShipped(user1, exchangeId, collections);
+
+      await expect(MarkReceived(user1, exchangeId, collections))
+        .rejects.toMatchObject({ code: 'NOT_EXCHANGE_REQUESTER' });
+      const stored = await collections.getExchange(exchangeId);
+      expect(stored?.receivedTime).toBeNull();
+    });
+
+    it('should not receive an exchange twice', async () => {
+      await SubmitSeedRequest(user2, 'tomato-123', collections);
+      const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+      const exchangeId = offerResult.filledExchanges[0].id;
+      await MarkShipped(user1, exchangeId, collections);
+      await MarkReceived(user2, exchangeId, collections);
+
+      await expect(MarkReceived(user2, exchangeId, collections)).rejects.toThrow(InvalidStateError);
+    });
+  });
+
+  describe('Exchange status', () => {
+    it('should keep shipped and received exchanges in the confirmed list', async () => {
+      await SubmitSeedRequest(user2, 'tomato-123', collections);
+      const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+      const exchangeId = offerResult.filledExchanges[0].id;
+      await MarkShipped(user1, exchangeId, collections);
+      await MarkReceived(user2, exchangeId, collections);
+
+      const confirmedExchanges = await collections.getConfirmedExchanges();
+      expect(confirmedExchanges).toHaveLength(1);
+      expect(confirmedExchanges[0].status).toBe('received');
+    });
+
+    it('should not treat a closed exchange as an open entry', async () => {
+      const requestResult = await SubmitSeedRequest(user1, 'tomato-123', collections);
+      await collections.updateExchange({ ...requestResult.remainingRequest!, status: 'expired' });
+
+      const openRequests = await collections.getOpenRequestsByPlant('tomato-123');
+      expect(openRequests).toHaveLength(0);
+
+      await expect(Withdraw(user1, requestResult.remainingRequest!.id, collections))
+        .rejects.toThrow(InvalidStateError);
+    });
+  });
+
+  describe('Concurrent matching', () => {
+    it('should reject a conditional update with a stale etag', async () => {
+      const offerResult = await SubmitSeedOffer(user1, 'tomato-123', 3, collections);
+      const stored = await collections.getExchange(offerResult.remainingOffer!.id);
+
+      await collections.updateExchange({ ...stored!, quantity: 2 }, { ifMatch: stored!.etag });
+
+      await expect(collections.updateExchange({ ...stored!, quantity: 1 }, { ifMatch: stored!.etag }))
+        .rejects.toThrow(ConflictError);
+      const current = await collections.getExchange(stored!.id);
+      expect(current?.quantity).toBe(2);
+      expect(current?.etag).not.toBe(stored!.etag);
+    });
+
+    it('should never fill the same offer twice', async () => {
+      await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+
+      const results = await Promise.all([
+        SubmitSeedRequest(user2, 'tomato-123', collections),
+        SubmitSeedRequest(user3, 'tomato-123', collections)
+      ]);
+
+      expect(results.filter(r => r.filled)).toHaveLength(1);
+      expect(results.filter(r => r.remainingRequest !== undefined)).toHaveLength(1);
+
+      const confirmedExchanges = await collections.getConfirmedExchanges();
+      expect(confirmedExchanges).toHaveLength(1);
+      expect(confirmedExchanges[0].quantity).toBe(1);
 
       const openRequests = await collections.getOpenRequestsByPlant('tomato-123');
       expect(openRequests).toHaveLength(1);
     });
 
-    it('should return false for non-existent exchange', async () => {
-      const withdrawResult = await Withdraw(user1, 'non-existent-id', collections);
+    it('should not over-allocate an offer under many concurrent requests', async () => {
+      await SubmitSeedOffer(user1, 'tomato-123', 5, collections);
+      const requesters: AzureUserToken[] = Array.from({ length: 10 }, (_, i) => ({ userId: `requester-${i}` }));
+
+      await Promise.all(requesters.map(requester => SubmitSeedRequest(requester, 'tomato-123', collections)));
+
+      const confirmedExchanges = await collections.getConfirmedExchanges();
+      const filledPackets = confirmedExchanges.reduce((total, ex) => total + ex.quantity, 0);
+      expect(filledPackets).toBe(5);
+      expect(new Set(confirmedExchanges.map(ex => ex.requestUserId)).size).toBe(5);
+
+      const openOffers = await collections.getOpenOffersByPlant('tomato-123');
+      expect(openOffers).toHaveLength(0);
+      const openRequests = await collections.getOpenRequestsByPlant('tomato-123');
+      expect(openRequests).toHaveLength(5);
+    });
+
+    it('should never fill the same request from two concurrent offers', async () => {
+      await SubmitSeedRequest(user3, 'tomato-123', collections);
+
+      const results = await Promise.all([
+        SubmitSeedOffer(user1, 'tomato-123', 1, collections),
+        SubmitSeedOffer(user2, 'tomato-123', 1, collections)
+      ]);
+
+      expect(results[0].filledExchanges.length + results[1].filledExchanges.length).toBe(1);
+      const confirmedExchanges = await collections.getConfirmedExchanges();
+      expect(confirmedExchanges).toHaveLength(1);
+      const openOffers = await collections.getOpenOffersByPlant('tomato-123');
+      expect(openOffers).toHaveLength(1);
+    });
+  });
+
+  describe('Atomic match and remainder writes', () => {
+    it('should commit the match and the remainder in a single batch', async () => {
+      await SubmitSeedRequest(user2, 'tomato-123', collections, 3);
+      const batchSpy = jest.spyOn(collections, 'executeBatch');
+      const addSpy = jest.spyOn(collections, 'addExchange');
+
+      await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+
+      expect(batchSpy).toHaveBeenCalledTimes(1);
+      const operations = batchSpy.mock.calls[0][0];
+      expect(operations.map(op => op.type)).toEqual(['replace', 'create']);
+      // Only the leftover offer is written outside the batch (none here)
+      expect(addSpy).not.toHaveBeenCalled();
+    });
+
+    it('should leave the open request untouched when the batch fails', async () => {
+      const requestResult = await SubmitSeedRequest(user2, 'tomato-123', collections, 3);
+      jest.spyOn(collections, 'executeBatch').mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(SubmitSeedOffer(user1, 'tomato-123', 1, collections)).rejects.toThrow('connection lost');
+
+      const openRequests = await collections.getOpenRequestsByPlant('tomato-123');
+      expect(openRequests).toHaveLength(1);
+      expect(openRequests[0].id).toBe(requestResult.remainingRequest!.id);
+      expect(openRequests[0].quantity).toBe(3);
+    });
+
+    it('should apply no operation when any operation in the batch fails', async () => {
+      const first = await SubmitSeedRequest(user1, 'tomato-123', collections);
+      const second = await SubmitSeedRequest(user2, 'tomato-123', collections);
+      const stored = await collections.getExchange(first.remainingRequest!.id);
+
+      await expect(collections.executeBatch([
+        { type: 'replace', exchange: { ...stored!, quantity: 5 }, ifMatch: stored!.etag },
+        { type: 'create', exchange: second.remainingRequest! }
+      ])).rejects.toThrow(ConflictError);
+
+      const unchanged = await collections.getExchange(first.remainingRequest!.id);
+      expect(unchanged?.quantity).toBe(1);
+      expect(unchanged?.etag).toBe(stored!.etag);
+    });
+
+    it('should reject batches that span more than one plant', async () => {
+      const tomato = await SubmitSeedRequest(user1, 'tomato-123', collections);
+      const carrot = await SubmitSeedRequest(user1, 'carrot-456', collections);
+
+      await expect(collections.executeBatch([
+        { type: 'delete', id: tomato.remainingRequest!.id, plantId: 'tomato-123' },
+        { type: 'delete', id: carrot.remainingRequest!.id, plantId: 'carrot-456' }
+      ])).rejects.toMatchObject({ code: 'MIXED_PLANT_BATCH' });
+
+      expect(await collections.getExchange(tomato.remainingRequest!.id)).toBeDefined();
+    });
+  });
+
+  describe('CancelExchange', () => {
+    it('should let the offerer cancel a confirmed exchange and record who and why', async () => {
+      await SubmitSeedRequest(user1, 'tomato-123', collections);
+      const offer = await SubmitSeedOffer(user2, 'tomato-123', 1, collections);
+      const exchangeId = offer.filledExchanges[0].id;
+
+      const result = await CancelExchange(user2, exchangeId, '  Ran out of seed  ', collections);
+
+      expect(result.success).toBe(true);
+      expect(result.cancelledExchange?.status).toBe('cancelled');
+      expect(result.cancelledExchange?.cancellation).toEqual({
+        cancelledByUserId: 'user-2',
+        reason: 'Ran out of seed',
+        cancelTime: expect.any(Date)
+      });
+      expect(result.requeuedExchange).toBeUndefined();
+      expect((await collections.getExchange(exchangeId))?.status).toBe('cancelled');
+      expect(await collections.getOpenRequestsByPlant('tomato-123')).toHaveLength(0);
+    });
+
+    it('should let the requester cancel a confirmed exchange', async () => {
+      await SubmitSeedOffer(user1, 'tomato-123', 1, collections);
+      const request = await SubmitSeedRequest(user2, 'tomato-123', collections);
+
+      const result = await CancelExchange(user2, request.exchange!.id, 'No longer needed', collections);
+
+      expect(result.cancelledExchange?.cancellation?.cancelledByUserId).toBe('user-2');
+    });
+
+    it('should requeue the requester at their original position when the offerer cancels', async () => {
+      // Space the submissions out so their FIFO order is unambiguous
+      jest.useFakeTimers({ now: new Date('2025-03-01T00:00:00Z') });
+      let early, offer, result;
+      try {
+        early = await SubmitSeedRequest(user1, 'tomato-123', collections, 2);
+        jest.setSystemTime(new Date('2025-03-02T00:00:00Z'));
+        offer = await SubmitSeedOffer(user2, 'tomato-123', 2, collections);
+        jest.setSystemTime(new Date('2025-03-03T00:00:00Z'));
+        await SubmitSeedRequest(user3, 'tomato-123', collections);
+
+        result = await CancelExchange(user2, offer.filledExchanges[0].id, 'Seeds did not germinate', collections, {
+          requeueCounterparty: true
+        });
+      } finally {
+        jest.useRealTimers();
+      }
+      const originalTime = early.remainingRequest!.seedRequestTime;
+
+      expect(result.requeuedExchange?.status).toBe('open-request');
+      expect(result.requeuedExchange?.requestUserId).toBe('user-1');
+      expect(result.requeuedExchange?.quantity).toBe(2);
+      expect(result.requeuedExchange?.seedRequestTime).toEqual(originalTime);
+
+      // user-1 is back ahead of user-3 in the FIFO queue
+      const openRequests = await collections.getOpenRequestsByPlant('tomato-123');
+      expect(openRequests.map(request => request.requestUserId)).toEqual(['user-1', 'user-3']);
+    });
+
+    it('should requeue the offerer when the requester cancels', async () => {
+      await SubmitSeedOffer(user1, 'tomato-123', 3, collections);
+      const request = await SubmitSeedRequest(user2, 'tomato-123', collections, 3);
+
+      const result = await CancelExchange(user2, request.exchange!.id, 'Moved away', collections, {
+        requeueCounterparty: true
+      });
+
+      expect(result.requeuedExchange?.status).toBe('open-offer');
+      expect(result.requeuedExchange?.offerUserId).toBe('user-1');
+      expect(result.requeuedExchange?.quantity).toBe(3);
+    });
+
+    it('should rematch the requeued side against entries already waiting in the queue', async () => {
+      await SubmitSeedRequest(user1, 'tomato-123', collections, 2);
+      const offer = await SubmitSeedOffer(user2, 'tomato-123', 2, collections);
+      // user-3's offer waits because there are no open requests left
+      await SubmitSeedOffer(user3, 'tomato-123', 1, collections);
+
+      const result = await CancelExchange(user2, offer.filledExchanges[0].id, 'Ran out of seed', collections, {
+        requeueCounterparty: true
+      });
+
+      expect(result.rematchedExchanges).toHaveLength(1);
+      expect(result.rematchedExchanges[0].requestUserId).toBe('user-1');
+      expect(result.rematchedExchanges[0].offerUserId).toBe('user-3');
+      expect(result.requeuedExchange?.quantity).toBe(1);
+      expect(await collections.getOpenOffersByPlant('tomato-123')).toHaveLength(0);
+
+      const openRequests = await collections.getOpenRequestsByPlant('tomato-123');
+      expect(openRequests).toHaveLength(1);
+      expect(openRequests[0].quantity).toBe(1);
+    });
+
+    it('should reject cancellation after the exchange has shipped', async () => {
+      await SubmitSeedRequest(user1, 'tomato-123', collections);
+      const offer = await SubmitSeedOffer(user2, 'tomato-123', 1, collections);
+      await MarkShipped(user2, offer.filledExchanges[0].id, collections);
+
+      await expect(CancelExchange(user1, offer.filledExchanges[0].id, 'Too slow', collections))
+        .rejects.toThrow(InvalidStateError);
+    });
+
+    it('should reject cancellation of open entries', async () => {
+      const request = await SubmitSeedRequest(user1, 'tomato-123', collections);
+
+      await expect(CancelExchange(user1, request.remainingRequest!.id, 'Changed my mind', collections))
+        .rejects.toThrow(InvalidStateError);
+    });
+
+    it('should reject cancellation by someone outside the exchange', async () => {
+      await SubmitSeedRequest(user1, 'tomato-123', collections);
+      const offer = await SubmitSeedOffer(user2, 'tomato-123', 1, collections);
+
+      await expect(CancelExchange(user3, offer.filledExchanges[0].id, 'Meddling', collections))
+        .rejects.toMatchObject({ code: 'NOT_EXCHANGE_PARTY' });
+    });
+
+    it('should require a reason', async () => {
+      await SubmitSeedRequest(user1, 'tomato-123', collections);
+      const offer = await SubmitSeedOffer(user2, 'tomato-123', 1, collections);
+
+      await expect(CancelExchange(user2, offer.filledExchanges[0].id, '   ', collections))
+        .rejects.toMatchObject({ code: 'INVALID_CANCELLATION_REASON' });
+      expect((await collections.getExchange(offer.filledExchanges[0].id))?.status).toBe('confirmed');
+    });
+
+    it('should leave the exchange confirmed if the requeue write fails', async () => {
+      await SubmitSeedRequest(user1, 'tomato-123', collections);
+      const offer = await SubmitSeedOffer(user2, 'tomato-123', 1, collections);
+      jest.spyOn(collections, 'executeBatch').mockRejectedValueOnce(new Error('Storage unavailable'));
+
+      await expect(CancelExchange(user2, offer.filledExchanges[0].id, 'Ran out of seed', collections, {
+        requeueCounterparty: true
+      })).rejects.toThrow('Storage unavailable');
+
+      expect((await collections.getExchange(offer.filledExchanges[0].id))?.status).toBe('confirmed');
+      expect(await collections.getOpenRequestsByPlant('tomato-123')).toHaveLength(0);
+    });
+  });
+
+  describe('Disputes', () => {
+    let admin: AzureUserToken;
+    let exchangeId: string;
+
+    beforeEach(async () => {
+      admin = { userId: 'admin-1', roles: [ADMIN_ROLE] };
+      await SubmitSeedRequest(user1, 'tomato-123', collections, 2);
+      const offer = await SubmitSeedOffer(user2, 'tomato-123', 2, collections);
+      exchangeId = offer.filledExchanges[0].id;
+      await MarkShipped(user2, exchangeId, collections);
+    });
+
+    it('should let the requester dispute a shipped exchange', async () => {
+      const result = await OpenDispute(user1, exchangeId, ' Never arrived ', collections);
+
+      expect(result.disputedExchange?.status).toBe('disputed');
+      expect(result.disputedExchange?.dispute).toEqual({
+        openedByUserId: 'user-1',
+        reason: 'Never arrived',
+        openTime: expect.any(Date)
+      });
+      expect((await collections.getExchange(exchangeId))?.status).toBe('disputed');
+    });
+
+    it('should let the requester dispute a received exchange with the wrong plant', async () => {
+      await MarkReceived(user1, exchangeId, collections);
+
+      const result = await OpenDispute(user1, exchangeId, 'These are marigolds', collections);
+
+      expect(result.disputedExchange?.status).toBe('disputed');
+    });
+
+    it('should only allow disputes after shipping, by the requester, once', async () => {
+      await SubmitSeedRequest(user3, 'pepper-1', collections);
+      const unshipped = await SubmitSeedOffer(user2, 'pepper-1', 1, collections);
+
+      await expect(OpenDispute(user3, unshipped.filledExchanges[0].id, 'Too slow', collections))
+        .rejects.toThrow(InvalidStateError);
+      await expect(OpenDispute(user2, exchangeId, 'Never arrived', collections))
+        .rejects.toMatchObject({ code: 'NOT_EXCHANGE_REQUESTER' });
+      await expect(OpenDispute(user1, exchangeId, '', collections))
+        .rejects.toMatchObject({ code: 'INVALID_DISPUTE_REASON' });
+
+      await OpenDispute(user1, exchangeId, 'Never arrived', collections);
+      await ResolveDispute(admin, exchangeId, 'closed', 'Tracking shows delivery', collections);
+
+      await expect(OpenDispute(user1, exchangeId, 'Still missing', collections))
+        .rejects.toMatchObject({ code: 'DISPUTE_ALREADY_OPENED' });
+    });
+
+    it('should record a single response from the offerer', async () => {
+      await OpenDispute(user1, exchangeId, 'Never arrived', collections);
+
+      await expect(RespondToDispute(user1, exchangeId, 'Me again', collections))
+        .rejects.toMatchObject({ code: 'NOT_EXCHANGE_OFFERER' });
+
+      const result = await RespondToDispute(user2, exchangeId, 'Posted on the 3rd', collections);
+
+      expect(result.disputedExchange?.dispute?.response).toEqual({
+        message: 'Posted on the 3rd',
+        responseTime: expect.any(Date)
+      });
+      expect((await collections.getExchange(exchangeId))?.dispute?.response?.message).toBe('Posted on the 3rd');
+      await expect(RespondToDispute(user2, exchangeId, 'Also...', collections))
+        .rejects.toMatchObject({ code: 'DISPUTE_ALREADY_ANSWERED' });
+    });
+
+    it('should reject responses when there is no open dispute', async () => {
+      await expect(RespondToDispute(user2, exchangeId, 'Posted on the 3rd', collections))
+        .rejects.toThrow(InvalidStateError);
+    });
+
+    it('should only let admins resolve disputes', async () => {
+      await OpenDispute(user1, exchangeId, 'Never arrived', collections);
+
+      await expect(ResolveDispute(user1, exchangeId, 'refund', undefined, collections))
+        .rejects.toMatchObject({ code: 'NOT_ADMIN' });
+      await expect(ResolveDispute(admin, exchangeId, 'bogus' as never, undefined, collections))
+        .rejects.toMatchObject({ code: 'INVALID_DISPUTE_OUTCOME' });
+      expect((await collections.getExchange(exchangeId))?.status).toBe('disputed');
+    });
+
+    it('should cancel and requeue the requester at their original time on refund', async () => {
+      const originalTime = (await collections.getExchange(exchangeId))!.seedRequestTime;
+      await OpenDispute(user1, exchangeId, 'Never arrived', collections);
+
+      const result = await ResolveDispute(admin, exchangeId, 'refund', 'No tracking provided', collections);
+
+      expect(result.resolvedExchange?.status).toBe('cancelled');
+      expect(result.resolvedExchange?.dispute?.resolution).toEqual({
+        outcome: 'refund',
+        resolvedByUserId: 'admin-1',
+        note: 'No tracking provided',
+        resolveTime: expect.any(Date)
+      });
+      expect(result.requeuedExchange?.requestUserId).toBe('user-1');
+      expect(result.requeuedExchange?.quantity).toBe(2);
+      expect(result.requeuedExchange?.seedRequestTime).toEqual(originalTime);
+      expect(result.rematchedExchanges).toHaveLength(0);
+    });
+
+    it('should rematch a refunded request against waiting offers', async () => {
+      await SubmitSeedOffer(user3, 'tomato-123', 2, collections);
+      await OpenDispute(user1, exchangeId, 'Wrong plant', collections);
+
+      const result = await ResolveDispute(admin, exchangeId, 'fraudulent', undefined, collections);
+
+      expect(result.resolvedExchange?.dispute?.resolution?.outcome).toBe('fraudulent');
+      expect(result.rematchedExchanges).toHaveLength(1);
+      expect(result.rematchedExchanges[0].offerUserId).toBe('user-3');
+      expect(result.requeuedExchange).toBeUndefined();
+    });
+
+    it('should treat the exchange as received when the dispute is closed', async () => {
+      await OpenDispute(user1, exchangeId, 'Never arrived', collections);
+
+      const result = await ResolveDispute(admin, exchangeId, 'closed', undefined, collections);
+
+      expect(result.resolvedExchange?.status).toBe('received');
+      expect(result.resolvedExchange?.receivedTime).toEqual(expect.any(Date));
+      expect(result.requeuedExchange).toBeUndefined();
+      expect(await collections.getOpenRequestsByPlant('tomato-123')).toHaveLength(0);
+    });
 
-      expect(withdrawResult.success).toBe(false);
-      expect(withdrawResult.withdrawnExchange).toBeUndefined();
+    it('should let admins read exchanges they are not party to', async () => {
+      await expect(GetExchange(admin, exchangeId, collections)).resolves.toMatchObject({ id: exchangeId });
+      await expect(GetExchange(user3, exchangeId, collections)).rejects.toThrow(ForbiddenError);
     });
   });
 
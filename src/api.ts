@@ -1,6 +1,408 @@
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { AzureUserToken, SubmitSeedOfferResult, SubmitSeedRequestResult, SeedExchange, WithdrawResult } from './types';
-import { ISeedExchangeCollections } from './ISeedExchangeCollections';
+import {
+  AzureUserToken,
+  SubmitSeedOfferResult,
+  SubmitSeedRequestResult,
+  SeedExchange,
+  WithdrawResult,
+  MarkShippedResult,
+  MarkReceivedResult,
+  CancelExchangeResult,
+  DisputeOutcome,
+  DisputeResult,
+  ResolveDisputeResult,
+  AuditAction,
+  AuditLogEntry
+} from './types';
+import {
+  ISeedExchangeCollections,
+  ExchangeWriteOperation,
+  ExchangeFilter,
+  ExchangePage,
+  PageOptions
+} from './ISeedExchangeCollections';
+import { canTransition, isMatchedStatus, isOpenStatus, transitionExchange } from './exchangeStatus';
+import { ExchangeConfig, ExchangeOptions, CancelExchangeOptions, resolveExchangeConfig } from './exchangeConfig';
+import { isStaleOpenEntry } from './expiry';
+import { isAdmin } from './roles';
+import { createExchangeId } from './exchangeIds';
+import { AuditedSeedExchangeCollections } from './auditLog';
+import { IAuditLog } from './IAuditLog';
+import {
+  IWebhookStore,
+  WebhookSubscription,
+  WebhookSubscriptionSummary,
+  WebhookDelivery,
+  WebhookDeliveryStatus
+} from './IWebhookStore';
+import { DOMAIN_EVENT_TYPES, DomainEventType } from './domainEvents';
+import { INotificationStore, NotificationEventType, NotificationPreferences } from './INotificationStore';
+import { NOTIFICATION_EVENT_TYPES, defaultNotificationPreferences } from './notifications';
+import {
+  IUserProfileStore,
+  PostalAddress,
+  ShippingAddress,
+  UserProfile,
+  UserProfilePreferences
+} from './IUserProfileStore';
+import { defaultUserProfile } from './userProfiles';
+import { ReputationTracker } from './reputation';
+import { CreditLedger } from './ledger';
+import { CreditBalance, CreditStatement, LedgerRange } from './ILedgerStore';
+import { getWebhookAllowedHosts, validateWebhookUrl } from './webhooks';
+import {
+  NotFoundError,
+  ForbiddenError,
+  InvalidStateError,
+  ValidationError,
+  ConflictError,
+  SeedExchangeErrorCode
+} from './errors';
+
+/**
+ * Number of times the matching loop re-reads the queue after losing a race
+ * for an open entry before recording the remainder as a new open entry
+ */
+const MAX_MATCH_ATTEMPTS = 5;
+
+/**
+ * Ensure a plant id is a non-empty string
+ */
+function validatePlantId(plantId: string): void {
+  if (typeof plantId !== 'string' || plantId.trim() === '') {
+    throw new ValidationError('Plant id must be a non-empty string', 'INVALID_PLANT_ID');
+  }
+}
+
+/**
+ * Validate a plant id and, when a catalog is configured, resolve it to the catalog's canonical id
+ * so that aliases and differently-formatted names trade in the same market
+ */
+async function resolvePlantId(plantId: string, options: ExchangeOptions): Promise<string> {
+  validatePlantId(plantId);
+  if (!options.catalog) {
+    return plantId;
+  }
+
+  const plant = await options.catalog.findPlant(plantId);
+  if (!plant) {
+    throw new ValidationError(`Plant "${plantId}" is not in the plant catalog`, 'UNKNOWN_PLANT_ID');
+  }
+  return plant.id;
+}
+
+/**
+ * Ensure a packet quantity is a positive whole number
+ */
+function validatePacketQuantity(packetQuantity: number): void {
+  if (!Number.isInteger(packetQuantity) || packetQuantity <= 0) {
+    throw new ValidationError(
+      `Packet quantity must be a positive integer, got ${packetQuantity}`,
+      'INVALID_QUANTITY'
+    );
+  }
+}
+
+/**
+ * Ensure free text such as a reason or message is a non-blank string within a length limit
+ * @returns The text with surrounding whitespace removed
+ */
+function validateText(
+  text: string,
+  maxLength: number,
+  description: string,
+  code: SeedExchangeErrorCode
+): string {
+  const trimmed = typeof text === 'string' ? text.trim() : '';
+  if (trimmed === '' || trimmed.length > maxLength) {
+    throw new ValidationError(`${description} must be between 1 and ${maxLength} characters`, code);
+  }
+  return trimmed;
+}
+
+/**
+ * Record writes made on the user's behalf in the audit log, when one is configured
+ */
+function auditCollections(
+  collections: ISeedExchangeCollections,
+  options: ExchangeOptions,
+  authToken: AzureUserToken,
+  action: AuditAction
+): ISeedExchangeCollections {
+  return options.auditLog
+    ? new AuditedSeedExchangeCollections(collections, options.auditLog, { actorUserId: authToken.userId, action })
+    : collections;
+}
+
+/**
+ * Remember the caller's email address and name from their token, so the notification outbox can
+ * reach them when their exchange moves on. Does nothing without a notification store or an email.
+ */
+async function recordNotificationContact(authToken: AzureUserToken, notificationStore?: INotificationStore): Promise<void> {
+  if (!notificationStore || !authToken.email) {
+    return;
+  }
+
+  const preferences = await notificationStore.getPreferences(authToken.userId);
+  if (preferences?.email === authToken.email && preferences.name === authToken.name) {
+    return;
+  }
+  await notificationStore.setPreferences({
+    ...(preferences ?? defaultNotificationPreferences(authToken.userId)),
+    email: authToken.email,
+    name: authToken.name,
+    updatedTime: new Date()
+  });
+}
+
+/**
+ * Load an exchange or fail with a NotFoundError
+ */
+async function getExistingExchange(
+  collections: ISeedExchangeCollections,
+  exchangeId: string
+): Promise<SeedExchange> {
+  const exchange = await collections.getExchange(exchangeId);
+  if (!exchange) {
+    throw new NotFoundError(`Exchange ${exchangeId} was not found`);
+  }
+  return exchange;
+}
+
+/**
+ * Which side of the market an entry being matched is on
+ */
+type MarketSide = 'request' | 'offer';
+
+/**
+ * Quantity to match against the opposite side's open queue
+ */
+interface FillParameters {
+  side: MarketSide;
+  userId: string;
+  plantId: string;
+  quantity: number;
+  /** Request or offer time recorded on confirmed exchanges for this side */
+  entryTime: Date;
+  /** Confirmation time, also used to skip stale entries */
+  now: Date;
+  config: ExchangeConfig;
+  /** Reputation scores checked against `config.minReputationScore` */
+  reputation?: ReputationTracker;
+  /**
+   * Existing open entry the quantity is drawn from. Each claim also shrinks or deletes it
+   * in the same batch, so a concurrent match of the source cannot double-fill it.
+   */
+  source?: SeedExchange;
+}
+
+/**
+ * Build a new open entry with the status, user and request/offer time of `entry`.
+ * Keeping the original time means the new entry does not lose its FIFO place.
+ */
+function createOpenEntry(entry: SeedExchange, quantity: number): SeedExchange {
+  return {
+    id: createExchangeId(entry.plantId),
+    plantId: entry.plantId,
+    status: entry.status,
+    requestUserId: entry.requestUserId,
+    offerUserId: entry.offerUserId,
+    quantity,
+    seedRequestTime: entry.seedRequestTime,
+    seedOfferTime: entry.seedOfferTime,
+    confirmationTime: null,
+    shipTime: null,
+    receivedTime: null
+  };
+}
+
+/**
+ * Check whether a user's reputation is high enough to be matched.
+ * Everyone qualifies when no reputation tracker or minimum score is configured.
+ */
+async function meetsMinimumReputation(
+  userId: string,
+  config: ExchangeConfig,
+  reputation: ReputationTracker | undefined,
+  now: Date
+): Promise<boolean> {
+  if (!reputation || config.minReputationScore <= 0) {
+    return true;
+  }
+  return (await reputation.getUserReputation(userId, now)).score >= config.minReputationScore;
+}
+
+/**
+ * Ensure a user has the credits for a request
+ * @throws ValidationError if the request would take the user's available credits below the overdraft limit
+ */
+function requireCredits({ available }: CreditBalance, quantity: number, config: ExchangeConfig): void {
+  if (available - quantity < -config.creditOverdraftLimit) {
+    throw new ValidationError(
+      `Requesting ${quantity} packets needs more credits than the ${available} available; offer seeds to earn more`,
+      'INSUFFICIENT_CREDITS'
+    );
+  }
+}
+
+/**
+ * Fill as much of a quantity as possible from the opposite side's open queue (FIFO).
+ * Each claim is conditional on the claimed entry's etag, so if another submission
+ * claims it first the queue is read again.
+ * @returns The confirmed exchanges and the quantity left unfilled
+ */
+async function fillFromOpenQueue(
+  collections: ISeedExchangeCollections,
+  fill: FillParameters
+): Promise<{ filledExchanges: SeedExchange[]; remainingQuantity: number }> {
+  const { side, userId, plantId, entryTime, now, config, reputation } = fill;
+  const filledExchanges: SeedExchange[] = [];
+  let remainingQuantity = fill.quantity;
+  let source = fill.source;
+
+  // Users below the minimum reputation wait in the queue unmatched, and are passed over by others
+  if (!(await meetsMinimumReputation(userId, config, reputation, now))) {
+    return { filledExchanges, remainingQuantity };
+  }
+  const qualified = new Map<string, boolean>();
+
+  for (let attempt = 1; remainingQuantity > 0 && attempt <= MAX_MATCH_ATTEMPTS; attempt++) {
+    // Get all open entries on the other side for this plant, sorted by timestamp (FIFO)
+    const openEntries = side === 'offer'
+      ? await collections.getOpenRequestsByPlant(plantId)
+      : await collections.getOpenOffersByPlant(plantId);
+    let conflicted = false;
+
+    for (const entry of openEntries) {
+      if (remainingQuantity <= 0) break;
+
+      // Don't match your own requests or offers
+      const entryUserId = side === 'offer' ? entry.requestUserId : entry.offerUserId;
+      if (entryUserId === userId) continue;
+
+      // Skip entries that have outlived their TTL but not yet been swept
+      if (isStaleOpenEntry(entry, now, config)) continue;
+
+      if (entryUserId && !qualified.has(entryUserId)) {
+        qualified.set(entryUserId, await meetsMinimumReputation(entryUserId, config, reputation, now));
+      }
+      if (entryUserId && !qualified.get(entryUserId)) continue;
+
+      const quantityToFill = Math.min(remainingQuantity, entry.quantity);
+
+      // Update the open entry to become a confirmed exchange
+      const confirmedExchange = transitionExchange(entry, 'confirmed', {
+        ...(side === 'offer'
+          ? { offerUserId: userId, seedOfferTime: entryTime }
+          : { requestUserId: userId, seedRequestTime: entryTime }),
+        confirmationTime: now,
+        quantity: quantityToFill,
+        shipTime: null,
+        receivedTime: null
+      }, now);
+
+      const operations: ExchangeWriteOperation[] = [
+        { type: 'replace', exchange: confirmedExchange, ifMatch: entry.etag }
+      ];
+
+      // If the entry is only partially filled, create a new open entry for the remainder
+      if (entry.quantity > quantityToFill) {
+        operations.push({ type: 'create', exchange: createOpenEntry(entry, entry.quantity - quantityToFill) });
+      }
+
+      // Draw the filled packets from the source entry, if any
+      if (source) {
+        operations.push(source.quantity > quantityToFill
+          ? { type: 'replace', exchange: { ...source, quantity: source.quantity - quantityToFill }, ifMatch: source.etag }
+          : { type: 'delete', id: source.id, plantId: source.plantId, ifMatch: source.etag });
+      }
+
+      // Commit the match and any remainder together so no packets are lost
+      try {
+        await collections.executeBatch(operations);
+        filledExchanges.push(confirmedExchange);
+        remainingQuantity -= quantityToFill;
+      } catch (error) {
+        if (!(error instanceof ConflictError)) {
+          throw error;
+        }
+        // Another submission claimed this entry (or the source) first
+        conflicted = true;
+      }
+
+      if (source) {
+        // Pick up the source's new etag, or stop if someone else has matched or withdrawn it
+        const current = await collections.getExchange(source.id, source.plantId);
+        if (!current || !isOpenStatus(current.status)) {
+          return { filledExchanges, remainingQuantity: 0 };
+        }
+        source = current;
+        remainingQuantity = current.quantity;
+      }
+    }
+
+    if (!conflicted) break;
+  }
+
+  return { filledExchanges, remainingQuantity };
+}
+
+/**
+ * Write a closed exchange together with one of its sides returned to the open queue at its
+ * original time, then match the requeued entry against entries already waiting on the other side.
+ * @param exchange - The matched exchange as it was read, for the etag and the requeued side's details
+ * @param closedExchange - The exchange in its new, closed status
+ * @param side - Which side of the exchange to requeue
+ * @returns The requeued entry if any of it is still open, and the exchanges it was rematched into
+ */
+async function closeAndRequeue(
+  collections: ISeedExchangeCollections,
+  exchange: SeedExchange,
+  closedExchange: SeedExchange,
+  side: MarketSide,
+  now: Date,
+  config: ExchangeConfig,
+  reputation?: ReputationTracker
+): Promise<{ requeuedExchange?: SeedExchange; rematchedExchanges: SeedExchange[] }> {
+  const requeued = side === 'request'
+    ? createOpenEntry({ ...exchange, status: 'open-request', offerUserId: null, seedOfferTime: null }, exchange.quantity)
+    : createOpenEntry({ ...exchange, status: 'open-offer', requestUserId: null, seedRequestTime: null }, exchange.quantity);
+
+  // Close and requeue together so the requeued party never loses their packets
+  await collections.executeBatch([
+    { type: 'replace', exchange: closedExchange, ifMatch: exchange.etag },
+    { type: 'create', exchange: requeued }
+  ]);
+
+  // The other side of the market may already have open entries waiting, which would otherwise
+  // sit unmatched next to the requeued entry until someone new submits
+  const source = await collections.getExchange(requeued.id, requeued.plantId);
+  let rematchedExchanges: SeedExchange[] = [];
+  if (source && !isStaleOpenEntry(source, now, config)) {
+    // Matched exchanges always have both parties set
+    const userId = (side === 'request' ? exchange.requestUserId : exchange.offerUserId) as string;
+    const entryTime = (side === 'request' ? exchange.seedRequestTime : exchange.seedOfferTime) ?? now;
+
+    ({ filledExchanges: rematchedExchanges } = await fillFromOpenQueue(collections, {
+      side,
+      userId,
+      plantId: source.plantId,
+      quantity: source.quantity,
+      entryTime,
+      now,
+      config,
+      reputation,
+      source
+    }));
+  }
+
+  const requeuedExchange = await collections.getExchange(requeued.id, requeued.plantId);
+  return {
+    requeuedExchange: requeuedExchange && isOpenStatus(requeuedExchange.status) ? requeuedExchange : undefined,
+    rematchedExchanges
+  };
+}
 
 /**
  * Submit a seed offer to the exchange
@@ -8,72 +410,45 @@ import { ISeedExchangeCollections } from './ISeedExchangeCollections';
  * @param plantId - ID of the plant being offered
  * @param packetQuantity - Number of packets being offered
  * @param collections - Collection manager instance
+ * @param options - Optional operator settings overrides
  * @returns Result containing filled exchanges and any remaining offer
+ * @throws ValidationError if the plant id or packet quantity is invalid, or the plant is not in the catalog
  */
 export async function SubmitSeedOffer(
   authToken: AzureUserToken,
   plantId: string,
   packetQuantity: number,
-  collections: ISeedExchangeCollections
+  collections: ISeedExchangeCollections,
+  options: ExchangeOptions = {}
 ): Promise<SubmitSeedOfferResult> {
-  const filledExchanges: SeedExchange[] = [];
-  let remainingQuantity = packetQuantity;
-  const timestamp = new Date();
+  collections = auditCollections(collections, options, authToken, 'submit-offer');
+  const config = resolveExchangeConfig(options);
 
-  // Get all open requests for this plant, sorted by timestamp (FIFO)
-  const openRequests = await collections.getOpenRequestsByPlant(plantId);
+  plantId = await resolvePlantId(plantId, options);
+  validatePacketQuantity(packetQuantity);
+  await recordNotificationContact(authToken, options.notificationStore);
 
-  // Fill as many requests as possible
-  for (const request of openRequests) {
-    if (remainingQuantity <= 0) break;
-
-    // Don't fill your own requests
-    if (request.requestUserId === authToken.userId) continue;
-
-    const quantityToFill = Math.min(remainingQuantity, request.quantity);
-
-    // Update the request to become a confirmed exchange
-    const confirmedExchange: SeedExchange = {
-      ...request,
-      offerUserId: authToken.userId,
-      seedOfferTime: timestamp,
-      confirmationTime: timestamp,
-      quantity: quantityToFill,
-      shipTime: null,
-      receivedTime: null
-    };
+  const timestamp = new Date();
 
-    filledExchanges.push(confirmedExchange);
-    await collections.updateExchange(confirmedExchange);
-
-    // Update remaining quantities
-    remainingQuantity -= quantityToFill;
-    const updatedQuantity = request.quantity - quantityToFill;
-
-    // If request is partially filled, create a new request for the remainder
-    if (updatedQuantity > 0) {
-      const remainderRequest: SeedExchange = {
-        id: uuidv4(),
-        plantId: request.plantId,
-        requestUserId: request.requestUserId,
-        offerUserId: null,
-        quantity: updatedQuantity,
-        seedRequestTime: request.seedRequestTime,
-        seedOfferTime: null,
-        confirmationTime: null,
-        shipTime: null,
-        receivedTime: null
-      };
-      await collections.addExchange(remainderRequest);
-    }
-  }
+  // Fill as many requests as possible
+  const { filledExchanges, remainingQuantity } = await fillFromOpenQueue(collections, {
+    side: 'offer',
+    userId: authToken.userId,
+    plantId,
+    quantity: packetQuantity,
+    entryTime: timestamp,
+    now: timestamp,
+    config,
+    reputation: options.reputation
+  });
 
   // Record remaining quantity as an open offer if any
   let remainingOffer: SeedExchange | undefined;
   if (remainingQuantity > 0) {
     remainingOffer = {
-      id: uuidv4(),
+      id: createExchangeId(plantId),
       plantId,
+      status: 'open-offer',
       requestUserId: null,
       offerUserId: authToken.userId,
       quantity: remainingQuantity,
@@ -94,77 +469,148 @@ export async function SubmitSeedOffer(
  * @param authToken - Azure user authentication token
  * @param plantId - ID of the plant being requested
  * @param collections - Collection manager instance
- * @returns Result indicating if request was filled or remains open
+ * @param packetQuantity - Number of packets being requested (default: 1)
+ * @param options - Optional operator settings overrides
+ * @returns Result containing filled exchanges and any remaining request
+ * @throws ValidationError if the plant id or packet quantity is invalid, the plant is not in the catalog,
+ * or a credit ledger is configured and the user lacks the credits
  */
 export async function SubmitSeedRequest(
   authToken: AzureUserToken,
   plantId: string,
-  collections: ISeedExchangeCollections
+  collections: ISeedExchangeCollections,
+  packetQuantity = 1,
+  options: ExchangeOptions = {}
 ): Promise<SubmitSeedRequestResult> {
-  const timestamp = new Date();
-  const requestQuantity = 1; // Always one packet per request
-
-  // Get all open offers for this plant, sorted by timestamp (FIFO)
-  const openOffers = await collections.getOpenOffersByPlant(plantId);
-
-  // Try to fill from the first available offer
-  for (const offer of openOffers) {
-    // Don't fill from your own offers
-    if (offer.offerUserId === authToken.userId) continue;
-
-    if (offer.quantity >= requestQuantity) {
-      // Update the offer to become a confirmed exchange
-      const confirmedExchange: SeedExchange = {
-        ...offer,
-        requestUserId: authToken.userId,
-        seedRequestTime: timestamp,
-        confirmationTime: timestamp,
-        quantity: requestQuantity,
-        shipTime: null,
-        receivedTime: null
-      };
-
-      await collections.updateExchange(confirmedExchange);
-
-      // Update the offer quantity
-      const updatedQuantity = offer.quantity - requestQuantity;
-      if (updatedQuantity > 0) {
-        // Create a new offer for the remainder
-        const remainderOffer: SeedExchange = {
-          id: uuidv4(),
-          plantId: offer.plantId,
-          requestUserId: null,
-          offerUserId: offer.offerUserId,
-          quantity: updatedQuantity,
-          seedRequestTime: null,
-          seedOfferTime: offer.seedOfferTime,
-          confirmationTime: null,
-          shipTime: null,
-          receivedTime: null
-        };
-        await collections.addExchange(remainderOffer);
-      }
+  collections = auditCollections(collections, options, authToken, 'submit-request');
+  const config = resolveExchangeConfig(options);
 
-      return { filled: true, exchange: confirmedExchange };
-    }
+  plantId = await resolvePlantId(plantId, options);
+  validatePacketQuantity(packetQuantity);
+  if (packetQuantity > config.maxRequestQuantity) {
+    throw new ValidationError(
+      `Cannot request more than ${config.maxRequestQuantity} packets at once`,
+      'QUANTITY_LIMIT_EXCEEDED'
+    );
   }
 
-  // No offer found, create an open request
-  const remainingRequest: SeedExchange = {
-    id: uuidv4(),
+  const { ledger } = options;
+  if (!ledger) {
+    return placeSeedRequest(authToken, plantId, collections, packetQuantity, config, options);
+  }
+  // Hold the credits while placing the request, so concurrent requests cannot overdraw
+  return ledger.holdCredits(
+    authToken.userId,
+    packetQuantity,
+    collections,
+    balance => requireCredits(balance, packetQuantity, config),
+    () => placeSeedRequest(authToken, plantId, collections, packetQuantity, config, options)
+  );
+}
+
+/**
+ * Fill a validated seed request from open offers and queue any remainder
+ */
+async function placeSeedRequest(
+  authToken: AzureUserToken,
+  plantId: string,
+  collections: ISeedExchangeCollections,
+  packetQuantity: number,
+  config: ExchangeConfig,
+  options: ExchangeOptions
+): Promise<SubmitSeedRequestResult> {
+  await recordNotificationContact(authToken, options.notificationStore);
+
+  const timestamp = new Date();
+
+  // Fill from as many offers as needed
+  const { filledExchanges, remainingQuantity } = await fillFromOpenQueue(collections, {
+    side: 'request',
+    userId: authToken.userId,
     plantId,
-    requestUserId: authToken.userId,
-    offerUserId: null,
-    quantity: requestQuantity,
-    seedRequestTime: timestamp,
-    seedOfferTime: null,
-    confirmationTime: null,
-    shipTime: null,
-    receivedTime: null
+    quantity: packetQuantity,
+    entryTime: timestamp,
+    now: timestamp,
+    config,
+    reputation: options.reputation
+  });
+
+  // Record remaining quantity as an open request if any
+  let remainingRequest: SeedExchange | undefined;
+  if (remainingQuantity > 0) {
+    remainingRequest = {
+      id: createExchangeId(plantId),
+      plantId,
+      status: 'open-request',
+      requestUserId: authToken.userId,
+      offerUserId: null,
+      quantity: remainingQuantity,
+      seedRequestTime: timestamp,
+      seedOfferTime: null,
+      confirmationTime: null,
+      shipTime: null,
+      receivedTime: null
+    };
+    await collections.addExchange(remainingRequest);
+  }
+
+  return {
+    filled: remainingRequest === undefined,
+    exchange: filledExchanges[0],
+    filledExchanges,
+    remainingRequest
   };
-  await collections.addExchange(remainingRequest);
+}
+
+/**
+ * Get a single exchange the user is a party to. Admins can read any exchange.
+ * @param authToken - Azure user authentication token
+ * @param exchangeId - ID of the exchange
+ * @param collections - Collection manager instance
+ * @returns The exchange
+ * @throws NotFoundError if the exchange does not exist
+ * @throws ForbiddenError if the user is neither the requester nor the offerer
+ */
+export async function GetExchange(
+  authToken: AzureUserToken,
+  exchangeId: string,
+  collections: ISeedExchangeCollections
+): Promise<SeedExchange> {
+  const exchange = await getExistingExchange(collections, exchangeId);
+
+  const isParty = exchange.requestUserId === authToken.userId || exchange.offerUserId === authToken.userId;
+  if (!isParty && !isAdmin(authToken)) {
+    throw new ForbiddenError(`Exchange ${exchangeId} does not involve the current user`, 'NOT_EXCHANGE_PARTY');
+  }
+
+  return exchange;
+}
+
+/**
+ * Search exchanges by status, plant, user, role and time ranges, one page at a time.
+ * Admins can search every exchange; other users only their own, so their filter is scoped to them.
+ * @param authToken - Azure user authentication token
+ * @param filter - Search criteria and sort order
+ * @param collections - Collection manager instance
+ * @param pageOptions - Page size and the continuation token from the previous page
+ * @returns One page of matching exchanges
+ * @throws ForbiddenError if a non-admin filters on another user
+ * @throws ValidationError if the filter, page size or continuation token is invalid
+ */
+export async function SearchExchanges(
+  authToken: AzureUserToken,
+  filter: ExchangeFilter,
+  collections: ISeedExchangeCollections,
+  pageOptions: PageOptions = {}
+): Promise<ExchangePage> {
+  if (!isAdmin(authToken)) {
+    if (filter.userId !== undefined && filter.userId !== authToken.userId) {
+      throw new ForbiddenError('Only admins can search the exchanges of other users', 'NOT_ADMIN');
+    }
+    filter = { ...filter, userId: authToken.userId };
+  }
 
-  return { filled: false, remainingRequest };
+  return collections.searchExchanges(filter, pageOptions);
 }
 
 /**
@@ -172,36 +618,923 @@ export async function SubmitSeedRequest(
  * @param authToken - Azure user authentication token
  * @param exchangeId - ID of the exchange to withdraw
  * @param collections - Collection manager instance
- * @returns Result indicating if withdrawal was successful
+ * @param options - Optional services, such as the audit log that records the change
+ * @returns Result containing the withdrawn exchange
+ * @throws NotFoundError if the exchange does not exist
+ * @throws InvalidStateError if the exchange is no longer open
+ * @throws ForbiddenError if the user does not own the request or offer
+ * @throws ConflictError if the entry was matched or changed while it was being withdrawn
  */
 export async function Withdraw(
   authToken: AzureUserToken,
   exchangeId: string,
-  collections: ISeedExchangeCollections
+  collections: ISeedExchangeCollections,
+  options: ExchangeOptions = {}
 ): Promise<WithdrawResult> {
-  const exchange = await collections.getExchange(exchangeId);
-
-  if (!exchange) {
-    return { success: false };
-  }
+  collections = auditCollections(collections, options, authToken, 'withdraw');
+  const exchange = await getExistingExchange(collections, exchangeId);
 
   // Check if the exchange is open (not yet confirmed)
-  if (exchange.confirmationTime !== null) {
+  if (!isOpenStatus(exchange.status) || !canTransition(exchange.status, 'cancelled')) {
     // Cannot withdraw a confirmed exchange
-    return { success: false };
+    throw new InvalidStateError(
+      `Exchange ${exchangeId} is ${exchange.status} and can no longer be withdrawn`,
+      'EXCHANGE_NOT_OPEN'
+    );
   }
 
   // Check if the user owns this request or offer
-  const isOwner = 
-    (exchange.requestUserId === authToken.userId && exchange.offerUserId === null) ||
-    (exchange.offerUserId === authToken.userId && exchange.requestUserId === null);
+  const isOwner = exchange.status === 'open-request'
+    ? exchange.requestUserId === authToken.userId
+    : exchange.offerUserId === authToken.userId;
 
   if (!isOwner) {
-    return { success: false };
+    throw new ForbiddenError(`Exchange ${exchangeId} does not belong to the current user`);
   }
 
-  // Remove the exchange
-  await collections.removeExchange(exchangeId);
+  // Remove the exchange only if it has not been matched since it was read
+  await collections.executeBatch([
+    { type: 'delete', id: exchangeId, plantId: exchange.plantId, ifMatch: exchange.etag }
+  ]);
 
   return { success: true, withdrawnExchange: exchange };
 }
+
+/**
+ * Maximum length of a cancellation reason
+ */
+const MAX_CANCELLATION_REASON_LENGTH = 500;
+
+/**
+ * Cancel a confirmed exchange before it ships. Either party may cancel.
+ * @param authToken - Azure user authentication token (must be the requester or the offerer)
+ * @param exchangeId - ID of the confirmed exchange
+ * @param reason - Why the exchange is being cancelled, recorded on the exchange
+ * @param collections - Collection manager instance
+ * @param options - Set `requeueCounterparty` to return the other party's side to the open queue
+ * @returns Result containing the cancelled exchange and any requeued or rematched entries
+ * @throws NotFoundError if the exchange does not exist
+ * @throws InvalidStateError if the exchange is not confirmed (already shipped, or still open)
+ * @throws ForbiddenError if the user is neither the requester nor the offerer
+ * @throws ValidationError if the reason is empty or too long
+ */
+export async function CancelExchange(
+  authToken: AzureUserToken,
+  exchangeId: string,
+  reason: string,
+  collections: ISeedExchangeCollections,
+  options: CancelExchangeOptions = {}
+): Promise<CancelExchangeResult> {
+  collections = auditCollections(collections, options, authToken, 'cancel');
+  const config = resolveExchangeConfig(options);
+  const exchange = await getExistingExchange(collections, exchangeId);
+
+  // Open entries are withdrawn instead; shipped exchanges go through disputes
+  if (exchange.status !== 'confirmed') {
+    throw new InvalidStateError(
+      `Exchange ${exchangeId} is ${exchange.status}; only confirmed exchanges that have not shipped can be cancelled`
+    );
+  }
+
+  const cancelledByOfferer = exchange.offerUserId === authToken.userId;
+  if (!cancelledByOfferer && exchange.requestUserId !== authToken.userId) {
+    throw new ForbiddenError(`Exchange ${exchangeId} does not involve the current user`, 'NOT_EXCHANGE_PARTY');
+  }
+
+  const trimmedReason = validateText(
+    reason, MAX_CANCELLATION_REASON_LENGTH, 'Cancellation reason', 'INVALID_CANCELLATION_REASON'
+  );
+
+  const now = new Date();
+  const cancelledExchange = transitionExchange(exchange, 'cancelled', {
+    cancellation: { cancelledByUserId: authToken.userId, reason: trimmedReason, cancelTime: now }
+  }, now);
+
+  if (!options.requeueCounterparty) {
+    await collections.updateExchange(cancelledExchange, { ifMatch: exchange.etag });
+    return { success: true, cancelledExchange, rematchedExchanges: [] };
+  }
+
+  // The counterparty's side goes back in the queue at its original time
+  const { requeuedExchange, rematchedExchanges } = await closeAndRequeue(
+    collections,
+    exchange,
+    cancelledExchange,
+    cancelledByOfferer ? 'request' : 'offer',
+    now,
+    config,
+    options.reputation
+  );
+  return { success: true, cancelledExchange, requeuedExchange, rematchedExchanges };
+}
+
+/**
+ * Mark a confirmed exchange as shipped
+ * @param authToken - Azure user authentication token (must be the offerer)
+ * @param exchangeId - ID of the confirmed exchange
+ * @param collections - Collection manager instance
+ * @param options - Optional services, such as the audit log that records the change
+ * @returns Result containing the shipped exchange
+ * @throws NotFoundError if the exchange does not exist
+ * @throws InvalidStateError if the exchange is not confirmed or has already shipped
+ * @throws ForbiddenError if the user is not the offerer
+ */
+export async function MarkShipped(
+  authToken: AzureUserToken,
+  exchangeId: string,
+  collections: ISeedExchangeCollections,
+  options: ExchangeOptions = {}
+): Promise<MarkShippedResult> {
+  collections = auditCollections(collections, options, authToken, 'ship');
+  const exchange = await getExistingExchange(collections, exchangeId);
+
+  // Only confirmed exchanges that have not shipped yet can be shipped
+  if (!canTransition(exchange.status, 'shipped')) {
+    throw new InvalidStateError(`Exchange ${exchangeId} is ${exchange.status} and cannot be shipped`);
+  }
+
+  // Only the offerer sends the seeds
+  if (exchange.offerUserId !== authToken.userId) {
+    throw new ForbiddenError(
+      `Only the offerer can mark exchange ${exchangeId} as shipped`,
+      'NOT_EXCHANGE_OFFERER'
+    );
+  }
+
+  const now = new Date();
+  const shippedExchange = transitionExchange(exchange, 'shipped', { shipTime: now }, now);
+  await collections.updateExchange(shippedExchange, { ifMatch: exchange.etag });
+  await options.ledger?.recordExchange(shippedExchange);
+
+  return { success: true, shippedExchange };
+}
+
+/**
+ * Mark a shipped exchange as received
+ * @param authToken - Azure user authentication token (must be the requester)
+ * @param exchangeId - ID of the shipped exchange
+ * @param collections - Collection manager instance
+ * @param options - Optional services, such as the audit log that records the change
+ * @returns Result containing the received exchange
+ * @throws NotFoundError if the exchange does not exist
+ * @throws InvalidStateError if the exchange has not shipped or was already received
+ * @throws ForbiddenError if the user is not the requester
+ */
+export async function MarkReceived(
+  authToken: AzureUserToken,
+  exchangeId: string,
+  collections: ISeedExchangeCollections,
+  options: ExchangeOptions = {}
+): Promise<MarkReceivedResult> {
+  collections = auditCollections(collections, options, authToken, 'receive');
+  const exchange = await getExistingExchange(collections, exchangeId);
+
+  // Seeds can only be received once they have shipped
+  if (!canTransition(exchange.status, 'received')) {
+    throw new InvalidStateError(`Exchange ${exchangeId} is ${exchange.status} and cannot be received`);
+  }
+
+  // Only the requester receives the seeds
+  if (exchange.requestUserId !== authToken.userId) {
+    throw new ForbiddenError(
+      `Only the requester can mark exchange ${exchangeId} as received`,
+      'NOT_EXCHANGE_REQUESTER'
+    );
+  }
+
+  const now = new Date();
+  const receivedExchange = transitionExchange(exchange, 'received', { receivedTime: now }, now);
+  await collections.updateExchange(receivedExchange, { ifMatch: exchange.etag });
+  await options.ledger?.recordExchange(receivedExchange);
+
+  return { success: true, receivedExchange };
+}
+
+/**
+ * Maximum length of a dispute reason, response or resolution note
+ */
+const MAX_DISPUTE_TEXT_LENGTH = 2000;
+
+/**
+ * Outcomes an admin may choose when resolving a dispute
+ */
+const DISPUTE_OUTCOMES: readonly DisputeOutcome[] = ['refund', 'fraudulent', 'closed'];
+
+/**
+ * Dispute a shipped exchange whose seeds never arrived or were not what was offered.
+ * An exchange can only be disputed once.
+ * @param authToken - Azure user authentication token (must be the requester)
+ * @param exchangeId - ID of the shipped or received exchange
+ * @param reason - What went wrong, shown to the offerer and to admins
+ * @param collections - Collection manager instance
+ * @param options - Optional services, such as the audit log that records the change
+ * @returns Result containing the disputed exchange
+ * @throws NotFoundError if the exchange does not exist
+ * @throws InvalidStateError if the exchange has not shipped or has already been disputed
+ * @throws ForbiddenError if the user is not the requester
+ * @throws ValidationError if the reason is empty or too long
+ */
+export async function OpenDispute(
+  authToken: AzureUserToken,
+  exchangeId: string,
+  reason: string,
+  collections: ISeedExchangeCollections,
+  options: ExchangeOptions = {}
+): Promise<DisputeResult> {
+  collections = auditCollections(collections, options, authToken, 'open-dispute');
+  const exchange = await getExistingExchange(collections, exchangeId);
+
+  // Disputes are about shipments; before shipping the exchange can simply be cancelled
+  if (!canTransition(exchange.status, 'disputed')) {
+    throw new InvalidStateError(`Exchange ${exchangeId} is ${exchange.status} and cannot be disputed`);
+  }
+
+  if (exchange.dispute) {
+    throw new InvalidStateError(`Exchange ${exchangeId} has already been disputed`, 'DISPUTE_ALREADY_OPENED');
+  }
+
+  // Only the requester knows whether the right seeds arrived
+  if (exchange.requestUserId !== authToken.userId) {
+    throw new ForbiddenError(
+      `Only the requester can dispute exchange ${exchangeId}`,
+      'NOT_EXCHANGE_REQUESTER'
+    );
+  }
+
+  const trimmedReason = validateText(reason, MAX_DISPUTE_TEXT_LENGTH, 'Dispute reason', 'INVALID_DISPUTE_REASON');
+
+  const now = new Date();
+  const disputedExchange = transitionExchange(exchange, 'disputed', {
+    dispute: { openedByUserId: authToken.userId, reason: trimmedReason, openTime: now }
+  }, now);
+  await collections.updateExchange(disputedExchange, { ifMatch: exchange.etag });
+
+  return { success: true, disputedExchange };
+}
+
+/**
+ * Respond to an open dispute with the offerer's side of the story. The offerer may respond once.
+ * @param authToken - Azure user authentication token (must be the offerer)
+ * @param exchangeId - ID of the disputed exchange
+ * @param message - The offerer's response, e.g. tracking details
+ * @param collections - Collection manager instance
+ * @param options - Optional services, such as the audit log that records the change
+ * @returns Result containing the disputed exchange with the response recorded
+ * @throws NotFoundError if the exchange does not exist
+ * @throws InvalidStateError if the exchange is not disputed or the dispute was already answered
+ * @throws ForbiddenError if the user is not the offerer
+ * @throws ValidationError if the message is empty or too long
+ */
+export async function RespondToDispute(
+  authToken: AzureUserToken,
+  exchangeId: string,
+  message: string,
+  collections: ISeedExchangeCollections,
+  options: ExchangeOptions = {}
+): Promise<DisputeResult> {
+  collections = auditCollections(collections, options, authToken, 'respond-to-dispute');
+  const exchange = await getExistingExchange(collections, exchangeId);
+
+  if (exchange.status !== 'disputed' || !exchange.dispute) {
+    throw new InvalidStateError(`Exchange ${exchangeId} is ${exchange.status} and has no open dispute`);
+  }
+
+  if (exchange.offerUserId !== authToken.userId) {
+    throw new ForbiddenError(
+      `Only the offerer can respond to the dispute on exchange ${exchangeId}`,
+      'NOT_EXCHANGE_OFFERER'
+    );
+  }
+
+  if (exchange.dispute.response) {
+    throw new InvalidStateError(
+      `The dispute on exchange ${exchangeId} has already been answered`,
+      'DISPUTE_ALREADY_ANSWERED'
+    );
+  }
+
+  const trimmedMessage = validateText(
+    message, MAX_DISPUTE_TEXT_LENGTH, 'Dispute response', 'INVALID_DISPUTE_RESPONSE'
+  );
+
+  const disputedExchange: SeedExchange = {
+    ...exchange,
+    dispute: { ...exchange.dispute, response: { message: trimmedMessage, responseTime: new Date() } }
+  };
+  await collections.updateExchange(disputedExchange, { ifMatch: exchange.etag });
+
+  return { success: true, disputedExchange };
+}
+
+/**
+ * Settle an open dispute. A refund or a fraud finding cancels the exchange and returns the
+ * requester's request to the open queue at its original time; closing the dispute treats
+ * the exchange as received.
+ * @param authToken - Azure user authentication token (must hold the admin role)
+ * @param exchangeId - ID of the disputed exchange
+ * @param outcome - How the dispute is settled
+ * @param note - Optional explanation recorded with the resolution
+ * @param collections - Collection manager instance
+ * @param options - Optional operator settings overrides used when rematching a refunded request,
+ * and the credit ledger the outcome is posted to
+ * @returns Result containing the resolved exchange and any requeued or rematched entries
+ * @throws NotFoundError if the exchange does not exist
+ * @throws ForbiddenError if the user is not an admin
+ * @throws InvalidStateError if the exchange is not disputed
+ * @throws ValidationError if the outcome is unknown or the note is too long
+ */
+export async function ResolveDispute(
+  authToken: AzureUserToken,
+  exchangeId: string,
+  outcome: DisputeOutcome,
+  note: string | undefined,
+  collections: ISeedExchangeCollections,
+  options: ExchangeOptions = {}
+): Promise<ResolveDisputeResult> {
+  collections = auditCollections(collections, options, authToken, 'resolve-dispute');
+  if (!isAdmin(authToken)) {
+    throw new ForbiddenError('Only admins can resolve disputes', 'NOT_ADMIN');
+  }
+
+  const config = resolveExchangeConfig(options);
+  const exchange = await getExistingExchange(collections, exchangeId);
+
+  if (exchange.status !== 'disputed' || !exchange.dispute) {
+    throw new InvalidStateError(`Exchange ${exchangeId} is ${exchange.status} and has no open dispute`);
+  }
+
+  if (!DISPUTE_OUTCOMES.includes(outcome)) {
+    throw new ValidationError(
+      `Dispute outcome must be one of ${DISPUTE_OUTCOMES.join(', ')}`,
+      'INVALID_DISPUTE_OUTCOME'
+    );
+  }
+
+  const trimmedNote = note === undefined
+    ? undefined
+    : validateText(note, MAX_DISPUTE_TEXT_LENGTH, 'Resolution note', 'INVALID_DISPUTE_NOTE');
+
+  const now = new Date();
+  const dispute = {
+    ...exchange.dispute,
+    resolution: { outcome, resolvedByUserId: authToken.userId, note: trimmedNote, resolveTime: now }
+  };
+
+  if (outcome === 'closed') {
+    const resolvedExchange = transitionExchange(exchange, 'received', {
+      receivedTime: exchange.receivedTime ?? now,
+      dispute
+    }, now);
+    await collections.updateExchange(resolvedExchange, { ifMatch: exchange.etag });
+    await options.ledger?.recordExchange(resolvedExchange);
+    return { success: true, resolvedExchange, rematchedExchanges: [] };
+  }
+
+  const resolvedExchange = transitionExchange(exchange, 'cancelled', { dispute }, now);
+  const { requeuedExchange, rematchedExchanges } = await closeAndRequeue(
+    collections,
+    exchange,
+    resolvedExchange,
+    'request',
+    now,
+    config,
+    options.reputation
+  );
+  await options.ledger?.recordExchange(resolvedExchange);
+  return { success: true, resolvedExchange, requeuedExchange, rematchedExchanges };
+}
+
+/**
+ * Get the full change history of an exchange, including exchanges that have since been deleted
+ * @param authToken - Azure user authentication token (must hold the admin role)
+ * @param exchangeId - ID of the exchange
+ * @param auditLog - Audit log instance
+ * @returns Audit entries for the exchange, oldest first
+ * @throws ForbiddenError if the user is not an admin
+ */
+export async function GetExchangeAuditLog(
+  authToken: AzureUserToken,
+  exchangeId: string,
+  auditLog: IAuditLog
+): Promise<AuditLogEntry[]> {
+  if (!isAdmin(authToken)) {
+    throw new ForbiddenError('Only admins can read the audit log', 'NOT_ADMIN');
+  }
+
+  return auditLog.getEntriesByExchange(exchangeId);
+}
+
+/**
+ * Get every change made by or affecting a user
+ * @param authToken - Azure user authentication token (the user themselves, or an admin)
+ * @param userId - ID of the user whose history to read
+ * @param auditLog - Audit log instance
+ * @returns Audit entries listing the user as actor or party, oldest first
+ * @throws ForbiddenError if the user asks for someone else's history without the admin role
+ */
+export async function GetUserAuditLog(
+  authToken: AzureUserToken,
+  userId: string,
+  auditLog: IAuditLog
+): Promise<AuditLogEntry[]> {
+  if (userId !== authToken.userId && !isAdmin(authToken)) {
+    throw new ForbiddenError('Only admins can read the audit log of other users', 'NOT_ADMIN');
+  }
+
+  return auditLog.getEntriesByUser(userId);
+}
+
+/**
+ * Settings for a new webhook subscription
+ */
+export interface WebhookSubscriptionInput {
+  /** Endpoint that receives the events; must be https and resolve to public addresses */
+  url: string;
+  eventTypes: DomainEventType[];
+  /** Only send events about exchanges one of these users is party to (default: every exchange) */
+  userIds?: string[];
+  /** Shared secret the payloads are signed with (default: a random secret, returned once in the result) */
+  secret?: string;
+}
+
+/**
+ * Ensure a tenant id is a non-empty string
+ */
+function validateTenantId(tenantId: string): void {
+  if (typeof tenantId !== 'string' || tenantId.trim() === '') {
+    throw new ValidationError('Tenant id must be a non-empty string', 'INVALID_TENANT_ID');
+  }
+}
+
+/**
+ * Only admins manage webhooks
+ */
+function requireWebhookAdmin(authToken: AzureUserToken): void {
+  if (!isAdmin(authToken)) {
+    throw new ForbiddenError('Only admins can manage webhooks', 'NOT_ADMIN');
+  }
+}
+
+/**
+ * Subscribe a tenant's endpoint to domain events
+ * @param authToken - Azure user authentication token (must hold the admin role)
+ * @param tenantId - The partner that owns the subscription
+ * @param input - Endpoint, event types and optional member filter and secret
+ * @param webhookStore - Webhook storage
+ * @param allowedHosts - Hosts exempt from the https and public address checks (see validateWebhookUrl)
+ * @returns The subscription, including its secret. This is the only time the secret is returned.
+ * @throws ForbiddenError if the user is not an admin
+ * @throws ValidationError if the tenant id or event types are invalid, the user ids are invalid,
+ * or the URL is not https or reaches a loopback, private or link-local address
+ */
+export async function CreateWebhookSubscription(
+  authToken: AzureUserToken,
+  tenantId: string,
+  input: WebhookSubscriptionInput,
+  webhookStore: IWebhookStore,
+  allowedHosts: string[] = getWebhookAllowedHosts()
+): Promise<WebhookSubscription> {
+  requireWebhookAdmin(authToken);
+  validateTenantId(tenantId);
+
+  const url = await validateWebhookUrl(input.url, allowedHosts);
+
+  const knownTypes = Object.values(DOMAIN_EVENT_TYPES);
+  if (!Array.isArray(input.eventTypes) || input.eventTypes.length === 0
+    || input.eventTypes.some(type => !knownTypes.includes(type))) {
+    throw new ValidationError(`Webhook event types must be a non-empty list of: ${knownTypes.join(', ')}`, 'INVALID_WEBHOOK_EVENT_TYPES');
+  }
+  if (input.userIds !== undefined
+    && (!Array.isArray(input.userIds) || input.userIds.some(userId => typeof userId !== 'string' || userId === ''))) {
+    throw new ValidationError('Webhook user ids must be a list of non-empty strings', 'INVALID_WEBHOOK_USER_IDS');
+  }
+
+  const subscription: WebhookSubscription = {
+    id: uuidv4(),
+    tenantId,
+    url: url.toString(),
+    eventTypes: Array.from(new Set(input.eventTypes)),
+    secret: input.secret || crypto.randomBytes(32).toString('hex'),
+    userIds: input.userIds,
+    createdTime: new Date()
+  };
+  await webhookStore.addSubscription(subscription);
+  return subscription;
+}
+
+/**
+ * List a tenant's webhook subscriptions, without their secrets
+ * @param authToken - Azure user authentication token (must hold the admin role)
+ * @throws ForbiddenError if the user is not an admin
+ */
+export async function GetWebhookSubscriptions(
+  authToken: AzureUserToken,
+  tenantId: string,
+  webhookStore: IWebhookStore
+): Promise<WebhookSubscriptionSummary[]> {
+  requireWebhookAdmin(authToken);
+  const subscriptions = await webhookStore.getSubscriptions(tenantId);
+  return subscriptions.map(({ secret, ...summary }) => summary);
+}
+
+/**
+ * Remove a webhook subscription. Deliveries still queued for it are dead-lettered on their next attempt.
+ * @param authToken - Azure user authentication token (must hold the admin role)
+ * @throws ForbiddenError if the user is not an admin
+ * @throws NotFoundError if the tenant has no such subscription
+ */
+export async function DeleteWebhookSubscription(
+  authToken: AzureUserToken,
+  tenantId: string,
+  subscriptionId: string,
+  webhookStore: IWebhookStore
+): Promise<void> {
+  requireWebhookAdmin(authToken);
+
+  const subscriptions = await webhookStore.getSubscriptions(tenantId);
+  if (!subscriptions.some(subscription => subscription.id === subscriptionId)) {
+    throw new NotFoundError(`Webhook subscription ${subscriptionId} not found`, 'WEBHOOK_NOT_FOUND');
+  }
+  await webhookStore.removeSubscription(tenantId, subscriptionId);
+}
+
+/**
+ * List a tenant's webhook deliveries, e.g. the dead-lettered ones
+ * @param authToken - Azure user authentication token (must hold the admin role)
+ * @param status - Only deliveries with this status (default: all)
+ * @throws ForbiddenError if the user is not an admin
+ */
+export async function GetWebhookDeliveries(
+  authToken: AzureUserToken,
+  tenantId: string,
+  webhookStore: IWebhookStore,
+  status?: WebhookDeliveryStatus
+): Promise<WebhookDelivery[]> {
+  requireWebhookAdmin(authToken);
+  return webhookStore.getDeliveries(tenantId, status);
+}
+
+/**
+ * Queue a dead-lettered delivery again, with a fresh set of attempts due now
+ * @param authToken - Azure user authentication token (must hold the admin role)
+ * @returns The requeued delivery
+ * @throws ForbiddenError if the user is not an admin
+ * @throws NotFoundError if the tenant has no such delivery
+ * @throws InvalidStateError if the delivery is not dead-lettered
+ */
+export async function RetryWebhookDelivery(
+  authToken: AzureUserToken,
+  tenantId: string,
+  deliveryId: string,
+  webhookStore: IWebhookStore
+): Promise<WebhookDelivery> {
+  requireWebhookAdmin(authToken);
+
+  const delivery = await webhookStore.getDelivery(tenantId, deliveryId);
+  if (!delivery) {
+    throw new NotFoundError(`Webhook delivery ${deliveryId} not found`, 'WEBHOOK_DELIVERY_NOT_FOUND');
+  }
+  if (delivery.status !== 'dead-lettered') {
+    throw new InvalidStateError(
+      `Only dead-lettered deliveries can be retried; delivery ${deliveryId} is ${delivery.status}`,
+      'WEBHOOK_DELIVERY_NOT_DEAD_LETTERED'
+    );
+  }
+
+  const requeued: WebhookDelivery = { ...delivery, status: 'pending', attempts: 0, nextAttemptTime: new Date() };
+  await webhookStore.updateDelivery(requeued);
+  return requeued;
+}
+
+/**
+ * Changes to a user's notification preferences; omitted fields are left as they are
+ */
+export interface NotificationPreferencesInput {
+  /** False turns off every notification */
+  enabled?: boolean;
+  eventTypes?: NotificationEventType[];
+}
+
+/**
+ * Get the caller's notification preferences, or the defaults if they have not set any
+ * @param authToken - Azure user authentication token
+ * @param notificationStore - Notification storage
+ */
+export async function GetNotificationPreferences(
+  authToken: AzureUserToken,
+  notificationStore: INotificationStore
+): Promise<NotificationPreferences> {
+  const preferences = await notificationStore.getPreferences(authToken.userId);
+  return preferences ?? {
+    ...defaultNotificationPreferences(authToken.userId),
+    email: authToken.email,
+    name: authToken.name
+  };
+}
+
+/**
+ * Choose which emails the caller receives. Also records the email address and name from their token.
+ * @param authToken - Azure user authentication token
+ * @param input - Whether notifications are on, and for which events
+ * @param notificationStore - Notification storage
+ * @returns The updated preferences
+ * @throws ValidationError if `enabled` is not a boolean or an event type is unknown
+ */
+export async function UpdateNotificationPreferences(
+  authToken: AzureUserToken,
+  input: NotificationPreferencesInput,
+  notificationStore: INotificationStore
+): Promise<NotificationPreferences> {
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    throw new ValidationError('Notification preference "enabled" must be a boolean', 'INVALID_NOTIFICATION_PREFERENCES');
+  }
+  if (input.eventTypes !== undefined
+    && (!Array.isArray(input.eventTypes) || input.eventTypes.some(type => !NOTIFICATION_EVENT_TYPES.includes(type)))) {
+    throw new ValidationError(
+      `Notification event types must be a list of: ${NOTIFICATION_EVENT_TYPES.join(', ')}`,
+      'INVALID_NOTIFICATION_PREFERENCES'
+    );
+  }
+
+  const current = await GetNotificationPreferences(authToken, notificationStore);
+  const preferences: NotificationPreferences = {
+    ...current,
+    email: authToken.email ?? current.email,
+    name: authToken.name ?? current.name,
+    enabled: input.enabled ?? current.enabled,
+    eventTypes: input.eventTypes ? Array.from(new Set(input.eventTypes)) : current.eventTypes,
+    updatedTime: new Date()
+  };
+  await notificationStore.setPreferences(preferences);
+  return preferences;
+}
+
+/**
+ * Changes to the caller's profile. Omitted fields are kept; null clears a field.
+ */
+export interface UserProfileInput {
+  displayName?: string | null;
+  region?: string | null;
+  address?: PostalAddress | null;
+  /** Replaces every stored preference */
+  preferences?: UserProfilePreferences;
+}
+
+/**
+ * Maximum length of a display name or region
+ */
+const MAX_PROFILE_TEXT_LENGTH = 100;
+
+/**
+ * Maximum length of each line of a postal address
+ */
+const MAX_ADDRESS_FIELD_LENGTH = 200;
+
+/**
+ * Maximum number of preferences a profile may hold
+ */
+const MAX_PREFERENCES = 50;
+
+/**
+ * Maximum length of a preference key or string value
+ */
+const MAX_PREFERENCE_LENGTH = 500;
+
+/**
+ * Milliseconds in a day, for the shipping address retention window
+ */
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a postal address and copy only its known fields, trimmed
+ */
+function validatePostalAddress(address: PostalAddress): PostalAddress {
+  if (typeof address !== 'object' || address === null || Array.isArray(address)) {
+    throw new ValidationError('Address must be an object', 'INVALID_POSTAL_ADDRESS');
+  }
+
+  const required = (text: string, description: string) =>
+    validateText(text, MAX_ADDRESS_FIELD_LENGTH, description, 'INVALID_POSTAL_ADDRESS');
+  const optional = (text: string | undefined, description: string) =>
+    text === undefined || text === null || text === '' ? undefined : required(text, description);
+
+  return {
+    recipientName: required(address.recipientName, 'Address recipient name'),
+    line1: required(address.line1, 'Address line 1'),
+    line2: optional(address.line2, 'Address line 2'),
+    city: required(address.city, 'Address city'),
+    region: optional(address.region, 'Address region'),
+    postalCode: optional(address.postalCode, 'Address postal code'),
+    country: required(address.country, 'Address country')
+  };
+}
+
+/**
+ * Ensure preferences are a flat object of short strings, finite numbers and booleans
+ */
+function validatePreferences(preferences: UserProfilePreferences): UserProfilePreferences {
+  if (typeof preferences !== 'object' || preferences === null || Array.isArray(preferences)) {
+    throw new ValidationError('Preferences must be an object', 'INVALID_USER_PROFILE');
+  }
+
+  const entries = Object.entries(preferences);
+  if (entries.length > MAX_PREFERENCES) {
+    throw new ValidationError(`A profile can hold at most ${MAX_PREFERENCES} preferences`, 'INVALID_USER_PROFILE');
+  }
+  for (const [key, value] of entries) {
+    const valid = typeof value === 'boolean'
+      || (typeof value === 'number' && Number.isFinite(value))
+      || (typeof value === 'string' && value.length <= MAX_PREFERENCE_LENGTH);
+    if (key.length > MAX_PREFERENCE_LENGTH || !valid) {
+      throw new ValidationError(
+        `Preference "${key.slice(0, 50)}" must be a boolean, a number or a string of at most ${MAX_PREFERENCE_LENGTH} characters`,
+        'INVALID_USER_PROFILE'
+      );
+    }
+  }
+  return { ...preferences };
+}
+
+/**
+ * Get the caller's profile, or an empty one if they have not created it
+ * @param authToken - Azure user authentication token
+ * @param userProfileStore - User profile storage
+ */
+export async function GetUserProfile(
+  authToken: AzureUserToken,
+  userProfileStore: IUserProfileStore
+): Promise<UserProfile> {
+  const profile = await userProfileStore.getProfile(authToken.userId);
+  return profile ?? defaultUserProfile(authToken.userId);
+}
+
+/**
+ * Update the caller's display name, region, shipping address or preferences
+ * @param authToken - Azure user authentication token
+ * @param input - Fields to change
+ * @param userProfileStore - User profile storage
+ * @returns The updated profile
+ * @throws ValidationError if a field is too long, the address is incomplete or a preference is not a simple value
+ */
+export async function UpdateUserProfile(
+  authToken: AzureUserToken,
+  input: UserProfileInput,
+  userProfileStore: IUserProfileStore
+): Promise<UserProfile> {
+  const profileText = (text: string, description: string) =>
+    validateText(text, MAX_PROFILE_TEXT_LENGTH, description, 'INVALID_USER_PROFILE');
+
+  const current = await GetUserProfile(authToken, userProfileStore);
+  const profile: UserProfile = { ...current, updatedTime: new Date() };
+  if (input.displayName !== undefined) {
+    profile.displayName = input.displayName === null ? undefined : profileText(input.displayName, 'Display name');
+  }
+  if (input.region !== undefined) {
+    profile.region = input.region === null ? undefined : profileText(input.region, 'Region');
+  }
+  if (input.address !== undefined) {
+    profile.address = input.address === null ? undefined : validatePostalAddress(input.address);
+  }
+  if (input.preferences !== undefined) {
+    profile.preferences = validatePreferences(input.preferences);
+  }
+
+  await userProfileStore.setProfile(profile);
+  return profile;
+}
+
+/**
+ * Delete the caller's profile, including their shipping address
+ * @param authToken - Azure user authentication token
+ * @param userProfileStore - User profile storage
+ */
+export async function DeleteUserProfile(
+  authToken: AzureUserToken,
+  userProfileStore: IUserProfileStore
+): Promise<void> {
+  await userProfileStore.deleteProfile(authToken.userId);
+}
+
+/**
+ * Get the address the offerer of a matched exchange ships the seeds to.
+ * The address stays available until the shipping address retention window has passed since the seeds were received.
+ * @param authToken - Azure user authentication token (must be the offerer)
+ * @param exchangeId - ID of the matched exchange
+ * @param collections - Collection manager instance
+ * @param userProfileStore - User profile storage
+ * @param options - Optional overrides, such as the retention window
+ * @returns The requester's address and display name
+ * @throws NotFoundError if the exchange does not exist or the requester has not added an address
+ * @throws ForbiddenError if the user is not the offerer
+ * @throws InvalidStateError if the exchange is not matched, or the retention window has passed
+ */
+export async function GetShippingAddress(
+  authToken: AzureUserToken,
+  exchangeId: string,
+  collections: ISeedExchangeCollections,
+  userProfileStore: IUserProfileStore,
+  options: ExchangeOptions = {}
+): Promise<ShippingAddress> {
+  const exchange = await getExistingExchange(collections, exchangeId);
+
+  // Only the offerer ships, so only the offerer needs the address
+  if (exchange.offerUserId !== authToken.userId) {
+    if (exchange.requestUserId === authToken.userId) {
+      throw new ForbiddenError(
+        `Only the offerer can read the shipping address of exchange ${exchangeId}`,
+        'NOT_EXCHANGE_OFFERER'
+      );
+    }
+    throw new ForbiddenError(`Exchange ${exchangeId} does not involve the current user`, 'NOT_EXCHANGE_PARTY');
+  }
+
+  if (!isMatchedStatus(exchange.status) || !exchange.requestUserId) {
+    throw new InvalidStateError(
+      `Exchange ${exchangeId} is ${exchange.status}; its shipping address is only available once it is matched`,
+      'SHIPPING_ADDRESS_UNAVAILABLE'
+    );
+  }
+
+  let availableUntil: Date | undefined;
+  if (exchange.receivedTime) {
+    const { shippingAddressRetentionDays } = resolveExchangeConfig(options);
+    availableUntil = new Date(exchange.receivedTime.getTime() + shippingAddressRetentionDays * MS_PER_DAY);
+    if (availableUntil <= new Date()) {
+      throw new InvalidStateError(
+        `The shipping address of exchange ${exchangeId} is no longer available`,
+        'SHIPPING_ADDRESS_UNAVAILABLE'
+      );
+    }
+  }
+
+  const profile = await userProfileStore.getProfile(exchange.requestUserId);
+  if (!profile?.address) {
+    throw new NotFoundError(
+      `The requester of exchange ${exchangeId} has not added a shipping address`,
+      'SHIPPING_ADDRESS_NOT_FOUND'
+    );
+  }
+
+  return {
+    exchangeId,
+    requestUserId: exchange.requestUserId,
+    displayName: profile.displayName,
+    address: profile.address,
+    availableUntil
+  };
+}
+
+/**
+ * Get a user's credit balance and the credits still available for new requests.
+ * A user's account is opened, with its starting credits, the first time it is read.
+ * @param authToken - Azure user authentication token (the user themselves, or an admin)
+ * @param userId - ID of the user whose credits to read
+ * @param collections - Collection manager instance, for the user's outstanding requests
+ * @param ledger - Credit ledger instance
+ * @throws ForbiddenError if the user asks for someone else's credits without the admin role
+ */
+export async function GetCreditBalance(
+  authToken: AzureUserToken,
+  userId: string,
+  collections: ISeedExchangeCollections,
+  ledger: CreditLedger
+): Promise<CreditBalance> {
+  if (userId !== authToken.userId && !isAdmin(authToken)) {
+    throw new ForbiddenError('Only admins can read the credits of other users', 'NOT_ADMIN');
+  }
+
+  await ledger.openAccount(userId);
+  return ledger.getCreditBalance(userId, collections);
+}
+
+/**
+ * Get a statement of a user's ledger entries over a time range
+ * @param authToken - Azure user authentication token (the user themselves, or an admin)
+ * @param userId - ID of the user whose statement to read
+ * @param range - Entries from `from` (inclusive) to `to` (exclusive); either end may be left open
+ * @param ledger - Credit ledger instance
+ * @returns Entries oldest first, with the balance before and after them
+ * @throws ForbiddenError if the user asks for someone else's statement without the admin role
+ * @throws ValidationError if either end of the range is not a valid date or the range ends before it starts
+ */
+export async function GetCreditStatement(
+  authToken: AzureUserToken,
+  userId: string,
+  range: LedgerRange,
+  ledger: CreditLedger
+): Promise<CreditStatement> {
+  if (userId !== authToken.userId && !isAdmin(authToken)) {
+    throw new ForbiddenError('Only admins can read the credits of other users', 'NOT_ADMIN');
+  }
+  for (const bound of [range.from, range.to]) {
+    if (bound !== undefined && !(bound instanceof Date && !isNaN(bound.getTime()))) {
+      throw new ValidationError('Statement range must use valid dates', 'INVALID_STATEMENT_RANGE');
+    }
+  }
+  if (range.from && range.to && range.from > range.to) {
+    throw new ValidationError('Statement range ends before it starts', 'INVALID_STATEMENT_RANGE');
+  }
+
+  await ledger.openAccount(userId);
+  return ledger.getStatement(userId, range);
+}
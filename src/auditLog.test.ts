@@ -0,0 +1,157 @@
+import { AuditLog, SYSTEM_ACTOR_ID } from './auditLog';
+import {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  Withdraw,
+  MarkShipped,
+  GetExchangeAuditLog,
+  GetUserAuditLog
+} from './api';
+import { expireStaleEntries } from './expiry';
+import { SeedExchangeCollections } from './collections';
+import { ExchangeOptions } from './exchangeConfig';
+import { ADMIN_ROLE } from './roles';
+import { AzureUserToken } from './types';
+import { ConflictError, ForbiddenError } from './errors';
+
+describe('Audit Log', () => {
+  let collections: SeedExchangeCollections;
+  let auditLog: AuditLog;
+  let options: ExchangeOptions;
+  let user1: AzureUserToken;
+  let user2: AzureUserToken;
+  let admin: AzureUserToken;
+
+  beforeEach(() => {
+    collections = new SeedExchangeCollections();
+    auditLog = new AuditLog();
+    options = { auditLog };
+    user1 = { userId: 'user-1', email: 'user1@example.com', name: 'User 1' };
+    user2 = { userId: 'user-2', email: 'user2@example.com', name: 'User 2' };
+    admin = { userId: 'admin-1', roles: [ADMIN_ROLE] };
+  });
+
+  describe('recording API writes', () => {
+    it('should record a new open entry with no before snapshot', async () => {
+      const result = await SubmitSeedRequest(user1, 'tomato-123', collections, 2, options);
+      const requestId = result.remainingRequest!.id;
+
+      const entries = await auditLog.getEntriesByExchange(requestId);
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        exchangeId: requestId,
+        actorUserId: 'user-1',
+        action: 'submit-request',
+        before: null,
+        after: { id: requestId, status: 'open-request', quantity: 2 },
+        userIds: ['user-1']
+      });
+      expect(entries[0].after?.etag).toBeUndefined();
+      expect(entries[0].timestamp).toEqual(expect.any(Date));
+    });
+
+    it('should record the claimed entry becoming confirmed and its remainder when matching', async () => {
+      const request = await SubmitSeedRequest(user1, 'tomato-123', collections, 2, options);
+      const requestId = request.remainingRequest!.id;
+
+      await SubmitSeedOffer(user2, 'tomato-123', 1, collections, options);
+
+      const requestHistory = await auditLog.getEntriesByExchange(requestId);
+      expect(requestHistory.map(entry => entry.action)).toEqual(['submit-request', 'submit-offer']);
+      expect(requestHistory[1].actorUserId).toBe('user-2');
+      expect(requestHistory[1].before).toMatchObject({ status: 'open-request', quantity: 2 });
+      expect(requestHistory[1].after).toMatchObject({ status: 'confirmed', quantity: 1 });
+
+      const [remainder] = await collections.getOpenRequestsByPlant('tomato-123');
+      const remainderHistory = await auditLog.getEntriesByExchange(remainder.id);
+      expect(remainderHistory).toHaveLength(1);
+      expect(remainderHistory[0]).toMatchObject({ action: 'submit-offer', before: null, after: { quantity: 1 } });
+    });
+
+    it('should record withdrawals with the deleted exchange as the before snapshot', async () => {
+      const request = await SubmitSeedRequest(user1, 'tomato-123', collections, 1, options);
+      const requestId = request.remainingRequest!.id;
+
+      await Withdraw(user1, requestId, collections, options);
+
+      const entries = await auditLog.getEntriesByExchange(requestId);
+      expect(entries[1]).toMatchObject({ action: 'withdraw', after: null, before: { id: requestId } });
+    });
+
+    it('should record status changes with before and after snapshots', async () => {
+      await SubmitSeedRequest(user1, 'tomato-123', collections, 1, options);
+      const offer = await SubmitSeedOffer(user2, 'tomato-123', 1, collections, options);
+      const exchangeId = offer.filledExchanges[0].id;
+
+      await MarkShipped(user2, exchangeId, collections, options);
+
+      const entries = await auditLog.getEntriesByExchange(exchangeId);
+      expect(entries.map(entry => entry.action)).toEqual(['submit-request', 'submit-offer', 'ship']);
+      expect(entries[2].before?.status).toBe('confirmed');
+      expect(entries[2].after?.status).toBe('shipped');
+    });
+
+    it('should not record writes that failed', async () => {
+      const request = await SubmitSeedRequest(user1, 'tomato-123', collections, 1, options);
+      jest.spyOn(collections, 'executeBatch').mockRejectedValueOnce(new ConflictError('Changed'));
+
+      await expect(Withdraw(user1, request.remainingRequest!.id, collections, options)).rejects.toThrow(ConflictError);
+
+      expect(await auditLog.getEntriesByExchange(request.remainingRequest!.id)).toHaveLength(1);
+    });
+
+    it('should not fail a committed write when the audit log is unavailable', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      jest.spyOn(auditLog, 'append').mockRejectedValueOnce(new Error('Audit storage unavailable'));
+
+      try {
+        const result = await SubmitSeedRequest(user1, 'tomato-123', collections, 1, options);
+
+        expect(result.remainingRequest).toBeDefined();
+        expect(consoleError).toHaveBeenCalled();
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+
+    it('should record expiries under the system actor', async () => {
+      const request = await SubmitSeedRequest(user1, 'tomato-123', collections, 1, options);
+      const later = new Date(Date.now() + 100 * 24 * 60 * 60 * 1000);
+
+      await expireStaleEntries(collections, later, options);
+
+      const entries = await auditLog.getEntriesByExchange(request.remainingRequest!.id);
+      expect(entries[1]).toMatchObject({ action: 'expire', actorUserId: SYSTEM_ACTOR_ID });
+      expect(entries[1].after?.status).toBe('expired');
+    });
+  });
+
+  describe('queries', () => {
+    it('should list entries for every party to an exchange, not just the actor', async () => {
+      await SubmitSeedRequest(user1, 'tomato-123', collections, 1, options);
+      await SubmitSeedOffer(user2, 'tomato-123', 1, collections, options);
+
+      const user1Entries = await auditLog.getEntriesByUser('user-1');
+
+      expect(user1Entries.map(entry => entry.action)).toEqual(['submit-request', 'submit-offer']);
+      expect(user1Entries[1].actorUserId).toBe('user-2');
+    });
+
+    it('should let users read their own history and admins read anyone\'s', async () => {
+      await SubmitSeedRequest(user1, 'tomato-123', collections, 1, options);
+
+      await expect(GetUserAuditLog(user1, 'user-1', auditLog)).resolves.toHaveLength(1);
+      await expect(GetUserAuditLog(admin, 'user-1', auditLog)).resolves.toHaveLength(1);
+      await expect(GetUserAuditLog(user2, 'user-1', auditLog)).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should restrict exchange history to admins', async () => {
+      const request = await SubmitSeedRequest(user1, 'tomato-123', collections, 1, options);
+      const requestId = request.remainingRequest!.id;
+
+      await expect(GetExchangeAuditLog(admin, requestId, auditLog)).resolves.toHaveLength(1);
+      await expect(GetExchangeAuditLog(user1, requestId, auditLog)).rejects.toMatchObject({ code: 'NOT_ADMIN' });
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AuditAction, AuditLogEntry, SeedExchange } from './types';
+import { IAuditLog } from './IAuditLog';
+import {
+  ISeedExchangeCollections,
+  UpdateExchangeOptions,
+  ExchangeWriteOperation,
+  PageOptions,
+  ExchangePage,
+  ExchangeFilter
+} from './ISeedExchangeCollections';
+
+/**
+ * Actor recorded for changes made by scheduled jobs rather than by a user
+ */
+export const SYSTEM_ACTOR_ID = 'system';
+
+/**
+ * Who is making a set of changes, and through which operation
+ */
+export interface AuditContext {
+  actorUserId: string;
+  action: AuditAction;
+}
+
+/**
+ * Copy an exchange for the log without its storage etag
+ */
+function toSnapshot(exchange: SeedExchange | undefined | null): SeedExchange | null {
+  if (!exchange) {
+    return null;
+  }
+  const { etag, ...snapshot } = exchange;
+  return snapshot;
+}
+
+/**
+ * Build the audit entry for one change to one exchange
+ * @param before - The exchange before the change, or null if it was created
+ * @param after - The exchange after the change, or null if it was deleted
+ */
+export function createAuditLogEntry(
+  context: AuditContext,
+  before: SeedExchange | null,
+  after: SeedExchange | null,
+  timestamp: Date = new Date()
+): AuditLogEntry {
+  const exchange = (after ?? before) as SeedExchange;
+  const userIds = new Set<string>([context.actorUserId]);
+  for (const snapshot of [before, after]) {
+    if (snapshot?.requestUserId) {
+      userIds.add(snapshot.requestUserId);
+    }
+    if (snapshot?.offerUserId) {
+      userIds.add(snapshot.offerUserId);
+    }
+  }
+
+  return {
+    id: uuidv4(),
+    exchangeId: exchange.id,
+    actorUserId: context.actorUserId,
+    action: context.action,
+    before: toSnapshot(before),
+    after: toSnapshot(after),
+    userIds: [...userIds],
+    timestamp
+  };
+}
+
+/**
+ * In-memory implementation of the audit log
+ */
+export class AuditLog implements IAuditLog {
+  private entries: AuditLogEntry[] = [];
+
+  /**
+   * Append entries to the log
+   */
+  async append(entries: AuditLogEntry[]): Promise<void> {
+    this.entries.push(...entries);
+  }
+
+  /**
+   * Get every entry for an exchange, oldest first
+   */
+  async getEntriesByExchange(exchangeId: string): Promise<AuditLogEntry[]> {
+    return this.entries.filter(entry => entry.exchangeId === exchangeId);
+  }
+
+  /**
+   * Get every entry listing the user as actor or party, oldest first
+   */
+  async getEntriesByUser(userId: string): Promise<AuditLogEntry[]> {
+    return this.entries.filter(entry => entry.userIds.includes(userId));
+  }
+
+  /**
+   * Clear the log (useful for testing)
+   */
+  async clear(): Promise<void> {
+    this.entries = [];
+  }
+}
+
+/**
+ * Collections wrapper that records every successful write in an audit log.
+ * Reads pass straight through. The stored state of each replaced or deleted exchange is read
+ * just before the write to capture the before snapshot.
+ *
+ * The log lives in separate storage, so its entries are appended after the write commits.
+ * A failed append is logged and does not fail the write that already happened.
+ */
+export class AuditedSeedExchangeCollections implements ISeedExchangeCollections {
+  constructor(
+    private readonly inner: ISeedExchangeCollections,
+    private readonly auditLog: IAuditLog,
+    private readonly context: AuditContext
+  ) {}
+
+  /**
+   * Append entries for changes that have been committed
+   */
+  private async record(changes: [SeedExchange | null, SeedExchange | null][]): Promise<void> {
+    const timestamp = new Date();
+    const entries = changes
+      .filter(([before, after]) => before !== null || after !== null)
+      .map(([before, after]) => createAuditLogEntry(this.context, before, after, timestamp));
+
+    try {
+      await this.auditLog.append(entries);
+    } catch (error) {
+      console.error('Failed to append audit log entries:', error);
+    }
+  }
+
+  getOpenRequestsByPlant(plantId: string): Promise<SeedExchange[]> {
+    return this.inner.getOpenRequestsByPlant(plantId);
+  }
+
+  getOpenOffersByPlant(plantId: string): Promise<SeedExchange[]> {
+    return this.inner.getOpenOffersByPlant(plantId);
+  }
+
+  getStaleOpenEntries(requestCutoff: Date, offerCutoff: Date): Promise<SeedExchange[]> {
+    return this.inner.getStaleOpenEntries(requestCutoff, offerCutoff);
+  }
+
+  getConfirmedExchanges(): Promise<SeedExchange[]> {
+    return this.inner.getConfirmedExchanges();
+  }
+
+  getConfirmedExchangesPage(options?: PageOptions): Promise<ExchangePage> {
+    return this.inner.getConfirmedExchangesPage(options);
+  }
+
+  getExchangesByUser(userId: string): Promise<SeedExchange[]> {
+    return this.inner.getExchangesByUser(userId);
+  }
+
+  getExchangesByUserPage(userId: string, options?: PageOptions): Promise<ExchangePage> {
+    return this.inner.getExchangesByUserPage(userId, options);
+  }
+
+  searchExchanges(filter: ExchangeFilter, options?: PageOptions): Promise<ExchangePage> {
+    return this.inner.searchExchanges(filter, options);
+  }
+
+  getExchange(id: string, plantId?: string): Promise<SeedExchange | undefined> {
+    return this.inner.getExchange(id, plantId);
+  }
+
+  getAllExchanges(): Promise<SeedExchange[]> {
+    return this.inner.getAllExchanges();
+  }
+
+  getAllExchangesPage(options?: PageOptions): Promise<ExchangePage> {
+    return this.inner.getAllExchangesPage(options);
+  }
+
+  async addExchange(exchange: SeedExchange): Promise<void> {
+    await this.inner.addExchange(exchange);
+    await this.record([[null, exchange]]);
+  }
+
+  async removeExchange(id: string, plantId?: string): Promise<void> {
+    const before = await this.inner.getExchange(id, plantId);
+    await this.inner.removeExchange(id, plantId);
+    await this.record([[before ?? null, null]]);
+  }
+
+  async updateExchange(exchange: SeedExchange, options?: UpdateExchangeOptions): Promise<void> {
+    const before = await this.inner.getExchange(exchange.id, exchange.plantId);
+    await this.inner.updateExchange(exchange, options);
+    await this.record([[before ?? null, exchange]]);
+  }
+
+  async executeBatch(operations: ExchangeWriteOperation[]): Promise<void> {
+    const befores = await Promise.all(operations.map(operation =>
+      operation.type === 'create' ? undefined
+        : operation.type === 'replace' ? this.inner.getExchange(operation.exchange.id, operation.exchange.plantId)
+          : this.inner.getExchange(operation.id, operation.plantId)
+    ));
+
+    await this.inner.executeBatch(operations);
+
+    await this.record(operations.map((operation, index): [SeedExchange | null, SeedExchange | null] =>
+      operation.type === 'delete'
+        ? [befores[index] ?? null, null]
+        : [befores[index] ?? null, operation.exchange]
+    ));
+  }
+
+  /**
+   * Clear all collections. Not audited; the audit log is append-only and is cleared separately.
+   */
+  clear(): Promise<void> {
+    return this.inner.clear();
+  }
+}
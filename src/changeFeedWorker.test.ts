@@ -0,0 +1,26 @@
+import { runChangeFeedWorker } from './changeFeedWorker';
+
+describe('runChangeFeedWorker', () => {
+  const originalEnv = process.env;
+  const originalConsoleLog = console.log;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.COSMOS_DB_ENDPOINT;
+    console.log = jest.fn();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    console.log = originalConsoleLog;
+  });
+
+  it('should refuse to start on collections without a change feed', async () => {
+    process.env.SEED_EXCHANGE_SQLITE_PATH = ':memory:';
+    const subscribeTo = jest.fn();
+
+    await expect(runChangeFeedWorker({ name: 'test', description: 'Testing', intervalMs: 10, subscribeTo }))
+      .rejects.toThrow('change feed');
+    expect(subscribeTo).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,63 @@
+import { ISeedExchangeCollections } from './ISeedExchangeCollections';
+import { IExchangeChangeFeed } from './IExchangeChangeFeed';
+import { DomainEventEmitter, DomainEventProcessor } from './domainEvents';
+import { initializeCollections, initializeLeaseStore } from './collectionsFactory';
+import { loadExchangeConfig } from './exchangeConfig';
+
+/**
+ * A long-running worker that reacts to exchange changes, such as the webhook or reputation worker
+ */
+export interface ChangeFeedWorker {
+  /** Names the worker's checkpoint in the lease store and its log lines */
+  name: string;
+  /** What the worker does, for the startup message, e.g. "Sending webhooks" */
+  description: string;
+  /** Milliseconds to wait after each pass */
+  intervalMs: number;
+  /** Subscribe the worker's handlers to the events read from the change feed */
+  subscribeTo(emitter: DomainEventEmitter): void;
+  /**
+   * Called after the changes of each pass are handled, e.g. to send what they queued
+   * @param processed - The number of events the pass published
+   */
+  afterChanges?(processed: number): Promise<void>;
+}
+
+/**
+ * Check whether collections can be read as a change feed
+ */
+function isExchangeChangeFeed(
+  collections: ISeedExchangeCollections
+): collections is ISeedExchangeCollections & IExchangeChangeFeed {
+  return typeof (collections as Partial<IExchangeChangeFeed>).readChanges === 'function';
+}
+
+/**
+ * Run a worker until the process is stopped. Collections and the lease store are initialized from the
+ * environment like the rest of the API; each pass reads the changes since the worker's checkpoint and
+ * then calls afterChanges. A failed pass is logged and the next pass picks up from the last checkpoint.
+ * Run a single instance of each worker per database.
+ * @throws ConfigurationError if an exchange setting in the environment is invalid
+ * @throws Error if storage cannot be initialized or the configured collections have no change feed
+ */
+export async function runChangeFeedWorker(worker: ChangeFeedWorker): Promise<never> {
+  loadExchangeConfig();
+  const collections = await initializeCollections();
+  if (!isExchangeChangeFeed(collections)) {
+    throw new Error(`The ${worker.name} worker needs collections with a change feed, such as Cosmos DB`);
+  }
+
+  const processor = new DomainEventProcessor(worker.name, collections, await initializeLeaseStore());
+  worker.subscribeTo(processor.emitter);
+  console.log(`✅ ${worker.description} every ${worker.intervalMs}ms`);
+
+  for (;;) {
+    try {
+      const processed = await processor.processChanges();
+      await worker.afterChanges?.(processed);
+    } catch (error) {
+      console.error(`❌ ${worker.name} pass failed:`, error);
+    }
+    await new Promise(resolve => setTimeout(resolve, worker.intervalMs));
+  }
+}
@@ -0,0 +1,61 @@
+import { SeedExchangeCollections } from './collections';
+import { SeedExchange } from './types';
+
+const exchange = (id: string, requestUserId: string | null, offerUserId: string | null): SeedExchange => ({
+  id,
+  plantId: 'milkweed',
+  status: requestUserId && offerUserId ? 'confirmed' : requestUserId ? 'open-request' : 'open-offer',
+  requestUserId,
+  offerUserId,
+  quantity: 1,
+  seedRequestTime: requestUserId ? new Date('2025-01-01') : null,
+  seedOfferTime: offerUserId ? new Date('2025-01-02') : null,
+  confirmationTime: requestUserId && offerUserId ? new Date('2025-01-02') : null,
+  shipTime: null,
+  receivedTime: null
+});
+
+const ids = (exchanges: SeedExchange[]): string[] => exchanges.map(ex => ex.id).sort();
+
+describe('SeedExchangeCollections user index', () => {
+  let collections: SeedExchangeCollections;
+
+  beforeEach(async () => {
+    collections = new SeedExchangeCollections();
+    await collections.addExchange(exchange('request', 'alice', null));
+    await collections.addExchange(exchange('offer', null, 'bob'));
+  });
+
+  it('should find exchanges on either side', async () => {
+    await collections.addExchange(exchange('confirmed', 'alice', 'bob'));
+
+    expect(ids(await collections.getExchangesByUser('alice'))).toEqual(['confirmed', 'request']);
+    expect(ids(await collections.getExchangesByUser('bob'))).toEqual(['confirmed', 'offer']);
+    expect(await collections.getExchangesByUser('carol')).toEqual([]);
+  });
+
+  it('should follow updates that add a user', async () => {
+    await collections.updateExchange(exchange('request', 'alice', 'carol'));
+
+    expect(ids(await collections.getExchangesByUser('carol'))).toEqual(['request']);
+    expect((await collections.getExchangesByUser('carol'))[0].etag).toBeDefined();
+  });
+
+  it('should drop removed and batch-deleted exchanges', async () => {
+    await collections.removeExchange('request');
+    await collections.executeBatch([{ type: 'delete', id: 'offer', plantId: 'milkweed' }]);
+
+    expect(await collections.getExchangesByUser('alice')).toEqual([]);
+    expect(await collections.getExchangesByUser('bob')).toEqual([]);
+  });
+
+  it('should rebuild the index from the stored exchanges', async () => {
+    // Simulate drift by changing a stored exchange behind the collections' back
+    const stored = await collections.getExchange('offer');
+    stored!.requestUserId = 'carol';
+
+    expect(await collections.getExchangesByUser('carol')).toEqual([]);
+    collections.rebuildUserIndex();
+    expect(ids(await collections.getExchangesByUser('carol'))).toEqual(['offer']);
+  });
+});
@@ -1,53 +1,159 @@
 import { SeedExchange } from './types';
-import { ISeedExchangeCollections } from './ISeedExchangeCollections';
+import {
+  ISeedExchangeCollections,
+  UpdateExchangeOptions,
+  ExchangeWriteOperation,
+  PageOptions,
+  ExchangePage,
+  ExchangeFilter
+} from './ISeedExchangeCollections';
+import { isMatchedStatus } from './exchangeStatus';
+import { ConflictError } from './errors';
+import { getBatchPlantId } from './exchangeIds';
+import { pageByOffset, compareExchangeIds } from './pagination';
+import { validateExchangeFilter, matchesExchangeFilter, compareForExchangeFilter } from './exchangeFilter';
+import { IExchangeChangeFeed, ExchangeChangeBatch } from './IExchangeChangeFeed';
+
+/**
+ * Largest number of changed exchanges readChanges() returns at once
+ */
+const CHANGE_BATCH_SIZE = 100;
 
 /**
  * In-memory collection for managing seed exchange data
  */
-export class SeedExchangeCollections implements ISeedExchangeCollections {
+export class SeedExchangeCollections implements ISeedExchangeCollections, IExchangeChangeFeed {
   private seedExchanges: Map<string, SeedExchange> = new Map();
+  /** Ids of the exchanges each user is requester or offerer on */
+  private exchangesByUser: Map<string, Set<string>> = new Map();
+  private version = 0;
+
+  /**
+   * Add an exchange to (or, with `remove`, take it out of) the user index
+   */
+  private indexUsers(exchange: SeedExchange, remove = false): void {
+    for (const userId of [exchange.requestUserId, exchange.offerUserId]) {
+      if (!userId) continue;
+
+      const ids = this.exchangesByUser.get(userId) ?? new Set<string>();
+      if (remove) {
+        ids.delete(exchange.id);
+      } else {
+        ids.add(exchange.id);
+      }
+
+      if (ids.size > 0) {
+        this.exchangesByUser.set(userId, ids);
+      } else {
+        this.exchangesByUser.delete(userId);
+      }
+    }
+  }
+
+  /**
+   * Store an exchange under a fresh etag taken from the version counter
+   */
+  private store(exchange: SeedExchange): void {
+    this.delete(exchange.id);
+    this.version += 1;
+    this.seedExchanges.set(exchange.id, { ...exchange, etag: String(this.version) });
+    this.indexUsers(exchange);
+  }
+
+  /**
+   * Delete an exchange and its user index entries
+   */
+  private delete(id: string): void {
+    const current = this.seedExchanges.get(id);
+    if (current) {
+      this.indexUsers(current, true);
+      this.seedExchanges.delete(id);
+    }
+  }
+
+  /**
+   * Rebuild the user index from the stored exchanges
+   */
+  rebuildUserIndex(): void {
+    this.exchangesByUser.clear();
+    for (const exchange of this.seedExchanges.values()) {
+      this.indexUsers(exchange);
+    }
+  }
 
   /**
    * Get all open seed requests for a specific plant
-   * (entries where requestUserId is set but offerUserId is null)
+   * (entries with status 'open-request')
    */
   async getOpenRequestsByPlant(plantId: string): Promise<SeedExchange[]> {
     return Array.from(this.seedExchanges.values())
-      .filter(ex => ex.plantId === plantId && ex.requestUserId !== null && ex.offerUserId === null)
+      .filter(ex => ex.plantId === plantId && ex.status === 'open-request')
       .sort((a, b) => (a.seedRequestTime?.getTime() || 0) - (b.seedRequestTime?.getTime() || 0));
   }
 
   /**
    * Get all open seed offers for a specific plant
-   * (entries where offerUserId is set but requestUserId is null)
+   * (entries with status 'open-offer')
    */
   async getOpenOffersByPlant(plantId: string): Promise<SeedExchange[]> {
     return Array.from(this.seedExchanges.values())
-      .filter(ex => ex.plantId === plantId && ex.offerUserId !== null && ex.requestUserId === null)
+      .filter(ex => ex.plantId === plantId && ex.status === 'open-offer')
       .sort((a, b) => (a.seedOfferTime?.getTime() || 0) - (b.seedOfferTime?.getTime() || 0));
   }
 
   /**
-   * Get all confirmed exchanges (both requestUserId and offerUserId are set)
+   * Get open requests and offers created before their respective cutoffs
+   */
+  async getStaleOpenEntries(requestCutoff: Date, offerCutoff: Date): Promise<SeedExchange[]> {
+    return Array.from(this.seedExchanges.values())
+      .filter(ex =>
+        (ex.status === 'open-request' && ex.seedRequestTime !== null && ex.seedRequestTime < requestCutoff)
+        || (ex.status === 'open-offer' && ex.seedOfferTime !== null && ex.seedOfferTime < offerCutoff));
+  }
+
+  /**
+   * Get all confirmed exchanges (matched exchanges that have not been cancelled)
    */
   async getConfirmedExchanges(): Promise<SeedExchange[]> {
     return Array.from(this.seedExchanges.values())
-      .filter(ex => ex.requestUserId !== null && ex.offerUserId !== null);
+      .filter(ex => isMatchedStatus(ex.status));
+  }
+
+  /**
+   * Get one page of confirmed exchanges, using the offset into the id-ordered result as the continuation token
+   */
+  async getConfirmedExchangesPage(options: PageOptions = {}): Promise<ExchangePage> {
+    return pageByOffset((await this.getConfirmedExchanges()).sort(compareExchangeIds), options);
   }
 
   /**
    * Get all exchanges for a specific user (as requester or offerer)
    */
   async getExchangesByUser(userId: string): Promise<SeedExchange[]> {
-    return Array.from(this.seedExchanges.values())
-      .filter(ex => ex.requestUserId === userId || ex.offerUserId === userId);
+    return Array.from(this.exchangesByUser.get(userId) ?? [], id => this.seedExchanges.get(id) as SeedExchange);
+  }
+
+  /**
+   * Get one page of a user's exchanges, using the offset into the id-ordered result as the continuation token
+   */
+  async getExchangesByUserPage(userId: string, options: PageOptions = {}): Promise<ExchangePage> {
+    return pageByOffset((await this.getExchangesByUser(userId)).sort(compareExchangeIds), options);
+  }
+
+  /**
+   * Get one page of exchanges matching a filter, using the offset into the sorted result as the continuation token
+   */
+  async searchExchanges(filter: ExchangeFilter, options: PageOptions = {}): Promise<ExchangePage> {
+    validateExchangeFilter(filter);
+    const matches = (await this.getAllExchanges()).filter(ex => matchesExchangeFilter(ex, filter));
+    return pageByOffset(matches.sort(compareForExchangeFilter(filter)), options);
   }
 
   /**
    * Add a new seed exchange entry
    */
   async addExchange(exchange: SeedExchange): Promise<void> {
-    this.seedExchanges.set(exchange.id, exchange);
+    this.store(exchange);
   }
 
   /**
@@ -61,14 +167,52 @@ export class SeedExchangeCollections implements ISeedExchangeCollections {
    * Remove a seed exchange entry
    */
   async removeExchange(id: string): Promise<void> {
-    this.seedExchanges.delete(id);
+    this.delete(id);
   }
 
   /**
    * Update a seed exchange entry
+   * (rejects the update if `options.ifMatch` no longer matches the stored etag)
+   */
+  async updateExchange(exchange: SeedExchange, options: UpdateExchangeOptions = {}): Promise<void> {
+    if (options.ifMatch !== undefined) {
+      const current = this.seedExchanges.get(exchange.id);
+      if (!current || current.etag !== options.ifMatch) {
+        throw new ConflictError(`Exchange ${exchange.id} was modified by another operation`);
+      }
+    }
+    this.store(exchange);
+  }
+
+  /**
+   * Apply several writes as a single unit of work.
+   * Every operation is validated before any is applied, so a failure leaves the collection unchanged.
    */
-  async updateExchange(exchange: SeedExchange): Promise<void> {
-    this.seedExchanges.set(exchange.id, exchange);
+  async executeBatch(operations: ExchangeWriteOperation[]): Promise<void> {
+    getBatchPlantId(operations);
+
+    for (const op of operations) {
+      const id = op.type === 'delete' ? op.id : op.exchange.id;
+      const current = this.seedExchanges.get(id);
+
+      if (op.type === 'create' && current) {
+        throw new ConflictError(`Exchange ${id} already exists`);
+      }
+      if (op.type !== 'create' && !current) {
+        throw new ConflictError(`Exchange ${id} was removed by another operation`);
+      }
+      if (op.type !== 'create' && op.ifMatch !== undefined && current?.etag !== op.ifMatch) {
+        throw new ConflictError(`Exchange ${id} was modified by another operation`);
+      }
+    }
+
+    for (const op of operations) {
+      if (op.type === 'delete') {
+        this.delete(op.id);
+      } else {
+        this.store(op.exchange);
+      }
+    }
   }
 
   /**
@@ -78,11 +222,40 @@ export class SeedExchangeCollections implements ISeedExchangeCollections {
     return Array.from(this.seedExchanges.values());
   }
 
+  /**
+   * Get one page of all seed exchanges, using the offset into the id-ordered result as the continuation token
+   */
+  async getAllExchangesPage(options: PageOptions = {}): Promise<ExchangePage> {
+    return pageByOffset((await this.getAllExchanges()).sort(compareExchangeIds), options);
+  }
+
+  /**
+   * Read exchanges written after a checkpoint, oldest write first.
+   * The checkpoint is the version counter behind the etags, so an exchange written several times
+   * since the checkpoint appears once, in its latest state, as in the Cosmos DB change feed.
+   */
+  async readChanges(checkpoint = '0'): Promise<ExchangeChangeBatch> {
+    if (!/^\d+$/.test(checkpoint)) {
+      throw new Error(`Invalid change feed checkpoint: ${checkpoint}`);
+    }
+
+    const changes = Array.from(this.seedExchanges.values())
+      .filter(ex => Number(ex.etag) > Number(checkpoint))
+      .sort((a, b) => Number(a.etag) - Number(b.etag))
+      .slice(0, CHANGE_BATCH_SIZE);
+
+    return {
+      exchanges: changes,
+      checkpoint: changes.length > 0 ? String(changes[changes.length - 1].etag) : checkpoint
+    };
+  }
+
   /**
    * Clear all collections (useful for testing)
    */
   async clear(): Promise<void> {
     this.seedExchanges.clear();
+    this.exchangesByUser.clear();
   }
 }
 
@@ -1,5 +1,29 @@
-import { initializeCollections, getInMemoryCollections } from './collectionsFactory';
+import {
+  initializeCollections,
+  initializePlantCatalog,
+  initializeAuditLog,
+  initializeLeaseStore,
+  initializeWebhookStore,
+  initializeNotificationStore,
+  initializeUserProfileStore,
+  initializeReputationStore,
+  initializeLedgerStore,
+  getInMemoryCollections
+} from './collectionsFactory';
 import { SeedExchangeCollections } from './collections';
+import { PlantCatalog } from './plantCatalog';
+import { DEFAULT_PLANTS } from './defaultPlants';
+import { AuditLog } from './auditLog';
+import { SqliteSeedExchangeCollections } from './sqliteCollections';
+import { EventSourcedSeedExchangeCollections } from './eventSourcedCollections';
+import { InMemoryLeaseStore } from './domainEvents';
+import { InMemoryWebhookStore } from './webhooks';
+import { InMemoryNotificationStore } from './notifications';
+import { InMemoryUserProfileStore } from './userProfiles';
+import { InMemoryReputationStore } from './reputation';
+import { InMemoryLedgerStore } from './ledger';
+import { CosmosDbLedgerStore } from './cosmosDbLedgerStore';
+import { SqliteLedgerStore } from './sqliteLedgerStore';
 
 describe('Collections Factory', () => {
   const originalEnv = process.env;
@@ -13,6 +37,8 @@ describe('Collections Factory', () => {
     delete process.env.COSMOS_DB_KEY;
     delete process.env.AZURE_KEY_VAULT_URI;
     delete process.env.COSMOS_DB_KEY_SECRET_NAME;
+    delete process.env.SEED_EXCHANGE_SQLITE_PATH;
+    delete process.env.SEED_EXCHANGE_EVENT_SOURCED;
     
     // Suppress console output during tests
     console.log = jest.fn();
@@ -37,6 +63,7 @@ describe('Collections Factory', () => {
       const testExchange = {
         id: 'test-1',
         plantId: 'plant-1',
+        status: 'open-request' as const,
         requestUserId: 'user-1',
         offerUserId: null,
         quantity: 1,
@@ -49,7 +76,7 @@ describe('Collections Factory', () => {
       
       await collections.addExchange(testExchange);
       const retrieved = await collections.getExchange('test-1');
-      expect(retrieved).toEqual(testExchange);
+      expect(retrieved).toEqual({ ...testExchange, etag: expect.any(String) });
     });
 
     it('should fall back to in-memory when Cosmos DB config is incomplete', async () => {
@@ -59,6 +86,121 @@ describe('Collections Factory', () => {
       const collections = await initializeCollections();
       expect(collections).toBeInstanceOf(SeedExchangeCollections);
     });
+
+    it('should use SQLite when SEED_EXCHANGE_SQLITE_PATH is set', async () => {
+      process.env.SEED_EXCHANGE_SQLITE_PATH = ':memory:';
+
+      const collections = await initializeCollections();
+
+      expect(collections).toBeInstanceOf(SqliteSeedExchangeCollections);
+      (collections as SqliteSeedExchangeCollections).close();
+    });
+
+    it('should fail rather than fall back to in-memory when the SQLite database cannot be opened', async () => {
+      process.env.SEED_EXCHANGE_SQLITE_PATH = '/nonexistent-directory/seed-exchange.db';
+
+      await expect(initializeCollections()).rejects.toThrow();
+      expect(console.error).toHaveBeenCalled();
+    });
+
+    it('should use event-sourced collections when SEED_EXCHANGE_EVENT_SOURCED is 1', async () => {
+      process.env.SEED_EXCHANGE_EVENT_SOURCED = '1';
+
+      expect(await initializeCollections()).toBeInstanceOf(EventSourcedSeedExchangeCollections);
+
+      process.env.SEED_EXCHANGE_SQLITE_PATH = ':memory:';
+      expect(await initializeCollections()).toBeInstanceOf(EventSourcedSeedExchangeCollections);
+    });
+
+    it('should refuse event-sourced collections with Cosmos DB, which has no event store', async () => {
+      process.env.SEED_EXCHANGE_EVENT_SOURCED = '1';
+      process.env.COSMOS_DB_ENDPOINT = 'https://test.documents.azure.com:443/';
+      process.env.COSMOS_DB_KEY = 'test-key';
+
+      await expect(initializeCollections()).rejects.toThrow('no Cosmos DB event store');
+    });
+  });
+
+  describe('initializePlantCatalog', () => {
+    it('should return an in-memory catalog loaded with the default plants when Cosmos DB is not configured', async () => {
+      const catalog = await initializePlantCatalog();
+
+      expect(catalog).toBeInstanceOf(PlantCatalog);
+      expect(await catalog.listPlants()).toHaveLength(DEFAULT_PLANTS.length);
+    });
+  });
+
+  describe('initializeAuditLog', () => {
+    it('should return an in-memory audit log when Cosmos DB is not configured', async () => {
+      const auditLog = await initializeAuditLog();
+
+      expect(auditLog).toBeInstanceOf(AuditLog);
+    });
+  });
+
+  describe('initializeLeaseStore', () => {
+    it('should return an in-memory lease store when Cosmos DB is not configured', async () => {
+      const leaseStore = await initializeLeaseStore();
+
+      expect(leaseStore).toBeInstanceOf(InMemoryLeaseStore);
+    });
+  });
+
+  describe('initializeWebhookStore', () => {
+    it('should return an in-memory webhook store when Cosmos DB is not configured', async () => {
+      const webhookStore = await initializeWebhookStore();
+
+      expect(webhookStore).toBeInstanceOf(InMemoryWebhookStore);
+    });
+  });
+
+  describe('initializeNotificationStore', () => {
+    it('should return an in-memory notification store when Cosmos DB is not configured', async () => {
+      const notificationStore = await initializeNotificationStore();
+
+      expect(notificationStore).toBeInstanceOf(InMemoryNotificationStore);
+    });
+  });
+
+  describe('initializeUserProfileStore', () => {
+    it('should return an in-memory user profile store when Cosmos DB is not configured', async () => {
+      const userProfileStore = await initializeUserProfileStore();
+
+      expect(userProfileStore).toBeInstanceOf(InMemoryUserProfileStore);
+    });
+  });
+
+  describe('initializeReputationStore', () => {
+    it('should return an in-memory reputation store when Cosmos DB is not configured', async () => {
+      const reputationStore = await initializeReputationStore();
+
+      expect(reputationStore).toBeInstanceOf(InMemoryReputationStore);
+    });
+  });
+
+  describe('initializeLedgerStore', () => {
+    it('should return an in-memory ledger store when Cosmos DB is not configured', async () => {
+      const ledgerStore = await initializeLedgerStore();
+
+      expect(ledgerStore).toBeInstanceOf(InMemoryLedgerStore);
+    });
+
+    it('should keep the ledger in SQLite when the collections are', async () => {
+      process.env.SEED_EXCHANGE_SQLITE_PATH = ':memory:';
+
+      const ledgerStore = await initializeLedgerStore();
+
+      expect(ledgerStore).toBeInstanceOf(SqliteLedgerStore);
+      (ledgerStore as SqliteLedgerStore).close();
+    });
+
+    it('should fail rather than fall back to in-memory when Cosmos DB cannot be initialized', async () => {
+      process.env.COSMOS_DB_ENDPOINT = 'https://test.documents.azure.com:443/';
+      process.env.COSMOS_DB_KEY = 'test-key';
+      jest.spyOn(CosmosDbLedgerStore, 'initialize').mockRejectedValueOnce(new Error('Unauthorized'));
+
+      await expect(initializeLedgerStore()).rejects.toThrow('Unauthorized');
+    });
   });
 
   describe('getInMemoryCollections', () => {
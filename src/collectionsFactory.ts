@@ -1,35 +1,247 @@
 import { ISeedExchangeCollections } from './ISeedExchangeCollections';
 import { SeedExchangeCollections } from './collections';
 import { CosmosDbSeedExchangeCollections } from './cosmosDbCollections';
-import { getCosmosDbConfig } from './cosmosDbConfig';
+import { CosmosDbConfig, getCosmosDbConfig } from './cosmosDbConfig';
+import { IPlantCatalog } from './IPlantCatalog';
+import { PlantCatalog } from './plantCatalog';
+import { CosmosDbPlantCatalog } from './cosmosDbPlantCatalog';
+import { DEFAULT_PLANTS } from './defaultPlants';
+import { IAuditLog } from './IAuditLog';
+import { AuditLog } from './auditLog';
+import { CosmosDbAuditLog } from './cosmosDbAuditLog';
+import { SqliteSeedExchangeCollections } from './sqliteCollections';
+import { EventSourcedSeedExchangeCollections, InMemoryExchangeEventStore } from './eventSourcedCollections';
+import { SqliteExchangeEventStore } from './sqliteExchangeEventStore';
+import { ILeaseStore } from './ILeaseStore';
+import { InMemoryLeaseStore } from './domainEvents';
+import { CosmosDbLeaseStore } from './cosmosDbLeaseStore';
+import { IWebhookStore } from './IWebhookStore';
+import { InMemoryWebhookStore } from './webhooks';
+import { CosmosDbWebhookStore } from './cosmosDbWebhookStore';
+import { INotificationStore } from './INotificationStore';
+import { InMemoryNotificationStore } from './notifications';
+import { CosmosDbNotificationStore } from './cosmosDbNotificationStore';
+import { IUserProfileStore } from './IUserProfileStore';
+import { InMemoryUserProfileStore } from './userProfiles';
+import { CosmosDbUserProfileStore } from './cosmosDbUserProfileStore';
+import { IReputationStore } from './IReputationStore';
+import { InMemoryReputationStore } from './reputation';
+import { CosmosDbReputationStore } from './cosmosDbReputationStore';
+import { ILedgerStore } from './ILedgerStore';
+import { InMemoryLedgerStore } from './ledger';
+import { CosmosDbLedgerStore } from './cosmosDbLedgerStore';
+import { SqliteLedgerStore } from './sqliteLedgerStore';
+
+/**
+ * Check whether the environment configures Cosmos DB: COSMOS_DB_ENDPOINT and either AZURE_KEY_VAULT_URI or COSMOS_DB_KEY
+ */
+function hasCosmosDbConfig(): boolean {
+  return Boolean(process.env.COSMOS_DB_ENDPOINT && (process.env.AZURE_KEY_VAULT_URI || process.env.COSMOS_DB_KEY));
+}
+
+/**
+ * Initialize durable storage the operator configured.
+ * Failures are thrown rather than falling back to memory, which would lose every write on restart.
+ * @param description - What is being initialized, for the log, e.g. "Cosmos DB audit log"
+ */
+async function initializeConfiguredStore<T>(description: string, initialize: () => Promise<T>): Promise<T> {
+  console.log(`Initializing ${description}...`);
+  try {
+    const store = await initialize();
+    console.log(`✓ ${description} initialized successfully`);
+    return store;
+  } catch (error) {
+    console.error(`Failed to initialize ${description}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Initialize a store in Cosmos DB when the environment configures it, otherwise in memory
+ * @param description - What is being initialized, for the log, e.g. "Cosmos DB audit log"
+ * @throws Error if Cosmos DB is configured but the store cannot be initialized
+ */
+async function initializeCosmosDbOrInMemory<T>(
+  description: string,
+  initialize: (config: CosmosDbConfig) => Promise<T>,
+  createInMemory: () => T
+): Promise<T> {
+  if (!hasCosmosDbConfig()) {
+    return createInMemory();
+  }
+  return initializeConfiguredStore(description, async () => initialize(await getCosmosDbConfig()));
+}
+
+/**
+ * Initialize event-sourced collections, with the event stream in the SQLite database at
+ * SEED_EXCHANGE_SQLITE_PATH when it is set, otherwise in memory
+ * @throws Error if Cosmos DB is configured, which has no event store, or the SQLite database cannot be opened
+ */
+async function initializeEventSourcedCollections(): Promise<ISeedExchangeCollections> {
+  if (hasCosmosDbConfig()) {
+    throw new Error('SEED_EXCHANGE_EVENT_SOURCED needs SQLite or in-memory storage; there is no Cosmos DB event store');
+  }
+
+  const sqlitePath = process.env.SEED_EXCHANGE_SQLITE_PATH;
+  if (sqlitePath) {
+    return initializeConfiguredStore(
+      `SQLite event stream in ${sqlitePath}`,
+      () => EventSourcedSeedExchangeCollections.fromEventStore(new SqliteExchangeEventStore(sqlitePath))
+    );
+  }
+
+  console.log('Using an in-memory event stream (set SEED_EXCHANGE_SQLITE_PATH to keep it in SQLite)');
+  return new EventSourcedSeedExchangeCollections(new InMemoryExchangeEventStore());
+}
 
 /**
  * Initialize collections based on environment configuration.
- * If COSMOS_DB_ENDPOINT and either AZURE_KEY_VAULT_URI or COSMOS_DB_KEY are set, uses Cosmos DB.
- * Otherwise, falls back to in-memory collections.
+ * If SEED_EXCHANGE_EVENT_SOURCED is 1, uses event-sourced collections (see initializeEventSourcedCollections).
+ * Otherwise, if COSMOS_DB_ENDPOINT and either AZURE_KEY_VAULT_URI or COSMOS_DB_KEY are set, uses Cosmos DB.
+ * Otherwise, if SEED_EXCHANGE_SQLITE_PATH is set, uses a SQLite database file at that path.
+ * Otherwise, uses in-memory collections.
+ * A Cosmos DB per-user view is only read from; the user view worker keeps it up to date.
+ * @throws Error if the configured storage cannot be initialized
  */
 export async function initializeCollections(): Promise<ISeedExchangeCollections> {
-  const hasCosmosEndpoint = process.env.COSMOS_DB_ENDPOINT;
-  const hasKeyVault = process.env.AZURE_KEY_VAULT_URI;
-  const hasEnvKey = process.env.COSMOS_DB_KEY;
-  const hasCosmosConfig = hasCosmosEndpoint && (hasKeyVault || hasEnvKey);
-  
-  if (hasCosmosConfig) {
-    try {
-      console.log('Initializing Cosmos DB collections...');
+  if (process.env.SEED_EXCHANGE_EVENT_SOURCED === '1') {
+    return initializeEventSourcedCollections();
+  }
+
+  if (hasCosmosDbConfig()) {
+    return initializeConfiguredStore('Cosmos DB collections', async () => {
       const config = await getCosmosDbConfig();
       const collections = await CosmosDbSeedExchangeCollections.initialize(config);
-      console.log('✓ Cosmos DB collections initialized successfully');
+      if (collections.userView) {
+        // Only read here: the view is kept up to date by the user view worker alone
+        console.log(`✓ Serving users' exchanges from the ${config.userViewContainerId} view (updated by npm run user-view-worker)`);
+      }
       return collections;
-    } catch (error) {
-      console.error('Failed to initialize Cosmos DB collections:', error);
-      console.log('Falling back to in-memory collections');
-      return new SeedExchangeCollections();
+    });
+  }
+
+  const sqlitePath = process.env.SEED_EXCHANGE_SQLITE_PATH;
+  if (sqlitePath) {
+    return initializeConfiguredStore(
+      `SQLite collections in ${sqlitePath}`,
+      async () => new SqliteSeedExchangeCollections(sqlitePath)
+    );
+  }
+
+  console.log('Using in-memory collections (set COSMOS_DB_ENDPOINT and AZURE_KEY_VAULT_URI or COSMOS_DB_KEY to use Cosmos DB, or SEED_EXCHANGE_SQLITE_PATH to use SQLite)');
+  return new SeedExchangeCollections();
+}
+
+/**
+ * Initialize the plant catalog based on environment configuration.
+ * Uses Cosmos DB under the same conditions as initializeCollections(), otherwise an in-memory catalog.
+ * An empty catalog is loaded with DEFAULT_PLANTS.
+ */
+export async function initializePlantCatalog(): Promise<IPlantCatalog> {
+  return initializeCosmosDbOrInMemory<IPlantCatalog>('Cosmos DB plant catalog', async config => {
+    const catalog = await CosmosDbPlantCatalog.initialize(config);
+    if ((await catalog.listPlants()).length === 0) {
+      for (const plant of DEFAULT_PLANTS) {
+        await catalog.addPlant(plant);
+      }
     }
-  } else {
-    console.log('Using in-memory collections (set COSMOS_DB_ENDPOINT and AZURE_KEY_VAULT_URI or COSMOS_DB_KEY to use Cosmos DB)');
-    return new SeedExchangeCollections();
+    return catalog;
+  }, () => new PlantCatalog(DEFAULT_PLANTS));
+}
+
+/**
+ * Initialize the audit log based on environment configuration.
+ * Uses Cosmos DB under the same conditions as initializeCollections(), otherwise an in-memory log.
+ */
+export async function initializeAuditLog(): Promise<IAuditLog> {
+  return initializeCosmosDbOrInMemory<IAuditLog>(
+    'Cosmos DB audit log',
+    CosmosDbAuditLog.initialize,
+    () => new AuditLog()
+  );
+}
+
+/**
+ * Initialize the lease store for change feed processors based on environment configuration.
+ * Uses Cosmos DB under the same conditions as initializeCollections(), otherwise an in-memory store.
+ */
+export async function initializeLeaseStore(): Promise<ILeaseStore> {
+  return initializeCosmosDbOrInMemory<ILeaseStore>(
+    'Cosmos DB lease store',
+    CosmosDbLeaseStore.initialize,
+    () => new InMemoryLeaseStore()
+  );
+}
+
+/**
+ * Initialize webhook subscription and delivery storage based on environment configuration.
+ * Uses Cosmos DB under the same conditions as initializeCollections(), otherwise an in-memory store.
+ */
+export async function initializeWebhookStore(): Promise<IWebhookStore> {
+  return initializeCosmosDbOrInMemory<IWebhookStore>(
+    'Cosmos DB webhook store',
+    CosmosDbWebhookStore.initialize,
+    () => new InMemoryWebhookStore()
+  );
+}
+
+/**
+ * Initialize notification preference and outbox storage based on environment configuration.
+ * Uses Cosmos DB under the same conditions as initializeCollections(), otherwise an in-memory store.
+ */
+export async function initializeNotificationStore(): Promise<INotificationStore> {
+  return initializeCosmosDbOrInMemory<INotificationStore>(
+    'Cosmos DB notification store',
+    CosmosDbNotificationStore.initialize,
+    () => new InMemoryNotificationStore()
+  );
+}
+
+/**
+ * Initialize user profile storage based on environment configuration.
+ * Uses Cosmos DB under the same conditions as initializeCollections(), otherwise an in-memory store.
+ */
+export async function initializeUserProfileStore(): Promise<IUserProfileStore> {
+  return initializeCosmosDbOrInMemory<IUserProfileStore>(
+    'Cosmos DB user profile store',
+    CosmosDbUserProfileStore.initialize,
+    () => new InMemoryUserProfileStore()
+  );
+}
+
+/**
+ * Initialize reputation storage based on environment configuration.
+ * Uses Cosmos DB under the same conditions as initializeCollections(), otherwise an in-memory store.
+ */
+export async function initializeReputationStore(): Promise<IReputationStore> {
+  return initializeCosmosDbOrInMemory<IReputationStore>(
+    'Cosmos DB reputation store',
+    CosmosDbReputationStore.initialize,
+    () => new InMemoryReputationStore()
+  );
+}
+
+/**
+ * Initialize credit ledger storage based on environment configuration.
+ * Follows the same rules as initializeCollections(), so credits are kept as durably as the exchanges
+ * they are reserved against: Cosmos DB, then the SQLite database at SEED_EXCHANGE_SQLITE_PATH,
+ * otherwise an in-memory store.
+ * @throws Error if Cosmos DB or SQLite is configured but cannot be initialized
+ */
+export async function initializeLedgerStore(): Promise<ILedgerStore> {
+  const sqlitePath = process.env.SEED_EXCHANGE_SQLITE_PATH;
+  if (sqlitePath && !hasCosmosDbConfig()) {
+    return initializeConfiguredStore(
+      `SQLite ledger store in ${sqlitePath}`,
+      async () => new SqliteLedgerStore(sqlitePath)
+    );
   }
+
+  return initializeCosmosDbOrInMemory<ILedgerStore>(
+    'Cosmos DB ledger store',
+    CosmosDbLedgerStore.initialize,
+    () => new InMemoryLedgerStore()
+  );
 }
 
 /**
@@ -0,0 +1,135 @@
+import { CosmosClient, Container } from '@azure/cosmos';
+import { AuditLogEntry } from './types';
+import { IAuditLog } from './IAuditLog';
+import { CosmosDbConfig } from './cosmosDbConfig';
+import { deserializeExchange, SeedExchangeDocument } from './cosmosDbCollections';
+
+/**
+ * Container used for the audit log when CosmosDbConfig does not name one
+ */
+const DEFAULT_AUDIT_LOG_CONTAINER_ID = 'AuditLog';
+
+/**
+ * Cosmos DB document for an audit entry, with dates and snapshots as stored JSON
+ */
+interface AuditLogDocument extends Omit<AuditLogEntry, 'before' | 'after' | 'timestamp'> {
+  before: SeedExchangeDocument | null;
+  after: SeedExchangeDocument | null;
+  timestamp: string;
+}
+
+/**
+ * Cosmos DB implementation of the audit log.
+ * Entries live in their own container partitioned by exchange id, so the history of one
+ * exchange is a single-partition query; lookups by user fan out across partitions.
+ */
+export class CosmosDbAuditLog implements IAuditLog {
+  private container: Container;
+
+  /**
+   * Initialize the Cosmos DB audit log
+   * @param config - Cosmos DB configuration
+   */
+  constructor(config: CosmosDbConfig) {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    this.container = client
+      .database(config.databaseId)
+      .container(config.auditLogContainerId || DEFAULT_AUDIT_LOG_CONTAINER_ID);
+  }
+
+  /**
+   * Initialize database and audit log container if they don't exist
+   * @param config - Cosmos DB configuration
+   */
+  static async initialize(config: CosmosDbConfig): Promise<CosmosDbAuditLog> {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    const { database } = await client.databases.createIfNotExists({
+      id: config.databaseId
+    });
+
+    await database.containers.createIfNotExists({
+      id: config.auditLogContainerId || DEFAULT_AUDIT_LOG_CONTAINER_ID,
+      partitionKey: {
+        paths: ['/exchangeId'],
+        version: 2
+      }
+    });
+
+    return new CosmosDbAuditLog(config);
+  }
+
+  /**
+   * Convert ISO strings in a stored entry and its snapshots back to Date objects
+   */
+  private deserializeEntry(doc: AuditLogDocument): AuditLogEntry {
+    return {
+      id: doc.id,
+      exchangeId: doc.exchangeId,
+      actorUserId: doc.actorUserId,
+      action: doc.action,
+      before: doc.before ? deserializeExchange(doc.before) : null,
+      after: doc.after ? deserializeExchange(doc.after) : null,
+      userIds: doc.userIds,
+      timestamp: new Date(doc.timestamp)
+    };
+  }
+
+  /**
+   * Append entries to the log
+   */
+  async append(entries: AuditLogEntry[]): Promise<void> {
+    for (const entry of entries) {
+      await this.container.items.create(entry);
+    }
+  }
+
+  /**
+   * Get every entry for an exchange, oldest first
+   */
+  async getEntriesByExchange(exchangeId: string): Promise<AuditLogEntry[]> {
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE c.exchangeId = @exchangeId ORDER BY c.timestamp ASC',
+      parameters: [
+        { name: '@exchangeId', value: exchangeId }
+      ]
+    };
+
+    const { resources } = await this.container.items
+      .query<AuditLogDocument>(querySpec, { partitionKey: exchangeId })
+      .fetchAll();
+    return resources.map(doc => this.deserializeEntry(doc));
+  }
+
+  /**
+   * Get every entry listing the user as actor or party, oldest first
+   */
+  async getEntriesByUser(userId: string): Promise<AuditLogEntry[]> {
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE ARRAY_CONTAINS(c.userIds, @userId) ORDER BY c.timestamp ASC',
+      parameters: [
+        { name: '@userId', value: userId }
+      ]
+    };
+
+    const { resources } = await this.container.items.query<AuditLogDocument>(querySpec).fetchAll();
+    return resources.map(doc => this.deserializeEntry(doc));
+  }
+
+  /**
+   * Clear the log (useful for testing)
+   */
+  async clear(): Promise<void> {
+    const { resources } = await this.container.items
+      .query<{ id: string; exchangeId: string }>('SELECT c.id, c.exchangeId FROM c')
+      .fetchAll();
+    await Promise.all(resources.map(doc => this.container.item(doc.id, doc.exchangeId).delete()));
+  }
+}
@@ -0,0 +1,143 @@
+import { StatusCodes } from '@azure/cosmos';
+import { CosmosDbSeedExchangeCollections } from './cosmosDbCollections';
+import { createExchangeId } from './exchangeIds';
+
+const read = jest.fn();
+const remove = jest.fn();
+const item = jest.fn(() => ({ read, delete: remove }));
+const fetchAll = jest.fn();
+const query = jest.fn(() => ({ fetchAll }));
+const readNext = jest.fn();
+const getChangeFeedIterator = jest.fn(() => ({ readNext }));
+
+jest.mock('@azure/cosmos', () => ({
+  ...jest.requireActual('@azure/cosmos'),
+  CosmosClient: jest.fn(() => ({
+    database: () => ({ container: () => ({ item, items: { query, getChangeFeedIterator } }) })
+  }))
+}));
+
+const DOCUMENT = {
+  id: 'milkweed-001:7d9c',
+  plantId: 'milkweed-001',
+  status: 'open-request',
+  requestUserId: 'alice',
+  offerUserId: null,
+  quantity: 2,
+  seedRequestTime: '2025-01-01T00:00:00.000Z',
+  seedOfferTime: null,
+  confirmationTime: null,
+  shipTime: null,
+  receivedTime: null,
+  _etag: '"1"'
+};
+
+describe('CosmosDbSeedExchangeCollections point reads', () => {
+  let collections: CosmosDbSeedExchangeCollections;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    collections = new CosmosDbSeedExchangeCollections({
+      endpoint: 'https://localhost:8081',
+      key: 'key',
+      databaseId: 'SeedExchange',
+      containerId: 'Exchanges'
+    });
+  });
+
+  it('should read ids that embed their plant id from a single partition', async () => {
+    read.mockResolvedValue({ resource: DOCUMENT, requestCharge: 1 });
+
+    const exchange = await collections.getExchange(DOCUMENT.id);
+
+    expect(item).toHaveBeenCalledWith(DOCUMENT.id, 'milkweed-001');
+    expect(query).not.toHaveBeenCalled();
+    expect(exchange?.plantId).toBe('milkweed-001');
+    expect(exchange?.seedRequestTime).toEqual(new Date('2025-01-01T00:00:00.000Z'));
+    expect(collections.getRequestCharges()).toEqual({ 'getExchange.pointRead': { requests: 1, requestCharge: 1 } });
+  });
+
+  it('should use the plant id hint for legacy ids', async () => {
+    read.mockResolvedValue({ resource: { ...DOCUMENT, id: 'legacy-id' }, requestCharge: 1 });
+
+    await collections.getExchange('legacy-id', 'milkweed-001');
+
+    expect(item).toHaveBeenCalledWith('legacy-id', 'milkweed-001');
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to a cross-partition query for legacy ids without a hint', async () => {
+    fetchAll.mockResolvedValue({ resources: [{ ...DOCUMENT, id: 'legacy-id' }], requestCharge: 2.9 });
+
+    const exchange = await collections.getExchange('legacy-id');
+
+    expect(exchange?.id).toBe('legacy-id');
+    expect(item).not.toHaveBeenCalled();
+    expect(collections.getRequestCharges()).toEqual({ 'getExchange.query': { requests: 1, requestCharge: 2.9 } });
+  });
+
+  it('should return undefined when a point read finds nothing', async () => {
+    read.mockResolvedValue({ resource: undefined, requestCharge: 1 });
+
+    expect(await collections.getExchange(createExchangeId('aster'))).toBeUndefined();
+  });
+
+  it('should delete from a single partition and ignore missing entries', async () => {
+    remove.mockResolvedValueOnce({ requestCharge: 5.7 });
+    remove.mockRejectedValueOnce(Object.assign(new Error('Not found'), { code: 404 }));
+
+    await collections.removeExchange(DOCUMENT.id);
+    await collections.removeExchange(DOCUMENT.id);
+
+    expect(item).toHaveBeenCalledWith(DOCUMENT.id, 'milkweed-001');
+    expect(query).not.toHaveBeenCalled();
+    expect(collections.getRequestCharges()).toEqual({ removeExchange: { requests: 1, requestCharge: 5.7 } });
+  });
+
+  it('should sum request charges per operation until reset', async () => {
+    read.mockResolvedValue({ resource: DOCUMENT, requestCharge: 1 });
+
+    await collections.getExchange(DOCUMENT.id);
+    await collections.getExchange(DOCUMENT.id);
+    expect(collections.getRequestCharges()['getExchange.pointRead']).toEqual({ requests: 2, requestCharge: 2 });
+
+    collections.resetRequestCharges();
+    expect(collections.getRequestCharges()).toEqual({});
+  });
+});
+
+describe('CosmosDbSeedExchangeCollections change feed', () => {
+  let collections: CosmosDbSeedExchangeCollections;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    collections = new CosmosDbSeedExchangeCollections({
+      endpoint: 'https://localhost:8081',
+      key: 'key',
+      databaseId: 'SeedExchange',
+      containerId: 'Exchanges'
+    });
+  });
+
+  it('should read changed exchanges from the checkpoint and return the next one', async () => {
+    readNext.mockResolvedValue({
+      statusCode: StatusCodes.Ok, result: [DOCUMENT], continuationToken: 'next', requestCharge: 2
+    });
+
+    const batch = await collections.readChanges('previous');
+
+    const [[options]] = getChangeFeedIterator.mock.calls as unknown as [[{ changeFeedStartFrom: { continuationToken: string } }]];
+    expect(options.changeFeedStartFrom.continuationToken).toBe('previous');
+    expect(batch.checkpoint).toBe('next');
+    expect(batch.exchanges.map(exchange => exchange.id)).toEqual([DOCUMENT.id]);
+    expect(batch.exchanges[0].seedRequestTime).toEqual(new Date('2025-01-01T00:00:00.000Z'));
+  });
+
+  it('should return an empty batch once caught up', async () => {
+    readNext.mockResolvedValue({
+      statusCode: StatusCodes.NotModified, result: [], continuationToken: 'same', requestCharge: 1
+    });
+
+    expect(await collections.readChanges()).toEqual({ exchanges: [], checkpoint: 'same' });
+  });
+});
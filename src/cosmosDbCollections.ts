@@ -1,26 +1,181 @@
-import { CosmosClient, Container } from '@azure/cosmos';
-import { SeedExchange } from './types';
-import { ISeedExchangeCollections } from './ISeedExchangeCollections';
+import {
+  CosmosClient,
+  Container,
+  ErrorResponse,
+  OperationInput,
+  BulkOperationType,
+  JSONObject,
+  SqlQuerySpec,
+  SqlParameter,
+  FeedOptions,
+  ChangeFeedStartFrom,
+  StatusCodes
+} from '@azure/cosmos';
+import { SeedExchange, ExchangeDispute } from './types';
+import {
+  ISeedExchangeCollections,
+  UpdateExchangeOptions,
+  ExchangeWriteOperation,
+  PageOptions,
+  ExchangePage,
+  ExchangeFilter
+} from './ISeedExchangeCollections';
 import { CosmosDbConfig } from './cosmosDbConfig';
+import { deriveExchangeStatus, MATCHED_STATUSES } from './exchangeStatus';
+import { ConflictError, ValidationError } from './errors';
+import { resolvePageSize } from './pagination';
+import { getBatchPlantId, plantIdFromExchangeId } from './exchangeIds';
+import { validateExchangeFilter, toList } from './exchangeFilter';
+import { CosmosDbUserExchangeView } from './cosmosDbUserExchangeView';
+import { IExchangeChangeFeed, ExchangeChangeBatch } from './IExchangeChangeFeed';
+
+/**
+ * Largest number of changed exchanges readChanges() returns at once
+ */
+const CHANGE_BATCH_SIZE = 100;
 
 /**
  * Cosmos DB document that extends SeedExchange with Cosmos DB specific fields
  */
-interface SeedExchangeDocument extends SeedExchange {
+export interface SeedExchangeDocument extends Omit<SeedExchange, 'status' | 'etag'> {
+  status?: SeedExchange['status']; // Missing on documents written before statuses existed
   _ts?: number; // Cosmos DB timestamp
+  _etag?: string; // Cosmos DB version tag
+  ttl?: number; // Seconds until Cosmos DB deletes the document (expired entries only)
+}
+
+/**
+ * Query conditions selecting entries by status.
+ * Documents written before the status field existed are matched by their user ids.
+ */
+const OPEN_REQUEST_CONDITION = `(c.status = 'open-request'
+  OR (NOT IS_DEFINED(c.status) AND c.requestUserId != null AND c.offerUserId = null))`;
+const OPEN_OFFER_CONDITION = `(c.status = 'open-offer'
+  OR (NOT IS_DEFINED(c.status) AND c.offerUserId != null AND c.requestUserId = null))`;
+const MATCHED_CONDITION = `(ARRAY_CONTAINS(@matchedStatuses, c.status)
+  OR (NOT IS_DEFINED(c.status) AND c.requestUserId != null AND c.offerUserId != null))`;
+
+/**
+ * Build the parameterized query for an exchange search.
+ * Field names come from the validated filter; every value is passed as a parameter.
+ * Status filters only match documents that store a status.
+ * @throws ValidationError if the filter is invalid
+ */
+export function buildExchangeSearchQuery(filter: ExchangeFilter): SqlQuerySpec {
+  validateExchangeFilter(filter);
+  const conditions: string[] = [];
+  const parameters: SqlParameter[] = [];
+
+  const statuses = toList(filter.status);
+  if (statuses) {
+    parameters.push({ name: '@statuses', value: statuses });
+    conditions.push('ARRAY_CONTAINS(@statuses, c.status)');
+  }
+
+  const plantIds = toList(filter.plantId);
+  if (plantIds) {
+    parameters.push({ name: '@plantIds', value: plantIds });
+    conditions.push('ARRAY_CONTAINS(@plantIds, c.plantId)');
+  }
+
+  if (filter.userId !== undefined) {
+    parameters.push({ name: '@userId', value: filter.userId });
+    conditions.push(filter.role === 'requester' ? 'c.requestUserId = @userId'
+      : filter.role === 'offerer' ? 'c.offerUserId = @userId'
+        : '(c.requestUserId = @userId OR c.offerUserId = @userId)');
+  }
+
+  // Timestamps are stored as ISO strings, which sort and compare chronologically
+  for (const [field, range] of Object.entries(filter.timeRanges ?? {})) {
+    if (range?.from) {
+      parameters.push({ name: `@${field}From`, value: range.from.toISOString() });
+      conditions.push(`c.${field} >= @${field}From`);
+    }
+    if (range?.to) {
+      parameters.push({ name: `@${field}To`, value: range.to.toISOString() });
+      conditions.push(`c.${field} < @${field}To`);
+    }
+  }
+
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+  const direction = filter.sortDirection === 'desc' ? 'DESC' : 'ASC';
+  return {
+    query: `SELECT * FROM c${where} ORDER BY c.${filter.sortBy ?? 'id'} ${direction}`,
+    parameters
+  };
+}
+
+/**
+ * Convert ISO strings back to Date objects from Cosmos DB.
+ * Also used for exchange snapshots stored in other containers, such as the audit log.
+ */
+export function deserializeExchange(doc: SeedExchangeDocument): SeedExchange {
+  const exchange = {
+    id: doc.id,
+    plantId: doc.plantId,
+    requestUserId: doc.requestUserId,
+    offerUserId: doc.offerUserId,
+    quantity: doc.quantity,
+    seedRequestTime: doc.seedRequestTime ? new Date(doc.seedRequestTime) : null,
+    seedOfferTime: doc.seedOfferTime ? new Date(doc.seedOfferTime) : null,
+    confirmationTime: doc.confirmationTime ? new Date(doc.confirmationTime) : null,
+    shipTime: doc.shipTime ? new Date(doc.shipTime) : null,
+    receivedTime: doc.receivedTime ? new Date(doc.receivedTime) : null
+  };
+
+  return {
+    ...exchange,
+    status: doc.status ?? deriveExchangeStatus(exchange),
+    cancellation: doc.cancellation
+      ? { ...doc.cancellation, cancelTime: new Date(doc.cancellation.cancelTime) }
+      : undefined,
+    dispute: doc.dispute ? deserializeDispute(doc.dispute) : undefined,
+    transitions: doc.transitions?.map(transition => ({ ...transition, time: new Date(transition.time) })),
+    etag: doc._etag
+  };
+}
+
+/**
+ * Convert the ISO strings in a stored dispute back to Date objects
+ */
+function deserializeDispute(dispute: ExchangeDispute): ExchangeDispute {
+  return {
+    ...dispute,
+    openTime: new Date(dispute.openTime),
+    response: dispute.response
+      ? { ...dispute.response, responseTime: new Date(dispute.response.responseTime) }
+      : undefined,
+    resolution: dispute.resolution
+      ? { ...dispute.resolution, resolveTime: new Date(dispute.resolution.resolveTime) }
+      : undefined
+  };
+}
+
+/**
+ * Request units consumed by one kind of Cosmos DB call
+ */
+export interface RequestChargeStats {
+  requests: number;
+  requestCharge: number;
 }
 
 /**
  * Cosmos DB implementation of seed exchange collections
  */
-export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections {
+export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections, IExchangeChangeFeed {
   private container: Container;
+  private expiredEntryTtlSeconds?: number;
+  private requestCharges = new Map<string, RequestChargeStats>();
+  /** Per-user view that answers getExchangesByUser, when CosmosDbConfig names a `userViewContainerId` */
+  readonly userView?: CosmosDbUserExchangeView;
 
   /**
    * Initialize the Cosmos DB collections
    * @param config - Cosmos DB configuration
    */
   constructor(config: CosmosDbConfig) {
+    this.expiredEntryTtlSeconds = config.expiredEntryTtlSeconds;
+
     const client = new CosmosClient({
       endpoint: config.endpoint,
       key: config.key
@@ -29,6 +184,13 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
     this.container = client
       .database(config.databaseId)
       .container(config.containerId);
+
+    if (config.userViewContainerId) {
+      this.userView = new CosmosDbUserExchangeView(
+        config,
+        (operation, requestCharge) => this.recordRequestCharge(operation, requestCharge)
+      );
+    }
   }
 
   /**
@@ -46,13 +208,15 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
       id: config.databaseId
     });
 
-    // Create container with partition key on plantId for efficient querying
+    // Create container with partition key on plantId for efficient querying.
+    // A default TTL of -1 enables per-document TTL without expiring anything by default.
     await database.containers.createIfNotExists({
       id: config.containerId,
       partitionKey: {
         paths: ['/plantId'],
         version: 2
       },
+      defaultTtl: config.expiredEntryTtlSeconds !== undefined ? -1 : undefined,
       indexingPolicy: {
         automatic: true,
         indexingMode: 'consistent',
@@ -62,6 +226,10 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
       }
     });
 
+    if (config.userViewContainerId) {
+      await CosmosDbUserExchangeView.initialize(config);
+    }
+
     return new CosmosDbSeedExchangeCollections(config);
   }
 
@@ -69,32 +237,54 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
    * Convert Date objects to ISO strings for Cosmos DB storage
    */
   private serializeExchange(exchange: SeedExchange): SeedExchangeDocument {
+    // The etag is managed by Cosmos DB as _etag and is never stored in the document body
+    const { etag, ...fields } = exchange;
     return {
-      ...exchange,
+      ...fields,
       seedRequestTime: exchange.seedRequestTime ? exchange.seedRequestTime : null,
       seedOfferTime: exchange.seedOfferTime ? exchange.seedOfferTime : null,
       confirmationTime: exchange.confirmationTime ? exchange.confirmationTime : null,
       shipTime: exchange.shipTime ? exchange.shipTime : null,
-      receivedTime: exchange.receivedTime ? exchange.receivedTime : null
+      receivedTime: exchange.receivedTime ? exchange.receivedTime : null,
+      // Let Cosmos DB delete expired entries once the retention period has passed
+      ttl: exchange.status === 'expired' ? this.expiredEntryTtlSeconds : undefined
     };
   }
 
   /**
-   * Convert ISO strings back to Date objects from Cosmos DB
+   * Add the request units of a Cosmos DB call to its operation's running total
    */
-  private deserializeExchange(doc: SeedExchangeDocument): SeedExchange {
-    return {
-      id: doc.id,
-      plantId: doc.plantId,
-      requestUserId: doc.requestUserId,
-      offerUserId: doc.offerUserId,
-      quantity: doc.quantity,
-      seedRequestTime: doc.seedRequestTime ? new Date(doc.seedRequestTime) : null,
-      seedOfferTime: doc.seedOfferTime ? new Date(doc.seedOfferTime) : null,
-      confirmationTime: doc.confirmationTime ? new Date(doc.confirmationTime) : null,
-      shipTime: doc.shipTime ? new Date(doc.shipTime) : null,
-      receivedTime: doc.receivedTime ? new Date(doc.receivedTime) : null
-    };
+  private recordRequestCharge(operation: string, requestCharge: number | undefined): void {
+    const stats = this.requestCharges.get(operation) ?? { requests: 0, requestCharge: 0 };
+    this.requestCharges.set(operation, {
+      requests: stats.requests + 1,
+      requestCharge: stats.requestCharge + (requestCharge ?? 0)
+    });
+  }
+
+  /**
+   * Request units consumed since the collections were created or last reset, by operation.
+   * `getExchange.pointRead` and `getExchange.query` separate single-partition reads from
+   * cross-partition lookups of ids that do not embed their plant id.
+   */
+  getRequestCharges(): Record<string, RequestChargeStats> {
+    return Object.fromEntries(Array.from(this.requestCharges, ([operation, stats]) => [operation, { ...stats }]));
+  }
+
+  /**
+   * Start counting request units from zero
+   */
+  resetRequestCharges(): void {
+    this.requestCharges.clear();
+  }
+
+  /**
+   * Run a query to completion and record its request units
+   */
+  private async queryAll(operation: string, querySpec: SqlQuerySpec, options?: FeedOptions): Promise<SeedExchange[]> {
+    const response = await this.container.items.query<SeedExchangeDocument>(querySpec, options).fetchAll();
+    this.recordRequestCharge(operation, response.requestCharge);
+    return response.resources.map(doc => deserializeExchange(doc));
   }
 
   /**
@@ -104,16 +294,14 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
     const querySpec = {
       query: `SELECT * FROM c 
               WHERE c.plantId = @plantId 
-              AND c.requestUserId != null 
-              AND c.offerUserId = null
+              AND ${OPEN_REQUEST_CONDITION}
               ORDER BY c.seedRequestTime ASC`,
       parameters: [
         { name: '@plantId', value: plantId }
       ]
     };
 
-    const { resources } = await this.container.items.query<SeedExchangeDocument>(querySpec).fetchAll();
-    return resources.map(doc => this.deserializeExchange(doc));
+    return this.queryAll('getOpenRequestsByPlant', querySpec, { partitionKey: plantId });
   }
 
   /**
@@ -123,16 +311,58 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
     const querySpec = {
       query: `SELECT * FROM c 
               WHERE c.plantId = @plantId 
-              AND c.offerUserId != null 
-              AND c.requestUserId = null
+              AND ${OPEN_OFFER_CONDITION}
               ORDER BY c.seedOfferTime ASC`,
       parameters: [
         { name: '@plantId', value: plantId }
       ]
     };
 
-    const { resources } = await this.container.items.query<SeedExchangeDocument>(querySpec).fetchAll();
-    return resources.map(doc => this.deserializeExchange(doc));
+    return this.queryAll('getOpenOffersByPlant', querySpec, { partitionKey: plantId });
+  }
+
+  /**
+   * Get open requests and offers created before their respective cutoffs (cross-partition)
+   */
+  async getStaleOpenEntries(requestCutoff: Date, offerCutoff: Date): Promise<SeedExchange[]> {
+    const querySpec = {
+      query: `SELECT * FROM c 
+              WHERE (${OPEN_REQUEST_CONDITION} AND c.seedRequestTime < @requestCutoff)
+              OR (${OPEN_OFFER_CONDITION} AND c.seedOfferTime < @offerCutoff)`,
+      parameters: [
+        { name: '@requestCutoff', value: requestCutoff.toISOString() },
+        { name: '@offerCutoff', value: offerCutoff.toISOString() }
+      ]
+    };
+
+    return this.queryAll('getStaleOpenEntries', querySpec);
+  }
+
+  /**
+   * Read one page of an ordered query, using Cosmos DB's own continuation token.
+   * Cross-partition pages may hold fewer than `pageSize` exchanges even when more follow.
+   */
+  private async queryPage(operation: string, querySpec: SqlQuerySpec, options: PageOptions): Promise<ExchangePage> {
+    const maxItemCount = resolvePageSize(options.pageSize);
+
+    try {
+      const response = await this.container.items.query<SeedExchangeDocument>(
+        querySpec,
+        { maxItemCount, continuationToken: options.continuationToken }
+      ).fetchNext();
+      this.recordRequestCharge(operation, response.requestCharge);
+
+      return {
+        exchanges: response.resources.map(doc => deserializeExchange(doc)),
+        continuationToken: response.continuationToken ?? undefined
+      };
+    } catch (error) {
+      // 400: Cosmos DB could not parse the continuation token
+      if (options.continuationToken !== undefined && (error as ErrorResponse).code === 400) {
+        throw new ValidationError('Continuation token is not valid for this query', 'INVALID_CONTINUATION_TOKEN');
+      }
+      throw error;
+    }
   }
 
   /**
@@ -141,18 +371,36 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
   async getConfirmedExchanges(): Promise<SeedExchange[]> {
     const querySpec = {
       query: `SELECT * FROM c 
-              WHERE c.requestUserId != null 
-              AND c.offerUserId != null`
+              WHERE ${MATCHED_CONDITION}`,
+      parameters: [
+        { name: '@matchedStatuses', value: [...MATCHED_STATUSES] }
+      ]
     };
 
-    const { resources } = await this.container.items.query<SeedExchangeDocument>(querySpec).fetchAll();
-    return resources.map(doc => this.deserializeExchange(doc));
+    return this.queryAll('getConfirmedExchanges', querySpec);
+  }
+
+  /**
+   * Get one page of confirmed exchanges
+   */
+  async getConfirmedExchangesPage(options: PageOptions = {}): Promise<ExchangePage> {
+    return this.queryPage('getConfirmedExchangesPage', {
+      query: `SELECT * FROM c WHERE ${MATCHED_CONDITION} ORDER BY c.id`,
+      parameters: [
+        { name: '@matchedStatuses', value: [...MATCHED_STATUSES] }
+      ]
+    }, options);
   }
 
   /**
-   * Get all exchanges for a specific user
+   * Get all exchanges for a specific user.
+   * With a per-user view this is a single-partition read that may briefly lag recent writes.
    */
   async getExchangesByUser(userId: string): Promise<SeedExchange[]> {
+    if (this.userView) {
+      return this.userView.getExchangesByUser(userId);
+    }
+
     const querySpec = {
       query: `SELECT * FROM c 
               WHERE c.requestUserId = @userId 
@@ -162,8 +410,23 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
       ]
     };
 
-    const { resources } = await this.container.items.query<SeedExchangeDocument>(querySpec).fetchAll();
-    return resources.map(doc => this.deserializeExchange(doc));
+    return this.queryAll('getExchangesByUser', querySpec);
+  }
+
+  /**
+   * Get one page of exchanges for a specific user
+   */
+  async getExchangesByUserPage(userId: string, options: PageOptions = {}): Promise<ExchangePage> {
+    if (this.userView) {
+      return this.userView.getExchangesByUserPage(userId, options);
+    }
+
+    return this.queryPage('getExchangesByUserPage', {
+      query: 'SELECT * FROM c WHERE c.requestUserId = @userId OR c.offerUserId = @userId ORDER BY c.id',
+      parameters: [
+        { name: '@userId', value: userId }
+      ]
+    }, options);
   }
 
   /**
@@ -171,51 +434,138 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
    */
   async addExchange(exchange: SeedExchange): Promise<void> {
     const doc = this.serializeExchange(exchange);
-    await this.container.items.create(doc);
+    const response = await this.container.items.create(doc);
+    this.recordRequestCharge('addExchange', response.requestCharge);
   }
 
   /**
-   * Get a seed exchange by ID
+   * Get a seed exchange by ID.
+   * Reads a single partition when the plant is known from the hint or the id; ids created before
+   * plant ids were embedded fall back to a cross-partition query.
    */
-  async getExchange(id: string): Promise<SeedExchange | undefined> {
-    try {
-      // We need to query since we don't have the partition key readily available
-      const querySpec = {
-        query: 'SELECT * FROM c WHERE c.id = @id',
-        parameters: [
-          { name: '@id', value: id }
-        ]
-      };
+  async getExchange(id: string, plantId?: string): Promise<SeedExchange | undefined> {
+    const partitionKey = plantId ?? plantIdFromExchangeId(id);
 
-      const { resources } = await this.container.items.query<SeedExchangeDocument>(querySpec).fetchAll();
-      
-      if (resources.length === 0) {
-        return undefined;
+    try {
+      if (partitionKey === undefined) {
+        const [exchange] = await this.queryAll('getExchange.query', {
+          query: 'SELECT * FROM c WHERE c.id = @id',
+          parameters: [
+            { name: '@id', value: id }
+          ]
+        });
+        return exchange;
       }
 
-      return this.deserializeExchange(resources[0]);
+      // A missing document resolves with no resource rather than throwing
+      const response = await this.container.item(id, partitionKey).read<SeedExchangeDocument>();
+      this.recordRequestCharge('getExchange.pointRead', response.requestCharge);
+      return response.resource ? deserializeExchange(response.resource) : undefined;
     } catch (error) {
       return undefined;
     }
   }
 
   /**
-   * Remove a seed exchange entry
+   * Remove a seed exchange entry. Removing an entry that does not exist is a no-op.
    */
-  async removeExchange(id: string): Promise<void> {
-    // First get the document to obtain the partition key
-    const exchange = await this.getExchange(id);
-    if (exchange) {
-      await this.container.item(id, exchange.plantId).delete();
+  async removeExchange(id: string, plantId?: string): Promise<void> {
+    // Ids that do not embed their plant id need a lookup to find the partition
+    const partitionKey = plantId ?? plantIdFromExchangeId(id) ?? (await this.getExchange(id))?.plantId;
+    if (partitionKey === undefined) {
+      return;
     }
+
+    try {
+      const response = await this.container.item(id, partitionKey).delete();
+      this.recordRequestCharge('removeExchange', response.requestCharge);
+    } catch (error) {
+      if ((error as ErrorResponse).code !== 404) {
+        throw error;
+      }
+    }
+
+    // The change feed does not report deletes, so the view is told directly
+    await this.userView?.removeExchange(id);
   }
 
   /**
    * Update a seed exchange entry
+   * (uses an If-Match precondition on _etag when `options.ifMatch` is set)
    */
-  async updateExchange(exchange: SeedExchange): Promise<void> {
+  async updateExchange(exchange: SeedExchange, options: UpdateExchangeOptions = {}): Promise<void> {
     const doc = this.serializeExchange(exchange);
-    await this.container.item(exchange.id, exchange.plantId).replace(doc);
+    const requestOptions = options.ifMatch !== undefined
+      ? { accessCondition: { type: 'IfMatch', condition: options.ifMatch } }
+      : undefined;
+
+    try {
+      const response = await this.container.item(exchange.id, exchange.plantId).replace(doc, requestOptions);
+      this.recordRequestCharge('updateExchange', response.requestCharge);
+    } catch (error) {
+      // 412: the etag no longer matches; 404: the document was removed since it was read
+      const code = (error as ErrorResponse).code;
+      if (options.ifMatch !== undefined && (code === 412 || code === 404)) {
+        throw new ConflictError(`Exchange ${exchange.id} was modified by another operation`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Apply several writes as a single transactional batch.
+   * All operations share the plantId partition key, so Cosmos DB commits them atomically.
+   */
+  async executeBatch(operations: ExchangeWriteOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      return;
+    }
+
+    const plantId = getBatchPlantId(operations);
+
+    const batchOperations: OperationInput[] = operations.map(op => {
+      switch (op.type) {
+        case 'create':
+          return {
+            operationType: BulkOperationType.Create,
+            resourceBody: this.serializeExchange(op.exchange) as unknown as JSONObject
+          };
+        case 'replace':
+          return {
+            operationType: BulkOperationType.Replace,
+            id: op.exchange.id,
+            resourceBody: this.serializeExchange(op.exchange) as unknown as JSONObject,
+            ifMatch: op.ifMatch
+          };
+        case 'delete':
+          return {
+            operationType: BulkOperationType.Delete,
+            id: op.id,
+            ifMatch: op.ifMatch
+          };
+      }
+    });
+
+    const response = await this.container.items.batch(batchOperations, plantId);
+    this.recordRequestCharge(
+      'executeBatch',
+      (response.result ?? []).reduce((total, result) => total + result.requestCharge, 0)
+    );
+    const failed = (response.result ?? []).find(result => result.statusCode >= 400 && result.statusCode !== 424);
+
+    if (failed) {
+      // 412: etag mismatch; 409: id already exists; 404: entry removed since it was read
+      if (failed.statusCode === 412 || failed.statusCode === 409 || failed.statusCode === 404) {
+        throw new ConflictError('Batch was rejected because an exchange was modified by another operation');
+      }
+      throw new Error(`Batch request failed with status ${failed.statusCode}`);
+    }
+
+    for (const op of operations) {
+      if (op.type === 'delete') {
+        await this.userView?.removeExchange(op.id);
+      }
+    }
   }
 
   /**
@@ -226,8 +576,43 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
       query: 'SELECT * FROM c'
     };
 
-    const { resources } = await this.container.items.query<SeedExchangeDocument>(querySpec).fetchAll();
-    return resources.map(doc => this.deserializeExchange(doc));
+    return this.queryAll('getAllExchanges', querySpec);
+  }
+
+  /**
+   * Get one page of all seed exchanges
+   */
+  async getAllExchangesPage(options: PageOptions = {}): Promise<ExchangePage> {
+    return this.queryPage('getAllExchangesPage', { query: 'SELECT * FROM c ORDER BY c.id' }, options);
+  }
+
+  /**
+   * Get one page of exchanges matching a filter.
+   * Results are sorted on the single sort field only, since a tie-breaker would need a composite index.
+   */
+  async searchExchanges(filter: ExchangeFilter, options: PageOptions = {}): Promise<ExchangePage> {
+    return this.queryPage('searchExchanges', buildExchangeSearchQuery(filter), options);
+  }
+
+  /**
+   * Read the next batch of the container's change feed.
+   * The checkpoint is the change feed continuation token.
+   */
+  async readChanges(checkpoint?: string): Promise<ExchangeChangeBatch> {
+    const response = await this.container.items.getChangeFeedIterator<SeedExchangeDocument>({
+      changeFeedStartFrom: checkpoint
+        ? ChangeFeedStartFrom.Continuation(checkpoint)
+        : ChangeFeedStartFrom.Beginning(),
+      maxItemCount: CHANGE_BATCH_SIZE
+    }).readNext();
+    this.recordRequestCharge('readChanges', response.requestCharge);
+
+    return {
+      exchanges: response.statusCode === StatusCodes.NotModified
+        ? []
+        : response.result.map(doc => deserializeExchange(doc)),
+      checkpoint: response.continuationToken
+    };
   }
 
   /**
@@ -242,5 +627,6 @@ export class CosmosDbSeedExchangeCollections implements ISeedExchangeCollections
     );
     
     await Promise.all(deletePromises);
+    await this.userView?.clear();
   }
 }
@@ -9,6 +9,26 @@ export interface CosmosDbConfig {
   key: string;
   databaseId: string;
   containerId: string;
+  /** Container holding the plant catalog (default: "PlantCatalog") */
+  plantCatalogContainerId?: string;
+  /** Container holding the audit log (default: "AuditLog") */
+  auditLogContainerId?: string;
+  /** Container holding change feed processor checkpoints (default: "Leases") */
+  leaseContainerId?: string;
+  /** Container holding webhook subscriptions and deliveries (default: "Webhooks") */
+  webhookContainerId?: string;
+  /** Container holding notification preferences and the email outbox (default: "Notifications") */
+  notificationContainerId?: string;
+  /** Container holding user profiles and shipping addresses (default: "UserProfiles") */
+  userProfileContainerId?: string;
+  /** Container holding reputation totals and per-exchange contributions (default: "Reputation") */
+  reputationContainerId?: string;
+  /** Container holding credit ledger entries (default: "CreditLedger") */
+  ledgerContainerId?: string;
+  /** Container holding the per-user view of exchanges (unset reads users' exchanges from containerId) */
+  userViewContainerId?: string;
+  /** Seconds Cosmos DB keeps expired entries before deleting them (unset keeps them forever) */
+  expiredEntryTtlSeconds?: number;
 }
 
 /**
@@ -30,13 +50,33 @@ export interface CosmosDbConfig {
  * - AZURE_KEY_VAULT_URI: Key Vault URI (optional, for secure key storage)
  * - COSMOS_DB_KEY_SECRET_NAME: Name of the secret in Key Vault (default: "CosmosDbKey")
  * - COSMOS_DB_KEY: Cosmos DB key (only used if Key Vault is not configured)
+ * - COSMOS_DB_PLANT_CATALOG_CONTAINER_ID: Container for the plant catalog (default: "PlantCatalog")
+ * - COSMOS_DB_AUDIT_LOG_CONTAINER_ID: Container for the audit log (default: "AuditLog")
+ * - COSMOS_DB_LEASE_CONTAINER_ID: Container for change feed processor checkpoints (default: "Leases")
+ * - COSMOS_DB_WEBHOOK_CONTAINER_ID: Container for webhook subscriptions and deliveries (default: "Webhooks")
+ * - COSMOS_DB_NOTIFICATION_CONTAINER_ID: Container for notification preferences and the email outbox (default: "Notifications")
+ * - COSMOS_DB_USER_PROFILE_CONTAINER_ID: Container for user profiles and shipping addresses (default: "UserProfiles")
+ * - COSMOS_DB_REPUTATION_CONTAINER_ID: Container for reputation totals and contributions (default: "Reputation")
+ * - COSMOS_DB_LEDGER_CONTAINER_ID: Container for credit ledger entries (default: "CreditLedger")
+ * - COSMOS_DB_USER_VIEW_CONTAINER_ID: Container for the per-user view of exchanges (optional)
+ * - COSMOS_DB_EXPIRED_TTL_SECONDS: Retention for expired entries before Cosmos DB deletes them (optional)
  */
 export async function getCosmosDbConfig(): Promise<CosmosDbConfig> {
   const endpoint = process.env.COSMOS_DB_ENDPOINT;
   const databaseId = process.env.COSMOS_DB_DATABASE_ID || 'SeedExchange';
   const containerId = process.env.COSMOS_DB_CONTAINER_ID || 'SeedExchanges';
+  const plantCatalogContainerId = process.env.COSMOS_DB_PLANT_CATALOG_CONTAINER_ID || 'PlantCatalog';
+  const auditLogContainerId = process.env.COSMOS_DB_AUDIT_LOG_CONTAINER_ID || 'AuditLog';
+  const leaseContainerId = process.env.COSMOS_DB_LEASE_CONTAINER_ID || 'Leases';
+  const webhookContainerId = process.env.COSMOS_DB_WEBHOOK_CONTAINER_ID || 'Webhooks';
+  const notificationContainerId = process.env.COSMOS_DB_NOTIFICATION_CONTAINER_ID || 'Notifications';
+  const userProfileContainerId = process.env.COSMOS_DB_USER_PROFILE_CONTAINER_ID || 'UserProfiles';
+  const reputationContainerId = process.env.COSMOS_DB_REPUTATION_CONTAINER_ID || 'Reputation';
+  const ledgerContainerId = process.env.COSMOS_DB_LEDGER_CONTAINER_ID || 'CreditLedger';
+  const userViewContainerId = process.env.COSMOS_DB_USER_VIEW_CONTAINER_ID || undefined;
   const keyVaultUri = process.env.AZURE_KEY_VAULT_URI;
   const keySecretName = process.env.COSMOS_DB_KEY_SECRET_NAME || 'CosmosDbKey';
+  const expiredTtl = process.env.COSMOS_DB_EXPIRED_TTL_SECONDS;
 
   if (!endpoint) {
     throw new Error(
@@ -77,10 +117,28 @@ export async function getCosmosDbConfig(): Promise<CosmosDbConfig> {
     );
   }
 
+  let expiredEntryTtlSeconds: number | undefined;
+  if (expiredTtl) {
+    expiredEntryTtlSeconds = Number(expiredTtl);
+    if (!Number.isInteger(expiredEntryTtlSeconds) || expiredEntryTtlSeconds <= 0) {
+      throw new Error(`COSMOS_DB_EXPIRED_TTL_SECONDS must be a positive integer, got "${expiredTtl}"`);
+    }
+  }
+
   return {
     endpoint,
     key,
     databaseId,
-    containerId
+    containerId,
+    plantCatalogContainerId,
+    auditLogContainerId,
+    leaseContainerId,
+    webhookContainerId,
+    notificationContainerId,
+    userProfileContainerId,
+    reputationContainerId,
+    ledgerContainerId,
+    userViewContainerId,
+    expiredEntryTtlSeconds
   };
 }
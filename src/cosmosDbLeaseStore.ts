@@ -0,0 +1,80 @@
+import { CosmosClient, Container } from '@azure/cosmos';
+import { ILeaseStore } from './ILeaseStore';
+import { CosmosDbConfig } from './cosmosDbConfig';
+
+/**
+ * Container used for leases when CosmosDbConfig does not name one
+ */
+const DEFAULT_LEASE_CONTAINER_ID = 'Leases';
+
+/**
+ * Cosmos DB document holding one processor's checkpoint
+ */
+interface LeaseDocument {
+  /** The processor name */
+  id: string;
+  checkpoint: string;
+}
+
+/**
+ * Cosmos DB implementation of the lease store.
+ * Each processor's checkpoint is one document in a container partitioned by `/id`.
+ */
+export class CosmosDbLeaseStore implements ILeaseStore {
+  private container: Container;
+
+  /**
+   * Initialize the Cosmos DB lease store
+   * @param config - Cosmos DB configuration
+   */
+  constructor(config: CosmosDbConfig) {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    this.container = client
+      .database(config.databaseId)
+      .container(config.leaseContainerId || DEFAULT_LEASE_CONTAINER_ID);
+  }
+
+  /**
+   * Initialize database and lease container if they don't exist
+   * @param config - Cosmos DB configuration
+   */
+  static async initialize(config: CosmosDbConfig): Promise<CosmosDbLeaseStore> {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    const { database } = await client.databases.createIfNotExists({
+      id: config.databaseId
+    });
+
+    await database.containers.createIfNotExists({
+      id: config.leaseContainerId || DEFAULT_LEASE_CONTAINER_ID,
+      partitionKey: {
+        paths: ['/id'],
+        version: 2
+      }
+    });
+
+    return new CosmosDbLeaseStore(config);
+  }
+
+  async getCheckpoint(processorName: string): Promise<string | undefined> {
+    const { resource } = await this.container.item(processorName, processorName).read<LeaseDocument>();
+    return resource?.checkpoint;
+  }
+
+  async setCheckpoint(processorName: string, checkpoint: string): Promise<void> {
+    const lease: LeaseDocument = { id: processorName, checkpoint };
+    await this.container.items.upsert(lease);
+  }
+
+  async clear(): Promise<void> {
+    const { resources } = await this.container.items.query<{ id: string }>('SELECT c.id FROM c').fetchAll();
+    await Promise.all(resources.map(doc => this.container.item(doc.id, doc.id).delete()));
+  }
+}
@@ -0,0 +1,183 @@
+import { CosmosClient, Container, ErrorResponse, SqlParameter } from '@azure/cosmos';
+import { CreditHold, CreditHolds, ILedgerStore, LedgerEntry, LedgerRange, LedgerTransaction } from './ILedgerStore';
+import { CosmosDbConfig } from './cosmosDbConfig';
+import { toLedgerEntries } from './ledger';
+import { ConflictError } from './errors';
+
+/**
+ * Container used for ledger entries when CosmosDbConfig does not name one
+ */
+const DEFAULT_LEDGER_CONTAINER_ID = 'CreditLedger';
+
+/**
+ * Cosmos DB document for a ledger entry, keyed by transaction id within its account's partition,
+ * with the time as an ISO 8601 string
+ */
+interface LedgerEntryDocument extends Omit<LedgerEntry, 'id' | 'time'> {
+  id: string;
+  time: string;
+}
+
+/**
+ * Id of the document holding a user's credit holds
+ */
+const CREDIT_HOLDS_ID = 'credit-holds';
+
+/**
+ * Cosmos DB document for a user's credit holds, in its own `holds:<user id>` partition so it never
+ * shows up among an account's entries
+ */
+interface CreditHoldsDocument {
+  id: string;
+  account: string;
+  userId: string;
+  holds: Array<Omit<CreditHold, 'time'> & { time: string }>;
+  _etag?: string;
+}
+
+/**
+ * Cosmos DB implementation of credit ledger storage.
+ * Entries live in a container partitioned by `/account`, so balances and statements are single-partition
+ * queries. A transaction's entries span partitions and are created one by one; an entry that already
+ * exists is skipped, so posting a transaction again completes one that was interrupted.
+ * A user's credit holds are one document, saved with an If-Match precondition on its _etag.
+ */
+export class CosmosDbLedgerStore implements ILedgerStore {
+  private container: Container;
+
+  /**
+   * Initialize the Cosmos DB ledger store
+   * @param config - Cosmos DB configuration
+   */
+  constructor(config: CosmosDbConfig) {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    this.container = client
+      .database(config.databaseId)
+      .container(config.ledgerContainerId || DEFAULT_LEDGER_CONTAINER_ID);
+  }
+
+  /**
+   * Initialize database and ledger container if they don't exist
+   * @param config - Cosmos DB configuration
+   */
+  static async initialize(config: CosmosDbConfig): Promise<CosmosDbLedgerStore> {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    const { database } = await client.databases.createIfNotExists({
+      id: config.databaseId
+    });
+
+    await database.containers.createIfNotExists({
+      id: config.ledgerContainerId || DEFAULT_LEDGER_CONTAINER_ID,
+      partitionKey: {
+        paths: ['/account'],
+        version: 2
+      }
+    });
+
+    return new CosmosDbLedgerStore(config);
+  }
+
+  async postTransaction(transaction: LedgerTransaction): Promise<void> {
+    for (const entry of toLedgerEntries(transaction)) {
+      const doc: LedgerEntryDocument = { ...entry, id: entry.transactionId, time: entry.time.toISOString() };
+      try {
+        await this.container.items.create(doc);
+      } catch (error: unknown) {
+        // The entry was posted before
+        if ((error as { code?: number }).code !== 409) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async getEntries(account: string, range: LedgerRange = {}): Promise<LedgerEntry[]> {
+    const parameters: SqlParameter[] = [{ name: '@account', value: account }];
+    let where = 'c.account = @account';
+    if (range.from) {
+      where += ' AND c.time >= @from';
+      parameters.push({ name: '@from', value: range.from.toISOString() });
+    }
+    if (range.to) {
+      where += ' AND c.time < @to';
+      parameters.push({ name: '@to', value: range.to.toISOString() });
+    }
+
+    const { resources } = await this.container.items
+      .query<LedgerEntryDocument>({ query: `SELECT * FROM c WHERE ${where} ORDER BY c.time ASC`, parameters }, { partitionKey: account })
+      .fetchAll();
+    return resources.map(doc => ({
+      id: `${doc.transactionId}:${doc.account}`,
+      transactionId: doc.transactionId,
+      account: doc.account,
+      amount: doc.amount,
+      kind: doc.kind,
+      exchangeId: doc.exchangeId,
+      description: doc.description,
+      time: new Date(doc.time)
+    }));
+  }
+
+  async getBalance(account: string, before?: Date): Promise<number> {
+    const parameters: SqlParameter[] = [{ name: '@account', value: account }];
+    let where = 'c.account = @account';
+    if (before) {
+      where += ' AND c.time < @before';
+      parameters.push({ name: '@before', value: before.toISOString() });
+    }
+
+    const { resources } = await this.container.items
+      .query<number>({ query: `SELECT VALUE SUM(c.amount) FROM c WHERE ${where}`, parameters }, { partitionKey: account })
+      .fetchAll();
+    // SUM over no entries yields no value
+    return resources[0] ?? 0;
+  }
+
+  async getCreditHolds(userId: string): Promise<CreditHolds | undefined> {
+    const { resource } = await this.container.item(CREDIT_HOLDS_ID, `holds:${userId}`).read<CreditHoldsDocument>();
+    return resource && {
+      userId,
+      holds: resource.holds.map(hold => ({ ...hold, time: new Date(hold.time) })),
+      etag: resource._etag
+    };
+  }
+
+  async saveCreditHolds(holds: CreditHolds, ifMatch: string | undefined): Promise<void> {
+    const doc: CreditHoldsDocument = {
+      id: CREDIT_HOLDS_ID,
+      account: `holds:${holds.userId}`,
+      userId: holds.userId,
+      holds: holds.holds.map(hold => ({ ...hold, time: hold.time.toISOString() }))
+    };
+
+    try {
+      if (ifMatch === undefined) {
+        await this.container.items.create(doc);
+      } else {
+        await this.container.item(doc.id, doc.account).replace(doc, { accessCondition: { type: 'IfMatch', condition: ifMatch } });
+      }
+    } catch (error) {
+      // 409: created by another request; 412: the etag no longer matches; 404: removed since it was read
+      const code = (error as ErrorResponse).code;
+      if (code === 409 || code === 412 || code === 404) {
+        throw new ConflictError(`Credit holds for ${holds.userId} were changed by another request`);
+      }
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const { resources } = await this.container.items
+      .query<{ id: string; account: string }>('SELECT c.id, c.account FROM c')
+      .fetchAll();
+    await Promise.all(resources.map(doc => this.container.item(doc.id, doc.account).delete()));
+  }
+}
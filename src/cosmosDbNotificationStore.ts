@@ -0,0 +1,188 @@
+import { CosmosClient, Container } from '@azure/cosmos';
+import {
+  INotificationStore,
+  NotificationPreferences,
+  OutboxMessage
+} from './INotificationStore';
+import { CosmosDbConfig } from './cosmosDbConfig';
+
+/**
+ * Container used for notifications when CosmosDbConfig does not name one
+ */
+const DEFAULT_NOTIFICATION_CONTAINER_ID = 'Notifications';
+
+/**
+ * Id of the preferences document in each user's partition
+ */
+const PREFERENCES_ID = 'preferences';
+
+/**
+ * Cosmos DB document for a user's preferences, with dates as ISO 8601 strings
+ */
+interface PreferencesDocument extends Omit<NotificationPreferences, 'updatedTime'> {
+  id: typeof PREFERENCES_ID;
+  kind: 'preferences';
+  updatedTime: string;
+}
+
+/**
+ * Cosmos DB document for an outbox message, with dates as ISO 8601 strings
+ */
+interface MessageDocument extends Omit<OutboxMessage, 'nextAttemptTime' | 'createdTime' | 'sentTime'> {
+  kind: 'message';
+  nextAttemptTime: string;
+  createdTime: string;
+  sentTime?: string;
+}
+
+/**
+ * Cosmos DB implementation of notification storage.
+ * Each user's preferences and messages share a partition of a container partitioned by `/userId`,
+ * told apart by `kind`.
+ */
+export class CosmosDbNotificationStore implements INotificationStore {
+  private container: Container;
+
+  /**
+   * Initialize the Cosmos DB notification store
+   * @param config - Cosmos DB configuration
+   */
+  constructor(config: CosmosDbConfig) {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    this.container = client
+      .database(config.databaseId)
+      .container(config.notificationContainerId || DEFAULT_NOTIFICATION_CONTAINER_ID);
+  }
+
+  /**
+   * Initialize database and notification container if they don't exist
+   * @param config - Cosmos DB configuration
+   */
+  static async initialize(config: CosmosDbConfig): Promise<CosmosDbNotificationStore> {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    const { database } = await client.databases.createIfNotExists({
+      id: config.databaseId
+    });
+
+    await database.containers.createIfNotExists({
+      id: config.notificationContainerId || DEFAULT_NOTIFICATION_CONTAINER_ID,
+      partitionKey: {
+        paths: ['/userId'],
+        version: 2
+      }
+    });
+
+    return new CosmosDbNotificationStore(config);
+  }
+
+  private toMessage(doc: MessageDocument): OutboxMessage {
+    return {
+      id: doc.id,
+      userId: doc.userId,
+      eventId: doc.eventId,
+      eventType: doc.eventType,
+      to: doc.to,
+      subject: doc.subject,
+      text: doc.text,
+      status: doc.status,
+      attempts: doc.attempts,
+      nextAttemptTime: new Date(doc.nextAttemptTime),
+      createdTime: new Date(doc.createdTime),
+      sentTime: doc.sentTime ? new Date(doc.sentTime) : undefined,
+      lastError: doc.lastError
+    };
+  }
+
+  private toMessageDocument(message: OutboxMessage): MessageDocument {
+    return {
+      ...message,
+      kind: 'message',
+      nextAttemptTime: message.nextAttemptTime.toISOString(),
+      createdTime: message.createdTime.toISOString(),
+      sentTime: message.sentTime?.toISOString()
+    };
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const { resource } = await this.container.item(PREFERENCES_ID, userId).read<PreferencesDocument>();
+    if (!resource) {
+      return undefined;
+    }
+
+    return {
+      userId: resource.userId,
+      email: resource.email,
+      name: resource.name,
+      enabled: resource.enabled,
+      eventTypes: resource.eventTypes,
+      updatedTime: new Date(resource.updatedTime)
+    };
+  }
+
+  async setPreferences(preferences: NotificationPreferences): Promise<void> {
+    const doc: PreferencesDocument = {
+      ...preferences,
+      id: PREFERENCES_ID,
+      kind: 'preferences',
+      updatedTime: preferences.updatedTime.toISOString()
+    };
+    await this.container.items.upsert(doc);
+  }
+
+  async addMessages(messages: OutboxMessage[]): Promise<void> {
+    for (const message of messages) {
+      try {
+        await this.container.items.create(this.toMessageDocument(message));
+      } catch (error: unknown) {
+        // Already queued by an earlier pass over the same event
+        if ((error as { code?: number }).code !== 409) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async getMessagesByUser(userId: string): Promise<OutboxMessage[]> {
+    const { resources } = await this.container.items
+      .query<MessageDocument>({
+        query: `SELECT * FROM c WHERE c.kind = 'message' AND c.userId = @userId ORDER BY c.createdTime ASC`,
+        parameters: [{ name: '@userId', value: userId }]
+      }, { partitionKey: userId })
+      .fetchAll();
+    return resources.map(doc => this.toMessage(doc));
+  }
+
+  async getDueMessages(now: Date, limit: number): Promise<OutboxMessage[]> {
+    const { resources } = await this.container.items
+      .query<MessageDocument>({
+        query: `SELECT TOP @limit * FROM c
+                WHERE c.kind = 'message' AND c.status = 'pending' AND c.nextAttemptTime <= @now
+                ORDER BY c.nextAttemptTime ASC`,
+        parameters: [
+          { name: '@limit', value: limit },
+          { name: '@now', value: now.toISOString() }
+        ]
+      })
+      .fetchAll();
+    return resources.map(doc => this.toMessage(doc));
+  }
+
+  async updateMessage(message: OutboxMessage): Promise<void> {
+    await this.container.items.upsert(this.toMessageDocument(message));
+  }
+
+  async clear(): Promise<void> {
+    const { resources } = await this.container.items
+      .query<{ id: string; userId: string }>('SELECT c.id, c.userId FROM c')
+      .fetchAll();
+    await Promise.all(resources.map(doc => this.container.item(doc.id, doc.userId).delete()));
+  }
+}
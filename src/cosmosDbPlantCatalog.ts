@@ -0,0 +1,178 @@
+import { CosmosClient, Container, ErrorResponse } from '@azure/cosmos';
+import { Plant, PlantCategory } from './types';
+import { IPlantCatalog } from './IPlantCatalog';
+import { CosmosDbConfig } from './cosmosDbConfig';
+import { normalizePlantName, getPlantLookupKeys, validatePlant } from './plantCatalog';
+import { ConflictError } from './errors';
+
+/**
+ * Container used for the catalog when CosmosDbConfig does not name one
+ */
+const DEFAULT_PLANT_CATALOG_CONTAINER_ID = 'PlantCatalog';
+
+/**
+ * Cosmos DB document for a catalog plant, with its normalized lookup keys precomputed for queries
+ */
+interface PlantDocument extends Plant {
+  lookupKeys: string[];
+}
+
+/**
+ * Cosmos DB implementation of the plant catalog.
+ * Plants live in their own container partitioned by id; the catalog is small and rarely written.
+ */
+export class CosmosDbPlantCatalog implements IPlantCatalog {
+  private container: Container;
+
+  /**
+   * Initialize the Cosmos DB plant catalog
+   * @param config - Cosmos DB configuration
+   */
+  constructor(config: CosmosDbConfig) {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    this.container = client
+      .database(config.databaseId)
+      .container(config.plantCatalogContainerId || DEFAULT_PLANT_CATALOG_CONTAINER_ID);
+  }
+
+  /**
+   * Initialize database and catalog container if they don't exist
+   * @param config - Cosmos DB configuration
+   */
+  static async initialize(config: CosmosDbConfig): Promise<CosmosDbPlantCatalog> {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    const { database } = await client.databases.createIfNotExists({
+      id: config.databaseId
+    });
+
+    await database.containers.createIfNotExists({
+      id: config.plantCatalogContainerId || DEFAULT_PLANT_CATALOG_CONTAINER_ID,
+      partitionKey: {
+        paths: ['/id'],
+        version: 2
+      }
+    });
+
+    return new CosmosDbPlantCatalog(config);
+  }
+
+  /**
+   * Strip Cosmos DB metadata and lookup keys from a stored document
+   */
+  private deserializePlant(doc: PlantDocument): Plant {
+    return {
+      id: doc.id,
+      commonName: doc.commonName,
+      scientificName: doc.scientificName,
+      aliases: doc.aliases ?? [],
+      category: doc.category
+    };
+  }
+
+  /**
+   * Get a plant by its canonical id
+   */
+  async getPlant(id: string): Promise<Plant | undefined> {
+    try {
+      const { resource } = await this.container.item(id, id).read<PlantDocument>();
+      return resource ? this.deserializePlant(resource) : undefined;
+    } catch (error) {
+      if ((error as ErrorResponse).code === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find a plant by id, alias, common name or scientific name
+   */
+  async findPlant(name: string): Promise<Plant | undefined> {
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE ARRAY_CONTAINS(c.lookupKeys, @key)',
+      parameters: [
+        { name: '@key', value: normalizePlantName(name) }
+      ]
+    };
+
+    const { resources } = await this.container.items.query<PlantDocument>(querySpec).fetchAll();
+    return resources.length > 0 ? this.deserializePlant(resources[0]) : undefined;
+  }
+
+  /**
+   * List catalog plants sorted by common name, optionally limited to one category
+   */
+  async listPlants(category?: PlantCategory): Promise<Plant[]> {
+    const querySpec = category === undefined
+      ? { query: 'SELECT * FROM c ORDER BY c.commonName ASC' }
+      : {
+        query: 'SELECT * FROM c WHERE c.category = @category ORDER BY c.commonName ASC',
+        parameters: [{ name: '@category', value: category }]
+      };
+
+    const { resources } = await this.container.items.query<PlantDocument>(querySpec).fetchAll();
+    return resources.map(doc => this.deserializePlant(doc));
+  }
+
+  /**
+   * Add a plant to the catalog.
+   * Name clashes are checked with a query first, since unique keys only apply within a partition.
+   */
+  async addPlant(plant: Plant): Promise<void> {
+    validatePlant(plant);
+    const lookupKeys = getPlantLookupKeys(plant);
+
+    const querySpec = {
+      query: 'SELECT c.id FROM c WHERE ARRAY_LENGTH(SetIntersect(c.lookupKeys, @keys)) > 0',
+      parameters: [
+        { name: '@keys', value: lookupKeys }
+      ]
+    };
+    const { resources } = await this.container.items.query<{ id: string }>(querySpec).fetchAll();
+    if (resources.length > 0) {
+      throw new ConflictError(
+        `Plant ${plant.id} clashes with existing catalog entry ${resources[0].id}`,
+        'PLANT_ALREADY_EXISTS'
+      );
+    }
+
+    const doc: PlantDocument = { ...plant, lookupKeys };
+    try {
+      await this.container.items.create(doc);
+    } catch (error) {
+      if ((error as ErrorResponse).code === 409) {
+        throw new ConflictError(`Plant ${plant.id} already exists`, 'PLANT_ALREADY_EXISTS');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a plant from the catalog
+   */
+  async removePlant(id: string): Promise<void> {
+    try {
+      await this.container.item(id, id).delete();
+    } catch (error) {
+      if ((error as ErrorResponse).code !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Clear the catalog (useful for testing)
+   */
+  async clear(): Promise<void> {
+    const plants = await this.listPlants();
+    await Promise.all(plants.map(plant => this.container.item(plant.id, plant.id).delete()));
+  }
+}
@@ -0,0 +1,159 @@
+import { CosmosClient, Container, BulkOperationType, JSONObject } from '@azure/cosmos';
+import {
+  IReputationStore,
+  ReputationContribution,
+  ReputationRecord
+} from './IReputationStore';
+import { CosmosDbConfig } from './cosmosDbConfig';
+
+/**
+ * Container used for reputation data when CosmosDbConfig does not name one
+ */
+const DEFAULT_REPUTATION_CONTAINER_ID = 'Reputation';
+
+/**
+ * Id of the running totals document in each user's partition
+ */
+const RECORD_ID = 'record';
+
+/**
+ * Cosmos DB document for a user's running totals, with dates as ISO 8601 strings
+ */
+interface RecordDocument extends Omit<ReputationRecord, 'pendingShipments' | 'pendingReceipts' | 'updatedTime'> {
+  id: typeof RECORD_ID;
+  kind: 'record';
+  pendingShipments: Record<string, string>;
+  pendingReceipts: Record<string, string>;
+  updatedTime: string;
+}
+
+/**
+ * Cosmos DB document for an exchange's contribution, keyed by exchange id, with dates as ISO 8601 strings
+ */
+interface ContributionDocument extends Omit<ReputationContribution, 'shipDueTime' | 'receiptDueTime'> {
+  id: string;
+  kind: 'contribution';
+  shipDueTime?: string;
+  receiptDueTime?: string;
+}
+
+/**
+ * Convert a map of due times between Date and ISO 8601 string values
+ */
+function mapDates<From, To>(times: Record<string, From>, convert: (time: From) => To): Record<string, To> {
+  return Object.fromEntries(Object.entries(times).map(([exchangeId, time]) => [exchangeId, convert(time)]));
+}
+
+/**
+ * Cosmos DB implementation of reputation storage.
+ * Each user's totals and contributions share a partition of a container partitioned by `/userId`,
+ * told apart by `kind`, so a contribution and the totals it changes are written in one transactional batch.
+ */
+export class CosmosDbReputationStore implements IReputationStore {
+  private container: Container;
+
+  /**
+   * Initialize the Cosmos DB reputation store
+   * @param config - Cosmos DB configuration
+   */
+  constructor(config: CosmosDbConfig) {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    this.container = client
+      .database(config.databaseId)
+      .container(config.reputationContainerId || DEFAULT_REPUTATION_CONTAINER_ID);
+  }
+
+  /**
+   * Initialize database and reputation container if they don't exist
+   * @param config - Cosmos DB configuration
+   */
+  static async initialize(config: CosmosDbConfig): Promise<CosmosDbReputationStore> {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    const { database } = await client.databases.createIfNotExists({
+      id: config.databaseId
+    });
+
+    await database.containers.createIfNotExists({
+      id: config.reputationContainerId || DEFAULT_REPUTATION_CONTAINER_ID,
+      partitionKey: {
+        paths: ['/userId'],
+        version: 2
+      }
+    });
+
+    return new CosmosDbReputationStore(config);
+  }
+
+  async getRecord(userId: string): Promise<ReputationRecord | undefined> {
+    const { resource } = await this.container.item(RECORD_ID, userId).read<RecordDocument>();
+    if (!resource) {
+      return undefined;
+    }
+
+    return {
+      userId: resource.userId,
+      counts: resource.counts,
+      pendingShipments: mapDates(resource.pendingShipments, time => new Date(time)),
+      pendingReceipts: mapDates(resource.pendingReceipts, time => new Date(time)),
+      updatedTime: new Date(resource.updatedTime)
+    };
+  }
+
+  async getContribution(userId: string, exchangeId: string): Promise<ReputationContribution | undefined> {
+    const { resource } = await this.container.item(exchangeId, userId).read<ContributionDocument>();
+    if (!resource) {
+      return undefined;
+    }
+
+    return {
+      userId: resource.userId,
+      exchangeId: resource.exchangeId,
+      role: resource.role,
+      counts: resource.counts,
+      shipDueTime: resource.shipDueTime ? new Date(resource.shipDueTime) : undefined,
+      receiptDueTime: resource.receiptDueTime ? new Date(resource.receiptDueTime) : undefined
+    };
+  }
+
+  async saveContribution(contribution: ReputationContribution, record: ReputationRecord): Promise<void> {
+    const contributionDoc: ContributionDocument = {
+      ...contribution,
+      id: contribution.exchangeId,
+      kind: 'contribution',
+      shipDueTime: contribution.shipDueTime?.toISOString(),
+      receiptDueTime: contribution.receiptDueTime?.toISOString()
+    };
+    const recordDoc: RecordDocument = {
+      ...record,
+      id: RECORD_ID,
+      kind: 'record',
+      pendingShipments: mapDates(record.pendingShipments, time => time.toISOString()),
+      pendingReceipts: mapDates(record.pendingReceipts, time => time.toISOString()),
+      updatedTime: record.updatedTime.toISOString()
+    };
+
+    const response = await this.container.items.batch([
+      { operationType: BulkOperationType.Upsert, resourceBody: contributionDoc as unknown as JSONObject },
+      { operationType: BulkOperationType.Upsert, resourceBody: recordDoc as unknown as JSONObject }
+    ], record.userId);
+    const failed = (response.result ?? []).find(result => result.statusCode >= 400 && result.statusCode !== 424);
+    if (failed) {
+      throw new Error(`Reputation batch failed with status ${failed.statusCode}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const { resources } = await this.container.items
+      .query<{ id: string; userId: string }>('SELECT c.id, c.userId FROM c')
+      .fetchAll();
+    await Promise.all(resources.map(doc => this.container.item(doc.id, doc.userId).delete()));
+  }
+}
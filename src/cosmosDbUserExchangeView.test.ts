@@ -0,0 +1,220 @@
+import { StatusCodes } from '@azure/cosmos';
+import { CosmosDbUserExchangeView } from './cosmosDbUserExchangeView';
+import { CosmosDbSeedExchangeCollections } from './cosmosDbCollections';
+import { CosmosDbConfig } from './cosmosDbConfig';
+
+/**
+ * Stand-in for the parts of a Cosmos DB container the view uses
+ */
+function mockContainer() {
+  const read = jest.fn().mockResolvedValue({ resource: undefined });
+  const remove = jest.fn().mockResolvedValue({ requestCharge: 1 });
+  return {
+    read,
+    remove,
+    item: jest.fn(() => ({ read, delete: remove })),
+    items: {
+      query: jest.fn(),
+      upsert: jest.fn().mockResolvedValue({ requestCharge: 1 }),
+      batch: jest.fn(),
+      getChangeFeedIterator: jest.fn()
+    }
+  };
+}
+
+const containers: Record<string, ReturnType<typeof mockContainer>> = {};
+
+jest.mock('@azure/cosmos', () => ({
+  ...jest.requireActual('@azure/cosmos'),
+  CosmosClient: jest.fn(() => ({
+    database: () => ({ container: (id: string) => containers[id] })
+  }))
+}));
+
+const CONFIG: CosmosDbConfig = {
+  endpoint: 'https://localhost:8081',
+  key: 'key',
+  databaseId: 'SeedExchange',
+  containerId: 'SeedExchanges',
+  userViewContainerId: 'UserExchanges'
+};
+
+const CONFIRMED = {
+  id: 'milkweed:1',
+  plantId: 'milkweed',
+  status: 'confirmed',
+  requestUserId: 'alice',
+  offerUserId: 'bob',
+  quantity: 1,
+  seedRequestTime: '2025-01-01T00:00:00.000Z',
+  seedOfferTime: '2025-01-02T00:00:00.000Z',
+  confirmationTime: '2025-01-02T00:00:00.000Z',
+  shipTime: null,
+  receivedTime: null,
+  _etag: '"source-1"',
+  _rid: 'rid',
+  _ts: 1735776000
+};
+
+const OPEN_OFFER = {
+  ...CONFIRMED,
+  id: 'aster:2',
+  plantId: 'aster',
+  status: 'open-offer',
+  requestUserId: null,
+  seedRequestTime: null,
+  confirmationTime: null,
+  _etag: '"source-2"'
+};
+
+/**
+ * A change feed that returns each batch in turn, then reports no further changes
+ */
+function changeFeed(...batches: object[][]) {
+  const readNext = jest.fn();
+  batches.forEach((batch, index) => readNext.mockResolvedValueOnce({
+    statusCode: StatusCodes.Ok, result: batch, continuationToken: `after-${index + 1}`, requestCharge: 2
+  }));
+  readNext.mockResolvedValue({
+    statusCode: StatusCodes.NotModified, result: [], continuationToken: `after-${batches.length}`, requestCharge: 1
+  });
+  return { readNext };
+}
+
+describe('CosmosDbUserExchangeView', () => {
+  let source: ReturnType<typeof mockContainer>;
+  let view: ReturnType<typeof mockContainer>;
+
+  beforeEach(() => {
+    source = containers.SeedExchanges = mockContainer();
+    view = containers.UserExchanges = mockContainer();
+  });
+
+  it('should copy changed exchanges into the partition of each of their users', async () => {
+    source.items.getChangeFeedIterator.mockReturnValue(changeFeed([CONFIRMED, OPEN_OFFER]));
+
+    const applied = await new CosmosDbUserExchangeView(CONFIG).processChanges();
+
+    expect(applied).toBe(2);
+    const copies = view.items.upsert.mock.calls.map(([doc]) => doc).filter(doc => doc.id !== 'changeFeedLease');
+    expect(copies.map(doc => [doc.userId, doc.id])).toEqual([
+      ['alice', 'milkweed:1'], ['bob', 'milkweed:1'], ['bob', 'aster:2']
+    ]);
+    expect(copies[0]).toMatchObject({ sourceEtag: '"source-1"', status: 'confirmed' });
+    expect(copies[0]).not.toHaveProperty('_rid');
+  });
+
+  it('should checkpoint after every batch and resume from the checkpoint', async () => {
+    source.items.getChangeFeedIterator.mockReturnValueOnce(changeFeed([CONFIRMED], [OPEN_OFFER]));
+    const userView = new CosmosDbUserExchangeView(CONFIG);
+
+    await userView.processChanges();
+
+    const leases = view.items.upsert.mock.calls.map(([doc]) => doc).filter(doc => doc.id === 'changeFeedLease');
+    expect(leases.map(lease => lease.continuationToken)).toEqual(['after-1', 'after-2']);
+
+    source.items.getChangeFeedIterator.mockReturnValueOnce(changeFeed());
+    await userView.processChanges();
+
+    const [, [options]] = source.items.getChangeFeedIterator.mock.calls;
+    expect(options.changeFeedStartFrom.continuationToken).toBe('after-2');
+  });
+
+  it('should start from the saved checkpoint after a restart, or from the beginning without one', async () => {
+    source.items.getChangeFeedIterator.mockReturnValue(changeFeed());
+
+    await new CosmosDbUserExchangeView(CONFIG).processChanges();
+    view.read.mockResolvedValue({ resource: { id: 'changeFeedLease', userId: '', continuationToken: 'saved' } });
+    await new CosmosDbUserExchangeView(CONFIG).processChanges();
+
+    const [[fresh], [restarted]] = source.items.getChangeFeedIterator.mock.calls;
+    expect(fresh.changeFeedStartFrom.continuationToken).toBeUndefined();
+    expect(restarted.changeFeedStartFrom.continuationToken).toBe('saved');
+  });
+
+  it('should read a user\'s exchanges from their partition with the source etag', async () => {
+    const fetchAll = jest.fn().mockResolvedValue({
+      resources: [{ ...CONFIRMED, userId: 'alice', sourceEtag: '"source-1"', _etag: '"copy"' }],
+      requestCharge: 2.8
+    });
+    view.items.query.mockReturnValue({ fetchAll });
+
+    const exchanges = await new CosmosDbUserExchangeView(CONFIG).getExchangesByUser('alice');
+
+    expect(view.items.query).toHaveBeenCalledWith(expect.anything(), { partitionKey: 'alice' });
+    expect(exchanges).toHaveLength(1);
+    expect(exchanges[0]).toMatchObject({ id: 'milkweed:1', etag: '"source-1"' });
+    expect(exchanges[0].confirmationTime).toEqual(new Date('2025-01-02T00:00:00.000Z'));
+  });
+
+  it('should remove every copy of a deleted exchange', async () => {
+    view.items.query.mockReturnValue({
+      fetchAll: jest.fn().mockResolvedValue({ resources: [{ id: 'milkweed:1', userId: 'alice' }, { id: 'milkweed:1', userId: 'bob' }] })
+    });
+
+    await new CosmosDbUserExchangeView(CONFIG).removeExchange('milkweed:1');
+
+    expect(view.item).toHaveBeenCalledWith('milkweed:1', 'alice');
+    expect(view.item).toHaveBeenCalledWith('milkweed:1', 'bob');
+    expect(view.remove).toHaveBeenCalledTimes(2);
+  });
+
+  it('should rebuild from the source, dropping copies that no longer match', async () => {
+    source.items.getChangeFeedIterator.mockReturnValue(changeFeed());
+    source.items.query.mockReturnValue({ fetchAll: jest.fn().mockResolvedValue({ resources: [OPEN_OFFER] }) });
+    view.items.query.mockReturnValue({
+      fetchAll: jest.fn().mockResolvedValue({
+        resources: [{ id: 'aster:2', userId: 'bob' }, { id: 'withdrawn:3', userId: 'bob' }, { id: 'changeFeedLease', userId: '' }]
+      })
+    });
+
+    const copied = await new CosmosDbUserExchangeView(CONFIG).rebuild();
+
+    expect(copied).toBe(1);
+    expect(view.items.upsert).toHaveBeenCalledWith(expect.objectContaining({ id: 'aster:2', userId: 'bob' }));
+    expect(view.item).toHaveBeenCalledTimes(1);
+    expect(view.item).toHaveBeenCalledWith('withdrawn:3', 'bob');
+    expect(view.items.upsert).toHaveBeenLastCalledWith({ id: 'changeFeedLease', userId: '', continuationToken: 'after-0' });
+  });
+});
+
+describe('CosmosDbSeedExchangeCollections with a per-user view', () => {
+  let source: ReturnType<typeof mockContainer>;
+  let view: ReturnType<typeof mockContainer>;
+
+  beforeEach(() => {
+    source = containers.SeedExchanges = mockContainer();
+    view = containers.UserExchanges = mockContainer();
+    view.items.query.mockReturnValue({ fetchAll: jest.fn().mockResolvedValue({ resources: [], requestCharge: 2.8 }) });
+  });
+
+  it('should read users\' exchanges from the view and record its request units', async () => {
+    const collections = new CosmosDbSeedExchangeCollections(CONFIG);
+
+    await collections.getExchangesByUser('alice');
+
+    expect(source.items.query).not.toHaveBeenCalled();
+    expect(collections.getRequestCharges()).toEqual({ 'getExchangesByUser.view': { requests: 1, requestCharge: 2.8 } });
+  });
+
+  it('should remove deleted exchanges from the view', async () => {
+    const collections = new CosmosDbSeedExchangeCollections(CONFIG);
+    source.items.batch.mockResolvedValue({ result: [{ statusCode: 204, requestCharge: 5 }] });
+
+    await collections.removeExchange('milkweed:1');
+    await collections.executeBatch([{ type: 'delete', id: 'milkweed:2', plantId: 'milkweed' }]);
+
+    const removed = view.items.query.mock.calls.map(([spec]) => spec.parameters[0].value);
+    expect(removed).toEqual(['milkweed:1', 'milkweed:2']);
+  });
+
+  it('should query the exchange container when no view is configured', async () => {
+    source.items.query.mockReturnValue({ fetchAll: jest.fn().mockResolvedValue({ resources: [] }) });
+    const collections = new CosmosDbSeedExchangeCollections({ ...CONFIG, userViewContainerId: undefined });
+
+    await collections.getExchangesByUser('alice');
+
+    expect(collections.userView).toBeUndefined();
+    expect(view.items.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,342 @@
+import {
+  CosmosClient,
+  Container,
+  ChangeFeedStartFrom,
+  ErrorResponse,
+  StatusCodes
+} from '@azure/cosmos';
+import { SeedExchange } from './types';
+import { PageOptions, ExchangePage } from './ISeedExchangeCollections';
+import { CosmosDbConfig } from './cosmosDbConfig';
+import { deserializeExchange, SeedExchangeDocument } from './cosmosDbCollections';
+import { resolvePageSize } from './pagination';
+import { ValidationError } from './errors';
+import { startPolling, StopPolling } from './polling';
+
+/**
+ * Id and partition of the document holding the view's change feed checkpoint.
+ * No user has an empty id, so the lease never shows up in a user's exchanges.
+ */
+const LEASE_ID = 'changeFeedLease';
+const LEASE_PARTITION = '';
+
+/**
+ * Number of changed exchanges to apply between checkpoints
+ */
+const CHANGE_FEED_BATCH_SIZE = 100;
+
+/**
+ * Copy of an exchange stored in the partition of one of its users
+ */
+interface UserExchangeDocument extends SeedExchangeDocument {
+  userId: string;
+  /** The source document's etag, so exchanges read from the view can be updated with ifMatch */
+  sourceEtag?: string;
+}
+
+/**
+ * Where the view has read the source container's change feed up to
+ */
+interface LeaseDocument {
+  id: string;
+  userId: string;
+  continuationToken: string;
+}
+
+/**
+ * Records the request units of a Cosmos DB call under an operation name
+ */
+export type RequestChargeRecorder = (operation: string, requestCharge: number | undefined) => void;
+
+/**
+ * Per-user materialized view of the seed exchange container.
+ * Each exchange is copied into a container partitioned by `/userId`, once for its requester and once
+ * for its offerer, so a user's exchanges are a single-partition query instead of a fan-out across plants.
+ *
+ * The view follows the source container's change feed (processChanges()), checkpointing after every
+ * batch so a restarted processor resumes where it stopped. The change feed does not report deletes:
+ * CosmosDbSeedExchangeCollections removes deleted exchanges from the view itself, and copies carry the
+ * source document's TTL so expired entries age out of both containers. Exchanges only ever gain users,
+ * so a change never has to remove a copy from a user's partition. Use rebuild() if the view drifts.
+ */
+export class CosmosDbUserExchangeView {
+  private source: Container;
+  private container: Container;
+  private continuationToken?: string;
+  private stopPolling?: StopPolling;
+
+  /**
+   * @param config - Cosmos DB configuration naming the view container in `userViewContainerId`
+   * @param recordRequestCharge - Receives the request units of every call the view makes
+   */
+  constructor(config: CosmosDbConfig, private readonly recordRequestCharge: RequestChargeRecorder = () => undefined) {
+    if (!config.userViewContainerId) {
+      throw new Error('CosmosDbConfig.userViewContainerId must name the per-user view container');
+    }
+
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    const database = client.database(config.databaseId);
+    this.source = database.container(config.containerId);
+    this.container = database.container(config.userViewContainerId);
+  }
+
+  /**
+   * Initialize database and view container if they don't exist
+   * @param config - Cosmos DB configuration naming the view container in `userViewContainerId`
+   */
+  static async initialize(config: CosmosDbConfig): Promise<CosmosDbUserExchangeView> {
+    if (!config.userViewContainerId) {
+      throw new Error('CosmosDbConfig.userViewContainerId must name the per-user view container');
+    }
+
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    const { database } = await client.databases.createIfNotExists({
+      id: config.databaseId
+    });
+
+    // A default TTL of -1 lets copies of expired entries carry the source document's TTL
+    await database.containers.createIfNotExists({
+      id: config.userViewContainerId,
+      partitionKey: {
+        paths: ['/userId'],
+        version: 2
+      },
+      defaultTtl: -1
+    });
+
+    return new CosmosDbUserExchangeView(config);
+  }
+
+  /**
+   * Build the view's copies of a source document, one per user
+   */
+  private toViewDocuments(doc: SeedExchangeDocument): UserExchangeDocument[] {
+    const fields: SeedExchangeDocument = {
+      id: doc.id,
+      plantId: doc.plantId,
+      status: doc.status,
+      requestUserId: doc.requestUserId,
+      offerUserId: doc.offerUserId,
+      quantity: doc.quantity,
+      seedRequestTime: doc.seedRequestTime,
+      seedOfferTime: doc.seedOfferTime,
+      confirmationTime: doc.confirmationTime,
+      shipTime: doc.shipTime,
+      receivedTime: doc.receivedTime,
+      cancellation: doc.cancellation,
+      dispute: doc.dispute,
+      transitions: doc.transitions,
+      ttl: doc.ttl
+    };
+
+    const userIds = new Set([doc.requestUserId, doc.offerUserId].filter((userId): userId is string => !!userId));
+    return Array.from(userIds, userId => ({ ...fields, userId, sourceEtag: doc._etag }));
+  }
+
+  /**
+   * Convert a copy back into the exchange it was made from, with the source document's etag
+   */
+  private static fromViewDocument(doc: UserExchangeDocument): SeedExchange {
+    return deserializeExchange({ ...doc, _etag: doc.sourceEtag });
+  }
+
+  /**
+   * Get all exchanges for a user (as requester or offerer) from the user's partition
+   */
+  async getExchangesByUser(userId: string): Promise<SeedExchange[]> {
+    const response = await this.container.items.query<UserExchangeDocument>(
+      {
+        query: 'SELECT * FROM c WHERE c.userId = @userId',
+        parameters: [
+          { name: '@userId', value: userId }
+        ]
+      },
+      { partitionKey: userId }
+    ).fetchAll();
+    this.recordRequestCharge('getExchangesByUser.view', response.requestCharge);
+
+    return response.resources.map(doc => CosmosDbUserExchangeView.fromViewDocument(doc));
+  }
+
+  /**
+   * Get one page of a user's exchanges from the user's partition, using Cosmos DB's continuation token
+   */
+  async getExchangesByUserPage(userId: string, options: PageOptions = {}): Promise<ExchangePage> {
+    const maxItemCount = resolvePageSize(options.pageSize);
+
+    try {
+      const response = await this.container.items.query<UserExchangeDocument>(
+        {
+          query: 'SELECT * FROM c WHERE c.userId = @userId ORDER BY c.id',
+          parameters: [
+            { name: '@userId', value: userId }
+          ]
+        },
+        { partitionKey: userId, maxItemCount, continuationToken: options.continuationToken }
+      ).fetchNext();
+      this.recordRequestCharge('getExchangesByUserPage.view', response.requestCharge);
+
+      return {
+        exchanges: response.resources.map(doc => CosmosDbUserExchangeView.fromViewDocument(doc)),
+        continuationToken: response.hasMoreResults ? response.continuationToken : undefined
+      };
+    } catch (error) {
+      if (options.continuationToken !== undefined && (error as ErrorResponse).code === 400) {
+        throw new ValidationError('Continuation token is not valid for this query', 'INVALID_CONTINUATION_TOKEN');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Copy changed source documents into the partitions of their users
+   */
+  async applyChanges(docs: SeedExchangeDocument[]): Promise<void> {
+    for (const doc of docs.flatMap(changed => this.toViewDocuments(changed))) {
+      const response = await this.container.items.upsert(doc);
+      this.recordRequestCharge('userView.upsert', response.requestCharge);
+    }
+  }
+
+  /**
+   * Remove every copy of a deleted exchange
+   */
+  async removeExchange(id: string): Promise<void> {
+    // Deletes are rare next to reads, so finding the copies by id across user partitions is acceptable
+    const response = await this.container.items.query<{ id: string; userId: string }>({
+      query: 'SELECT c.id, c.userId FROM c WHERE c.id = @id',
+      parameters: [
+        { name: '@id', value: id }
+      ]
+    }).fetchAll();
+    this.recordRequestCharge('userView.remove', response.requestCharge);
+
+    for (const doc of response.resources) {
+      try {
+        await this.container.item(doc.id, doc.userId).delete();
+      } catch (error) {
+        if ((error as ErrorResponse).code !== 404) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Read the saved change feed checkpoint
+   */
+  private async readLease(): Promise<string | undefined> {
+    const { resource } = await this.container.item(LEASE_ID, LEASE_PARTITION).read<LeaseDocument>();
+    return resource?.continuationToken;
+  }
+
+  /**
+   * Save a change feed checkpoint
+   */
+  private async saveLease(continuationToken: string): Promise<void> {
+    const lease: LeaseDocument = { id: LEASE_ID, userId: LEASE_PARTITION, continuationToken };
+    await this.container.items.upsert(lease);
+    this.continuationToken = continuationToken;
+  }
+
+  /**
+   * Apply every change made to the source container since the last checkpoint.
+   * A view without a checkpoint reads the change feed from the beginning, which copies every exchange.
+   * Changes are checkpointed after they are applied, so a crash replays them rather than losing them.
+   * @returns The number of changed exchanges applied
+   */
+  async processChanges(): Promise<number> {
+    const continuationToken = this.continuationToken ?? await this.readLease();
+    const iterator = this.source.items.getChangeFeedIterator<SeedExchangeDocument>({
+      changeFeedStartFrom: continuationToken
+        ? ChangeFeedStartFrom.Continuation(continuationToken)
+        : ChangeFeedStartFrom.Beginning(),
+      maxItemCount: CHANGE_FEED_BATCH_SIZE
+    });
+
+    let applied = 0;
+    for (;;) {
+      const response = await iterator.readNext();
+      this.recordRequestCharge('userView.changeFeed', response.requestCharge);
+      if (response.statusCode === StatusCodes.NotModified) {
+        if (response.continuationToken !== this.continuationToken) {
+          await this.saveLease(response.continuationToken);
+        }
+        return applied;
+      }
+
+      await this.applyChanges(response.result);
+      await this.saveLease(response.continuationToken);
+      applied += response.result.length;
+    }
+  }
+
+  /**
+   * Process changes every `intervalMs` until stop() is called
+   * @param onError - Called when a pass fails; the next pass retries from the last checkpoint
+   */
+  start(intervalMs = 1000, onError: (error: unknown) => void = error => console.error('User view update failed:', error)): void {
+    if (!this.stopPolling) {
+      this.stopPolling = startPolling(() => this.processChanges(), intervalMs, onError);
+    }
+  }
+
+  /**
+   * Stop processing changes. A pass already under way runs to completion.
+   */
+  stop(): void {
+    this.stopPolling?.();
+    this.stopPolling = undefined;
+  }
+
+  /**
+   * Rebuild the view from the source container: copy every exchange, remove copies that no longer
+   * match the source, and checkpoint the change feed at the point the copy started.
+   * Users keep seeing their exchanges while the rebuild runs.
+   * @returns The number of exchanges copied
+   */
+  async rebuild(): Promise<number> {
+    // Checkpoint first, so changes made while copying are replayed afterwards rather than missed
+    const checkpoint = await this.source.items.getChangeFeedIterator({
+      changeFeedStartFrom: ChangeFeedStartFrom.Now()
+    }).readNext();
+
+    const { resources: sources } = await this.source.items.query<SeedExchangeDocument>('SELECT * FROM c').fetchAll();
+    const copies = sources.flatMap(doc => this.toViewDocuments(doc));
+    for (const doc of copies) {
+      await this.container.items.upsert(doc);
+    }
+
+    const expected = new Set(copies.map(doc => `${doc.userId}\n${doc.id}`));
+    const { resources: existing } = await this.container.items
+      .query<{ id: string; userId: string }>('SELECT c.id, c.userId FROM c')
+      .fetchAll();
+    for (const doc of existing) {
+      if (doc.userId !== LEASE_PARTITION && !expected.has(`${doc.userId}\n${doc.id}`)) {
+        await this.container.item(doc.id, doc.userId).delete();
+      }
+    }
+
+    await this.saveLease(checkpoint.continuationToken);
+    return sources.length;
+  }
+
+  /**
+   * Remove every copy and the checkpoint (useful for testing)
+   */
+  async clear(): Promise<void> {
+    const { resources } = await this.container.items
+      .query<{ id: string; userId: string }>('SELECT c.id, c.userId FROM c')
+      .fetchAll();
+    await Promise.all(resources.map(doc => this.container.item(doc.id, doc.userId).delete()));
+    this.continuationToken = undefined;
+  }
+}
@@ -0,0 +1,107 @@
+import { CosmosClient, Container } from '@azure/cosmos';
+import { IUserProfileStore, UserProfile } from './IUserProfileStore';
+import { CosmosDbConfig } from './cosmosDbConfig';
+
+/**
+ * Container used for user profiles when CosmosDbConfig does not name one
+ */
+const DEFAULT_USER_PROFILE_CONTAINER_ID = 'UserProfiles';
+
+/**
+ * Cosmos DB document for a user profile, keyed by user id, with dates as ISO 8601 strings
+ */
+interface UserProfileDocument extends Omit<UserProfile, 'updatedTime'> {
+  id: string;
+  updatedTime: string;
+}
+
+/**
+ * Cosmos DB implementation of user profile storage.
+ * Each profile is a single document in a container partitioned by `/userId`, read with point reads.
+ */
+export class CosmosDbUserProfileStore implements IUserProfileStore {
+  private container: Container;
+
+  /**
+   * Initialize the Cosmos DB user profile store
+   * @param config - Cosmos DB configuration
+   */
+  constructor(config: CosmosDbConfig) {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    this.container = client
+      .database(config.databaseId)
+      .container(config.userProfileContainerId || DEFAULT_USER_PROFILE_CONTAINER_ID);
+  }
+
+  /**
+   * Initialize database and user profile container if they don't exist
+   * @param config - Cosmos DB configuration
+   */
+  static async initialize(config: CosmosDbConfig): Promise<CosmosDbUserProfileStore> {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    const { database } = await client.databases.createIfNotExists({
+      id: config.databaseId
+    });
+
+    await database.containers.createIfNotExists({
+      id: config.userProfileContainerId || DEFAULT_USER_PROFILE_CONTAINER_ID,
+      partitionKey: {
+        paths: ['/userId'],
+        version: 2
+      }
+    });
+
+    return new CosmosDbUserProfileStore(config);
+  }
+
+  async getProfile(userId: string): Promise<UserProfile | undefined> {
+    const { resource } = await this.container.item(userId, userId).read<UserProfileDocument>();
+    if (!resource) {
+      return undefined;
+    }
+
+    return {
+      userId: resource.userId,
+      displayName: resource.displayName,
+      region: resource.region,
+      address: resource.address,
+      preferences: resource.preferences ?? {},
+      updatedTime: new Date(resource.updatedTime)
+    };
+  }
+
+  async setProfile(profile: UserProfile): Promise<void> {
+    const doc: UserProfileDocument = {
+      ...profile,
+      id: profile.userId,
+      updatedTime: profile.updatedTime.toISOString()
+    };
+    await this.container.items.upsert(doc);
+  }
+
+  async deleteProfile(userId: string): Promise<void> {
+    try {
+      await this.container.item(userId, userId).delete();
+    } catch (error: unknown) {
+      // Deleting a profile that does not exist is not an error
+      if ((error as { code?: number }).code !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    const { resources } = await this.container.items
+      .query<{ id: string; userId: string }>('SELECT c.id, c.userId FROM c')
+      .fetchAll();
+    await Promise.all(resources.map(doc => this.container.item(doc.id, doc.userId).delete()));
+  }
+}
@@ -0,0 +1,209 @@
+import { CosmosClient, Container } from '@azure/cosmos';
+import {
+  IWebhookStore,
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryStatus
+} from './IWebhookStore';
+import { CosmosDbConfig } from './cosmosDbConfig';
+
+/**
+ * Container used for webhooks when CosmosDbConfig does not name one
+ */
+const DEFAULT_WEBHOOK_CONTAINER_ID = 'Webhooks';
+
+/**
+ * Cosmos DB document for a subscription, with dates as ISO 8601 strings
+ */
+interface SubscriptionDocument extends Omit<WebhookSubscription, 'createdTime'> {
+  kind: 'subscription';
+  createdTime: string;
+}
+
+/**
+ * Cosmos DB document for a delivery, with dates as ISO 8601 strings
+ */
+interface DeliveryDocument extends Omit<WebhookDelivery, 'nextAttemptTime' | 'lastAttemptTime'> {
+  kind: 'delivery';
+  nextAttemptTime: string;
+  lastAttemptTime?: string;
+}
+
+/**
+ * Cosmos DB implementation of webhook storage.
+ * Subscriptions and deliveries share a container partitioned by `/tenantId`, told apart by `kind`.
+ */
+export class CosmosDbWebhookStore implements IWebhookStore {
+  private container: Container;
+
+  /**
+   * Initialize the Cosmos DB webhook store
+   * @param config - Cosmos DB configuration
+   */
+  constructor(config: CosmosDbConfig) {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    this.container = client
+      .database(config.databaseId)
+      .container(config.webhookContainerId || DEFAULT_WEBHOOK_CONTAINER_ID);
+  }
+
+  /**
+   * Initialize database and webhook container if they don't exist
+   * @param config - Cosmos DB configuration
+   */
+  static async initialize(config: CosmosDbConfig): Promise<CosmosDbWebhookStore> {
+    const client = new CosmosClient({
+      endpoint: config.endpoint,
+      key: config.key
+    });
+
+    const { database } = await client.databases.createIfNotExists({
+      id: config.databaseId
+    });
+
+    await database.containers.createIfNotExists({
+      id: config.webhookContainerId || DEFAULT_WEBHOOK_CONTAINER_ID,
+      partitionKey: {
+        paths: ['/tenantId'],
+        version: 2
+      }
+    });
+
+    return new CosmosDbWebhookStore(config);
+  }
+
+  private toSubscription(doc: SubscriptionDocument): WebhookSubscription {
+    return {
+      id: doc.id,
+      tenantId: doc.tenantId,
+      url: doc.url,
+      eventTypes: doc.eventTypes,
+      secret: doc.secret,
+      userIds: doc.userIds,
+      createdTime: new Date(doc.createdTime)
+    };
+  }
+
+  private toDelivery(doc: DeliveryDocument): WebhookDelivery {
+    return {
+      id: doc.id,
+      tenantId: doc.tenantId,
+      subscriptionId: doc.subscriptionId,
+      eventId: doc.eventId,
+      eventType: doc.eventType,
+      payload: doc.payload,
+      status: doc.status,
+      attempts: doc.attempts,
+      nextAttemptTime: new Date(doc.nextAttemptTime),
+      lastAttemptTime: doc.lastAttemptTime ? new Date(doc.lastAttemptTime) : undefined,
+      lastError: doc.lastError
+    };
+  }
+
+  private toDeliveryDocument(delivery: WebhookDelivery): DeliveryDocument {
+    return {
+      ...delivery,
+      kind: 'delivery',
+      nextAttemptTime: delivery.nextAttemptTime.toISOString(),
+      lastAttemptTime: delivery.lastAttemptTime?.toISOString()
+    };
+  }
+
+  async addSubscription(subscription: WebhookSubscription): Promise<void> {
+    const doc: SubscriptionDocument = {
+      ...subscription,
+      kind: 'subscription',
+      createdTime: subscription.createdTime.toISOString()
+    };
+    await this.container.items.upsert(doc);
+  }
+
+  async getSubscriptions(tenantId: string): Promise<WebhookSubscription[]> {
+    const { resources } = await this.container.items
+      .query<SubscriptionDocument>({
+        query: `SELECT * FROM c WHERE c.kind = 'subscription' AND c.tenantId = @tenantId`,
+        parameters: [{ name: '@tenantId', value: tenantId }]
+      }, { partitionKey: tenantId })
+      .fetchAll();
+    return resources.map(doc => this.toSubscription(doc));
+  }
+
+  async getAllSubscriptions(): Promise<WebhookSubscription[]> {
+    const { resources } = await this.container.items
+      .query<SubscriptionDocument>(`SELECT * FROM c WHERE c.kind = 'subscription'`)
+      .fetchAll();
+    return resources.map(doc => this.toSubscription(doc));
+  }
+
+  async removeSubscription(tenantId: string, subscriptionId: string): Promise<void> {
+    try {
+      await this.container.item(subscriptionId, tenantId).delete();
+    } catch (error: unknown) {
+      if ((error as { code?: number }).code !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  async addDeliveries(deliveries: WebhookDelivery[]): Promise<void> {
+    for (const delivery of deliveries) {
+      try {
+        await this.container.items.create(this.toDeliveryDocument(delivery));
+      } catch (error: unknown) {
+        // Already queued by an earlier pass over the same event
+        if ((error as { code?: number }).code !== 409) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async getDelivery(tenantId: string, deliveryId: string): Promise<WebhookDelivery | undefined> {
+    const { resource } = await this.container.item(deliveryId, tenantId).read<DeliveryDocument>();
+    return resource?.kind === 'delivery' ? this.toDelivery(resource) : undefined;
+  }
+
+  async getDeliveries(tenantId: string, status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]> {
+    const parameters = [{ name: '@tenantId', value: tenantId }];
+    let query = `SELECT * FROM c WHERE c.kind = 'delivery' AND c.tenantId = @tenantId`;
+    if (status) {
+      query += ' AND c.status = @status';
+      parameters.push({ name: '@status', value: status });
+    }
+
+    const { resources } = await this.container.items
+      .query<DeliveryDocument>({ query, parameters }, { partitionKey: tenantId })
+      .fetchAll();
+    return resources.map(doc => this.toDelivery(doc));
+  }
+
+  async getDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const { resources } = await this.container.items
+      .query<DeliveryDocument>({
+        query: `SELECT TOP @limit * FROM c
+                WHERE c.kind = 'delivery' AND c.status = 'pending' AND c.nextAttemptTime <= @now
+                ORDER BY c.nextAttemptTime ASC`,
+        parameters: [
+          { name: '@limit', value: limit },
+          { name: '@now', value: now.toISOString() }
+        ]
+      })
+      .fetchAll();
+    return resources.map(doc => this.toDelivery(doc));
+  }
+
+  async updateDelivery(delivery: WebhookDelivery): Promise<void> {
+    await this.container.items.upsert(this.toDeliveryDocument(delivery));
+  }
+
+  async clear(): Promise<void> {
+    const { resources } = await this.container.items
+      .query<{ id: string; tenantId: string }>('SELECT c.id, c.tenantId FROM c')
+      .fetchAll();
+    await Promise.all(resources.map(doc => this.container.item(doc.id, doc.tenantId).delete()));
+  }
+}
@@ -0,0 +1,57 @@
+import { Plant } from './types';
+
+/**
+ * Starter catalog of common monarch host and nectar plants.
+ * Loaded into the catalog when it is initialized empty.
+ */
+export const DEFAULT_PLANTS: Plant[] = [
+  {
+    id: 'common-milkweed',
+    commonName: 'Common Milkweed',
+    scientificName: 'Asclepias syriaca',
+    aliases: [],
+    category: 'monarch-host'
+  },
+  {
+    id: 'swamp-milkweed',
+    commonName: 'Swamp Milkweed',
+    scientificName: 'Asclepias incarnata',
+    aliases: ['rose milkweed'],
+    category: 'monarch-host'
+  },
+  {
+    id: 'butterfly-weed',
+    commonName: 'Butterfly Weed',
+    scientificName: 'Asclepias tuberosa',
+    aliases: ['butterfly milkweed', 'orange milkweed'],
+    category: 'monarch-host'
+  },
+  {
+    id: 'new-england-aster',
+    commonName: 'New England Aster',
+    scientificName: 'Symphyotrichum novae-angliae',
+    aliases: [],
+    category: 'nectar'
+  },
+  {
+    id: 'purple-coneflower',
+    commonName: 'Purple Coneflower',
+    scientificName: 'Echinacea purpurea',
+    aliases: ['echinacea'],
+    category: 'nectar'
+  },
+  {
+    id: 'dense-blazing-star',
+    commonName: 'Dense Blazing Star',
+    scientificName: 'Liatris spicata',
+    aliases: ['blazing star', 'gayfeather'],
+    category: 'nectar'
+  },
+  {
+    id: 'joe-pye-weed',
+    commonName: 'Joe-Pye Weed',
+    scientificName: 'Eutrochium purpureum',
+    aliases: ['sweet joe pye weed'],
+    category: 'nectar'
+  }
+];
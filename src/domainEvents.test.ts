@@ -0,0 +1,201 @@
+import {
+  DomainEvent,
+  DomainEventEmitter,
+  DomainEventProcessor,
+  InMemoryLeaseStore,
+  toDomainEvent,
+  toDomainEvents
+} from './domainEvents';
+import { SeedExchangeCollections } from './collections';
+import { SubmitSeedOffer, SubmitSeedRequest, MarkShipped } from './api';
+import { AzureUserToken, SeedExchange } from './types';
+
+const requester: AzureUserToken = { userId: 'requester' };
+const offerer: AzureUserToken = { userId: 'offerer' };
+
+const openRequest = (id: string): SeedExchange => ({
+  id,
+  plantId: 'milkweed',
+  status: 'open-request',
+  requestUserId: 'requester',
+  offerUserId: null,
+  quantity: 1,
+  seedRequestTime: new Date('2025-03-01T00:00:00Z'),
+  seedOfferTime: null,
+  confirmationTime: null,
+  shipTime: null,
+  receivedTime: null
+});
+
+describe('Domain events', () => {
+  let collections: SeedExchangeCollections;
+  let leaseStore: InMemoryLeaseStore;
+  let processor: DomainEventProcessor;
+  let events: DomainEvent[];
+
+  beforeEach(() => {
+    collections = new SeedExchangeCollections();
+    leaseStore = new InMemoryLeaseStore();
+    processor = new DomainEventProcessor('newsletter', collections, leaseStore);
+    events = [];
+    processor.emitter.on('*', event => {
+      events.push(event);
+    });
+  });
+
+  it('should publish an event for each status an exchange is seen in', async () => {
+    await SubmitSeedRequest(requester, 'milkweed', collections);
+    await processor.processChanges();
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', 1, collections);
+    await processor.processChanges();
+    await MarkShipped(offerer, offer.filledExchanges[0].id, collections);
+    await processor.processChanges();
+
+    const exchangeId = offer.filledExchanges[0].id;
+    // Earlier transitions are published again with the exchange's later changes, under the same ids
+    expect(events.map(event => [event.type, event.id])).toEqual([
+      ['RequestOpened', `${exchangeId}:open-request`],
+      ['ExchangeMatched', `${exchangeId}:confirmed`],
+      ['ExchangeMatched', `${exchangeId}:confirmed`],
+      ['ExchangeShipped', `${exchangeId}:shipped`]
+    ]);
+    expect(events[3].exchange.shipTime).toEqual(events[3].occurredAt);
+  });
+
+  it('should publish every transition of an exchange changed several times between passes', async () => {
+    await SubmitSeedRequest(requester, 'milkweed', collections);
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', 1, collections);
+    const exchangeId = offer.filledExchanges[0].id;
+    await MarkShipped(offerer, exchangeId, collections);
+
+    expect(await processor.processChanges()).toBe(2);
+    expect(events.map(event => [event.type, event.id])).toEqual([
+      ['ExchangeMatched', `${exchangeId}:confirmed`],
+      ['ExchangeShipped', `${exchangeId}:shipped`]
+    ]);
+    expect(events[0].occurredAt).toEqual(events[0].exchange.confirmationTime);
+    expect(events[0].exchange.status).toBe('shipped');
+  });
+
+  it('should deliver only to subscribers of the event type', async () => {
+    const matched: string[] = [];
+    const unsubscribe = processor.emitter.on('ExchangeMatched', event => {
+      matched.push(event.exchange.id);
+    });
+
+    await SubmitSeedRequest(requester, 'milkweed', collections);
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', 1, collections);
+    await processor.processChanges();
+    unsubscribe();
+    await SubmitSeedRequest(requester, 'aster', collections);
+    await SubmitSeedOffer(offerer, 'aster', 1, collections);
+    await processor.processChanges();
+
+    expect(matched).toEqual([offer.filledExchanges[0].id]);
+  });
+
+  it('should resume from the checkpoint in the lease store', async () => {
+    await collections.addExchange(openRequest('first'));
+    await processor.processChanges();
+    await collections.addExchange(openRequest('second'));
+
+    const restarted = new DomainEventProcessor('newsletter', collections, leaseStore);
+    const afterRestart: string[] = [];
+    restarted.emitter.on('*', event => {
+      afterRestart.push(event.exchange.id);
+    });
+    await restarted.processChanges();
+
+    expect(afterRestart).toEqual(['second']);
+    expect(await restarted.processChanges()).toBe(0);
+  });
+
+  it('should keep a separate checkpoint per processor name', async () => {
+    await collections.addExchange(openRequest('first'));
+    await processor.processChanges();
+
+    const dashboard = new DomainEventProcessor('inventory-dashboard', collections, leaseStore);
+    expect(await dashboard.processChanges()).toBe(1);
+  });
+
+  it('should redeliver a batch whose handler failed', async () => {
+    let failures = 1;
+    processor.emitter.on('RequestOpened', () => {
+      if (failures-- > 0) {
+        throw new Error('Newsletter service unavailable');
+      }
+    });
+    await collections.addExchange(openRequest('first'));
+    await collections.addExchange(openRequest('second'));
+
+    await expect(processor.processChanges()).rejects.toThrow('Newsletter service unavailable');
+    expect(await leaseStore.getCheckpoint('newsletter')).toBeUndefined();
+
+    await processor.processChanges();
+    expect(events.map(event => event.exchange.id)).toEqual(['first', 'first', 'second']);
+  });
+
+  it('should read changes in batches', async () => {
+    for (let i = 0; i < 150; i++) {
+      await collections.addExchange(openRequest(`request-${i}`));
+    }
+
+    const first = await collections.readChanges();
+    const second = await collections.readChanges(first.checkpoint);
+    const last = await collections.readChanges(second.checkpoint);
+
+    expect(first.exchanges).toHaveLength(100);
+    expect(second.exchanges).toHaveLength(50);
+    expect(last).toEqual({ exchanges: [], checkpoint: second.checkpoint });
+    expect(await processor.processChanges()).toBe(150);
+  });
+
+  it('should time events without a recorded time when they are read', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+    const event = toDomainEvent({ ...openRequest('old'), status: 'expired' }, now);
+
+    expect(event).toMatchObject({ type: 'ExchangeExpired', id: 'old:expired', occurredAt: now });
+  });
+
+  it('should number the events of a status an exchange enters again', () => {
+    const time = (day: number) => new Date(`2025-03-0${day}T00:00:00Z`);
+    const events = toDomainEvents({
+      ...openRequest('disputed'),
+      status: 'received',
+      transitions: [
+        { status: 'confirmed', time: time(1) },
+        { status: 'shipped', time: time(2) },
+        { status: 'received', time: time(3) },
+        { status: 'disputed', time: time(4) },
+        { status: 'received', time: time(5) }
+      ]
+    });
+
+    expect(events.map(event => [event.type, event.id, event.occurredAt])).toEqual([
+      ['ExchangeMatched', 'disputed:confirmed', time(1)],
+      ['ExchangeShipped', 'disputed:shipped', time(2)],
+      ['ExchangeReceived', 'disputed:received', time(3)],
+      ['ExchangeDisputed', 'disputed:disputed', time(4)],
+      ['ExchangeReceived', 'disputed:received:2', time(5)]
+    ]);
+  });
+});
+
+describe('DomainEventEmitter', () => {
+  it('should call handlers in subscription order and stop at the first failure', async () => {
+    const emitter = new DomainEventEmitter();
+    const calls: string[] = [];
+    emitter.on('*', () => {
+      calls.push('first');
+    });
+    emitter.on('RequestOpened', async () => {
+      throw new Error('failed');
+    });
+    emitter.on('*', () => {
+      calls.push('third');
+    });
+
+    await expect(emitter.emit(toDomainEvent(openRequest('request')))).rejects.toThrow('failed');
+    expect(calls).toEqual(['first']);
+  });
+});
@@ -0,0 +1,224 @@
+import { ExchangeStatus, SeedExchange } from './types';
+import { IExchangeChangeFeed } from './IExchangeChangeFeed';
+import { ILeaseStore } from './ILeaseStore';
+import { startPolling, StopPolling } from './polling';
+
+/**
+ * Something that happened to an exchange that other systems may want to react to
+ * - RequestOpened / OfferOpened: An open entry is waiting in the queue
+ * - ExchangeMatched: A request and an offer were matched into a confirmed exchange
+ * - ExchangeShipped, ExchangeReceived, ExchangeDisputed, ExchangeCancelled, ExchangeExpired:
+ *   The exchange moved to that status
+ */
+export type DomainEventType =
+  | 'RequestOpened'
+  | 'OfferOpened'
+  | 'ExchangeMatched'
+  | 'ExchangeShipped'
+  | 'ExchangeReceived'
+  | 'ExchangeDisputed'
+  | 'ExchangeCancelled'
+  | 'ExchangeExpired';
+
+/**
+ * The event published when an exchange is seen in each status
+ */
+export const DOMAIN_EVENT_TYPES: Record<ExchangeStatus, DomainEventType> = {
+  'open-request': 'RequestOpened',
+  'open-offer': 'OfferOpened',
+  confirmed: 'ExchangeMatched',
+  shipped: 'ExchangeShipped',
+  received: 'ExchangeReceived',
+  disputed: 'ExchangeDisputed',
+  cancelled: 'ExchangeCancelled',
+  expired: 'ExchangeExpired'
+};
+
+/**
+ * A domain event, carrying the exchange as it was when the event was read from the change feed,
+ * which may already be past the event's status
+ */
+export interface DomainEvent {
+  /**
+   * `<exchange id>:<status>`, with `:<n>` appended when an exchange enters the same status for the nth time.
+   * Delivery is at least once, so a handler may see the same event more than once (e.g. after a crash,
+   * or whenever the exchange changes again); handlers that must act once should remember the ids they have handled.
+   */
+  id: string;
+  type: DomainEventType;
+  exchange: SeedExchange;
+  /** When the exchange entered the event's status, or when the event was read if the exchange does not record it */
+  occurredAt: Date;
+}
+
+/**
+ * Handles one domain event. A handler that throws (or rejects) stops the batch, which is redelivered.
+ */
+export type DomainEventHandler = (event: DomainEvent) => void | Promise<void>;
+
+/**
+ * Build the domain event for an exchange's current status
+ */
+export function toDomainEvent(exchange: SeedExchange, now: Date = new Date()): DomainEvent {
+  const statusTimes: Partial<Record<ExchangeStatus, Date | null | undefined>> = {
+    'open-request': exchange.seedRequestTime,
+    'open-offer': exchange.seedOfferTime,
+    confirmed: exchange.confirmationTime,
+    shipped: exchange.shipTime,
+    received: exchange.receivedTime,
+    disputed: exchange.dispute?.openTime,
+    cancelled: exchange.cancellation?.cancelTime
+  };
+
+  return {
+    id: `${exchange.id}:${exchange.status}`,
+    type: DOMAIN_EVENT_TYPES[exchange.status],
+    exchange,
+    occurredAt: statusTimes[exchange.status] ?? now
+  };
+}
+
+/**
+ * Build the domain events for every status change an exchange records, oldest first.
+ * The change feed only holds each exchange's latest state, so an exchange matched and then shipped
+ * between two reads still publishes ExchangeMatched before ExchangeShipped. Exchanges without recorded
+ * transitions (open entries, and exchanges last written before transitions were recorded) publish
+ * the event for their current status.
+ */
+export function toDomainEvents(exchange: SeedExchange, now: Date = new Date()): DomainEvent[] {
+  if (!exchange.transitions?.length) {
+    return [toDomainEvent(exchange, now)];
+  }
+
+  const occurrences = new Map<ExchangeStatus, number>();
+  return exchange.transitions.map(({ status, time }) => {
+    const occurrence = (occurrences.get(status) ?? 0) + 1;
+    occurrences.set(status, occurrence);
+    return {
+      id: occurrence === 1 ? `${exchange.id}:${status}` : `${exchange.id}:${status}:${occurrence}`,
+      type: DOMAIN_EVENT_TYPES[status],
+      exchange,
+      occurredAt: time
+    };
+  });
+}
+
+/**
+ * In-process publisher of domain events. Handlers subscribe to one event type or to every type ('*').
+ */
+export class DomainEventEmitter {
+  private handlers: Array<{ type: DomainEventType | '*'; handler: DomainEventHandler }> = [];
+
+  /**
+   * Subscribe to an event type, or to every type with '*'
+   * @returns A function that unsubscribes the handler
+   */
+  on(type: DomainEventType | '*', handler: DomainEventHandler): () => void {
+    const subscription = { type, handler };
+    this.handlers.push(subscription);
+    return () => {
+      this.handlers = this.handlers.filter(existing => existing !== subscription);
+    };
+  }
+
+  /**
+   * Deliver an event to its subscribers one at a time, in the order they subscribed
+   * @throws The first handler error; later handlers are not called
+   */
+  async emit(event: DomainEvent): Promise<void> {
+    for (const { type, handler } of this.handlers) {
+      if (type === '*' || type === event.type) {
+        await handler(event);
+      }
+    }
+  }
+}
+
+/**
+ * In-memory implementation of the lease store
+ */
+export class InMemoryLeaseStore implements ILeaseStore {
+  private checkpoints = new Map<string, string>();
+
+  async getCheckpoint(processorName: string): Promise<string | undefined> {
+    return this.checkpoints.get(processorName);
+  }
+
+  async setCheckpoint(processorName: string, checkpoint: string): Promise<void> {
+    this.checkpoints.set(processorName, checkpoint);
+  }
+
+  async clear(): Promise<void> {
+    this.checkpoints.clear();
+  }
+}
+
+/**
+ * Reads a storage backend's change feed and publishes a domain event for every status change
+ * each changed exchange records (see toDomainEvents).
+ * The checkpoint is saved to the lease store after each batch has been published, so a batch
+ * interrupted by a crash or a failing handler is published again: delivery is at least once.
+ * Removed exchanges (withdrawn or consumed open entries) produce no event.
+ */
+export class DomainEventProcessor {
+  private stopPolling?: StopPolling;
+
+  /**
+   * @param name - Names the processor's checkpoint in the lease store; processors with different
+   * names read the feed independently
+   * @param changeFeed - Source of changed exchanges, e.g. SeedExchangeCollections or CosmosDbSeedExchangeCollections
+   * @param leaseStore - Where the checkpoint is kept
+   * @param emitter - Where events are published
+   */
+  constructor(
+    private readonly name: string,
+    private readonly changeFeed: IExchangeChangeFeed,
+    private readonly leaseStore: ILeaseStore,
+    readonly emitter: DomainEventEmitter = new DomainEventEmitter()
+  ) {}
+
+  /**
+   * Publish events for every change since the last checkpoint
+   * @returns The number of events published
+   */
+  async processChanges(): Promise<number> {
+    let checkpoint = await this.leaseStore.getCheckpoint(this.name);
+    let published = 0;
+
+    for (;;) {
+      const batch = await this.changeFeed.readChanges(checkpoint);
+      for (const exchange of batch.exchanges) {
+        for (const event of toDomainEvents(exchange)) {
+          await this.emitter.emit(event);
+          published += 1;
+        }
+      }
+
+      if (batch.checkpoint !== checkpoint) {
+        await this.leaseStore.setCheckpoint(this.name, batch.checkpoint);
+        checkpoint = batch.checkpoint;
+      }
+      if (batch.exchanges.length === 0) {
+        return published;
+      }
+    }
+  }
+
+  /**
+   * Process changes every `intervalMs` until stop() is called
+   * @param onError - Called when a pass fails; the next pass redelivers from the last checkpoint
+   */
+  start(intervalMs = 1000, onError: (error: unknown) => void = error => console.error(`Domain event processor ${this.name} failed:`, error)): void {
+    if (!this.stopPolling) {
+      this.stopPolling = startPolling(() => this.processChanges(), intervalMs, onError);
+    }
+  }
+
+  /**
+   * Stop processing changes. A pass already under way runs to completion.
+   */
+  stop(): void {
+    this.stopPolling?.();
+    this.stopPolling = undefined;
+  }
+}
@@ -1,6 +1,7 @@
 import { SubmitSeedOffer, SubmitSeedRequest, Withdraw } from './api';
 import { SeedExchangeCollections } from './collections';
 import { AzureUserToken } from './types';
+import { NotFoundError, ForbiddenError, InvalidStateError, ValidationError } from './errors';
 
 /**
  * End-to-End Test Suite
@@ -190,8 +191,7 @@ describe('End-to-End Test Suite', () => {
       const offerResult = await SubmitSeedOffer(alice, 'basil-009', 1, collections);
       const confirmedId = offerResult.filledExchanges[0].id;
 
-      const withdrawResult = await Withdraw(alice, confirmedId, collections);
-      expect(withdrawResult.success).toBe(false);
+      await expect(Withdraw(alice, confirmedId, collections)).rejects.toThrow(InvalidStateError);
 
       const confirmedExchanges = await collections.getConfirmedExchanges();
       expect(confirmedExchanges).toHaveLength(1);
@@ -201,8 +201,7 @@ describe('End-to-End Test Suite', () => {
       const requestResult = await SubmitSeedRequest(bob, 'thyme-010', collections);
       const exchangeId = requestResult.remainingRequest!.id;
 
-      const withdrawResult = await Withdraw(alice, exchangeId, collections);
-      expect(withdrawResult.success).toBe(false);
+      await expect(Withdraw(alice, exchangeId, collections)).rejects.toThrow(ForbiddenError);
 
       const openRequests = await collections.getOpenRequestsByPlant('thyme-010');
       expect(openRequests).toHaveLength(1);
@@ -374,9 +373,7 @@ describe('End-to-End Test Suite', () => {
     });
 
     it('should handle withdrawal of non-existent exchange', async () => {
-      const withdrawResult = await Withdraw(alice, 'fake-id-024', collections);
-      expect(withdrawResult.success).toBe(false);
-      expect(withdrawResult.withdrawnExchange).toBeUndefined();
+      await expect(Withdraw(alice, 'fake-id-024', collections)).rejects.toThrow(NotFoundError);
     });
 
     it('should handle multiple rapid operations', async () => {
@@ -397,10 +394,11 @@ describe('End-to-End Test Suite', () => {
       expect(offerResult.filledExchanges).toHaveLength(3);
     });
 
-    it('should handle zero quantity edge case gracefully', async () => {
-      const offerResult = await SubmitSeedOffer(alice, 'zero-026', 0, collections);
-      expect(offerResult.filledExchanges).toHaveLength(0);
-      expect(offerResult.remainingOffer).toBeUndefined();
+    it('should reject a zero quantity offer', async () => {
+      await expect(SubmitSeedOffer(alice, 'zero-026', 0, collections)).rejects.toThrow(ValidationError);
+
+      const openOffers = await collections.getOpenOffersByPlant('zero-026');
+      expect(openOffers).toHaveLength(0);
     });
   });
 
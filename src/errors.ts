@@ -0,0 +1,132 @@
+/**
+ * Machine-readable codes carried by every SeedExchangeError
+ */
+export type SeedExchangeErrorCode =
+  | 'EXCHANGE_NOT_FOUND'
+  | 'ROUTE_NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'INVALID_TOKEN'
+  | 'INVALID_TOKEN_SIGNATURE'
+  | 'INVALID_TOKEN_ISSUER'
+  | 'INVALID_TOKEN_AUDIENCE'
+  | 'TOKEN_EXPIRED'
+  | 'NOT_EXCHANGE_OWNER'
+  | 'NOT_EXCHANGE_PARTY'
+  | 'NOT_EXCHANGE_OFFERER'
+  | 'NOT_EXCHANGE_REQUESTER'
+  | 'NOT_ADMIN'
+  | 'INVALID_STATUS_TRANSITION'
+  | 'EXCHANGE_NOT_OPEN'
+  | 'DISPUTE_ALREADY_OPENED'
+  | 'DISPUTE_ALREADY_ANSWERED'
+  | 'INVALID_PLANT_ID'
+  | 'UNKNOWN_PLANT_ID'
+  | 'INVALID_PLANT'
+  | 'PLANT_ALREADY_EXISTS'
+  | 'INVALID_QUANTITY'
+  | 'QUANTITY_LIMIT_EXCEEDED'
+  | 'INVALID_REQUEST_BODY'
+  | 'INVALID_PATH'
+  | 'INVALID_CANCELLATION_REASON'
+  | 'INVALID_DISPUTE_REASON'
+  | 'INVALID_DISPUTE_RESPONSE'
+  | 'INVALID_DISPUTE_NOTE'
+  | 'INVALID_DISPUTE_OUTCOME'
+  | 'INVALID_PAGE_SIZE'
+  | 'INVALID_CONTINUATION_TOKEN'
+  | 'INVALID_FILTER'
+  | 'MIXED_PLANT_BATCH'
+  | 'INVALID_TENANT_ID'
+  | 'INVALID_WEBHOOK_URL'
+  | 'INVALID_WEBHOOK_EVENT_TYPES'
+  | 'INVALID_WEBHOOK_USER_IDS'
+  | 'WEBHOOK_NOT_FOUND'
+  | 'WEBHOOK_DELIVERY_NOT_FOUND'
+  | 'WEBHOOK_DELIVERY_NOT_DEAD_LETTERED'
+  | 'INVALID_NOTIFICATION_PREFERENCES'
+  | 'INVALID_USER_PROFILE'
+  | 'INVALID_POSTAL_ADDRESS'
+  | 'SHIPPING_ADDRESS_NOT_FOUND'
+  | 'SHIPPING_ADDRESS_UNAVAILABLE'
+  | 'INSUFFICIENT_CREDITS'
+  | 'INVALID_STATEMENT_RANGE'
+  | 'INVALID_CONFIG'
+  | 'CONFLICT';
+
+/**
+ * Base class for all domain errors raised by the seed exchange API
+ */
+export class SeedExchangeError extends Error {
+  readonly code: SeedExchangeErrorCode;
+
+  constructor(code: SeedExchangeErrorCode, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    // Keep instanceof working when compiled to ES5-style classes
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * The requested exchange (or other resource) does not exist
+ */
+export class NotFoundError extends SeedExchangeError {
+  constructor(message: string, code: SeedExchangeErrorCode = 'EXCHANGE_NOT_FOUND') {
+    super(code, message);
+  }
+}
+
+/**
+ * The caller could not be authenticated
+ */
+export class UnauthorizedError extends SeedExchangeError {
+  constructor(message: string, code: SeedExchangeErrorCode = 'UNAUTHORIZED') {
+    super(code, message);
+  }
+}
+
+/**
+ * The caller is not allowed to act on the resource
+ */
+export class ForbiddenError extends SeedExchangeError {
+  constructor(message: string, code: SeedExchangeErrorCode = 'NOT_EXCHANGE_OWNER') {
+    super(code, message);
+  }
+}
+
+/**
+ * The exchange is not in a status that allows the requested operation
+ */
+export class InvalidStateError extends SeedExchangeError {
+  constructor(message: string, code: SeedExchangeErrorCode = 'INVALID_STATUS_TRANSITION') {
+    super(code, message);
+  }
+}
+
+/**
+ * The caller supplied invalid input
+ */
+export class ValidationError extends SeedExchangeError {
+  constructor(message: string, code: SeedExchangeErrorCode) {
+    super(code, message);
+  }
+}
+
+/**
+ * The operation conflicts with a concurrent change to the same data
+ */
+export class ConflictError extends SeedExchangeError {
+  constructor(message: string, code: SeedExchangeErrorCode = 'CONFLICT') {
+    super(code, message);
+  }
+}
+
+/**
+ * An operator setting or a per-call override of one is invalid
+ */
+export class ConfigurationError extends SeedExchangeError {
+  constructor(message: string, code: SeedExchangeErrorCode = 'INVALID_CONFIG') {
+    super(code, message);
+  }
+}
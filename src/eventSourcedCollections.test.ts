@@ -0,0 +1,214 @@
+import { EventSourcedSeedExchangeCollections, InMemoryExchangeEventStore } from './eventSourcedCollections';
+import {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  Withdraw,
+  MarkShipped,
+  CancelExchange
+} from './api';
+import { AzureUserToken, SeedExchange } from './types';
+import { ConflictError } from './errors';
+
+describe('Event-sourced collections', () => {
+  let eventStore: InMemoryExchangeEventStore;
+  let collections: EventSourcedSeedExchangeCollections;
+  let user1: AzureUserToken;
+  let user2: AzureUserToken;
+  let user3: AzureUserToken;
+
+  function openRequest(id: string, seedRequestTime: Date): SeedExchange {
+    return {
+      id,
+      plantId: 'milkweed-001',
+      status: 'open-request',
+      requestUserId: 'user-1',
+      offerUserId: null,
+      quantity: 1,
+      seedRequestTime,
+      seedOfferTime: null,
+      confirmationTime: null,
+      shipTime: null,
+      receivedTime: null
+    };
+  }
+
+  beforeEach(() => {
+    eventStore = new InMemoryExchangeEventStore();
+    collections = new EventSourcedSeedExchangeCollections(eventStore);
+    user1 = { userId: 'user-1', email: 'user1@example.com', name: 'User 1' };
+    user2 = { userId: 'user-2', email: 'user2@example.com', name: 'User 2' };
+    user3 = { userId: 'user-3', email: 'user3@example.com', name: 'User 3' };
+  });
+
+  describe('events', () => {
+    it('should name each step of an exchange\'s lifecycle', async () => {
+      const request = await SubmitSeedRequest(user1, 'milkweed-001', collections, 3);
+      const requestId = request.remainingRequest!.id;
+      await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+      await MarkShipped(user2, requestId, collections);
+
+      const events = await collections.getEvents();
+
+      expect(events.map(event => event.type)).toEqual(['RequestSubmitted', 'Matched', 'RemainderCreated', 'Shipped']);
+      expect(events.map(event => event.sequence)).toEqual([1, 2, 3, 4]);
+      expect((await collections.getEvents(requestId)).map(event => event.type))
+        .toEqual(['RequestSubmitted', 'Matched', 'Shipped']);
+    });
+
+    it('should record withdrawals and requeues', async () => {
+      const offer = await SubmitSeedOffer(user1, 'milkweed-001', 1, collections);
+      await Withdraw(user1, offer.remainingOffer!.id, collections);
+      await SubmitSeedRequest(user1, 'milkweed-001', collections);
+      const match = await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+      await CancelExchange(user2, match.filledExchanges[0].id, 'Ran out', collections, { requeueCounterparty: true });
+
+      const types = (await collections.getEvents()).map(event => event.type);
+
+      expect(types).toEqual(['OfferSubmitted', 'Withdrawn', 'RequestSubmitted', 'Matched', 'Cancelled', 'Requeued']);
+    });
+
+    it('should record rematching a requeued entry as drawing down its quantity', async () => {
+      await SubmitSeedRequest(user1, 'milkweed-001', collections, 2);
+      const match = await SubmitSeedOffer(user2, 'milkweed-001', 2, collections);
+      await SubmitSeedOffer(user3, 'milkweed-001', 1, collections);
+
+      await CancelExchange(user2, match.filledExchanges[0].id, 'Ran out', collections, { requeueCounterparty: true });
+
+      const types = (await collections.getEvents()).map(event => event.type);
+      expect(types.slice(-3)).toEqual(['Requeued', 'Matched', 'QuantityReduced']);
+    });
+
+    it('should not store etags in events', async () => {
+      await SubmitSeedRequest(user1, 'milkweed-001', collections);
+      await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+
+      const events = await collections.getEvents();
+
+      expect(events.every(event => event.exchange?.etag === undefined)).toBe(true);
+    });
+  });
+
+  describe('projections', () => {
+    it('should answer open queue queries in FIFO order', async () => {
+      await collections.addExchange(openRequest('later', new Date('2025-02-01')));
+      await collections.addExchange(openRequest('earlier', new Date('2025-01-01')));
+
+      const requests = await collections.getOpenRequestsByPlant('milkweed-001');
+
+      expect(requests.map(request => request.id)).toEqual(['earlier', 'later']);
+      expect(await collections.getOpenOffersByPlant('milkweed-001')).toHaveLength(0);
+    });
+
+    it('should drop matched entries from the open queue and list them for both users', async () => {
+      const request = await SubmitSeedRequest(user1, 'milkweed-001', collections);
+      await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+
+      expect(await collections.getOpenRequestsByPlant('milkweed-001')).toHaveLength(0);
+      expect((await collections.getExchangesByUser('user-2')).map(ex => ex.id))
+        .toEqual([request.remainingRequest!.id]);
+      expect(await collections.getConfirmedExchanges()).toHaveLength(1);
+    });
+
+    it('should use the last event\'s sequence as the etag', async () => {
+      await collections.addExchange(openRequest('request', new Date()));
+      const stored = await collections.getExchange('request');
+
+      await collections.updateExchange({ ...stored!, quantity: 2 }, { ifMatch: stored!.etag });
+
+      expect(stored?.etag).toBe('1');
+      expect((await collections.getExchange('request'))?.etag).toBe('2');
+      await expect(collections.updateExchange({ ...stored!, quantity: 3 }, { ifMatch: stored!.etag }))
+        .rejects.toThrow(ConflictError);
+    });
+
+    it('should append nothing when any operation in a batch fails its precondition', async () => {
+      await collections.addExchange(openRequest('request', new Date()));
+
+      await expect(collections.executeBatch([
+        { type: 'create', exchange: openRequest('new', new Date()) },
+        { type: 'replace', exchange: openRequest('request', new Date()), ifMatch: 'stale' }
+      ])).rejects.toThrow(ConflictError);
+
+      expect(await collections.getEvents()).toHaveLength(1);
+      expect(await collections.getExchange('new')).toBeUndefined();
+    });
+
+    it('should not fill the same entry twice when offers race', async () => {
+      await SubmitSeedRequest(user1, 'milkweed-001', collections);
+
+      const [first, second] = await Promise.all([
+        SubmitSeedOffer(user2, 'milkweed-001', 1, collections),
+        SubmitSeedOffer(user3, 'milkweed-001', 1, collections)
+      ]);
+
+      expect(first.filledExchanges.length + second.filledExchanges.length).toBe(1);
+      expect(await collections.getOpenOffersByPlant('milkweed-001')).toHaveLength(1);
+    });
+  });
+
+  describe('rebuilding and replay', () => {
+    it('should rebuild identical projections from the stream', async () => {
+      await SubmitSeedRequest(user1, 'milkweed-001', collections, 2);
+      await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+      const before = await collections.getAllExchanges();
+
+      await collections.rebuildProjections();
+
+      expect(await collections.getAllExchanges()).toEqual(before);
+      const reloaded = await EventSourcedSeedExchangeCollections.fromEventStore(eventStore);
+      expect(await reloaded.getAllExchanges()).toEqual(before);
+    });
+
+    it('should replay to an earlier point without touching the original stream', async () => {
+      const request = await SubmitSeedRequest(user1, 'milkweed-001', collections);
+      await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+
+      const replayed = await collections.replayTo(1);
+
+      expect((await replayed.getExchange(request.remainingRequest!.id))?.status).toBe('open-request');
+      const rerun = await SubmitSeedOffer(user3, 'milkweed-001', 1, replayed);
+      expect(rerun.filledExchanges[0].offerUserId).toBe('user-3');
+      expect((await collections.getExchange(request.remainingRequest!.id))?.offerUserId).toBe('user-2');
+      expect(await collections.getEvents()).toHaveLength(2);
+    });
+
+    it('should catch up with events appended by another writer', async () => {
+      const otherWriter = new EventSourcedSeedExchangeCollections(eventStore);
+      await otherWriter.addExchange(openRequest('from-other-writer', new Date()));
+
+      await collections.addExchange(openRequest('request', new Date()));
+
+      expect(await collections.getExchange('from-other-writer')).toBeDefined();
+      expect((await collections.getEvents()).map(event => event.sequence)).toEqual([1, 2]);
+    });
+
+    it('should show events appended by another writer in reads', async () => {
+      const otherWriter = new EventSourcedSeedExchangeCollections(eventStore);
+      await collections.getAllExchanges();
+
+      await SubmitSeedRequest(user1, 'milkweed-001', otherWriter);
+      const offer = await SubmitSeedOffer(user2, 'aster-002', 1, otherWriter);
+
+      expect(await collections.getOpenRequestsByPlant('milkweed-001')).toHaveLength(1);
+      expect(await collections.getOpenOffersByPlant('aster-002')).toHaveLength(1);
+      expect(await collections.getExchangesByUser('user-1')).toHaveLength(1);
+      expect(await collections.getExchange(offer.remainingOffer!.id)).toBeDefined();
+    });
+
+    it('should reject a write when another writer appends first', async () => {
+      const read = eventStore.read.bind(eventStore);
+      jest.spyOn(eventStore, 'read').mockImplementationOnce(async afterSequence => {
+        const events = await read(afterSequence);
+        // Another writer appends between this writer's catch-up and its append
+        await new EventSourcedSeedExchangeCollections(eventStore).addExchange(openRequest('sneaky', new Date()));
+        return events;
+      });
+
+      await expect(collections.addExchange(openRequest('request', new Date()))).rejects.toThrow(ConflictError);
+
+      expect(await collections.getExchange('sneaky')).toBeDefined();
+      await collections.addExchange(openRequest('request', new Date()));
+      expect(await collections.getExchange('request')).toBeDefined();
+    });
+  });
+});
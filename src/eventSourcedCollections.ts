@@ -0,0 +1,508 @@
+import { SeedExchange } from './types';
+import {
+  ISeedExchangeCollections,
+  UpdateExchangeOptions,
+  ExchangeWriteOperation,
+  PageOptions,
+  ExchangePage,
+  ExchangeFilter
+} from './ISeedExchangeCollections';
+import { IExchangeEventStore, ExchangeEvent, ExchangeEventType } from './IExchangeEventStore';
+import { isMatchedStatus, isOpenStatus } from './exchangeStatus';
+import { ConflictError } from './errors';
+import { getBatchPlantId } from './exchangeIds';
+import { pageByOffset, compareExchangeIds } from './pagination';
+import { validateExchangeFilter, matchesExchangeFilter, compareForExchangeFilter } from './exchangeFilter';
+
+/**
+ * In-memory implementation of the exchange event store
+ */
+export class InMemoryExchangeEventStore implements IExchangeEventStore {
+  private events: ExchangeEvent[] = [];
+
+  /**
+   * Create a store, optionally holding an existing stream
+   */
+  constructor(events: ExchangeEvent[] = []) {
+    this.events = [...events];
+  }
+
+  /**
+   * Append events to the end of the stream as one unit
+   */
+  async append(events: ExchangeEvent[], expectedSequence: number): Promise<void> {
+    if (expectedSequence !== this.events.length) {
+      throw new ConflictError(
+        `Event stream is at sequence ${this.events.length}, expected ${expectedSequence}`
+      );
+    }
+    this.events.push(...events);
+  }
+
+  /**
+   * Read events in sequence order
+   */
+  async read(afterSequence = 0): Promise<ExchangeEvent[]> {
+    return this.events.slice(afterSequence);
+  }
+
+  /**
+   * Clear the stream (useful for testing)
+   */
+  async clear(): Promise<void> {
+    this.events = [];
+  }
+}
+
+/**
+ * Read models built from the event stream: current exchanges by id, plus indexes of
+ * open entries by plant and of exchanges by user
+ */
+class ExchangeProjection {
+  private exchanges = new Map<string, SeedExchange>();
+  private openEntriesByPlant = new Map<string, Set<string>>();
+  private exchangesByUser = new Map<string, Set<string>>();
+  /** Sequence of the last event applied */
+  sequence = 0;
+
+  private static addToIndex(index: Map<string, Set<string>>, key: string, id: string): void {
+    const ids = index.get(key) ?? new Set<string>();
+    ids.add(id);
+    index.set(key, ids);
+  }
+
+  private static removeFromIndex(index: Map<string, Set<string>>, key: string, id: string): void {
+    const ids = index.get(key);
+    ids?.delete(id);
+    if (ids?.size === 0) {
+      index.delete(key);
+    }
+  }
+
+  /**
+   * Remove an exchange from the open-entry and user indexes
+   */
+  private unindex(exchange: SeedExchange): void {
+    ExchangeProjection.removeFromIndex(this.openEntriesByPlant, exchange.plantId, exchange.id);
+    for (const userId of [exchange.requestUserId, exchange.offerUserId]) {
+      if (userId) {
+        ExchangeProjection.removeFromIndex(this.exchangesByUser, userId, exchange.id);
+      }
+    }
+  }
+
+  /**
+   * Add an exchange to the open-entry index (while open) and the user index
+   */
+  private index(exchange: SeedExchange): void {
+    if (isOpenStatus(exchange.status)) {
+      ExchangeProjection.addToIndex(this.openEntriesByPlant, exchange.plantId, exchange.id);
+    }
+    for (const userId of [exchange.requestUserId, exchange.offerUserId]) {
+      if (userId) {
+        ExchangeProjection.addToIndex(this.exchangesByUser, userId, exchange.id);
+      }
+    }
+  }
+
+  /**
+   * Apply the next event in the stream. The event's sequence becomes the exchange's etag.
+   */
+  apply(event: ExchangeEvent): void {
+    const previous = this.exchanges.get(event.exchangeId);
+    if (previous) {
+      this.unindex(previous);
+      this.exchanges.delete(event.exchangeId);
+    }
+
+    if (event.exchange) {
+      const exchange = { ...event.exchange, etag: String(event.sequence) };
+      this.exchanges.set(exchange.id, exchange);
+      this.index(exchange);
+    }
+
+    this.sequence = event.sequence;
+  }
+
+  /**
+   * Current state of an exchange
+   */
+  get(id: string): SeedExchange | undefined {
+    return this.exchanges.get(id);
+  }
+
+  /**
+   * Current state of every exchange
+   */
+  all(): SeedExchange[] {
+    return Array.from(this.exchanges.values());
+  }
+
+  /**
+   * Open requests and offers for a plant, in no particular order
+   */
+  openEntries(plantId: string): SeedExchange[] {
+    return Array.from(this.openEntriesByPlant.get(plantId) ?? [], id => this.exchanges.get(id) as SeedExchange);
+  }
+
+  /**
+   * Exchanges a user is requester or offerer on
+   */
+  byUser(userId: string): SeedExchange[] {
+    return Array.from(this.exchangesByUser.get(userId) ?? [], id => this.exchanges.get(id) as SeedExchange);
+  }
+
+  /**
+   * Drop all read models, ready to replay the stream from the start
+   */
+  reset(): void {
+    this.exchanges.clear();
+    this.openEntriesByPlant.clear();
+    this.exchangesByUser.clear();
+    this.sequence = 0;
+  }
+}
+
+/**
+ * A write to classify, with the stored state it replaces
+ */
+interface PendingChange {
+  operation: ExchangeWriteOperation;
+  current: SeedExchange | undefined;
+}
+
+/**
+ * Name a replace by the status change it makes
+ */
+function classifyReplace(before: SeedExchange | undefined, after: SeedExchange): ExchangeEventType {
+  if (!before) {
+    return 'Updated';
+  }
+  if (isOpenStatus(before.status) && after.status === 'confirmed') {
+    return 'Matched';
+  }
+  if (isOpenStatus(before.status) && after.status === before.status) {
+    return after.quantity < before.quantity ? 'QuantityReduced' : 'Updated';
+  }
+  if (before.status === 'disputed' && after.status === 'disputed') {
+    return 'DisputeUpdated';
+  }
+
+  switch (after.status) {
+    case 'shipped': return 'Shipped';
+    case 'received': return 'Received';
+    case 'disputed': return 'Disputed';
+    case 'cancelled': return 'Cancelled';
+    case 'expired': return 'Expired';
+    default: return 'Updated';
+  }
+}
+
+/**
+ * Name each write in a unit of work. Creates and deletes are told apart by what else
+ * happens in the same unit: a create next to a match is the match's remainder, and a
+ * create next to a cancellation is the requeued side.
+ */
+function classifyChanges(changes: PendingChange[]): ExchangeEventType[] {
+  const replaceTypes = changes.map(({ operation, current }) =>
+    operation.type === 'replace' ? classifyReplace(current, operation.exchange) : undefined
+  );
+  const hasMatch = replaceTypes.includes('Matched');
+  const hasCancellation = replaceTypes.includes('Cancelled');
+
+  return changes.map(({ operation }, index) => {
+    if (operation.type === 'replace') {
+      return replaceTypes[index] as ExchangeEventType;
+    }
+    if (operation.type === 'delete') {
+      return hasMatch ? 'Consumed' : 'Withdrawn';
+    }
+
+    const { status } = operation.exchange;
+    if (!isOpenStatus(status)) {
+      return 'Created';
+    }
+    if (hasMatch) {
+      return 'RemainderCreated';
+    }
+    if (hasCancellation) {
+      return 'Requeued';
+    }
+    return status === 'open-offer' ? 'OfferSubmitted' : 'RequestSubmitted';
+  });
+}
+
+/**
+ * Copy an exchange for the event stream without its etag
+ */
+function toEventSnapshot(exchange: SeedExchange): SeedExchange {
+  const { etag, ...snapshot } = exchange;
+  return snapshot;
+}
+
+/**
+ * Seed exchange collections backed by an append-only event stream.
+ * Every write becomes one or more events; queries are answered from projections kept up to date
+ * as events are appended, and the projections can be rebuilt from the stream at any time.
+ *
+ * Reads and writes are applied one at a time. Each first catches up with events appended by other
+ * writers; a write fails with a ConflictError if another writer appends in between.
+ */
+export class EventSourcedSeedExchangeCollections implements ISeedExchangeCollections {
+  private projection = new ExchangeProjection();
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param eventStore - Stream to append to. Call rebuildProjections() (or use fromEventStore())
+   * when the stream already holds events.
+   */
+  constructor(private readonly eventStore: IExchangeEventStore = new InMemoryExchangeEventStore()) {}
+
+  /**
+   * Create collections over an existing stream, with projections built from its events
+   */
+  static async fromEventStore(eventStore: IExchangeEventStore): Promise<EventSourcedSeedExchangeCollections> {
+    const collections = new EventSourcedSeedExchangeCollections(eventStore);
+    await collections.rebuildProjections();
+    return collections;
+  }
+
+  /**
+   * Run reads and writes one after another so each one sees the state the previous one left
+   */
+  private serialize<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(work);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Apply events appended to the stream since the projections were last updated
+   */
+  private async catchUp(): Promise<void> {
+    for (const event of await this.eventStore.read(this.projection.sequence)) {
+      this.projection.apply(event);
+    }
+  }
+
+  /**
+   * Answer a query from the projections once they include every event in the stream, so reads see
+   * what other writers appended. Queued behind writes, like commit, so a catch-up never interleaves with one.
+   */
+  private query<T>(read: (projection: ExchangeProjection) => T): Promise<T> {
+    return this.serialize(async () => {
+      await this.catchUp();
+      return read(this.projection);
+    });
+  }
+
+  /**
+   * Validate a unit of work against the projections, then append its events and apply them.
+   * Mirrors the preconditions of the other backends' executeBatch.
+   */
+  private commit(operations: ExchangeWriteOperation[], requireExisting: boolean): Promise<void> {
+    return this.serialize(async () => {
+      await this.catchUp();
+
+      const changes: PendingChange[] = operations.map(operation => {
+        const id = operation.type === 'delete' ? operation.id : operation.exchange.id;
+        const current = this.projection.get(id);
+
+        if (operation.type === 'create' && current) {
+          throw new ConflictError(`Exchange ${id} already exists`);
+        }
+        if (operation.type !== 'create' && !current && requireExisting) {
+          throw new ConflictError(`Exchange ${id} was removed by another operation`);
+        }
+        if (operation.type !== 'create' && operation.ifMatch !== undefined && current?.etag !== operation.ifMatch) {
+          throw new ConflictError(`Exchange ${id} was modified by another operation`);
+        }
+        return { operation, current };
+      });
+
+      const types = classifyChanges(changes);
+      const timestamp = new Date();
+      const events: ExchangeEvent[] = changes.map(({ operation }, index) => ({
+        sequence: this.projection.sequence + index + 1,
+        type: types[index],
+        exchangeId: operation.type === 'delete' ? operation.id : operation.exchange.id,
+        plantId: operation.type === 'delete' ? operation.plantId : operation.exchange.plantId,
+        exchange: operation.type === 'delete' ? null : toEventSnapshot(operation.exchange),
+        timestamp
+      }));
+
+      try {
+        await this.eventStore.append(events, this.projection.sequence);
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          // Another writer got there first; pick up its events so the caller's retry sees them
+          await this.catchUp();
+        }
+        throw error;
+      }
+
+      for (const event of events) {
+        this.projection.apply(event);
+      }
+    });
+  }
+
+  /**
+   * Get all open seed requests for a specific plant, oldest first
+   */
+  async getOpenRequestsByPlant(plantId: string): Promise<SeedExchange[]> {
+    return this.query(projection => projection.openEntries(plantId)
+      .filter(ex => ex.status === 'open-request')
+      .sort((a, b) => (a.seedRequestTime?.getTime() || 0) - (b.seedRequestTime?.getTime() || 0)));
+  }
+
+  /**
+   * Get all open seed offers for a specific plant, oldest first
+   */
+  async getOpenOffersByPlant(plantId: string): Promise<SeedExchange[]> {
+    return this.query(projection => projection.openEntries(plantId)
+      .filter(ex => ex.status === 'open-offer')
+      .sort((a, b) => (a.seedOfferTime?.getTime() || 0) - (b.seedOfferTime?.getTime() || 0)));
+  }
+
+  /**
+   * Get open requests and offers created before their respective cutoffs
+   */
+  async getStaleOpenEntries(requestCutoff: Date, offerCutoff: Date): Promise<SeedExchange[]> {
+    return this.query(projection => projection.all()
+      .filter(ex =>
+        (ex.status === 'open-request' && ex.seedRequestTime !== null && ex.seedRequestTime < requestCutoff)
+        || (ex.status === 'open-offer' && ex.seedOfferTime !== null && ex.seedOfferTime < offerCutoff)));
+  }
+
+  /**
+   * Get all confirmed exchanges (matched exchanges that have not been cancelled)
+   */
+  async getConfirmedExchanges(): Promise<SeedExchange[]> {
+    return this.query(projection => projection.all().filter(ex => isMatchedStatus(ex.status)));
+  }
+
+  /**
+   * Get one page of confirmed exchanges, using the offset into the id-ordered result as the continuation token
+   */
+  async getConfirmedExchangesPage(options: PageOptions = {}): Promise<ExchangePage> {
+    return pageByOffset((await this.getConfirmedExchanges()).sort(compareExchangeIds), options);
+  }
+
+  /**
+   * Get all exchanges for a specific user (as requester or offerer)
+   */
+  async getExchangesByUser(userId: string): Promise<SeedExchange[]> {
+    return this.query(projection => projection.byUser(userId));
+  }
+
+  /**
+   * Get one page of a user's exchanges, using the offset into the id-ordered result as the continuation token
+   */
+  async getExchangesByUserPage(userId: string, options: PageOptions = {}): Promise<ExchangePage> {
+    return pageByOffset((await this.getExchangesByUser(userId)).sort(compareExchangeIds), options);
+  }
+
+  /**
+   * Get one page of exchanges matching a filter, using the offset into the sorted result as the continuation token
+   */
+  async searchExchanges(filter: ExchangeFilter, options: PageOptions = {}): Promise<ExchangePage> {
+    validateExchangeFilter(filter);
+    const matches = (await this.getAllExchanges()).filter(ex => matchesExchangeFilter(ex, filter));
+    return pageByOffset(matches.sort(compareForExchangeFilter(filter)), options);
+  }
+
+  /**
+   * Add a new seed exchange entry
+   */
+  async addExchange(exchange: SeedExchange): Promise<void> {
+    await this.commit([{ type: 'create', exchange }], true);
+  }
+
+  /**
+   * Get a seed exchange by ID
+   */
+  async getExchange(id: string): Promise<SeedExchange | undefined> {
+    return this.query(projection => projection.get(id));
+  }
+
+  /**
+   * Remove a seed exchange entry. Removing an entry that does not exist is a no-op.
+   */
+  async removeExchange(id: string): Promise<void> {
+    const current = await this.getExchange(id);
+    if (current) {
+      await this.commit([{ type: 'delete', id, plantId: current.plantId }], false);
+    }
+  }
+
+  /**
+   * Update a seed exchange entry
+   * (rejects the update if `options.ifMatch` no longer matches the stored etag)
+   */
+  async updateExchange(exchange: SeedExchange, options: UpdateExchangeOptions = {}): Promise<void> {
+    await this.commit([{ type: 'replace', exchange, ifMatch: options.ifMatch }], false);
+  }
+
+  /**
+   * Apply several writes as a single unit of work: their events are appended together or not at all
+   */
+  async executeBatch(operations: ExchangeWriteOperation[]): Promise<void> {
+    getBatchPlantId(operations);
+
+    await this.commit(operations, true);
+  }
+
+  /**
+   * Get all seed exchanges
+   */
+  async getAllExchanges(): Promise<SeedExchange[]> {
+    return this.query(projection => projection.all());
+  }
+
+  /**
+   * Get one page of all seed exchanges, using the offset into the id-ordered result as the continuation token
+   */
+  async getAllExchangesPage(options: PageOptions = {}): Promise<ExchangePage> {
+    return pageByOffset((await this.getAllExchanges()).sort(compareExchangeIds), options);
+  }
+
+  /**
+   * Clear the event stream and the projections (useful for testing)
+   */
+  async clear(): Promise<void> {
+    await this.serialize(async () => {
+      await this.eventStore.clear();
+      this.projection.reset();
+    });
+  }
+
+  /**
+   * Get the events in the stream, optionally only those for one exchange
+   */
+  async getEvents(exchangeId?: string): Promise<ExchangeEvent[]> {
+    const events = await this.eventStore.read();
+    return exchangeId === undefined ? events : events.filter(event => event.exchangeId === exchangeId);
+  }
+
+  /**
+   * Discard the projections and rebuild them from the full event stream,
+   * e.g. after fixing a bug in how events are projected
+   */
+  async rebuildProjections(): Promise<void> {
+    await this.serialize(async () => {
+      this.projection.reset();
+      await this.catchUp();
+    });
+  }
+
+  /**
+   * Build independent in-memory collections holding the state as of an earlier point in the stream.
+   * API calls can be replayed against the copy to debug matching without touching this stream.
+   * @param sequence - Last event to include
+   */
+  async replayTo(sequence: number): Promise<EventSourcedSeedExchangeCollections> {
+    const events = (await this.eventStore.read()).filter(event => event.sequence <= sequence);
+    return EventSourcedSeedExchangeCollections.fromEventStore(new InMemoryExchangeEventStore(events));
+  }
+}
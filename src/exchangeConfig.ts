@@ -0,0 +1,175 @@
+import { IPlantCatalog } from './IPlantCatalog';
+import { IAuditLog } from './IAuditLog';
+import { INotificationStore } from './INotificationStore';
+import { ReputationTracker } from './reputation';
+import { CreditLedger } from './ledger';
+import { ConfigurationError } from './errors';
+
+/**
+ * Operator-configurable settings for the seed exchange
+ */
+export interface ExchangeConfig {
+  /** Maximum number of packets a single seed request may ask for */
+  maxRequestQuantity: number;
+  /** Days an open request waits for an offer before it expires */
+  openRequestTtlDays: number;
+  /** Days an open offer waits for a request before it expires */
+  openOfferTtlDays: number;
+  /** Days after the seeds are received that the offerer can still read the requester's shipping address */
+  shippingAddressRetentionDays: number;
+  /** Days after confirmation the offerer has to ship before the shipment counts as late for their reputation */
+  shipDeadlineDays: number;
+  /** Days after shipping the requester has to confirm receipt before it counts against their reputation */
+  receiptDeadlineDays: number;
+  /** Reputation score (0-100) below which users are left out of matching; 0 matches everyone */
+  minReputationScore: number;
+  /** Credits granted when a user's ledger account is opened, so new members can request before they have offered */
+  startingCredits: number;
+  /** How far below zero a user's available credits may go when they submit a request */
+  creditOverdraftLimit: number;
+}
+
+/**
+ * Default settings used when no environment variable overrides them
+ */
+export const DEFAULT_EXCHANGE_CONFIG: ExchangeConfig = {
+  maxRequestQuantity: 10,
+  openRequestTtlDays: 90,
+  openOfferTtlDays: 180,
+  shippingAddressRetentionDays: 14,
+  shipDeadlineDays: 14,
+  receiptDeadlineDays: 30,
+  minReputationScore: 0,
+  startingCredits: 3,
+  creditOverdraftLimit: 0
+};
+
+/**
+ * Options accepted by the exchange API functions
+ */
+export interface ExchangeOptions {
+  /** Overrides for the operator settings read from the environment */
+  config?: Partial<ExchangeConfig>;
+  /** Catalog used to reject unknown plant ids and resolve aliases to canonical ids */
+  catalog?: IPlantCatalog;
+  /** Log that records every exchange write made by the call */
+  auditLog?: IAuditLog;
+  /** Store that records the caller's email address when they submit, so they can be notified about their exchanges */
+  notificationStore?: INotificationStore;
+  /** Reputation scores matching checks against the minimum score */
+  reputation?: ReputationTracker;
+  /** Credit ledger SubmitSeedRequest checks the requester's credits against, and shipments, receipts and dispute outcomes are posted to */
+  ledger?: CreditLedger;
+}
+
+/**
+ * Options accepted by CancelExchange
+ */
+export interface CancelExchangeOptions extends ExchangeOptions {
+  /**
+   * Return the other party's side of the exchange to the open queue at its original
+   * request or offer time, so they keep their place in the FIFO order
+   */
+  requeueCounterparty?: boolean;
+}
+
+/**
+ * Environment variable and allowed range of each setting
+ */
+interface ExchangeSettingRule {
+  variable: string;
+  min: number;
+  max: number;
+}
+
+/**
+ * How each setting is read from the environment and validated, whether it comes from there or from an override
+ */
+const EXCHANGE_SETTING_RULES: Record<keyof ExchangeConfig, ExchangeSettingRule> = {
+  maxRequestQuantity: { variable: 'SEED_EXCHANGE_MAX_REQUEST_QUANTITY', min: 1, max: Number.MAX_SAFE_INTEGER },
+  openRequestTtlDays: { variable: 'SEED_EXCHANGE_OPEN_REQUEST_TTL_DAYS', min: 1, max: Number.MAX_SAFE_INTEGER },
+  openOfferTtlDays: { variable: 'SEED_EXCHANGE_OPEN_OFFER_TTL_DAYS', min: 1, max: Number.MAX_SAFE_INTEGER },
+  shippingAddressRetentionDays: {
+    variable: 'SEED_EXCHANGE_SHIPPING_ADDRESS_RETENTION_DAYS',
+    min: 1,
+    max: Number.MAX_SAFE_INTEGER
+  },
+  shipDeadlineDays: { variable: 'SEED_EXCHANGE_SHIP_DEADLINE_DAYS', min: 1, max: Number.MAX_SAFE_INTEGER },
+  receiptDeadlineDays: { variable: 'SEED_EXCHANGE_RECEIPT_DEADLINE_DAYS', min: 1, max: Number.MAX_SAFE_INTEGER },
+  minReputationScore: { variable: 'SEED_EXCHANGE_MIN_REPUTATION_SCORE', min: 0, max: 100 },
+  startingCredits: { variable: 'SEED_EXCHANGE_STARTING_CREDITS', min: 0, max: Number.MAX_SAFE_INTEGER },
+  creditOverdraftLimit: { variable: 'SEED_EXCHANGE_CREDIT_OVERDRAFT_LIMIT', min: 0, max: Number.MAX_SAFE_INTEGER }
+};
+
+/**
+ * Check a setting's value against its rule
+ * @param source - Where the value came from, for the error message
+ * @throws ConfigurationError if the value is not an integer in the allowed range
+ */
+function validateSetting(rule: ExchangeSettingRule, value: unknown, source: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < rule.min || value > rule.max) {
+    const range = rule.max === Number.MAX_SAFE_INTEGER
+      ? rule.min === 1 ? 'a positive integer' : `an integer of at least ${rule.min}`
+      : `an integer from ${rule.min} to ${rule.max}`;
+    throw new ConfigurationError(`${source} must be ${range}, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Settings read from the environment by loadExchangeConfig()
+ */
+let environmentConfig: ExchangeConfig | undefined;
+
+/**
+ * Read and validate exchange settings from environment variables, replacing any read before.
+ * Servers and workers call it once at startup so a misconfiguration stops them before they take traffic.
+ *
+ * Optional environment variables:
+ * - SEED_EXCHANGE_MAX_REQUEST_QUANTITY: Maximum packets per seed request (default: 10)
+ * - SEED_EXCHANGE_OPEN_REQUEST_TTL_DAYS: Days before an open request expires (default: 90)
+ * - SEED_EXCHANGE_OPEN_OFFER_TTL_DAYS: Days before an open offer expires (default: 180)
+ * - SEED_EXCHANGE_SHIPPING_ADDRESS_RETENTION_DAYS: Days after receipt the offerer can still read the shipping address (default: 14)
+ * - SEED_EXCHANGE_SHIP_DEADLINE_DAYS: Days after confirmation before an unshipped exchange counts as late (default: 14)
+ * - SEED_EXCHANGE_RECEIPT_DEADLINE_DAYS: Days after shipping before an unconfirmed receipt counts as overdue (default: 30)
+ * - SEED_EXCHANGE_MIN_REPUTATION_SCORE: Reputation score below which users are not matched, 0-100 (default: 0, off)
+ * - SEED_EXCHANGE_STARTING_CREDITS: Credits granted to each new ledger account (default: 3)
+ * - SEED_EXCHANGE_CREDIT_OVERDRAFT_LIMIT: How far below zero available credits may go on a request (default: 0)
+ * @throws ConfigurationError if a variable is set to a value outside its range
+ */
+export function loadExchangeConfig(): ExchangeConfig {
+  const config = { ...DEFAULT_EXCHANGE_CONFIG };
+  for (const key of Object.keys(EXCHANGE_SETTING_RULES) as Array<keyof ExchangeConfig>) {
+    const rule = EXCHANGE_SETTING_RULES[key];
+    const raw = process.env[rule.variable];
+    if (raw !== undefined && raw !== '') {
+      config[key] = validateSetting(rule, Number(raw), rule.variable);
+    }
+  }
+
+  environmentConfig = config;
+  return { ...config };
+}
+
+/**
+ * Get exchange settings from environment variables, reading them on first use (see loadExchangeConfig)
+ * @throws ConfigurationError if a variable is set to a value outside its range
+ */
+export function getExchangeConfig(): ExchangeConfig {
+  return environmentConfig ? { ...environmentConfig } : loadExchangeConfig();
+}
+
+/**
+ * Combine environment settings with per-call overrides, which must meet the same rules
+ * @throws ConfigurationError if an override is outside its setting's range
+ */
+export function resolveExchangeConfig(options: ExchangeOptions = {}): ExchangeConfig {
+  const config = getExchangeConfig();
+  for (const key of Object.keys(EXCHANGE_SETTING_RULES) as Array<keyof ExchangeConfig>) {
+    const value = options.config?.[key];
+    if (value !== undefined) {
+      config[key] = validateSetting(EXCHANGE_SETTING_RULES[key], value, `config.${key}`);
+    }
+  }
+  return config;
+}
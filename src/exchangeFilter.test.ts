@@ -0,0 +1,198 @@
+import { ExchangeFilter, ISeedExchangeCollections } from './ISeedExchangeCollections';
+import { SeedExchangeCollections } from './collections';
+import { EventSourcedSeedExchangeCollections, InMemoryExchangeEventStore } from './eventSourcedCollections';
+import { SqliteSeedExchangeCollections } from './sqliteCollections';
+import { buildExchangeSearchQuery } from './cosmosDbCollections';
+import { SearchExchanges } from './api';
+import { ADMIN_ROLE } from './roles';
+import { SeedExchange } from './types';
+import { ForbiddenError, ValidationError } from './errors';
+
+const day = (n: number): Date => new Date(Date.UTC(2025, 0, n));
+
+/**
+ * A small exchange history covering every status, two plants and three users
+ */
+const FIXTURES: SeedExchange[] = [
+  {
+    id: 'req-open', plantId: 'milkweed', status: 'open-request', requestUserId: 'alice', offerUserId: null,
+    quantity: 2, seedRequestTime: day(1), seedOfferTime: null, confirmationTime: null, shipTime: null, receivedTime: null
+  },
+  {
+    id: 'offer-open', plantId: 'aster', status: 'open-offer', requestUserId: null, offerUserId: 'bob',
+    quantity: 5, seedRequestTime: null, seedOfferTime: day(3), confirmationTime: null, shipTime: null, receivedTime: null
+  },
+  {
+    id: 'confirmed-old', plantId: 'milkweed', status: 'confirmed', requestUserId: 'carol', offerUserId: 'bob',
+    quantity: 1, seedRequestTime: day(2), seedOfferTime: day(4), confirmationTime: day(4), shipTime: null,
+    receivedTime: null
+  },
+  {
+    id: 'confirmed-new', plantId: 'aster', status: 'confirmed', requestUserId: 'alice', offerUserId: 'carol',
+    quantity: 3, seedRequestTime: day(10), seedOfferTime: day(20), confirmationTime: day(20), shipTime: null,
+    receivedTime: null
+  },
+  {
+    id: 'shipped', plantId: 'milkweed', status: 'shipped', requestUserId: 'alice', offerUserId: 'bob',
+    quantity: 1, seedRequestTime: day(5), seedOfferTime: day(6), confirmationTime: day(6), shipTime: day(8),
+    receivedTime: null
+  },
+  {
+    id: 'received', plantId: 'milkweed', status: 'received', requestUserId: 'bob', offerUserId: 'carol',
+    quantity: 4, seedRequestTime: day(7), seedOfferTime: day(9), confirmationTime: day(9), shipTime: day(11),
+    receivedTime: day(15)
+  }
+];
+
+describe.each([
+  ['in-memory', () => new SeedExchangeCollections()],
+  ['event-sourced', () => new EventSourcedSeedExchangeCollections(new InMemoryExchangeEventStore())],
+  ['SQLite', () => new SqliteSeedExchangeCollections(':memory:')]
+])('Exchange search (%s collections)', (_name, createCollections: () => ISeedExchangeCollections) => {
+  let collections: ISeedExchangeCollections;
+
+  async function search(filter: ExchangeFilter): Promise<string[]> {
+    const ids: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await collections.searchExchanges(filter, { pageSize: 2, continuationToken });
+      ids.push(...page.exchanges.map(exchange => exchange.id));
+      continuationToken = page.continuationToken;
+    } while (continuationToken);
+    return ids;
+  }
+
+  beforeEach(async () => {
+    collections = createCollections();
+    for (const exchange of FIXTURES) {
+      await collections.addExchange(exchange);
+    }
+  });
+
+  afterEach(() => {
+    if (collections instanceof SqliteSeedExchangeCollections) {
+      collections.close();
+    }
+  });
+
+  it('should return everything in id order without criteria', async () => {
+    expect(await search({})).toEqual(FIXTURES.map(exchange => exchange.id).sort());
+  });
+
+  it('should find confirmed exchanges that have not shipped within a window', async () => {
+    const ids = await search({ status: 'confirmed', timeRanges: { confirmationTime: { to: day(14) } } });
+
+    expect(ids).toEqual(['confirmed-old']);
+  });
+
+  it('should find everything for a plant between dates', async () => {
+    const ids = await search({
+      plantId: 'milkweed',
+      timeRanges: { seedRequestTime: { from: day(2), to: day(7) } }
+    });
+
+    expect(ids).toEqual(['confirmed-old', 'shipped']);
+  });
+
+  it('should find open offers by a user', async () => {
+    expect(await search({ status: ['open-offer'], userId: 'bob', role: 'offerer' })).toEqual(['offer-open']);
+  });
+
+  it('should match either side of an exchange when no role is given', async () => {
+    expect(await search({ userId: 'carol' })).toEqual(['confirmed-new', 'confirmed-old', 'received']);
+    expect(await search({ userId: 'carol', role: 'requester' })).toEqual(['confirmed-old']);
+  });
+
+  it('should match any of several statuses and plants', async () => {
+    const ids = await search({ status: ['shipped', 'received'], plantId: ['milkweed', 'aster'] });
+
+    expect(ids).toEqual(['received', 'shipped']);
+  });
+
+  it('should sort on a time field, with missing times first in ascending order', async () => {
+    expect(await search({ sortBy: 'confirmationTime' }))
+      .toEqual(['offer-open', 'req-open', 'confirmed-old', 'shipped', 'received', 'confirmed-new']);
+    expect(await search({ sortBy: 'confirmationTime', sortDirection: 'desc' }))
+      .toEqual(['confirmed-new', 'received', 'shipped', 'confirmed-old', 'req-open', 'offer-open']);
+  });
+
+  it('should sort on quantity', async () => {
+    const ids = await search({ status: ['open-request', 'open-offer', 'received'], sortBy: 'quantity' });
+
+    expect(ids).toEqual(['req-open', 'received', 'offer-open']);
+  });
+
+  it('should reject invalid filters', async () => {
+    await expect(collections.searchExchanges({ role: 'requester' })).rejects.toMatchObject({ code: 'INVALID_FILTER' });
+    await expect(collections.searchExchanges({ status: 'lost' as SeedExchange['status'] }))
+      .rejects.toThrow(ValidationError);
+    await expect(collections.searchExchanges({ timeRanges: { shipTime: { from: day(5), to: day(1) } } }))
+      .rejects.toThrow(ValidationError);
+    await expect(collections.searchExchanges({ timeRanges: { shipTime: { from: new Date('nonsense') } } }))
+      .rejects.toThrow(ValidationError);
+    await expect(collections.searchExchanges({ sortBy: 'plantId' as 'id' })).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('Cosmos DB exchange search query', () => {
+  it('should pass every value as a parameter', () => {
+    const spec = buildExchangeSearchQuery({
+      status: 'confirmed',
+      plantId: ['milkweed', 'aster'],
+      userId: 'alice',
+      role: 'requester',
+      timeRanges: { confirmationTime: { from: day(1), to: day(14) } },
+      sortBy: 'confirmationTime',
+      sortDirection: 'desc'
+    });
+
+    expect(spec.query).toBe('SELECT * FROM c WHERE ARRAY_CONTAINS(@statuses, c.status)'
+      + ' AND ARRAY_CONTAINS(@plantIds, c.plantId) AND c.requestUserId = @userId'
+      + ' AND c.confirmationTime >= @confirmationTimeFrom AND c.confirmationTime < @confirmationTimeTo'
+      + ' ORDER BY c.confirmationTime DESC');
+    expect(spec.parameters).toEqual([
+      { name: '@statuses', value: ['confirmed'] },
+      { name: '@plantIds', value: ['milkweed', 'aster'] },
+      { name: '@userId', value: 'alice' },
+      { name: '@confirmationTimeFrom', value: day(1).toISOString() },
+      { name: '@confirmationTimeTo', value: day(14).toISOString() }
+    ]);
+  });
+
+  it('should order by id without criteria', () => {
+    expect(buildExchangeSearchQuery({})).toEqual({ query: 'SELECT * FROM c ORDER BY c.id ASC', parameters: [] });
+  });
+
+  it('should reject field names that are not search fields', () => {
+    expect(() => buildExchangeSearchQuery({ sortBy: 'id; DROP' as 'id' })).toThrow(ValidationError);
+    expect(() => buildExchangeSearchQuery({ timeRanges: { ['c.x OR 1=1' as 'shipTime']: { from: day(1) } } }))
+      .toThrow(ValidationError);
+  });
+});
+
+describe('SearchExchanges', () => {
+  let collections: SeedExchangeCollections;
+
+  beforeEach(async () => {
+    collections = new SeedExchangeCollections();
+    for (const exchange of FIXTURES) {
+      await collections.addExchange(exchange);
+    }
+  });
+
+  it('should scope non-admin searches to the caller', async () => {
+    const page = await SearchExchanges({ userId: 'alice' }, { status: 'confirmed' }, collections);
+
+    expect(page.exchanges.map(exchange => exchange.id)).toEqual(['confirmed-new']);
+  });
+
+  it('should not let non-admins search other users', async () => {
+    await expect(SearchExchanges({ userId: 'alice' }, { userId: 'bob' }, collections)).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should let admins search every exchange', async () => {
+    const page = await SearchExchanges({ userId: 'admin', roles: [ADMIN_ROLE] }, { status: 'confirmed' }, collections);
+
+    expect(page.exchanges.map(exchange => exchange.id)).toEqual(['confirmed-new', 'confirmed-old']);
+  });
+});
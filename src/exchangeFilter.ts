@@ -0,0 +1,133 @@
+import { ExchangeStatus, SeedExchange } from './types';
+import { ExchangeFilter, ExchangeSortField, ExchangeTimeField } from './ISeedExchangeCollections';
+import { EXCHANGE_STATUS_TRANSITIONS } from './exchangeStatus';
+import { ValidationError } from './errors';
+
+/**
+ * Timestamp fields an exchange search can filter and sort on
+ */
+export const EXCHANGE_TIME_FIELDS: readonly ExchangeTimeField[] = [
+  'seedRequestTime',
+  'seedOfferTime',
+  'confirmationTime',
+  'shipTime',
+  'receivedTime'
+];
+
+/**
+ * Fields an exchange search can sort on
+ */
+export const EXCHANGE_SORT_FIELDS: readonly ExchangeSortField[] = ['id', 'quantity', ...EXCHANGE_TIME_FIELDS];
+
+/**
+ * Turn a single value or a list into a list
+ */
+export function toList<T>(value: T | T[] | undefined): T[] | undefined {
+  return value === undefined ? undefined : Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Check that a filter only uses known statuses, fields and valid time windows
+ * @throws ValidationError with code INVALID_FILTER describing the first problem found
+ */
+export function validateExchangeFilter(filter: ExchangeFilter): void {
+  const knownStatuses = Object.keys(EXCHANGE_STATUS_TRANSITIONS);
+  for (const status of toList(filter.status) ?? []) {
+    if (!knownStatuses.includes(status)) {
+      throw new ValidationError(`Unknown exchange status: ${status}`, 'INVALID_FILTER');
+    }
+  }
+
+  if (filter.role !== undefined) {
+    if (filter.role !== 'requester' && filter.role !== 'offerer') {
+      throw new ValidationError(`Unknown role: ${filter.role}`, 'INVALID_FILTER');
+    }
+    if (filter.userId === undefined) {
+      throw new ValidationError('A role filter requires a userId', 'INVALID_FILTER');
+    }
+  }
+
+  for (const [field, range] of Object.entries(filter.timeRanges ?? {})) {
+    if (!EXCHANGE_TIME_FIELDS.includes(field as ExchangeTimeField)) {
+      throw new ValidationError(`Cannot filter on ${field}`, 'INVALID_FILTER');
+    }
+    for (const bound of [range?.from, range?.to]) {
+      if (bound !== undefined && !(bound instanceof Date && !isNaN(bound.getTime()))) {
+        throw new ValidationError(`Time range for ${field} must use valid dates`, 'INVALID_FILTER');
+      }
+    }
+    if (range?.from && range.to && range.from > range.to) {
+      throw new ValidationError(`Time range for ${field} ends before it starts`, 'INVALID_FILTER');
+    }
+  }
+
+  if (filter.sortBy !== undefined && !EXCHANGE_SORT_FIELDS.includes(filter.sortBy)) {
+    throw new ValidationError(`Cannot sort on ${filter.sortBy}`, 'INVALID_FILTER');
+  }
+  if (filter.sortDirection !== undefined && filter.sortDirection !== 'asc' && filter.sortDirection !== 'desc') {
+    throw new ValidationError(`Unknown sort direction: ${filter.sortDirection}`, 'INVALID_FILTER');
+  }
+}
+
+/**
+ * Check whether an exchange matches every criterion in a filter
+ */
+export function matchesExchangeFilter(exchange: SeedExchange, filter: ExchangeFilter): boolean {
+  const statuses = toList<ExchangeStatus>(filter.status);
+  if (statuses && !statuses.includes(exchange.status)) {
+    return false;
+  }
+
+  const plantIds = toList(filter.plantId);
+  if (plantIds && !plantIds.includes(exchange.plantId)) {
+    return false;
+  }
+
+  if (filter.userId !== undefined) {
+    const isRequester = exchange.requestUserId === filter.userId;
+    const isOfferer = exchange.offerUserId === filter.userId;
+    const matchesRole = filter.role === 'requester' ? isRequester
+      : filter.role === 'offerer' ? isOfferer
+        : isRequester || isOfferer;
+    if (!matchesRole) {
+      return false;
+    }
+  }
+
+  for (const [field, range] of Object.entries(filter.timeRanges ?? {})) {
+    const time = exchange[field as ExchangeTimeField];
+    if (range?.from && (!time || time < range.from)) {
+      return false;
+    }
+    if (range?.to && (!time || time >= range.to)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Build a comparator for a filter's sort order. Ties are broken by id so the order is stable;
+ * exchanges without the sort field come first in ascending order, as in Cosmos DB.
+ */
+export function compareForExchangeFilter(filter: ExchangeFilter): (a: SeedExchange, b: SeedExchange) => number {
+  const sortBy = filter.sortBy ?? 'id';
+  const direction = filter.sortDirection === 'desc' ? -1 : 1;
+
+  const sortValue = (exchange: SeedExchange): string | number | null => {
+    const value = exchange[sortBy];
+    return value instanceof Date ? value.getTime() : value;
+  };
+
+  return (a, b) => {
+    const left = sortValue(a);
+    const right = sortValue(b);
+    if (left !== right) {
+      if (left === null) return -direction;
+      if (right === null) return direction;
+      return (left < right ? -1 : 1) * direction;
+    }
+    return (a.id < b.id ? -1 : a.id > b.id ? 1 : 0) * direction;
+  };
+}
@@ -0,0 +1,28 @@
+import { createExchangeId, plantIdFromExchangeId } from './exchangeIds';
+
+describe('Exchange ids', () => {
+  it('should embed the plant id', () => {
+    const id = createExchangeId('milkweed-001');
+
+    expect(id).toMatch(/^milkweed-001:[0-9a-f-]{36}$/);
+    expect(plantIdFromExchangeId(id)).toBe('milkweed-001');
+  });
+
+  it('should round-trip plant ids with separators and characters Cosmos DB forbids in ids', () => {
+    const plantId = 'asclepias:tuberosa/var?#1';
+    const id = createExchangeId(plantId);
+
+    expect(id).not.toMatch(/[/\\?#]/);
+    expect(plantIdFromExchangeId(id)).toBe(plantId);
+  });
+
+  it('should not find a plant id in legacy ids', () => {
+    expect(plantIdFromExchangeId('3f0c2a4e-9b1d-4c1e-8f2a-6d3b5e7a9c10')).toBeUndefined();
+    expect(plantIdFromExchangeId(':3f0c')).toBeUndefined();
+    expect(plantIdFromExchangeId('%E0%A4%A:3f0c')).toBeUndefined();
+  });
+
+  it('should create unique ids', () => {
+    expect(createExchangeId('aster')).not.toBe(createExchangeId('aster'));
+  });
+});
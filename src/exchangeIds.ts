@@ -0,0 +1,50 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ExchangeWriteOperation } from './ISeedExchangeCollections';
+import { ValidationError } from './errors';
+
+/**
+ * Separates the encoded plant id from the unique part of an exchange id.
+ * encodeURIComponent escapes ':', so the last separator is always this one.
+ */
+const EXCHANGE_ID_SEPARATOR = ':';
+
+/**
+ * Create an exchange id that embeds its plant id, e.g. `milkweed-001:3f0c…`.
+ * The plant id is the Cosmos DB partition key, so storage can read an exchange by id alone
+ * without a cross-partition query. The plant id is URI-encoded to keep characters Cosmos DB
+ * forbids in ids ('/', '\\', '?', '#') out of the id.
+ */
+export function createExchangeId(plantId: string): string {
+  return `${encodeURIComponent(plantId)}${EXCHANGE_ID_SEPARATOR}${uuidv4()}`;
+}
+
+/**
+ * Read the plant id embedded in an exchange id
+ * @returns The plant id, or undefined for ids created before plant ids were embedded
+ */
+export function plantIdFromExchangeId(id: string): string | undefined {
+  const separator = id.lastIndexOf(EXCHANGE_ID_SEPARATOR);
+  if (separator <= 0) {
+    return undefined;
+  }
+
+  try {
+    return decodeURIComponent(id.slice(0, separator));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the plant every operation in a batch targets
+ * @returns The plant id, or undefined for an empty batch
+ * @throws ValidationError with code MIXED_PLANT_BATCH if the operations span more than one plant
+ */
+export function getBatchPlantId(operations: ExchangeWriteOperation[]): string | undefined {
+  const plantIds = new Set(operations.map(op => op.type === 'delete' ? op.plantId : op.exchange.plantId));
+  if (plantIds.size > 1) {
+    throw new ValidationError('All operations in a batch must target the same plant', 'MIXED_PLANT_BATCH');
+  }
+  const [plantId] = plantIds;
+  return plantId;
+}
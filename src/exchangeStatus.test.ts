@@ -0,0 +1,92 @@
+import { canTransition, deriveExchangeStatus, transitionExchange, isOpenStatus, isMatchedStatus } from './exchangeStatus';
+import { SeedExchange } from './types';
+import { InvalidStateError } from './errors';
+
+describe('Exchange Status', () => {
+  const openRequest: SeedExchange = {
+    id: 'exchange-1',
+    plantId: 'tomato-123',
+    status: 'open-request',
+    requestUserId: 'user-1',
+    offerUserId: null,
+    quantity: 1,
+    seedRequestTime: new Date('2024-01-01T00:00:00Z'),
+    seedOfferTime: null,
+    confirmationTime: null,
+    shipTime: null,
+    receivedTime: null
+  };
+
+  describe('canTransition', () => {
+    it('should allow the normal delivery path', () => {
+      expect(canTransition('open-request', 'confirmed')).toBe(true);
+      expect(canTransition('open-offer', 'confirmed')).toBe(true);
+      expect(canTransition('confirmed', 'shipped')).toBe(true);
+      expect(canTransition('shipped', 'received')).toBe(true);
+    });
+
+    it('should reject skipping steps', () => {
+      expect(canTransition('open-request', 'shipped')).toBe(false);
+      expect(canTransition('confirmed', 'received')).toBe(false);
+    });
+
+    it('should reject moving backwards', () => {
+      expect(canTransition('received', 'shipped')).toBe(false);
+      expect(canTransition('confirmed', 'open-request')).toBe(false);
+    });
+
+    it('should treat cancelled and expired as terminal', () => {
+      expect(canTransition('cancelled', 'open-request')).toBe(false);
+      expect(canTransition('expired', 'confirmed')).toBe(false);
+    });
+
+    it('should allow disputes only after shipping', () => {
+      expect(canTransition('confirmed', 'disputed')).toBe(false);
+      expect(canTransition('shipped', 'disputed')).toBe(true);
+      expect(canTransition('received', 'disputed')).toBe(true);
+    });
+  });
+
+  describe('status groups', () => {
+    it('should classify open and matched statuses', () => {
+      expect(isOpenStatus('open-request')).toBe(true);
+      expect(isOpenStatus('confirmed')).toBe(false);
+      expect(isMatchedStatus('shipped')).toBe(true);
+      expect(isMatchedStatus('cancelled')).toBe(false);
+    });
+  });
+
+  describe('deriveExchangeStatus', () => {
+    it('should derive open statuses from user ids', () => {
+      expect(deriveExchangeStatus(openRequest)).toBe('open-request');
+      expect(deriveExchangeStatus({ ...openRequest, requestUserId: null, offerUserId: 'user-2' })).toBe('open-offer');
+    });
+
+    it('should derive matched statuses from timestamps', () => {
+      const confirmed = { ...openRequest, offerUserId: 'user-2', confirmationTime: new Date() };
+      expect(deriveExchangeStatus(confirmed)).toBe('confirmed');
+      expect(deriveExchangeStatus({ ...confirmed, shipTime: new Date() })).toBe('shipped');
+      expect(deriveExchangeStatus({ ...confirmed, shipTime: new Date(), receivedTime: new Date() })).toBe('received');
+    });
+  });
+
+  describe('transitionExchange', () => {
+    it('should return a new exchange in the target status with the changes applied', () => {
+      const confirmationTime = new Date();
+      const confirmed = transitionExchange(openRequest, 'confirmed', {
+        offerUserId: 'user-2',
+        confirmationTime
+      });
+
+      expect(confirmed.status).toBe('confirmed');
+      expect(confirmed.offerUserId).toBe('user-2');
+      expect(confirmed.confirmationTime).toBe(confirmationTime);
+      expect(openRequest.status).toBe('open-request');
+    });
+
+    it('should throw on an illegal transition', () => {
+      expect(() => transitionExchange(openRequest, 'received')).toThrow(InvalidStateError);
+      expect(() => transitionExchange(openRequest, 'received')).toThrow('open-request -> received');
+    });
+  });
+});
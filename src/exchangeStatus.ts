@@ -0,0 +1,96 @@
+import { ExchangeStatus, SeedExchange } from './types';
+import { InvalidStateError } from './errors';
+
+/**
+ * Allowed status transitions for a seed exchange.
+ * Every status change made through the API must appear in this table.
+ */
+export const EXCHANGE_STATUS_TRANSITIONS: Readonly<Record<ExchangeStatus, readonly ExchangeStatus[]>> = {
+  'open-request': ['confirmed', 'cancelled', 'expired'],
+  'open-offer': ['confirmed', 'cancelled', 'expired'],
+  'confirmed': ['shipped', 'cancelled'],
+  'shipped': ['received', 'disputed'],
+  'received': ['disputed'],
+  'disputed': ['received', 'cancelled'],
+  'cancelled': [],
+  'expired': []
+};
+
+/**
+ * Statuses of entries still waiting in the matching queue
+ */
+export const OPEN_STATUSES: readonly ExchangeStatus[] = ['open-request', 'open-offer'];
+
+/**
+ * Statuses of exchanges that have been matched between a requester and an offerer
+ */
+export const MATCHED_STATUSES: readonly ExchangeStatus[] = ['confirmed', 'shipped', 'received', 'disputed'];
+
+/**
+ * Check whether an exchange may move from one status to another
+ */
+export function canTransition(from: ExchangeStatus, to: ExchangeStatus): boolean {
+  return EXCHANGE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a status represents an open request or offer
+ */
+export function isOpenStatus(status: ExchangeStatus): boolean {
+  return OPEN_STATUSES.includes(status);
+}
+
+/**
+ * Check whether a status represents a matched exchange
+ */
+export function isMatchedStatus(status: ExchangeStatus): boolean {
+  return MATCHED_STATUSES.includes(status);
+}
+
+/**
+ * Derive the status of an exchange from its user ids and timestamps.
+ * Used for documents stored before the status field existed.
+ */
+export function deriveExchangeStatus(exchange: Omit<SeedExchange, 'status'>): ExchangeStatus {
+  if (exchange.requestUserId !== null && exchange.offerUserId === null) {
+    return 'open-request';
+  }
+  if (exchange.offerUserId !== null && exchange.requestUserId === null) {
+    return 'open-offer';
+  }
+  if (exchange.receivedTime !== null) {
+    return 'received';
+  }
+  if (exchange.shipTime !== null) {
+    return 'shipped';
+  }
+  return 'confirmed';
+}
+
+/**
+ * Move an exchange to a new status, applying any accompanying field changes
+ * and recording the transition
+ * @param exchange - Exchange in its current status
+ * @param to - Status to move to
+ * @param changes - Additional fields to update alongside the status
+ * @param time - When the transition happened
+ * @returns A new exchange object in the target status
+ * @throws InvalidStateError if the transition is not allowed
+ */
+export function transitionExchange(
+  exchange: SeedExchange,
+  to: ExchangeStatus,
+  changes: Partial<Omit<SeedExchange, 'id' | 'plantId' | 'status' | 'transitions'>> = {},
+  time: Date = new Date()
+): SeedExchange {
+  if (!canTransition(exchange.status, to)) {
+    throw new InvalidStateError(`Invalid exchange status transition: ${exchange.status} -> ${to}`);
+  }
+
+  return {
+    ...exchange,
+    ...changes,
+    status: to,
+    transitions: [...(exchange.transitions ?? []), { status: to, time }]
+  };
+}
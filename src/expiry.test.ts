@@ -0,0 +1,149 @@
+import { expireStaleEntries, isStaleOpenEntry } from './expiry';
+import { SubmitSeedOffer, SubmitSeedRequest } from './api';
+import { SeedExchangeCollections } from './collections';
+import { DEFAULT_EXCHANGE_CONFIG } from './exchangeConfig';
+import { AzureUserToken, SeedExchange } from './types';
+
+describe('Expiry', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const now = new Date('2025-06-01T00:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * DAY);
+
+  let collections: SeedExchangeCollections;
+  let user1: AzureUserToken;
+  let user2: AzureUserToken;
+
+  function openRequest(id: string, seedRequestTime: Date): SeedExchange {
+    return {
+      id,
+      plantId: 'milkweed-001',
+      status: 'open-request',
+      requestUserId: 'user-1',
+      offerUserId: null,
+      quantity: 1,
+      seedRequestTime,
+      seedOfferTime: null,
+      confirmationTime: null,
+      shipTime: null,
+      receivedTime: null
+    };
+  }
+
+  function openOffer(id: string, seedOfferTime: Date): SeedExchange {
+    return {
+      ...openRequest(id, now),
+      status: 'open-offer',
+      requestUserId: null,
+      offerUserId: 'user-1',
+      seedRequestTime: null,
+      seedOfferTime
+    };
+  }
+
+  beforeEach(() => {
+    collections = new SeedExchangeCollections();
+    user1 = { userId: 'user-1', email: 'user1@example.com', name: 'User 1' };
+    user2 = { userId: 'user-2', email: 'user2@example.com', name: 'User 2' };
+  });
+
+  describe('isStaleOpenEntry', () => {
+    const config = { ...DEFAULT_EXCHANGE_CONFIG, openRequestTtlDays: 30, openOfferTtlDays: 60 };
+
+    it('should apply the TTL for each entry type', () => {
+      expect(isStaleOpenEntry(openRequest('r1', daysAgo(31)), now, config)).toBe(true);
+      expect(isStaleOpenEntry(openRequest('r2', daysAgo(29)), now, config)).toBe(false);
+      expect(isStaleOpenEntry(openOffer('o1', daysAgo(31)), now, config)).toBe(false);
+      expect(isStaleOpenEntry(openOffer('o2', daysAgo(61)), now, config)).toBe(true);
+    });
+
+    it('should never treat matched exchanges as stale', () => {
+      const confirmed: SeedExchange = {
+        ...openRequest('c1', daysAgo(365)),
+        status: 'confirmed',
+        offerUserId: 'user-2',
+        confirmationTime: daysAgo(365)
+      };
+
+      expect(isStaleOpenEntry(confirmed, now, config)).toBe(false);
+    });
+  });
+
+  describe('expireStaleEntries', () => {
+    it('should move stale requests and offers to expired and leave fresh ones open', async () => {
+      await collections.addExchange(openRequest('stale-request', daysAgo(100)));
+      await collections.addExchange(openRequest('fresh-request', daysAgo(10)));
+      await collections.addExchange(openOffer('stale-offer', daysAgo(200)));
+      await collections.addExchange(openOffer('fresh-offer', daysAgo(100)));
+
+      const result = await expireStaleEntries(collections, now);
+
+      expect(result.expiredExchanges.map(ex => ex.id).sort()).toEqual(['stale-offer', 'stale-request']);
+      expect((await collections.getExchange('stale-request'))?.status).toBe('expired');
+      expect((await collections.getExchange('stale-offer'))?.status).toBe('expired');
+      expect((await collections.getExchange('fresh-request'))?.status).toBe('open-request');
+      expect((await collections.getExchange('fresh-offer'))?.status).toBe('open-offer');
+    });
+
+    it('should honour TTL overrides passed in options', async () => {
+      await collections.addExchange(openRequest('request', daysAgo(10)));
+
+      const result = await expireStaleEntries(collections, now, { config: { openRequestTtlDays: 7 } });
+
+      expect(result.expiredExchanges).toHaveLength(1);
+    });
+
+    it('should skip entries that were matched after being read', async () => {
+      await collections.addExchange(openRequest('request', daysAgo(100)));
+      const getStaleOpenEntries = collections.getStaleOpenEntries.bind(collections);
+      jest.spyOn(collections, 'getStaleOpenEntries').mockImplementationOnce(async (requestCutoff, offerCutoff) => {
+        const entries = await getStaleOpenEntries(requestCutoff, offerCutoff);
+        // Simulate a concurrent update landing between the read and the expiry write
+        const current = await collections.getExchange('request');
+        await collections.updateExchange({ ...current!, quantity: 2 });
+        return entries;
+      });
+
+      const result = await expireStaleEntries(collections, now);
+
+      expect(result.expiredExchanges).toHaveLength(0);
+      expect((await collections.getExchange('request'))?.status).toBe('open-request');
+    });
+
+    it('should remove expired entries from the open queues', async () => {
+      await collections.addExchange(openRequest('request', daysAgo(100)));
+
+      await expireStaleEntries(collections, now);
+
+      expect(await collections.getOpenRequestsByPlant('milkweed-001')).toHaveLength(0);
+    });
+  });
+
+  describe('matching', () => {
+    it('should not fill stale requests that have not been swept yet', async () => {
+      await collections.addExchange(openRequest('stale-request', new Date(Date.now() - 100 * DAY)));
+
+      const result = await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+
+      expect(result.filledExchanges).toHaveLength(0);
+      expect(result.remainingOffer?.quantity).toBe(1);
+      expect((await collections.getExchange('stale-request'))?.status).toBe('open-request');
+    });
+
+    it('should not fill from stale offers that have not been swept yet', async () => {
+      await collections.addExchange(openOffer('stale-offer', new Date(Date.now() - 200 * DAY)));
+
+      const result = await SubmitSeedRequest(user2, 'milkweed-001', collections);
+
+      expect(result.filled).toBe(false);
+      expect(result.remainingRequest?.quantity).toBe(1);
+    });
+
+    it('should still fill entries within their TTL', async () => {
+      await SubmitSeedRequest(user1, 'milkweed-001', collections);
+
+      const result = await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+
+      expect(result.filledExchanges).toHaveLength(1);
+    });
+  });
+});
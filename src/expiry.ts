@@ -0,0 +1,84 @@
+import { SeedExchange, ExpireStaleEntriesResult } from './types';
+import { ISeedExchangeCollections } from './ISeedExchangeCollections';
+import { ExchangeConfig, ExchangeOptions, resolveExchangeConfig } from './exchangeConfig';
+import { transitionExchange } from './exchangeStatus';
+import { ConflictError } from './errors';
+import { AuditedSeedExchangeCollections, SYSTEM_ACTOR_ID } from './auditLog';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Creation times before which open requests and offers are considered stale
+ */
+interface OpenEntryCutoffs {
+  requestCutoff: Date;
+  offerCutoff: Date;
+}
+
+/**
+ * Compute the stale cutoffs for open entries at the given time
+ */
+function getOpenEntryCutoffs(now: Date, config: ExchangeConfig): OpenEntryCutoffs {
+  return {
+    requestCutoff: new Date(now.getTime() - config.openRequestTtlDays * MS_PER_DAY),
+    offerCutoff: new Date(now.getTime() - config.openOfferTtlDays * MS_PER_DAY)
+  };
+}
+
+/**
+ * Whether an open request or offer has outlived its time-to-live.
+ * Matched and closed exchanges are never stale.
+ */
+export function isStaleOpenEntry(exchange: SeedExchange, now: Date, config: ExchangeConfig): boolean {
+  const { requestCutoff, offerCutoff } = getOpenEntryCutoffs(now, config);
+
+  if (exchange.status === 'open-request') {
+    return exchange.seedRequestTime !== null && exchange.seedRequestTime < requestCutoff;
+  }
+  if (exchange.status === 'open-offer') {
+    return exchange.seedOfferTime !== null && exchange.seedOfferTime < offerCutoff;
+  }
+  return false;
+}
+
+/**
+ * Move open requests and offers that have outlived their time-to-live to the expired status.
+ * Intended to run periodically; entries matched concurrently with the sweep are left alone.
+ * @param collections - Collection manager instance
+ * @param now - Time to measure entry age against (default: the current time)
+ * @param options - Optional operator settings overrides, and an audit log to record expiries in
+ * @returns The exchanges that were expired
+ */
+export async function expireStaleEntries(
+  collections: ISeedExchangeCollections,
+  now: Date = new Date(),
+  options: ExchangeOptions = {}
+): Promise<ExpireStaleEntriesResult> {
+  const config = resolveExchangeConfig(options);
+  if (options.auditLog) {
+    collections = new AuditedSeedExchangeCollections(
+      collections, options.auditLog, { actorUserId: SYSTEM_ACTOR_ID, action: 'expire' }
+    );
+  }
+  const { requestCutoff, offerCutoff } = getOpenEntryCutoffs(now, config);
+  const staleEntries = await collections.getStaleOpenEntries(requestCutoff, offerCutoff);
+  const expiredExchanges: SeedExchange[] = [];
+
+  for (const entry of staleEntries) {
+    const expiredExchange = transitionExchange(entry, 'expired', {}, now);
+
+    try {
+      await collections.updateExchange(expiredExchange, { ifMatch: entry.etag });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        // The entry was matched or withdrawn after it was read
+        continue;
+      }
+      throw error;
+    }
+
+    expiredExchanges.push(expiredExchange);
+  }
+
+  return { expiredExchanges };
+}
@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line interface for expiring stale open requests and offers.
+ * Run it on a schedule (for example a daily cron job or timer-triggered function).
+ * 
+ * Usage:
+ *   npm run expire-stale
+ * 
+ * Or with environment variables for Cosmos DB:
+ *   COSMOS_DB_ENDPOINT=https://... COSMOS_DB_KEY=... node dist/expiryCli.js
+ */
+
+import { initializeCollections } from './collectionsFactory';
+import { expireStaleEntries } from './expiry';
+
+async function main() {
+  try {
+    const collections = await initializeCollections();
+    const { expiredExchanges } = await expireStaleEntries(collections);
+
+    const requests = expiredExchanges.filter(ex => ex.requestUserId !== null).length;
+    const offers = expiredExchanges.length - requests;
+    console.log(`✅ Expired ${requests} stale request(s) and ${offers} stale offer(s)`);
+  } catch (error) {
+    console.error('❌ Failed to expire stale entries:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { main };
@@ -217,13 +217,19 @@ describe('Health Check', () => {
       const mockCollections: ISeedExchangeCollections = {
         getOpenRequestsByPlant: jest.fn().mockRejectedValue(new Error('Storage error')),
         getOpenOffersByPlant: jest.fn().mockRejectedValue(new Error('Storage error')),
+        getStaleOpenEntries: jest.fn().mockRejectedValue(new Error('Storage error')),
         getConfirmedExchanges: jest.fn().mockRejectedValue(new Error('Storage error')),
+        getConfirmedExchangesPage: jest.fn().mockRejectedValue(new Error('Storage error')),
         getExchangesByUser: jest.fn().mockRejectedValue(new Error('Storage error')),
+        getExchangesByUserPage: jest.fn().mockRejectedValue(new Error('Storage error')),
+        searchExchanges: jest.fn().mockRejectedValue(new Error('Storage error')),
         addExchange: jest.fn().mockRejectedValue(new Error('Storage error')),
         getExchange: jest.fn().mockRejectedValue(new Error('Storage error')),
         removeExchange: jest.fn().mockRejectedValue(new Error('Storage error')),
         updateExchange: jest.fn().mockRejectedValue(new Error('Storage error')),
+        executeBatch: jest.fn().mockRejectedValue(new Error('Storage error')),
         getAllExchanges: jest.fn().mockRejectedValue(new Error('Storage error')),
+        getAllExchangesPage: jest.fn().mockRejectedValue(new Error('Storage error')),
         clear: jest.fn().mockRejectedValue(new Error('Storage error'))
       };
 
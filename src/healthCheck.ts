@@ -360,6 +360,7 @@ async function checkStorageHealth(collections: ISeedExchangeCollections): Promis
     const testExchange: SeedExchange = {
       id: `health-check-${uuidv4()}`,
       plantId: 'health-check-plant',
+      status: 'open-request',
       requestUserId: 'health-check-user',
       offerUserId: null,
       quantity: 1,
@@ -1,8 +1,244 @@
-export { SubmitSeedOffer, SubmitSeedRequest, Withdraw } from './api';
+export {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  Withdraw,
+  CancelExchange,
+  MarkShipped,
+  MarkReceived,
+  GetExchange,
+  SearchExchanges,
+  OpenDispute,
+  RespondToDispute,
+  ResolveDispute,
+  GetExchangeAuditLog,
+  GetUserAuditLog,
+  CreateWebhookSubscription,
+  GetWebhookSubscriptions,
+  DeleteWebhookSubscription,
+  GetWebhookDeliveries,
+  RetryWebhookDelivery,
+  WebhookSubscriptionInput,
+  GetNotificationPreferences,
+  UpdateNotificationPreferences,
+  NotificationPreferencesInput,
+  GetUserProfile,
+  UpdateUserProfile,
+  DeleteUserProfile,
+  GetShippingAddress,
+  GetCreditBalance,
+  GetCreditStatement,
+  UserProfileInput
+} from './api';
+export { ADMIN_ROLE, isAdmin } from './roles';
 export { SeedExchangeCollections, collections } from './collections';
-export { CosmosDbSeedExchangeCollections } from './cosmosDbCollections';
+export { CosmosDbSeedExchangeCollections, RequestChargeStats, buildExchangeSearchQuery } from './cosmosDbCollections';
+export { CosmosDbUserExchangeView, RequestChargeRecorder } from './cosmosDbUserExchangeView';
+export { SqliteSeedExchangeCollections, migrateSqliteDatabase } from './sqliteCollections';
+export { EventSourcedSeedExchangeCollections, InMemoryExchangeEventStore } from './eventSourcedCollections';
+export { SqliteExchangeEventStore } from './sqliteExchangeEventStore';
+export { IExchangeEventStore, ExchangeEvent, ExchangeEventType } from './IExchangeEventStore';
 export { CosmosDbConfig, getCosmosDbConfig } from './cosmosDbConfig';
-export { ISeedExchangeCollections } from './ISeedExchangeCollections';
-export { initializeCollections, getInMemoryCollections } from './collectionsFactory';
+export { IExchangeChangeFeed, ExchangeChangeBatch } from './IExchangeChangeFeed';
+export { ILeaseStore } from './ILeaseStore';
+export {
+  DomainEvent,
+  DomainEventType,
+  DomainEventHandler,
+  DOMAIN_EVENT_TYPES,
+  DomainEventEmitter,
+  DomainEventProcessor,
+  InMemoryLeaseStore,
+  toDomainEvent,
+  toDomainEvents
+} from './domainEvents';
+export { CosmosDbLeaseStore } from './cosmosDbLeaseStore';
+export {
+  IWebhookStore,
+  WebhookSubscription,
+  WebhookSubscriptionSummary,
+  WebhookDelivery,
+  WebhookDeliveryStatus
+} from './IWebhookStore';
+export {
+  WebhookPayload,
+  WebhookDeliveryConfig,
+  DEFAULT_WEBHOOK_DELIVERY_CONFIG,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  InMemoryWebhookStore,
+  WebhookDispatcher,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  buildWebhookPayload,
+  matchesWebhookSubscription,
+  validateWebhookUrl,
+  getWebhookAllowedHosts
+} from './webhooks';
+export { CosmosDbWebhookStore } from './cosmosDbWebhookStore';
+export { WebhookTestReceiver, ReceivedWebhook } from './webhookTestReceiver';
+export {
+  INotificationStore,
+  NotificationEventType,
+  NotificationPreferences,
+  OutboxMessage,
+  OutboxMessageStatus
+} from './INotificationStore';
+export { INotificationTransport, EmailMessage } from './INotificationTransport';
+export {
+  NOTIFICATION_EVENT_TYPES,
+  NotificationContent,
+  NotificationTemplate,
+  NotificationTemplates,
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  NotificationOutboxConfig,
+  DEFAULT_NOTIFICATION_OUTBOX_CONFIG,
+  InMemoryNotificationStore,
+  NotificationOutbox,
+  defaultNotificationPreferences
+} from './notifications';
+export {
+  SmtpConfig,
+  NotificationTransportType,
+  NotificationTransportConfig,
+  getNotificationTransportConfig,
+  createNotificationTransport,
+  ConsoleNotificationTransport,
+  FileNotificationTransport,
+  SmtpNotificationTransport
+} from './notificationTransports';
+export { CosmosDbNotificationStore } from './cosmosDbNotificationStore';
+export {
+  IUserProfileStore,
+  PostalAddress,
+  UserProfile,
+  UserProfilePreferences,
+  ShippingAddress
+} from './IUserProfileStore';
+export { InMemoryUserProfileStore, defaultUserProfile } from './userProfiles';
+export { CosmosDbUserProfileStore } from './cosmosDbUserProfileStore';
+export {
+  IReputationStore,
+  ReputationCounts,
+  ReputationContribution,
+  ReputationRecord,
+  UserReputation
+} from './IReputationStore';
+export {
+  REPUTATION_WEIGHTS,
+  InMemoryReputationStore,
+  ReputationTracker,
+  emptyReputationCounts,
+  getReputationContribution,
+  scoreReputation
+} from './reputation';
+export { CosmosDbReputationStore } from './cosmosDbReputationStore';
+export {
+  ILedgerStore,
+  LedgerTransactionKind,
+  LedgerPosting,
+  LedgerTransaction,
+  LedgerEntry,
+  LedgerRange,
+  CreditBalance,
+  CreditStatement,
+  CreditHold,
+  CreditHolds
+} from './ILedgerStore';
+export {
+  STARTING_CREDITS_ACCOUNT,
+  IN_TRANSIT_ACCOUNT,
+  CREDIT_HOLD_TTL_MS,
+  InMemoryLedgerStore,
+  CreditLedger,
+  userAccount,
+  getExchangeTransactions,
+  toLedgerEntries,
+  isInLedgerRange
+} from './ledger';
+export { CosmosDbLedgerStore } from './cosmosDbLedgerStore';
+export { SqliteLedgerStore } from './sqliteLedgerStore';
+export {
+  ExchangeConfig,
+  ExchangeOptions,
+  CancelExchangeOptions,
+  DEFAULT_EXCHANGE_CONFIG,
+  getExchangeConfig,
+  loadExchangeConfig,
+  resolveExchangeConfig
+} from './exchangeConfig';
+export {
+  ISeedExchangeCollections,
+  UpdateExchangeOptions,
+  ExchangeWriteOperation,
+  PageOptions,
+  ExchangePage,
+  ExchangeFilter,
+  ExchangeTimeField,
+  ExchangeSortField,
+  ExchangeRole,
+  TimeRange
+} from './ISeedExchangeCollections';
+export { EXCHANGE_TIME_FIELDS, EXCHANGE_SORT_FIELDS, validateExchangeFilter, matchesExchangeFilter } from './exchangeFilter';
+export { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './pagination';
+export { createExchangeId, plantIdFromExchangeId, getBatchPlantId } from './exchangeIds';
+export {
+  EXCHANGE_STATUS_TRANSITIONS,
+  OPEN_STATUSES,
+  MATCHED_STATUSES,
+  canTransition,
+  isOpenStatus,
+  isMatchedStatus,
+  deriveExchangeStatus,
+  transitionExchange
+} from './exchangeStatus';
+export { IPlantCatalog } from './IPlantCatalog';
+export { PlantCatalog, PLANT_CATEGORIES, normalizePlantName } from './plantCatalog';
+export { CosmosDbPlantCatalog } from './cosmosDbPlantCatalog';
+export { DEFAULT_PLANTS } from './defaultPlants';
+export { expireStaleEntries, isStaleOpenEntry } from './expiry';
+export { IAuditLog } from './IAuditLog';
+export { AuditLog, AuditedSeedExchangeCollections, AuditContext, SYSTEM_ACTOR_ID, createAuditLogEntry } from './auditLog';
+export { CosmosDbAuditLog } from './cosmosDbAuditLog';
+export {
+  initializeCollections,
+  initializePlantCatalog,
+  initializeAuditLog,
+  initializeLeaseStore,
+  initializeWebhookStore,
+  initializeNotificationStore,
+  initializeUserProfileStore,
+  initializeReputationStore,
+  initializeLedgerStore,
+  getInMemoryCollections
+} from './collectionsFactory';
 export { performHealthCheck, formatHealthCheckResult, HealthCheckResult, DependencyHealth, HealthStatus } from './healthCheck';
+export {
+  SeedExchangeError,
+  SeedExchangeErrorCode,
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  InvalidStateError,
+  ValidationError,
+  ConflictError,
+  ConfigurationError
+} from './errors';
+export {
+  Authenticator,
+  SeedExchangeServerOptions,
+  headerAuthenticator,
+  bearerAuthenticator,
+  statusCodeForError,
+  CONTINUATION_TOKEN_HEADER,
+  createSeedExchangeServer,
+  startSeedExchangeServer
+} from './server';
+export {
+  TokenVerifier,
+  TokenVerificationConfig,
+  JsonWebKey,
+  JsonWebKeySet,
+  getTokenVerificationConfig
+} from './tokenVerification';
 export * from './types';
@@ -0,0 +1,219 @@
+import {
+  CreditLedger,
+  InMemoryLedgerStore,
+  CREDIT_HOLD_TTL_MS,
+  IN_TRANSIT_ACCOUNT,
+  STARTING_CREDITS_ACCOUNT,
+  userAccount
+} from './ledger';
+import { DomainEventProcessor, InMemoryLeaseStore } from './domainEvents';
+import { SeedExchangeCollections } from './collections';
+import {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  MarkShipped,
+  MarkReceived,
+  OpenDispute,
+  ResolveDispute,
+  Withdraw,
+  GetCreditBalance,
+  GetCreditStatement
+} from './api';
+import { ExchangeOptions } from './exchangeConfig';
+import { ADMIN_ROLE } from './roles';
+import { AzureUserToken, SeedExchange } from './types';
+
+const requester: AzureUserToken = { userId: 'requester' };
+const offerer: AzureUserToken = { userId: 'offerer' };
+const admin: AzureUserToken = { userId: 'admin', roles: [ADMIN_ROLE] };
+
+describe('Credit ledger', () => {
+  let collections: SeedExchangeCollections;
+  let store: InMemoryLedgerStore;
+  let ledger: CreditLedger;
+  let options: ExchangeOptions;
+
+  beforeEach(() => {
+    collections = new SeedExchangeCollections();
+    store = new InMemoryLedgerStore();
+    ledger = new CreditLedger(store, { startingCredits: 2 });
+    options = { ledger, config: { creditOverdraftLimit: 0 } };
+  });
+
+  const matchExchange = async (quantity = 1): Promise<SeedExchange> => {
+    await SubmitSeedRequest(requester, 'milkweed', collections, quantity, options);
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', quantity, collections, options);
+    return offer.filledExchanges[0];
+  };
+
+  it('should grant starting credits once when an account is opened', async () => {
+    await ledger.openAccount('newcomer');
+    await ledger.openAccount('newcomer');
+
+    expect(await GetCreditBalance({ userId: 'newcomer' }, 'newcomer', collections, ledger)).toEqual({
+      userId: 'newcomer',
+      balance: 2,
+      reserved: 0,
+      available: 2
+    });
+    expect(await store.getBalance(STARTING_CREDITS_ACCOUNT)).toBe(-2);
+  });
+
+  it('should credit the offerer on shipment and debit the requester on receipt', async () => {
+    const exchange = await matchExchange(2);
+    await MarkShipped(offerer, exchange.id, collections, options);
+
+    expect((await ledger.getCreditBalance('offerer', collections)).balance).toBe(4);
+    expect(await ledger.getCreditBalance('requester', collections)).toMatchObject({ balance: 2, reserved: 2, available: 0 });
+    expect(await store.getBalance(IN_TRANSIT_ACCOUNT)).toBe(-2);
+
+    await MarkReceived(requester, exchange.id, collections, options);
+
+    expect(await ledger.getCreditBalance('requester', collections)).toMatchObject({ balance: 0, reserved: 0, available: 0 });
+    expect(await store.getBalance(IN_TRANSIT_ACCOUNT)).toBe(0);
+  });
+
+  it('should keep every transaction balanced', async () => {
+    const exchange = await matchExchange(2);
+    await MarkShipped(offerer, exchange.id, collections, options);
+    await MarkReceived(requester, exchange.id, collections, options);
+
+    const accounts = [userAccount('requester'), userAccount('offerer'), IN_TRANSIT_ACCOUNT, STARTING_CREDITS_ACCOUNT];
+    const balances = await Promise.all(accounts.map(account => store.getBalance(account)));
+    expect(balances.reduce((sum, balance) => sum + balance, 0)).toBe(0);
+  });
+
+  it('should reject requests beyond the available credits', async () => {
+    await SubmitSeedRequest(requester, 'milkweed', collections, 2, options);
+
+    await expect(SubmitSeedRequest(requester, 'aster', collections, 1, options))
+      .rejects.toMatchObject({ code: 'INSUFFICIENT_CREDITS' });
+    expect(await collections.getOpenRequestsByPlant('aster')).toHaveLength(0);
+  });
+
+  it('should not let concurrent requests together spend more than the available credits', async () => {
+    const results = await Promise.allSettled([
+      SubmitSeedRequest(requester, 'milkweed', collections, 2, options),
+      SubmitSeedRequest(requester, 'aster', collections, 2, options)
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(await ledger.getCreditBalance('requester', collections)).toMatchObject({ reserved: 2, available: 0 });
+  });
+
+  it('should not let concurrent requests through separate ledgers on one store overdraw', async () => {
+    // As two server processes would, each with its own ledger over the shared store
+    const otherOptions: ExchangeOptions = { ...options, ledger: new CreditLedger(store, { startingCredits: 2 }) };
+
+    const results = await Promise.allSettled([
+      SubmitSeedRequest(requester, 'milkweed', collections, 2, options),
+      SubmitSeedRequest(requester, 'aster', collections, 2, otherOptions),
+      SubmitSeedRequest(requester, 'yarrow', collections, 1, otherOptions)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')
+      .map(result => (result as PromiseRejectedResult).reason.code)).toEqual(['INSUFFICIENT_CREDITS', 'INSUFFICIENT_CREDITS']);
+    expect(await ledger.getCreditBalance('requester', collections)).toMatchObject({ available: 0 });
+    expect((await store.getCreditHolds('requester'))?.holds).toEqual([]);
+  });
+
+  it('should count credits held by a request still being placed', async () => {
+    await store.saveCreditHolds({ userId: 'requester', holds: [{ id: 'in-flight', quantity: 2, time: new Date() }] }, undefined);
+
+    await expect(SubmitSeedRequest(requester, 'milkweed', collections, 1, options))
+      .rejects.toMatchObject({ code: 'INSUFFICIENT_CREDITS' });
+  });
+
+  it('should ignore holds left behind for longer than the hold lifetime', async () => {
+    const abandoned = new Date(Date.now() - CREDIT_HOLD_TTL_MS - 1);
+    await store.saveCreditHolds({ userId: 'requester', holds: [{ id: 'crashed', quantity: 2, time: abandoned }] }, undefined);
+
+    await SubmitSeedRequest(requester, 'milkweed', collections, 2, options);
+
+    expect((await store.getCreditHolds('requester'))?.holds).toEqual([]);
+  });
+
+  it('should release reserved credits when a request is withdrawn', async () => {
+    const { remainingRequest } = await SubmitSeedRequest(requester, 'milkweed', collections, 2, options);
+    await Withdraw(requester, remainingRequest?.id as string, collections);
+
+    const result = await SubmitSeedRequest(requester, 'aster', collections, 2, options);
+
+    expect(result.remainingRequest?.quantity).toBe(2);
+  });
+
+  it('should allow requests into the overdraft limit', async () => {
+    const overdraft = { ...options, config: { creditOverdraftLimit: 1 } };
+    await SubmitSeedRequest(requester, 'milkweed', collections, 3, overdraft);
+
+    await expect(SubmitSeedRequest(requester, 'aster', collections, 1, overdraft))
+      .rejects.toMatchObject({ code: 'INSUFFICIENT_CREDITS' });
+  });
+
+  it('should let shipping earn credits for further requests', async () => {
+    await SubmitSeedRequest(requester, 'milkweed', collections, 2, options);
+    await SubmitSeedRequest(offerer, 'aster', collections, 1, options);
+    const { filledExchanges } = await SubmitSeedOffer(requester, 'aster', 1, collections, options);
+    await MarkShipped(requester, filledExchanges[0].id, collections, options);
+
+    const result = await SubmitSeedRequest(requester, 'violet', collections, 1, options);
+
+    expect(result.remainingRequest?.quantity).toBe(1);
+  });
+
+  it('should reverse the shipment when a dispute is refunded', async () => {
+    const exchange = await matchExchange();
+    await MarkShipped(offerer, exchange.id, collections, options);
+    await MarkReceived(requester, exchange.id, collections, options);
+    await OpenDispute(requester, exchange.id, 'Packet was empty', collections);
+    await ResolveDispute(admin, exchange.id, 'refund', undefined, collections, options);
+
+    expect((await ledger.getCreditBalance('offerer', collections)).balance).toBe(2);
+    expect((await ledger.getCreditBalance('requester', collections)).balance).toBe(2);
+    expect(await store.getBalance(IN_TRANSIT_ACCOUNT)).toBe(0);
+  });
+
+  it('should catch up from the change feed without posting anything twice', async () => {
+    const exchange = await matchExchange();
+    await MarkShipped(offerer, exchange.id, collections);
+    await MarkReceived(requester, exchange.id, collections, options);
+
+    const processor = new DomainEventProcessor('ledger', collections, new InMemoryLeaseStore());
+    ledger.subscribeTo(processor.emitter);
+    await processor.processChanges();
+    await ledger.recordExchange(await collections.getExchange(exchange.id) as SeedExchange);
+
+    expect((await ledger.getCreditBalance('offerer', collections)).balance).toBe(3);
+    expect((await ledger.getCreditBalance('requester', collections)).balance).toBe(1);
+  });
+
+  describe('statements', () => {
+    it('should list entries in a range with the balance either side', async () => {
+      const exchange = await matchExchange();
+      await MarkShipped(offerer, exchange.id, collections, options);
+      const from = new Date(Date.now() + 1);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await SubmitSeedRequest(requester, 'aster', collections, 1, options);
+      const { filledExchanges } = await SubmitSeedOffer(offerer, 'aster', 1, collections, options);
+      await MarkShipped(offerer, filledExchanges[0].id, collections, options);
+
+      const statement = await GetCreditStatement(offerer, 'offerer', { from }, ledger);
+
+      expect(statement).toMatchObject({ userId: 'offerer', openingBalance: 3, closingBalance: 4 });
+      expect(statement.entries.map(entry => entry.transactionId)).toEqual([`shipped:${filledExchanges[0].id}`]);
+    });
+
+    it('should only show other users\' statements to admins', async () => {
+      await expect(GetCreditStatement(requester, 'offerer', {}, ledger)).rejects.toMatchObject({ code: 'NOT_ADMIN' });
+      await expect(GetCreditStatement(admin, 'offerer', {}, ledger)).resolves.toMatchObject({ userId: 'offerer' });
+    });
+
+    it('should reject invalid ranges', async () => {
+      await expect(GetCreditStatement(requester, 'requester', { from: new Date('nope') }, ledger))
+        .rejects.toMatchObject({ code: 'INVALID_STATEMENT_RANGE' });
+      await expect(GetCreditStatement(requester, 'requester', { from: new Date(2), to: new Date(1) }, ledger))
+        .rejects.toMatchObject({ code: 'INVALID_STATEMENT_RANGE' });
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SeedExchange } from './types';
+import { ISeedExchangeCollections } from './ISeedExchangeCollections';
+import { MAX_PAGE_SIZE } from './pagination';
+import { DomainEvent, DomainEventEmitter } from './domainEvents';
+import { ExchangeConfig, resolveExchangeConfig } from './exchangeConfig';
+import { ConflictError } from './errors';
+import {
+  CreditBalance,
+  CreditHold,
+  CreditHolds,
+  CreditStatement,
+  ILedgerStore,
+  LedgerEntry,
+  LedgerRange,
+  LedgerTransaction
+} from './ILedgerStore';
+
+/**
+ * System account starting credits are drawn from; its balance is minus every credit ever granted
+ */
+export const STARTING_CREDITS_ACCOUNT = 'system:starting-credits';
+
+/**
+ * System account holding packets between shipment and receipt; its balance is minus the packets in the mail
+ */
+export const IN_TRANSIT_ACCOUNT = 'system:in-transit';
+
+/**
+ * How long a credit hold counts against a user's credits. A hold is released as soon as its request
+ * is placed; this only bounds how long one left behind by a crashed process blocks credits.
+ */
+export const CREDIT_HOLD_TTL_MS = 60 * 1000;
+
+/**
+ * How many times to read a user's holds again after another request saved them first
+ */
+const MAX_HOLD_ATTEMPTS = 10;
+
+/**
+ * Ledger account of a user
+ */
+export function userAccount(userId: string): string {
+  return `user:${userId}`;
+}
+
+/**
+ * Describe a number of packets, e.g. "1 packet" or "3 packets"
+ */
+function packets(quantity: number): string {
+  return `${quantity} packet${quantity === 1 ? '' : 's'}`;
+}
+
+/**
+ * Work out the transactions an exchange's current state calls for.
+ * Shipping credits the offerer and receipt debits the requester, each against the in-transit account;
+ * a dispute resolved as a refund or as fraudulent reverses both. Transaction ids derive from the
+ * exchange id, so posting the result again after a later change only adds what is new.
+ */
+export function getExchangeTransactions(exchange: SeedExchange): LedgerTransaction[] {
+  const { id, plantId, quantity, requestUserId, offerUserId, shipTime, receivedTime } = exchange;
+  if (!requestUserId || !offerUserId) {
+    return [];
+  }
+
+  const requester = userAccount(requestUserId);
+  const offerer = userAccount(offerUserId);
+  const transactions: LedgerTransaction[] = [];
+
+  if (shipTime) {
+    transactions.push({
+      id: `shipped:${id}`,
+      kind: 'shipped',
+      exchangeId: id,
+      description: `Shipped ${packets(quantity)} of ${plantId}`,
+      time: shipTime,
+      postings: [{ account: offerer, amount: quantity }, { account: IN_TRANSIT_ACCOUNT, amount: -quantity }]
+    });
+  }
+
+  if (receivedTime) {
+    transactions.push({
+      id: `received:${id}`,
+      kind: 'received',
+      exchangeId: id,
+      description: `Received ${packets(quantity)} of ${plantId}`,
+      time: receivedTime,
+      postings: [{ account: requester, amount: -quantity }, { account: IN_TRANSIT_ACCOUNT, amount: quantity }]
+    });
+  }
+
+  const resolution = exchange.dispute?.resolution;
+  if (shipTime && (resolution?.outcome === 'refund' || resolution?.outcome === 'fraudulent')) {
+    // The receipt reversal and shipment reversal cancel out on the in-transit account
+    transactions.push({
+      id: `refund:${id}`,
+      kind: 'refund',
+      exchangeId: id,
+      description: `Refunded ${packets(quantity)} of ${plantId} after a dispute`,
+      time: resolution.resolveTime,
+      postings: receivedTime
+        ? [{ account: offerer, amount: -quantity }, { account: requester, amount: quantity }]
+        : [{ account: offerer, amount: -quantity }, { account: IN_TRANSIT_ACCOUNT, amount: quantity }]
+    });
+  }
+
+  return transactions;
+}
+
+/**
+ * Turn a transaction into the entries stored against each of its accounts
+ * @throws Error if the postings do not add up to zero or an account appears twice
+ */
+export function toLedgerEntries(transaction: LedgerTransaction): LedgerEntry[] {
+  const total = transaction.postings.reduce((sum, posting) => sum + posting.amount, 0);
+  if (total !== 0) {
+    throw new Error(`Ledger transaction ${transaction.id} does not balance: postings add up to ${total}`);
+  }
+  const accounts = new Set(transaction.postings.map(posting => posting.account));
+  if (accounts.size !== transaction.postings.length) {
+    throw new Error(`Ledger transaction ${transaction.id} posts to the same account twice`);
+  }
+
+  return transaction.postings.map(posting => ({
+    id: `${transaction.id}:${posting.account}`,
+    transactionId: transaction.id,
+    account: posting.account,
+    amount: posting.amount,
+    kind: transaction.kind,
+    exchangeId: transaction.exchangeId,
+    description: transaction.description,
+    time: transaction.time
+  }));
+}
+
+/**
+ * Check whether an entry falls within a time range
+ */
+export function isInLedgerRange(entry: LedgerEntry, range: LedgerRange = {}): boolean {
+  return (!range.from || entry.time >= range.from) && (!range.to || entry.time < range.to);
+}
+
+/**
+ * Get a user's requests that have not been cancelled or expired.
+ * Searches the exchanges themselves rather than a per-user view, which may not yet hold a request just written.
+ */
+async function getOutstandingRequests(userId: string, collections: ISeedExchangeCollections): Promise<SeedExchange[]> {
+  const requests: SeedExchange[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const page = await collections.searchExchanges(
+      { userId, role: 'requester', status: ['open-request', 'confirmed', 'shipped', 'received', 'disputed'] },
+      { pageSize: MAX_PAGE_SIZE, continuationToken }
+    );
+    requests.push(...page.exchanges);
+    continuationToken = page.continuationToken;
+  } while (continuationToken);
+  return requests;
+}
+
+/**
+ * In-memory implementation of credit ledger storage
+ */
+export class InMemoryLedgerStore implements ILedgerStore {
+  private entries = new Map<string, LedgerEntry>();
+  private creditHolds = new Map<string, { holds: CreditHold[]; version: number }>();
+  private nextHoldsVersion = 1;
+
+  async postTransaction(transaction: LedgerTransaction): Promise<void> {
+    for (const entry of toLedgerEntries(transaction)) {
+      if (!this.entries.has(entry.id)) {
+        this.entries.set(entry.id, entry);
+      }
+    }
+  }
+
+  async getEntries(account: string, range?: LedgerRange): Promise<LedgerEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.account === account && isInLedgerRange(entry, range))
+      .sort((a, b) => a.time.getTime() - b.time.getTime())
+      .map(entry => ({ ...entry }));
+  }
+
+  async getBalance(account: string, before?: Date): Promise<number> {
+    const entries = await this.getEntries(account, { to: before });
+    return entries.reduce((sum, entry) => sum + entry.amount, 0);
+  }
+
+  async getCreditHolds(userId: string): Promise<CreditHolds | undefined> {
+    const stored = this.creditHolds.get(userId);
+    return stored && { userId, holds: stored.holds.map(hold => ({ ...hold })), etag: String(stored.version) };
+  }
+
+  async saveCreditHolds(holds: CreditHolds, ifMatch: string | undefined): Promise<void> {
+    const stored = this.creditHolds.get(holds.userId);
+    if ((stored ? String(stored.version) : undefined) !== ifMatch) {
+      throw new ConflictError(`Credit holds for ${holds.userId} were changed by another request`);
+    }
+    this.creditHolds.set(holds.userId, { holds: holds.holds.map(hold => ({ ...hold })), version: this.nextHoldsVersion++ });
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.creditHolds.clear();
+  }
+}
+
+/**
+ * Double-entry credit ledger: users earn a credit for each packet they ship and spend one for each
+ * packet they receive. The API functions post to it as exchanges change, and a change feed subscriber
+ * catches up on anything they missed. Every transaction has a fixed id, so posting the same change
+ * from both, or twice from either, adds nothing.
+ */
+export class CreditLedger {
+  private readonly config: ExchangeConfig;
+
+  /**
+   * @param store - Ledger entries
+   * @param config - Overrides for the starting credits read from the environment
+   */
+  constructor(private readonly store: ILedgerStore, config: Partial<ExchangeConfig> = {}) {
+    this.config = resolveExchangeConfig({ config });
+  }
+
+  /**
+   * Post ledger transactions for every event published by an emitter
+   * @returns A function that stops posting
+   */
+  subscribeTo(emitter: DomainEventEmitter): () => void {
+    return emitter.on('*', async (event: DomainEvent) => {
+      await this.recordExchange(event.exchange);
+    });
+  }
+
+  /**
+   * Post the transactions an exchange's current state calls for, opening its parties' accounts first
+   */
+  async recordExchange(exchange: SeedExchange): Promise<void> {
+    const transactions = getExchangeTransactions(exchange);
+    if (transactions.length === 0) {
+      return;
+    }
+
+    for (const userId of [exchange.offerUserId, exchange.requestUserId]) {
+      if (userId) {
+        await this.openAccount(userId, exchange.confirmationTime ?? undefined);
+      }
+    }
+    for (const transaction of transactions) {
+      await this.store.postTransaction(transaction);
+    }
+  }
+
+  /**
+   * Grant a user their starting credits, if they have not been granted already
+   * @param now - Time the grant is recorded at
+   */
+  async openAccount(userId: string, now: Date = new Date()): Promise<void> {
+    const { startingCredits } = this.config;
+    if (startingCredits === 0) {
+      return;
+    }
+
+    await this.store.postTransaction({
+      id: `starting-credits:${userId}`,
+      kind: 'starting-credits',
+      description: `Starting credits for ${packets(startingCredits)}`,
+      time: now,
+      postings: [
+        { account: userAccount(userId), amount: startingCredits },
+        { account: STARTING_CREDITS_ACCOUNT, amount: -startingCredits }
+      ]
+    });
+  }
+
+  /**
+   * Place a request while holding the credits it needs.
+   * The hold is saved to the user's holds with an etag, so of two requests checked against the same
+   * holds, from this process or any other, only one is saved; the other reads again and is checked with
+   * the first one's hold counted as reserved. The hold is released once `work` finishes, by which time
+   * its request counts as reserved itself.
+   * @param check - Throws if the user cannot afford the request; given their balance with other holds counted as reserved
+   * @param work - Places the request
+   * @throws ConflictError if the holds keep being saved by other requests
+   */
+  async holdCredits<T>(
+    userId: string,
+    quantity: number,
+    collections: ISeedExchangeCollections,
+    check: (balance: CreditBalance) => void,
+    work: () => Promise<T>
+  ): Promise<T> {
+    await this.openAccount(userId);
+    const hold: CreditHold = { id: uuidv4(), quantity, time: new Date() };
+
+    await this.updateHolds(userId, async holds => {
+      // Read the exchanges after the holds: a hold is only released once its request is written
+      const balance = await this.getCreditBalance(userId, collections);
+      const held = holds.reduce((sum, other) => sum + other.quantity, 0);
+      check({ ...balance, reserved: balance.reserved + held, available: balance.available - held });
+      return [...holds, hold];
+    });
+
+    try {
+      return await work();
+    } finally {
+      await this.updateHolds(userId, async holds => holds.filter(other => other.id !== hold.id))
+        // A hold that cannot be released is ignored once it expires
+        .catch(error => console.error(`Failed to release credit hold ${hold.id}:`, error));
+    }
+  }
+
+  /**
+   * Replace a user's unexpired holds, reading them again whenever another request saves them first
+   * @param change - Works out the new holds from the current ones
+   */
+  private async updateHolds(userId: string, change: (holds: CreditHold[]) => Promise<CreditHold[]>): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const current: CreditHolds | undefined = await this.store.getCreditHolds(userId);
+      const cutoff = Date.now() - CREDIT_HOLD_TTL_MS;
+      const holds = (current?.holds ?? []).filter(hold => hold.time.getTime() > cutoff);
+      try {
+        await this.store.saveCreditHolds({ userId, holds: await change(holds) }, current?.etag);
+        return;
+      } catch (error) {
+        if (!(error instanceof ConflictError) || attempt >= MAX_HOLD_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Get a user's balance together with the packets their outstanding requests will cost
+   * @param collections - Exchanges the user's outstanding requests are read from
+   */
+  async getCreditBalance(userId: string, collections: ISeedExchangeCollections): Promise<CreditBalance> {
+    const entries = await this.store.getEntries(userAccount(userId));
+    const balance = entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+    // Requests count until their receipt is posted, so the lag before an event is handled
+    // cannot be used to request more than the user has
+    const debited = new Set(entries.filter(entry => entry.kind === 'received').map(entry => entry.exchangeId));
+    const reserved = (await getOutstandingRequests(userId, collections))
+      .filter(exchange => !debited.has(exchange.id))
+      .reduce((sum, exchange) => sum + exchange.quantity, 0);
+
+    return { userId, balance, reserved, available: balance - reserved };
+  }
+
+  /**
+   * Get a user's entries over a time range, with their balance before and after it
+   */
+  async getStatement(userId: string, range: LedgerRange = {}): Promise<CreditStatement> {
+    const account = userAccount(userId);
+    const entries = await this.store.getEntries(account, range);
+    const openingBalance = range.from ? await this.store.getBalance(account, range.from) : 0;
+
+    return {
+      userId,
+      from: range.from,
+      to: range.to,
+      openingBalance,
+      closingBalance: entries.reduce((sum, entry) => sum + entry.amount, openingBalance),
+      entries
+    };
+  }
+}
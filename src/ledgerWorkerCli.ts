@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line interface for keeping the credit ledger complete.
+ * Reads the change feed and posts the ledger transactions each changed exchange calls for,
+ * until stopped. The API functions post the same transactions as they make changes; the worker
+ * catches up on any they missed, and on history from before the ledger was configured.
+ *
+ * Usage:
+ *   COSMOS_DB_ENDPOINT=https://... COSMOS_DB_KEY=... npm run ledger-worker
+ *
+ * Set LEDGER_POLL_INTERVAL_MS to change how often it polls (default: 5000).
+ */
+
+import { initializeLedgerStore } from './collectionsFactory';
+import { runChangeFeedWorker } from './changeFeedWorker';
+import { CreditLedger } from './ledger';
+
+async function main() {
+  try {
+    const ledger = new CreditLedger(await initializeLedgerStore());
+    await runChangeFeedWorker({
+      name: 'ledger',
+      description: 'Posting credit ledger transactions',
+      intervalMs: Number(process.env.LEDGER_POLL_INTERVAL_MS || 5000),
+      subscribeTo: emitter => ledger.subscribeTo(emitter),
+      afterChanges: async processed => {
+        if (processed > 0) {
+          console.log(`Posted ledger transactions for ${processed} exchange changes`);
+        }
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to start the ledger worker:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { main };
@@ -0,0 +1,204 @@
+import net, { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import {
+  ConsoleNotificationTransport,
+  FileNotificationTransport,
+  SmtpConfig,
+  SmtpNotificationTransport,
+  createNotificationTransport,
+  getNotificationTransportConfig
+} from './notificationTransports';
+
+const MESSAGE = { to: 'robin@example.org', subject: 'Your milkweed seeds are on their way 🦋', text: 'Hi Robin,\n\nThey shipped.' };
+
+/**
+ * Minimal SMTP server that records the commands it is sent and the message data.
+ * `replies` overrides the reply to a command verb; null never answers it.
+ */
+class FakeSmtpServer {
+  readonly commands: string[] = [];
+  data = '';
+  private server = net.createServer(socket => this.handle(socket));
+
+  constructor(private readonly replies: Record<string, string | null> = {}) {}
+
+  async start(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private handle(socket: net.Socket): void {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 fake.example.org ESMTP\r\n');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      for (let end = buffer.indexOf('\r\n'); end >= 0; end = buffer.indexOf('\r\n')) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 Queued\r\n');
+          } else {
+            this.data += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        this.commands.push(line);
+        const verb = line.split(/[\s:]/)[0].toUpperCase();
+        if (this.replies[verb] === null) {
+          continue;
+        } else if (this.replies[verb]) {
+          socket.write(`${this.replies[verb]}\r\n`);
+        } else if (verb === 'EHLO') {
+          socket.write('250-fake.example.org\r\n250 8BITMIME\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 Go ahead\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  }
+}
+
+describe('SmtpNotificationTransport', () => {
+  let server: FakeSmtpServer;
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const transport = async (username?: string, timeouts: Pick<SmtpConfig, 'timeoutMs' | 'sendTimeoutMs'> = {}) => new SmtpNotificationTransport(
+    { host: '127.0.0.1', port: await server.start(), secure: false, username, password: 'secret', timeoutMs: 5000, ...timeouts },
+    'Camp Monarch Seed Exchange <seeds@example.org>'
+  );
+
+  it('should send a message through the SMTP conversation', async () => {
+    server = new FakeSmtpServer();
+
+    await (await transport()).send(MESSAGE);
+
+    expect(server.commands).toEqual([
+      `EHLO ${os.hostname() || 'localhost'}`,
+      'MAIL FROM:<seeds@example.org>',
+      'RCPT TO:<robin@example.org>',
+      'DATA',
+      'QUIT'
+    ]);
+    const [headers, body] = server.data.split('\r\n\r\n');
+    expect(headers).toContain('From: Camp Monarch Seed Exchange <seeds@example.org>');
+    expect(headers).toContain('To: <robin@example.org>');
+    expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from(MESSAGE.subject).toString('base64')}?=`);
+    expect(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')).toBe('Hi Robin,\r\n\r\nThey shipped.');
+  });
+
+  it('should fail when the server rejects the recipient', async () => {
+    server = new FakeSmtpServer({ RCPT: '550 No such user' });
+
+    await expect((await transport()).send(MESSAGE)).rejects.toThrow('SMTP RCPT failed: 550 No such user');
+    expect(server.commands).not.toContain('DATA');
+  });
+
+  it('should fail when the server stops answering', async () => {
+    server = new FakeSmtpServer({ MAIL: null });
+
+    await expect((await transport(undefined, { timeoutMs: 100 })).send(MESSAGE)).rejects.toThrow('did not answer in time');
+  });
+
+  it('should fail when the TLS handshake after STARTTLS never finishes', async () => {
+    server = new FakeSmtpServer({ EHLO: '250-fake.example.org\r\n250 STARTTLS', STARTTLS: '220 Ready' });
+
+    await expect((await transport(undefined, { timeoutMs: 100 })).send(MESSAGE)).rejects.toThrow('handshake did not finish in time');
+  });
+
+  it('should fail when the whole message takes longer than the send timeout', async () => {
+    server = new FakeSmtpServer({ DATA: null });
+
+    await expect((await transport(undefined, { sendTimeoutMs: 100 })).send(MESSAGE)).rejects.toThrow('did not accept the message in time');
+  });
+
+  it('should refuse to send credentials over an unencrypted connection', async () => {
+    server = new FakeSmtpServer();
+
+    await expect((await transport('seeds@example.org')).send(MESSAGE)).rejects.toThrow('unencrypted');
+    expect(server.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should reject addresses that could inject commands', async () => {
+    server = new FakeSmtpServer();
+
+    await expect((await transport()).send({ ...MESSAGE, to: 'robin@example.org>\r\nRCPT TO:<eve@example.org' }))
+      .rejects.toThrow('Not a valid email address');
+    expect(server.commands).toEqual([]);
+  });
+});
+
+describe('FileNotificationTransport', () => {
+  it('should write each message to its own .eml file', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'seed-exchange-outbox-'));
+    try {
+      const transport = new FileNotificationTransport(path.join(directory, 'outbox'));
+      await transport.send(MESSAGE);
+      await transport.send({ ...MESSAGE, to: 'olive@example.org' });
+
+      const files = await fs.readdir(path.join(directory, 'outbox'));
+      expect(files).toHaveLength(2);
+      expect(files.every(file => file.endsWith('.eml'))).toBe(true);
+      const contents = await Promise.all(files.map(file => fs.readFile(path.join(directory, 'outbox', file), 'utf8')));
+      expect(contents.some(content => content.includes('To: <olive@example.org>'))).toBe(true);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('getNotificationTransportConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.SEED_EXCHANGE_NOTIFICATION_TRANSPORT;
+    delete process.env.SMTP_HOST;
+    delete process.env.SMTP_PORT;
+    delete process.env.SMTP_SECURE;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should default to the console transport', () => {
+    expect(getNotificationTransportConfig().transport).toBe('console');
+    expect(createNotificationTransport()).toBeInstanceOf(ConsoleNotificationTransport);
+  });
+
+  it('should read SMTP settings', () => {
+    process.env.SEED_EXCHANGE_NOTIFICATION_TRANSPORT = 'smtp';
+    process.env.SMTP_HOST = 'smtp.example.org';
+    process.env.SMTP_SECURE = 'true';
+
+    expect(getNotificationTransportConfig().smtp).toMatchObject({ host: 'smtp.example.org', port: 465, secure: true });
+  });
+
+  it('should reject unknown transports and SMTP without a host', () => {
+    process.env.SEED_EXCHANGE_NOTIFICATION_TRANSPORT = 'carrier-pigeon';
+    expect(() => getNotificationTransportConfig()).toThrow('smtp, file or console');
+
+    process.env.SEED_EXCHANGE_NOTIFICATION_TRANSPORT = 'smtp';
+    expect(() => getNotificationTransportConfig()).toThrow('SMTP_HOST');
+  });
+});
@@ -0,0 +1,397 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { EmailMessage, INotificationTransport } from './INotificationTransport';
+
+/**
+ * SMTP server settings
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Connect over TLS (usually port 465). Otherwise the connection is upgraded with STARTTLS when the server offers it. */
+  secure: boolean;
+  /** Sent with AUTH PLAIN, only over an encrypted connection */
+  username?: string;
+  password?: string;
+  /** How long to wait to connect, for each TLS handshake and for each server reply (default: 30 seconds) */
+  timeoutMs?: number;
+  /** How long sending one message may take in all, however the server paces its replies (default: 2 minutes) */
+  sendTimeoutMs?: number;
+}
+
+/**
+ * How notifications are sent
+ * - smtp: Through an SMTP server
+ * - file: Written as .eml files to a directory, for local testing
+ * - console: Printed to stdout, for local testing
+ */
+export type NotificationTransportType = 'smtp' | 'file' | 'console';
+
+/**
+ * Notification transport settings
+ */
+export interface NotificationTransportConfig {
+  transport: NotificationTransportType;
+  /** From header, e.g. `Camp Monarch Seed Exchange <seeds@example.org>` */
+  from: string;
+  /** Directory the file transport writes to */
+  directory?: string;
+  /** Server the smtp transport sends through */
+  smtp?: SmtpConfig;
+}
+
+/**
+ * Get notification transport settings from environment variables.
+ *
+ * Optional environment variables:
+ * - SEED_EXCHANGE_NOTIFICATION_TRANSPORT: smtp, file or console (default: console)
+ * - SEED_EXCHANGE_NOTIFICATION_FROM: From header (default: "Camp Monarch Seed Exchange <seed-exchange@localhost>")
+ * - SEED_EXCHANGE_NOTIFICATION_DIRECTORY: Directory for the file transport (default: "outbox")
+ * - SMTP_HOST: SMTP server (required for the smtp transport)
+ * - SMTP_PORT: SMTP port (default: 465 when SMTP_SECURE is true, otherwise 587)
+ * - SMTP_SECURE: "true" to connect over TLS instead of upgrading with STARTTLS
+ * - SMTP_USERNAME, SMTP_PASSWORD: Credentials, if the server requires them
+ */
+export function getNotificationTransportConfig(): NotificationTransportConfig {
+  const transport = (process.env.SEED_EXCHANGE_NOTIFICATION_TRANSPORT || 'console') as NotificationTransportType;
+  const from = process.env.SEED_EXCHANGE_NOTIFICATION_FROM || 'Camp Monarch Seed Exchange <seed-exchange@localhost>';
+
+  if (!['smtp', 'file', 'console'].includes(transport)) {
+    throw new Error(`SEED_EXCHANGE_NOTIFICATION_TRANSPORT must be smtp, file or console, got "${transport}"`);
+  }
+  if (transport !== 'smtp') {
+    return { transport, from, directory: process.env.SEED_EXCHANGE_NOTIFICATION_DIRECTORY || 'outbox' };
+  }
+
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('SMTP server is missing. Please set SMTP_HOST environment variable.');
+  }
+  const secure = process.env.SMTP_SECURE === 'true';
+  const port = Number(process.env.SMTP_PORT || (secure ? 465 : 587));
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error(`SMTP_PORT must be a positive integer, got "${process.env.SMTP_PORT}"`);
+  }
+
+  return {
+    transport,
+    from,
+    smtp: {
+      host,
+      port,
+      secure,
+      username: process.env.SMTP_USERNAME || undefined,
+      password: process.env.SMTP_PASSWORD || undefined
+    }
+  };
+}
+
+/**
+ * Create the transport described by a configuration
+ */
+export function createNotificationTransport(
+  config: NotificationTransportConfig = getNotificationTransportConfig()
+): INotificationTransport {
+  switch (config.transport) {
+    case 'smtp':
+      if (!config.smtp) {
+        throw new Error('The smtp notification transport needs SMTP settings');
+      }
+      return new SmtpNotificationTransport(config.smtp, config.from);
+    case 'file':
+      return new FileNotificationTransport(config.directory || 'outbox', config.from);
+    default:
+      return new ConsoleNotificationTransport();
+  }
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word, which also keeps line breaks out of it
+ */
+function encodeHeader(value: string): string {
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Ensure an address cannot inject headers or SMTP commands
+ */
+function validateAddress(address: string): void {
+  if (!/^[^\s<>]+@[^\s<>]+$/.test(address)) {
+    throw new Error(`Not a valid email address: ${JSON.stringify(address)}`);
+  }
+}
+
+/**
+ * The bare address in a From header such as `Name <address>`
+ */
+function envelopeAddress(from: string): string {
+  return /<([^>]+)>\s*$/.exec(from)?.[1] ?? from.trim();
+}
+
+/**
+ * Format a message as an RFC 5322 email with a base64-encoded UTF-8 body and CRLF line endings
+ */
+function formatEmail(message: EmailMessage, from: string, now: Date = new Date()): string {
+  validateAddress(message.to);
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${from.replace(/[\r\n]/g, '')}`,
+    `To: <${message.to}>`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${uuidv4()}@${envelopeAddress(from).split('@')[1] ?? 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+}
+
+/**
+ * Prints messages to stdout, for local testing
+ */
+export class ConsoleNotificationTransport implements INotificationTransport {
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`📧 To: ${message.to}\n   Subject: ${message.subject}\n\n${message.text}\n`);
+  }
+}
+
+/**
+ * Writes each message to its own .eml file, which mail clients can open, for local testing
+ */
+export class FileNotificationTransport implements INotificationTransport {
+  /**
+   * @param directory - Created if it does not exist
+   * @param from - From header written to the files
+   */
+  constructor(private readonly directory: string, private readonly from = 'seed-exchange@localhost') {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const now = new Date();
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${now.toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.eml`;
+    await fs.writeFile(path.join(this.directory, fileName), formatEmail(message, this.from, now));
+  }
+}
+
+/**
+ * A reply from an SMTP server: the status code and the text of each line
+ */
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Open a socket, failing if it does not connect (and finish any TLS handshake) within `timeoutMs`
+ * @param open - Opens the socket, calling `onConnect` once it is ready
+ */
+function openSocket<T extends net.Socket>(
+  open: (onConnect: () => void) => T,
+  timeoutMs: number,
+  timeoutMessage: string
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onTimeout = () => socket.destroy(new Error(timeoutMessage));
+    const socket = open(() => {
+      socket.setTimeout(0);
+      socket.off('timeout', onTimeout);
+      resolve(socket);
+    });
+    socket.setTimeout(timeoutMs);
+    socket.on('timeout', onTimeout);
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * One SMTP connection, reading the server's replies line by line
+ */
+class SmtpConnection {
+  private socket!: net.Socket;
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    for (let end = this.buffer.indexOf('\r\n'); end >= 0; end = this.buffer.indexOf('\r\n')) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.replyLines.push(line.slice(4));
+      // Every line of a multi-line reply but the last has a '-' after the code
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.replyLines });
+        this.replyLines = [];
+      }
+    }
+  };
+
+  private readonly onError = (error: Error) => {
+    this.failure = this.failure ?? error;
+    this.waiting?.reject(this.failure);
+    this.waiting = undefined;
+  };
+
+  private readonly onClose = () => this.onError(new Error('SMTP server closed the connection'));
+
+  constructor(socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP server did not answer in time')));
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(): void {
+    this.socket.setTimeout(0);
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+  }
+
+  private deliver(reply: SmtpReply): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    if (waiting) {
+      waiting.resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Send a command (or nothing, to read the greeting) and check the reply code
+   * @throws Naming only the command's verb, so credentials never end up in logs
+   */
+  async command(line: string | undefined, expectedCodes: number[]): Promise<SmtpReply> {
+    if (line !== undefined) {
+      this.socket.write(`${line}\r\n`);
+    }
+    const reply = await this.read();
+    if (!expectedCodes.includes(reply.code)) {
+      const verb = line === undefined ? 'greeting' : line.split(/[\s:]/)[0];
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  async upgrade(servername: string): Promise<void> {
+    const plain = this.socket;
+    this.detach();
+    const secure = await openSocket(
+      onConnect => tls.connect({ socket: plain, servername }, onConnect),
+      this.timeoutMs,
+      'SMTP TLS handshake did not finish in time'
+    );
+    this.attach(secure);
+  }
+
+  /**
+   * Fail the command under way, if any, and every later one
+   */
+  abort(error: Error): void {
+    this.socket.destroy(error);
+  }
+
+  close(): void {
+    this.detach();
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Sends messages through an SMTP server, one connection per message.
+ * Credentials are only sent over TLS, either from the start (`secure`) or after STARTTLS.
+ */
+export class SmtpNotificationTransport implements INotificationTransport {
+  /**
+   * @param config - SMTP server settings
+   * @param from - From header; its address is also the envelope sender
+   */
+  constructor(private readonly config: SmtpConfig, private readonly from: string) {}
+
+  private get timeoutMs(): number {
+    return this.config.timeoutMs ?? 30000;
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.config;
+    return openSocket(
+      onConnect => secure ? tls.connect({ host, port, servername: host }, onConnect) : net.connect({ host, port }, onConnect),
+      this.timeoutMs,
+      'Could not connect to the SMTP server in time'
+    );
+  }
+
+  /**
+   * @throws Error if the server rejects the message, or it cannot be sent within the timeouts
+   */
+  async send(message: EmailMessage): Promise<void> {
+    const email = formatEmail(message, this.from);
+    const connection = new SmtpConnection(await this.connect(), this.timeoutMs);
+    const deadline = setTimeout(
+      () => connection.abort(new Error('SMTP server did not accept the message in time')),
+      this.config.sendTimeoutMs ?? 120000
+    );
+
+    try {
+      const clientName = os.hostname() || 'localhost';
+      await connection.command(undefined, [220]);
+      const ehlo = await connection.command(`EHLO ${clientName}`, [250]);
+
+      let encrypted = this.config.secure;
+      if (!encrypted && ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(this.config.host);
+        await connection.command(`EHLO ${clientName}`, [250]);
+        encrypted = true;
+      }
+
+      if (this.config.username) {
+        if (!encrypted) {
+          throw new Error('Refusing to send SMTP credentials over an unencrypted connection');
+        }
+        const credentials = Buffer.from(`\0${this.config.username}\0${this.config.password ?? ''}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${envelopeAddress(this.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+      await connection.command(`${email}\r\n.`, [250]);
+      await connection.command('QUIT', [221]);
+    } finally {
+      clearTimeout(deadline);
+      connection.close();
+    }
+  }
+}
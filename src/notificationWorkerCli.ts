@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line interface for sending email notifications.
+ * Reads the change feed, queues templated emails for the parties of matched, shipped,
+ * received and expired exchanges, and sends due emails through the configured transport,
+ * until stopped. Run a single worker per database.
+ *
+ * Usage:
+ *   COSMOS_DB_ENDPOINT=https://... COSMOS_DB_KEY=... SEED_EXCHANGE_NOTIFICATION_TRANSPORT=smtp SMTP_HOST=... npm run notification-worker
+ *
+ * Set NOTIFICATION_POLL_INTERVAL_MS to change how often it polls (default: 30000).
+ */
+
+import { initializeNotificationStore } from './collectionsFactory';
+import { runChangeFeedWorker } from './changeFeedWorker';
+import { NotificationOutbox } from './notifications';
+import { createNotificationTransport, getNotificationTransportConfig } from './notificationTransports';
+
+async function main() {
+  try {
+    const transportConfig = getNotificationTransportConfig();
+    const outbox = new NotificationOutbox(
+      await initializeNotificationStore(),
+      createNotificationTransport(transportConfig)
+    );
+    await runChangeFeedWorker({
+      name: 'notifications',
+      description: `Sending notifications by ${transportConfig.transport}`,
+      intervalMs: Number(process.env.NOTIFICATION_POLL_INTERVAL_MS || 30000),
+      subscribeTo: emitter => outbox.subscribeTo(emitter),
+      afterChanges: async () => {
+        for (const message of await outbox.sendDue()) {
+          const outcome = message.status === 'sent' ? 'sent' : `${message.status} (${message.lastError})`;
+          console.log(`${message.eventType} to ${message.userId}: ${outcome}`);
+        }
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to start the notification worker:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { main };
@@ -0,0 +1,225 @@
+import {
+  InMemoryNotificationStore,
+  NotificationOutbox,
+  defaultNotificationPreferences
+} from './notifications';
+import { EmailMessage, INotificationTransport } from './INotificationTransport';
+import { DomainEventProcessor, InMemoryLeaseStore, toDomainEvent } from './domainEvents';
+import { SeedExchangeCollections } from './collections';
+import {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  MarkShipped,
+  MarkReceived,
+  GetNotificationPreferences,
+  UpdateNotificationPreferences
+} from './api';
+import { ExchangeOptions } from './exchangeConfig';
+import { AzureUserToken, SeedExchange } from './types';
+
+const requester: AzureUserToken = { userId: 'requester', email: 'requester@example.org', name: 'Robin' };
+const offerer: AzureUserToken = { userId: 'offerer', email: 'offerer@example.org', name: 'Olive' };
+
+/**
+ * Records sent messages, failing the first `failures` sends
+ */
+class RecordingTransport implements INotificationTransport {
+  readonly sent: EmailMessage[] = [];
+  failures = 0;
+
+  async send(message: EmailMessage): Promise<void> {
+    if (this.failures > 0) {
+      this.failures -= 1;
+      throw new Error('Mail server unavailable');
+    }
+    this.sent.push(message);
+  }
+}
+
+describe('Notification outbox', () => {
+  let collections: SeedExchangeCollections;
+  let store: InMemoryNotificationStore;
+  let transport: RecordingTransport;
+  let processor: DomainEventProcessor;
+  let outbox: NotificationOutbox;
+  let options: ExchangeOptions;
+
+  beforeEach(() => {
+    collections = new SeedExchangeCollections();
+    store = new InMemoryNotificationStore();
+    transport = new RecordingTransport();
+    processor = new DomainEventProcessor('notifications', collections, new InMemoryLeaseStore());
+    outbox = new NotificationOutbox(store, transport, { maxAttempts: 2, initialBackoffMs: 1000 });
+    outbox.subscribeTo(processor.emitter);
+    options = { notificationStore: store };
+  });
+
+  afterEach(() => {
+    outbox.stop();
+  });
+
+  const matchExchange = async () => {
+    await SubmitSeedRequest(requester, 'milkweed', collections, 2, options);
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', 2, collections, options);
+    await processor.processChanges();
+    return offer.filledExchanges[0];
+  };
+
+  it('should record submitters\' email addresses from their tokens', async () => {
+    await SubmitSeedRequest(requester, 'milkweed', collections, 1, options);
+
+    expect(await store.getPreferences('requester')).toMatchObject({
+      email: 'requester@example.org',
+      name: 'Robin',
+      enabled: true
+    });
+  });
+
+  it('should email both parties when an exchange is matched', async () => {
+    const exchange = await matchExchange();
+    await outbox.sendDue();
+
+    expect(transport.sent.map(message => [message.to, message.subject])).toEqual([
+      ['requester@example.org', 'Your request for milkweed seeds was matched'],
+      ['offerer@example.org', 'Please ship milkweed seeds']
+    ]);
+    expect(transport.sent[1].text).toContain('Hi Olive,');
+    expect(transport.sent[1].text).toContain('2 packets of milkweed');
+    expect(transport.sent[1].text).toContain(exchange.id);
+  });
+
+  it('should email the requester on shipment and the offerer on receipt', async () => {
+    const exchange = await matchExchange();
+    await outbox.sendDue();
+    transport.sent.length = 0;
+
+    await MarkShipped(offerer, exchange.id, collections);
+    await processor.processChanges();
+    await MarkReceived(requester, exchange.id, collections);
+    await processor.processChanges();
+    await outbox.sendDue();
+
+    expect(transport.sent.map(message => [message.to, message.subject])).toEqual([
+      ['requester@example.org', 'Your milkweed seeds are on their way'],
+      ['offerer@example.org', 'Your milkweed seeds arrived']
+    ]);
+  });
+
+  it('should email the match of an exchange shipped before the events were read', async () => {
+    await SubmitSeedRequest(requester, 'milkweed', collections, 2, options);
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', 2, collections, options);
+    await MarkShipped(offerer, offer.filledExchanges[0].id, collections);
+    await processor.processChanges();
+    await outbox.sendDue();
+
+    expect(transport.sent.map(message => [message.to, message.subject])).toEqual([
+      ['requester@example.org', 'Your request for milkweed seeds was matched'],
+      ['offerer@example.org', 'Please ship milkweed seeds'],
+      ['requester@example.org', 'Your milkweed seeds are on their way']
+    ]);
+  });
+
+  it('should email the owner of an expired entry', async () => {
+    await store.setPreferences({ ...defaultNotificationPreferences('offerer'), email: 'offerer@example.org' });
+    const expired: SeedExchange = {
+      id: 'aster:1',
+      plantId: 'aster',
+      status: 'expired',
+      requestUserId: null,
+      offerUserId: 'offerer',
+      quantity: 1,
+      seedRequestTime: null,
+      seedOfferTime: new Date('2025-01-01T00:00:00Z'),
+      confirmationTime: null,
+      shipTime: null,
+      receivedTime: null
+    };
+
+    const [message] = await outbox.enqueue(toDomainEvent(expired));
+
+    expect(message).toMatchObject({ userId: 'offerer', subject: 'Your offer of aster seeds expired', status: 'pending' });
+  });
+
+  it('should respect users\' preferences', async () => {
+    await SubmitSeedRequest(requester, 'milkweed', collections, 1, options);
+    await UpdateNotificationPreferences(requester, { eventTypes: ['ExchangeShipped'] }, store);
+    await UpdateNotificationPreferences(offerer, { enabled: false }, store);
+
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', 1, collections, options);
+    await processor.processChanges();
+    await MarkShipped(offerer, offer.filledExchanges[0].id, collections);
+    await processor.processChanges();
+
+    expect((await store.getMessagesByUser('requester')).map(message => message.eventType)).toEqual(['ExchangeShipped']);
+    expect(await store.getMessagesByUser('offerer')).toEqual([]);
+  });
+
+  it('should skip users without an email address', async () => {
+    const anonymous: AzureUserToken = { userId: 'anonymous' };
+    await SubmitSeedRequest(anonymous, 'milkweed', collections, 1, options);
+    await SubmitSeedOffer(offerer, 'milkweed', 1, collections, options);
+    await processor.processChanges();
+
+    expect(await store.getPreferences('anonymous')).toBeUndefined();
+    expect((await store.getDueMessages(new Date(), 10)).map(message => message.userId)).toEqual(['offerer']);
+  });
+
+  it('should queue an event seen twice only once', async () => {
+    await matchExchange();
+
+    const restarted = new DomainEventProcessor('notifications', collections, new InMemoryLeaseStore());
+    outbox.subscribeTo(restarted.emitter);
+    await restarted.processChanges();
+
+    expect(await store.getDueMessages(new Date(), 10)).toHaveLength(2);
+  });
+
+  it('should retry failed sends with backoff and give up after the last attempt', async () => {
+    await matchExchange();
+    transport.failures = 3;
+    const now = new Date();
+
+    const first = await outbox.sendDue(now);
+    expect(first.map(message => message.status)).toEqual(['pending', 'pending']);
+    expect(first[0]).toMatchObject({ attempts: 1, lastError: 'Mail server unavailable' });
+    expect(first[0].nextAttemptTime).toEqual(new Date(now.getTime() + 1000));
+    expect(await outbox.sendDue(now)).toEqual([]);
+
+    const second = await outbox.sendDue(new Date(now.getTime() + 1000));
+    expect(second.map(message => message.status)).toEqual(['failed', 'sent']);
+    expect(transport.sent.map(message => message.to)).toEqual(['offerer@example.org']);
+  });
+});
+
+describe('Notification preferences API', () => {
+  let store: InMemoryNotificationStore;
+
+  beforeEach(() => {
+    store = new InMemoryNotificationStore();
+  });
+
+  it('should return defaults with the token\'s address for users who have not set any', async () => {
+    expect(await GetNotificationPreferences(requester, store)).toMatchObject({
+      userId: 'requester',
+      email: 'requester@example.org',
+      enabled: true,
+      eventTypes: ['ExchangeMatched', 'ExchangeShipped', 'ExchangeReceived', 'ExchangeExpired']
+    });
+    expect(await store.getPreferences('requester')).toBeUndefined();
+  });
+
+  it('should change only the given fields', async () => {
+    await UpdateNotificationPreferences(requester, { enabled: false }, store);
+    const updated = await UpdateNotificationPreferences(requester, { eventTypes: ['ExchangeMatched'] }, store);
+
+    expect(updated).toMatchObject({ enabled: false, eventTypes: ['ExchangeMatched'], email: 'requester@example.org' });
+    expect(await GetNotificationPreferences(requester, store)).toEqual(updated);
+  });
+
+  it('should reject invalid preferences', async () => {
+    await expect(UpdateNotificationPreferences(requester, { enabled: 'yes' as never }, store))
+      .rejects.toMatchObject({ code: 'INVALID_NOTIFICATION_PREFERENCES' });
+    await expect(UpdateNotificationPreferences(requester, { eventTypes: ['RequestOpened' as never] }, store))
+      .rejects.toMatchObject({ code: 'INVALID_NOTIFICATION_PREFERENCES' });
+  });
+});
@@ -0,0 +1,327 @@
+import { SeedExchange } from './types';
+import { ExchangeRole } from './ISeedExchangeCollections';
+import { DomainEvent, DomainEventEmitter } from './domainEvents';
+import {
+  INotificationStore,
+  NotificationEventType,
+  NotificationPreferences,
+  OutboxMessage
+} from './INotificationStore';
+import { INotificationTransport } from './INotificationTransport';
+import { startPolling, StopPolling } from './polling';
+
+/**
+ * Every event users can be emailed about; new users are sent all of them
+ */
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = [
+  'ExchangeMatched',
+  'ExchangeShipped',
+  'ExchangeReceived',
+  'ExchangeExpired'
+];
+
+/**
+ * Subject and body of a notification
+ */
+export interface NotificationContent {
+  subject: string;
+  text: string;
+}
+
+/**
+ * Renders the notification one party of an exchange receives for an event
+ */
+export type NotificationTemplate = (exchange: SeedExchange, recipient: NotificationPreferences) => NotificationContent;
+
+/**
+ * Templates per event and per party. A party without a template for an event is not notified of it.
+ */
+export type NotificationTemplates = Record<NotificationEventType, Partial<Record<ExchangeRole, NotificationTemplate>>>;
+
+/**
+ * Greeting line for a recipient
+ */
+function greet(recipient: NotificationPreferences): string {
+  return `Hi ${recipient.name ?? 'there'},`;
+}
+
+/**
+ * "2 packets of milkweed"
+ */
+function describePackets(exchange: SeedExchange): string {
+  return `${exchange.quantity} ${exchange.quantity === 1 ? 'packet' : 'packets'} of ${exchange.plantId}`;
+}
+
+/**
+ * Closing lines, with the exchange id for reference
+ */
+function signOff(exchange: SeedExchange): string {
+  return `Exchange: ${exchange.id}\n\nTo change which emails you receive, update your notification preferences.\n\nCamp Monarch Seed Exchange`;
+}
+
+/**
+ * Plain-text templates used when the outbox is not given its own
+ */
+export const DEFAULT_NOTIFICATION_TEMPLATES: NotificationTemplates = {
+  ExchangeMatched: {
+    requester: (exchange, recipient) => ({
+      subject: `Your request for ${exchange.plantId} seeds was matched`,
+      text: `${greet(recipient)}\n\nGood news: someone is sending you ${describePackets(exchange)}. `
+        + `We will email you again when they are on their way.\n\n${signOff(exchange)}`
+    }),
+    offerer: (exchange, recipient) => ({
+      subject: `Please ship ${exchange.plantId} seeds`,
+      text: `${greet(recipient)}\n\nYour offer was matched with a request for ${describePackets(exchange)}. `
+        + `Please ship them and mark the exchange as shipped.\n\n${signOff(exchange)}`
+    })
+  },
+  ExchangeShipped: {
+    requester: (exchange, recipient) => ({
+      subject: `Your ${exchange.plantId} seeds are on their way`,
+      text: `${greet(recipient)}\n\n${describePackets(exchange)} ${exchange.quantity === 1 ? 'has' : 'have'} been shipped to you. `
+        + `Please mark the exchange as received when they arrive.\n\n${signOff(exchange)}`
+    })
+  },
+  ExchangeReceived: {
+    offerer: (exchange, recipient) => ({
+      subject: `Your ${exchange.plantId} seeds arrived`,
+      text: `${greet(recipient)}\n\nThe ${describePackets(exchange)} you shipped ${exchange.quantity === 1 ? 'has' : 'have'} arrived. `
+        + `Thank you for sharing your seeds!\n\n${signOff(exchange)}`
+    })
+  },
+  ExchangeExpired: {
+    requester: (exchange, recipient) => ({
+      subject: `Your request for ${exchange.plantId} seeds expired`,
+      text: `${greet(recipient)}\n\nNobody offered ${describePackets(exchange)} in time, so your request has expired. `
+        + `You are welcome to request them again.\n\n${signOff(exchange)}`
+    }),
+    offerer: (exchange, recipient) => ({
+      subject: `Your offer of ${exchange.plantId} seeds expired`,
+      text: `${greet(recipient)}\n\nNobody requested your ${describePackets(exchange)} in time, so your offer has expired. `
+        + `You are welcome to offer them again.\n\n${signOff(exchange)}`
+    })
+  }
+};
+
+/**
+ * Preferences of a user who has not set any: every notification on
+ */
+export function defaultNotificationPreferences(userId: string, now: Date = new Date()): NotificationPreferences {
+  return { userId, enabled: true, eventTypes: [...NOTIFICATION_EVENT_TYPES], updatedTime: now };
+}
+
+/**
+ * In-memory implementation of notification storage
+ */
+export class InMemoryNotificationStore implements INotificationStore {
+  private preferences = new Map<string, NotificationPreferences>();
+  private messages = new Map<string, OutboxMessage>();
+
+  async getPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const preferences = this.preferences.get(userId);
+    return preferences ? { ...preferences, eventTypes: [...preferences.eventTypes] } : undefined;
+  }
+
+  async setPreferences(preferences: NotificationPreferences): Promise<void> {
+    this.preferences.set(preferences.userId, { ...preferences, eventTypes: [...preferences.eventTypes] });
+  }
+
+  async addMessages(messages: OutboxMessage[]): Promise<void> {
+    for (const message of messages) {
+      if (!this.messages.has(message.id)) {
+        this.messages.set(message.id, { ...message });
+      }
+    }
+  }
+
+  async getMessagesByUser(userId: string): Promise<OutboxMessage[]> {
+    return Array.from(this.messages.values())
+      .filter(message => message.userId === userId)
+      .sort((a, b) => a.createdTime.getTime() - b.createdTime.getTime())
+      .map(message => ({ ...message }));
+  }
+
+  async getDueMessages(now: Date, limit: number): Promise<OutboxMessage[]> {
+    return Array.from(this.messages.values())
+      .filter(message => message.status === 'pending' && message.nextAttemptTime <= now)
+      .sort((a, b) => a.nextAttemptTime.getTime() - b.nextAttemptTime.getTime())
+      .slice(0, limit)
+      .map(message => ({ ...message }));
+  }
+
+  async updateMessage(message: OutboxMessage): Promise<void> {
+    this.messages.set(message.id, { ...message });
+  }
+
+  async clear(): Promise<void> {
+    this.preferences.clear();
+    this.messages.clear();
+  }
+}
+
+/**
+ * Retry settings for outbox messages
+ */
+export interface NotificationOutboxConfig {
+  /** Attempts before a message is marked failed */
+  maxAttempts: number;
+  /** Wait after the first failed attempt; each later failure doubles it */
+  initialBackoffMs: number;
+  /** Longest wait between attempts */
+  maxBackoffMs: number;
+  /** Templates to render messages with (merged over DEFAULT_NOTIFICATION_TEMPLATES per event) */
+  templates: Partial<NotificationTemplates>;
+}
+
+/**
+ * Defaults: five attempts over roughly two and a half hours
+ */
+export const DEFAULT_NOTIFICATION_OUTBOX_CONFIG: NotificationOutboxConfig = {
+  maxAttempts: 5,
+  initialBackoffMs: 10 * 60 * 1000,
+  maxBackoffMs: 60 * 60 * 1000,
+  templates: {}
+};
+
+/**
+ * Largest number of messages sent in one pass
+ */
+const SEND_BATCH_SIZE = 50;
+
+/**
+ * Queues templated emails for the parties of exchanges that were matched, shipped, received or
+ * expired, and sends the queued messages through a transport. Messages are only queued for users
+ * whose preferences hold an email address and allow the event. Failed sends are retried with
+ * exponential backoff. Run a single outbox per store: two would send due messages twice.
+ */
+export class NotificationOutbox {
+  private readonly config: NotificationOutboxConfig;
+  private readonly templates: NotificationTemplates;
+  private stopPolling?: StopPolling;
+
+  /**
+   * @param store - Preferences and the outbox
+   * @param transport - Sends the messages
+   * @param config - Retry settings and templates (merged over DEFAULT_NOTIFICATION_OUTBOX_CONFIG)
+   */
+  constructor(
+    private readonly store: INotificationStore,
+    private readonly transport: INotificationTransport,
+    config: Partial<NotificationOutboxConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_NOTIFICATION_OUTBOX_CONFIG, ...config };
+    this.templates = { ...DEFAULT_NOTIFICATION_TEMPLATES, ...this.config.templates };
+  }
+
+  /**
+   * Queue notifications for every event published by an emitter
+   * @returns A function that stops queueing
+   */
+  subscribeTo(emitter: DomainEventEmitter): () => void {
+    return emitter.on('*', async event => {
+      await this.enqueue(event);
+    });
+  }
+
+  /**
+   * Queue the notifications an event calls for
+   * @returns The messages queued (including any already queued for the same event)
+   */
+  async enqueue(event: DomainEvent, now: Date = new Date()): Promise<OutboxMessage[]> {
+    if (!NOTIFICATION_EVENT_TYPES.includes(event.type as NotificationEventType)) {
+      return [];
+    }
+    const eventType = event.type as NotificationEventType;
+    const parties: Array<[ExchangeRole, string | null]> = [
+      ['requester', event.exchange.requestUserId],
+      ['offerer', event.exchange.offerUserId]
+    ];
+
+    const messages: OutboxMessage[] = [];
+    for (const [role, userId] of parties) {
+      const template = this.templates[eventType][role];
+      if (!template || !userId) {
+        continue;
+      }
+
+      const recipient = await this.store.getPreferences(userId);
+      if (!recipient?.email || !recipient.enabled || !recipient.eventTypes.includes(eventType)) {
+        continue;
+      }
+
+      const { subject, text } = template(event.exchange, recipient);
+      messages.push({
+        id: `${event.id}:${userId}`,
+        userId,
+        eventId: event.id,
+        eventType,
+        to: recipient.email,
+        subject,
+        text,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptTime: now,
+        createdTime: now
+      });
+    }
+
+    await this.store.addMessages(messages);
+    return messages;
+  }
+
+  /**
+   * Wait before the attempt after `attempts` failed ones
+   */
+  private backoff(attempts: number): number {
+    return Math.min(this.config.initialBackoffMs * 2 ** (attempts - 1), this.config.maxBackoffMs);
+  }
+
+  /**
+   * Send every message that is due
+   * @returns The messages attempted, with their new state
+   */
+  async sendDue(now: Date = new Date()): Promise<OutboxMessage[]> {
+    const attempted: OutboxMessage[] = [];
+
+    for (const message of await this.store.getDueMessages(now, SEND_BATCH_SIZE)) {
+      const attempts = message.attempts + 1;
+      let updated: OutboxMessage;
+      try {
+        await this.transport.send({ to: message.to, subject: message.subject, text: message.text });
+        updated = { ...message, status: 'sent', attempts, sentTime: now, lastError: undefined };
+      } catch (error) {
+        const failed = attempts >= this.config.maxAttempts;
+        updated = {
+          ...message,
+          status: failed ? 'failed' : 'pending',
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error),
+          nextAttemptTime: failed ? message.nextAttemptTime : new Date(now.getTime() + this.backoff(attempts))
+        };
+      }
+
+      await this.store.updateMessage(updated);
+      attempted.push(updated);
+    }
+
+    return attempted;
+  }
+
+  /**
+   * Send due messages every `intervalMs` until stop() is called
+   * @param onError - Called when a pass fails, e.g. because the store is unavailable
+   */
+  start(intervalMs = 30000, onError: (error: unknown) => void = error => console.error('Sending notifications failed:', error)): void {
+    if (!this.stopPolling) {
+      this.stopPolling = startPolling(() => this.sendDue(), intervalMs, onError);
+    }
+  }
+
+  /**
+   * Stop sending messages. A pass already under way runs to completion.
+   */
+  stop(): void {
+    this.stopPolling?.();
+    this.stopPolling = undefined;
+  }
+}
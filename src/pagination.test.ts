@@ -0,0 +1,111 @@
+import { ISeedExchangeCollections } from './ISeedExchangeCollections';
+import { SeedExchangeCollections } from './collections';
+import { EventSourcedSeedExchangeCollections, InMemoryExchangeEventStore } from './eventSourcedCollections';
+import { SqliteSeedExchangeCollections } from './sqliteCollections';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './pagination';
+import { SeedExchange } from './types';
+import { ValidationError } from './errors';
+
+describe.each([
+  ['in-memory', () => new SeedExchangeCollections()],
+  ['event-sourced', () => new EventSourcedSeedExchangeCollections(new InMemoryExchangeEventStore())],
+  ['SQLite', () => new SqliteSeedExchangeCollections(':memory:')]
+])('Pagination (%s collections)', (_name, createCollections: () => ISeedExchangeCollections) => {
+  let collections: ISeedExchangeCollections;
+
+  function exchange(id: string, overrides: Partial<SeedExchange> = {}): SeedExchange {
+    return {
+      id,
+      plantId: 'milkweed-001',
+      status: 'confirmed',
+      requestUserId: 'user-1',
+      offerUserId: 'user-2',
+      quantity: 1,
+      seedRequestTime: new Date('2025-01-01'),
+      seedOfferTime: new Date('2025-01-02'),
+      confirmationTime: new Date('2025-01-02'),
+      shipTime: null,
+      receivedTime: null,
+      ...overrides
+    };
+  }
+
+  async function readAllPages(
+    readPage: (continuationToken?: string) => Promise<{ exchanges: SeedExchange[]; continuationToken?: string }>
+  ): Promise<string[][]> {
+    const pages: string[][] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await readPage(continuationToken);
+      pages.push(page.exchanges.map(ex => ex.id));
+      continuationToken = page.continuationToken;
+    } while (continuationToken);
+    return pages;
+  }
+
+  beforeEach(async () => {
+    collections = createCollections();
+    for (const id of ['e', 'c', 'a', 'd', 'b']) {
+      await collections.addExchange(exchange(id));
+    }
+  });
+
+  afterEach(() => {
+    if (collections instanceof SqliteSeedExchangeCollections) {
+      collections.close();
+    }
+  });
+
+  it('should page through all exchanges in id order', async () => {
+    const pages = await readAllPages(continuationToken => collections.getAllExchangesPage({ pageSize: 2, continuationToken }));
+
+    expect(pages).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  it('should return a single page without a token when everything fits', async () => {
+    const page = await collections.getAllExchangesPage();
+
+    expect(page.exchanges).toHaveLength(5);
+    expect(page.continuationToken).toBeUndefined();
+  });
+
+  it('should only page through the user\'s exchanges', async () => {
+    await collections.addExchange(exchange('f', { requestUserId: 'user-3' }));
+    await collections.addExchange(exchange('g', { requestUserId: 'user-3', offerUserId: 'user-1' }));
+
+    const pages = await readAllPages(continuationToken =>
+      collections.getExchangesByUserPage('user-3', { pageSize: 1, continuationToken }));
+
+    expect(pages).toEqual([['f'], ['g']]);
+  });
+
+  it('should only page through confirmed exchanges', async () => {
+    await collections.addExchange(exchange('aa', {
+      status: 'open-request',
+      offerUserId: null,
+      seedOfferTime: null,
+      confirmationTime: null
+    }));
+
+    const pages = await readAllPages(continuationToken =>
+      collections.getConfirmedExchangesPage({ pageSize: 3, continuationToken }));
+
+    expect(pages).toEqual([['a', 'b', 'c'], ['d', 'e']]);
+  });
+
+  it('should reject page sizes outside 1 to MAX_PAGE_SIZE', async () => {
+    await expect(collections.getAllExchangesPage({ pageSize: 0 })).rejects.toMatchObject({ code: 'INVALID_PAGE_SIZE' });
+    await expect(collections.getAllExchangesPage({ pageSize: MAX_PAGE_SIZE + 1 })).rejects.toThrow(ValidationError);
+    await expect(collections.getAllExchangesPage({ pageSize: 1.5 })).rejects.toThrow(ValidationError);
+    expect(DEFAULT_PAGE_SIZE).toBeLessThanOrEqual(MAX_PAGE_SIZE);
+  });
+});
+
+describe('Offset continuation tokens', () => {
+  it('should reject tokens that are not offsets', async () => {
+    const collections = new SeedExchangeCollections();
+
+    await expect(collections.getAllExchangesPage({ continuationToken: 'not-a-token' }))
+      .rejects.toMatchObject({ code: 'INVALID_CONTINUATION_TOKEN' });
+  });
+});
@@ -0,0 +1,63 @@
+import { SeedExchange } from './types';
+import { PageOptions, ExchangePage } from './ISeedExchangeCollections';
+import { ValidationError } from './errors';
+
+/**
+ * Page size used when a list query does not ask for one
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Largest page a list query may ask for
+ */
+export const MAX_PAGE_SIZE = 500;
+
+/**
+ * Validate a requested page size, falling back to DEFAULT_PAGE_SIZE
+ * @throws ValidationError if the page size is not an integer between 1 and MAX_PAGE_SIZE
+ */
+export function resolvePageSize(pageSize?: number): number {
+  if (pageSize === undefined) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new ValidationError(`Page size must be an integer between 1 and ${MAX_PAGE_SIZE}`, 'INVALID_PAGE_SIZE');
+  }
+  return pageSize;
+}
+
+/**
+ * Order exchanges by id, the stable order every backend pages in
+ */
+export function compareExchangeIds(a: SeedExchange, b: SeedExchange): number {
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Read the offset stored in an offset continuation token (0 when there is no token)
+ * @throws ValidationError if the token is not an offset
+ */
+export function parseOffsetToken(continuationToken?: string): number {
+  if (continuationToken === undefined) {
+    return 0;
+  }
+  if (!/^\d+$/.test(continuationToken)) {
+    throw new ValidationError('Continuation token is not valid for this query', 'INVALID_CONTINUATION_TOKEN');
+  }
+  return Number(continuationToken);
+}
+
+/**
+ * Slice one page out of a fully loaded result, using the offset of the next page as the continuation token
+ * @param exchanges - The whole result, already in page order
+ * @throws ValidationError if the page size or continuation token is invalid
+ */
+export function pageByOffset(exchanges: SeedExchange[], options: PageOptions = {}): ExchangePage {
+  const pageSize = resolvePageSize(options.pageSize);
+  const offset = parseOffsetToken(options.continuationToken);
+  const end = offset + pageSize;
+  return {
+    exchanges: exchanges.slice(offset, end),
+    continuationToken: end < exchanges.length ? String(end) : undefined
+  };
+}
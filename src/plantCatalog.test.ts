@@ -0,0 +1,130 @@
+import { PlantCatalog, normalizePlantName, getPlantLookupKeys } from './plantCatalog';
+import { DEFAULT_PLANTS } from './defaultPlants';
+import { SubmitSeedOffer, SubmitSeedRequest } from './api';
+import { SeedExchangeCollections } from './collections';
+import { AzureUserToken, Plant } from './types';
+import { ConflictError, ValidationError } from './errors';
+
+describe('Plant Catalog', () => {
+  const redTomato: Plant = {
+    id: 'tomato-red',
+    commonName: 'Red Tomato',
+    scientificName: 'Solanum lycopersicum',
+    aliases: ['beefsteak tomato'],
+    category: 'other'
+  };
+
+  let catalog: PlantCatalog;
+
+  beforeEach(() => {
+    catalog = new PlantCatalog(DEFAULT_PLANTS);
+  });
+
+  describe('normalizePlantName', () => {
+    it('should fold case, whitespace, hyphens and underscores', () => {
+      expect(normalizePlantName('Tomato-Red')).toBe('tomato-red');
+      expect(normalizePlantName('tomato red')).toBe('tomato-red');
+      expect(normalizePlantName('  TOMATO__red ')).toBe('tomato-red');
+    });
+
+    it('should index a plant under its id and every name', () => {
+      expect(getPlantLookupKeys(redTomato)).toEqual([
+        'tomato-red',
+        'red-tomato',
+        'solanum-lycopersicum',
+        'beefsteak-tomato'
+      ]);
+    });
+  });
+
+  describe('findPlant', () => {
+    it('should find plants by id, alias, common name and scientific name', async () => {
+      expect((await catalog.findPlant('butterfly-weed'))?.id).toBe('butterfly-weed');
+      expect((await catalog.findPlant('Orange Milkweed'))?.id).toBe('butterfly-weed');
+      expect((await catalog.findPlant('Butterfly Weed'))?.id).toBe('butterfly-weed');
+      expect((await catalog.findPlant('asclepias tuberosa'))?.id).toBe('butterfly-weed');
+    });
+
+    it('should return undefined for unknown names', async () => {
+      expect(await catalog.findPlant('butterfly-wed')).toBeUndefined();
+    });
+  });
+
+  describe('addPlant', () => {
+    it('should add a plant that can then be found', async () => {
+      await catalog.addPlant(redTomato);
+
+      expect(await catalog.getPlant('tomato-red')).toEqual(redTomato);
+      expect((await catalog.findPlant('Beefsteak Tomato'))?.id).toBe('tomato-red');
+    });
+
+    it('should reject a plant whose names clash with an existing plant', async () => {
+      const clash: Plant = { ...redTomato, aliases: ['Swamp Milkweed'] };
+
+      await expect(catalog.addPlant(clash)).rejects.toThrow(ConflictError);
+      await expect(catalog.addPlant(clash)).rejects.toMatchObject({ code: 'PLANT_ALREADY_EXISTS' });
+      expect(await catalog.getPlant('tomato-red')).toBeUndefined();
+    });
+
+    it('should reject ids that are not in normalized form', async () => {
+      await expect(catalog.addPlant({ ...redTomato, id: 'Tomato Red' })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('listPlants and removePlant', () => {
+    it('should filter by category', async () => {
+      const hosts = await catalog.listPlants('monarch-host');
+
+      expect(hosts.map(plant => plant.id)).toEqual(['butterfly-weed', 'common-milkweed', 'swamp-milkweed']);
+    });
+
+    it('should remove a plant and its aliases', async () => {
+      await catalog.removePlant('butterfly-weed');
+
+      expect(await catalog.findPlant('orange milkweed')).toBeUndefined();
+      await catalog.addPlant({ ...redTomato, aliases: ['orange milkweed'] });
+      expect((await catalog.findPlant('orange milkweed'))?.id).toBe('tomato-red');
+    });
+  });
+
+  describe('exchange API with a catalog', () => {
+    let collections: SeedExchangeCollections;
+    let user1: AzureUserToken;
+    let user2: AzureUserToken;
+
+    beforeEach(() => {
+      collections = new SeedExchangeCollections();
+      user1 = { userId: 'user-1', email: 'user1@example.com', name: 'User 1' };
+      user2 = { userId: 'user-2', email: 'user2@example.com', name: 'User 2' };
+    });
+
+    it('should store submissions under the canonical plant id', async () => {
+      const result = await SubmitSeedOffer(user1, 'Butterfly Milkweed', 2, collections, { catalog });
+
+      expect(result.remainingOffer?.plantId).toBe('butterfly-weed');
+    });
+
+    it('should match offers and requests made under different names for the same plant', async () => {
+      await SubmitSeedOffer(user1, 'Asclepias tuberosa', 1, collections, { catalog });
+
+      const result = await SubmitSeedRequest(user2, 'orange_milkweed', collections, 1, { catalog });
+
+      expect(result.filled).toBe(true);
+      expect(result.exchange?.plantId).toBe('butterfly-weed');
+    });
+
+    it('should reject plant ids that are not in the catalog', async () => {
+      await expect(SubmitSeedOffer(user1, 'butterfly-wed', 1, collections, { catalog }))
+        .rejects.toMatchObject({ code: 'UNKNOWN_PLANT_ID' });
+      await expect(SubmitSeedRequest(user2, 'tomato red', collections, 1, { catalog }))
+        .rejects.toThrow(ValidationError);
+      expect(await collections.getAllExchanges()).toHaveLength(0);
+    });
+
+    it('should accept any plant id when no catalog is configured', async () => {
+      const result = await SubmitSeedOffer(user1, 'tomato red', 1, collections);
+
+      expect(result.remainingOffer?.plantId).toBe('tomato red');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { Plant, PlantCategory } from './types';
+import { IPlantCatalog } from './IPlantCatalog';
+import { ConflictError, ValidationError } from './errors';
+
+/**
+ * All plant categories, in display order
+ */
+export const PLANT_CATEGORIES: readonly PlantCategory[] = ['monarch-host', 'nectar', 'other'];
+
+/**
+ * Normalize a plant id or name for lookup: lowercase, trimmed,
+ * with runs of spaces, hyphens and underscores collapsed to a single hyphen.
+ * 'Tomato-Red', 'tomato red' and ' TOMATO_RED ' all normalize to 'tomato-red'.
+ */
+export function normalizePlantName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_-]+/g, '-');
+}
+
+/**
+ * Every normalized name a plant can be found by
+ */
+export function getPlantLookupKeys(plant: Plant): string[] {
+  const names = [plant.id, plant.commonName, plant.scientificName, ...plant.aliases];
+  return Array.from(new Set(names.map(normalizePlantName).filter(key => key !== '')));
+}
+
+/**
+ * Ensure a plant has the fields required by the catalog
+ */
+export function validatePlant(plant: Plant): void {
+  if (typeof plant.id !== 'string' || plant.id.trim() === '') {
+    throw new ValidationError('Plant id must be a non-empty string', 'INVALID_PLANT');
+  }
+  if (plant.id !== normalizePlantName(plant.id)) {
+    throw new ValidationError(
+      `Plant id "${plant.id}" must be lowercase with hyphens, e.g. "${normalizePlantName(plant.id)}"`,
+      'INVALID_PLANT'
+    );
+  }
+  if (typeof plant.commonName !== 'string' || plant.commonName.trim() === '') {
+    throw new ValidationError('Plant common name must be a non-empty string', 'INVALID_PLANT');
+  }
+  if (!PLANT_CATEGORIES.includes(plant.category)) {
+    throw new ValidationError(`Unknown plant category: ${plant.category}`, 'INVALID_PLANT');
+  }
+}
+
+/**
+ * In-memory plant catalog
+ */
+export class PlantCatalog implements IPlantCatalog {
+  private plants: Map<string, Plant> = new Map();
+  private lookup: Map<string, string> = new Map();
+
+  /**
+   * @param plants - Plants to load into the catalog
+   */
+  constructor(plants: Plant[] = []) {
+    for (const plant of plants) {
+      this.insert(plant);
+    }
+  }
+
+  /**
+   * Validate a plant and index it under all of its lookup keys
+   */
+  private insert(plant: Plant): void {
+    validatePlant(plant);
+
+    const keys = getPlantLookupKeys(plant);
+    const clash = keys.find(key => this.lookup.has(key));
+    if (this.plants.has(plant.id) || clash) {
+      throw new ConflictError(
+        `Plant ${plant.id} clashes with existing catalog entry ${this.lookup.get(clash ?? plant.id)}`,
+        'PLANT_ALREADY_EXISTS'
+      );
+    }
+
+    this.plants.set(plant.id, plant);
+    for (const key of keys) {
+      this.lookup.set(key, plant.id);
+    }
+  }
+
+  /**
+   * Get a plant by its canonical id
+   */
+  async getPlant(id: string): Promise<Plant | undefined> {
+    return this.plants.get(id);
+  }
+
+  /**
+   * Find a plant by id, alias, common name or scientific name
+   */
+  async findPlant(name: string): Promise<Plant | undefined> {
+    const id = this.lookup.get(normalizePlantName(name));
+    return id === undefined ? undefined : this.plants.get(id);
+  }
+
+  /**
+   * List catalog plants sorted by common name, optionally limited to one category
+   */
+  async listPlants(category?: PlantCategory): Promise<Plant[]> {
+    return Array.from(this.plants.values())
+      .filter(plant => category === undefined || plant.category === category)
+      .sort((a, b) => a.commonName.localeCompare(b.commonName));
+  }
+
+  /**
+   * Add a plant to the catalog
+   */
+  async addPlant(plant: Plant): Promise<void> {
+    this.insert(plant);
+  }
+
+  /**
+   * Remove a plant and its lookup keys from the catalog
+   */
+  async removePlant(id: string): Promise<void> {
+    const plant = this.plants.get(id);
+    if (!plant) {
+      return;
+    }
+
+    this.plants.delete(id);
+    for (const key of getPlantLookupKeys(plant)) {
+      this.lookup.delete(key);
+    }
+  }
+
+  /**
+   * Clear the catalog (useful for testing)
+   */
+  async clear(): Promise<void> {
+    this.plants.clear();
+    this.lookup.clear();
+  }
+}
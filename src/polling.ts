@@ -0,0 +1,35 @@
+/**
+ * Stops a poller started with startPolling(). A pass already under way runs to completion.
+ */
+export type StopPolling = () => void;
+
+/**
+ * Run `work` now and then `intervalMs` after each pass finishes, so passes never overlap.
+ * The timer does not keep the process alive, so command-line tools still exit when their work is done.
+ * @param onError - Called when a pass fails; polling carries on with the next pass
+ */
+export function startPolling(
+  work: () => Promise<unknown>,
+  intervalMs: number,
+  onError: (error: unknown) => void
+): StopPolling {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const run = async () => {
+    try {
+      await work();
+    } catch (error) {
+      onError(error);
+    }
+    if (!stopped) {
+      timer = setTimeout(run, intervalMs).unref();
+    }
+  };
+  timer = setTimeout(run, 0).unref();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,166 @@
+import { InMemoryReputationStore, ReputationTracker } from './reputation';
+import { DomainEventProcessor, InMemoryLeaseStore } from './domainEvents';
+import { SeedExchangeCollections } from './collections';
+import {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  MarkShipped,
+  MarkReceived,
+  CancelExchange,
+  OpenDispute,
+  ResolveDispute
+} from './api';
+import { ExchangeOptions } from './exchangeConfig';
+import { ADMIN_ROLE } from './roles';
+import { AzureUserToken, SeedExchange } from './types';
+
+const requester: AzureUserToken = { userId: 'requester' };
+const offerer: AzureUserToken = { userId: 'offerer' };
+const admin: AzureUserToken = { userId: 'admin', roles: [ADMIN_ROLE] };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Reputation', () => {
+  let collections: SeedExchangeCollections;
+  let store: InMemoryReputationStore;
+  let tracker: ReputationTracker;
+  let processor: DomainEventProcessor;
+
+  beforeEach(() => {
+    collections = new SeedExchangeCollections();
+    store = new InMemoryReputationStore();
+    tracker = new ReputationTracker(store, { shipDeadlineDays: 14, receiptDeadlineDays: 30 });
+    processor = new DomainEventProcessor('reputation', collections, new InMemoryLeaseStore());
+    tracker.subscribeTo(processor.emitter);
+  });
+
+  const matchExchange = async (): Promise<SeedExchange> => {
+    await SubmitSeedRequest(requester, 'milkweed', collections, 1);
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', 1, collections);
+    await processor.processChanges();
+    return offer.filledExchanges[0];
+  };
+
+  it('should give users without history a perfect score', async () => {
+    expect(await tracker.getUserReputation('newcomer')).toMatchObject({
+      userId: 'newcomer',
+      score: 100,
+      exchangesMatched: 0,
+      overdueShipments: 0
+    });
+  });
+
+  it('should credit on-time shipments and confirmed receipts', async () => {
+    const exchange = await matchExchange();
+    await MarkShipped(offerer, exchange.id, collections);
+    await processor.processChanges();
+    await MarkReceived(requester, exchange.id, collections);
+    await processor.processChanges();
+
+    expect(await tracker.getUserReputation('offerer')).toMatchObject({
+      score: 100,
+      exchangesMatched: 1,
+      shipped: 1,
+      shippedOnTime: 1
+    });
+    expect(await tracker.getUserReputation('requester')).toMatchObject({
+      score: 100,
+      exchangesMatched: 1,
+      receiptsConfirmed: 1,
+      overdueReceipts: 0
+    });
+  });
+
+  it('should count unshipped exchanges as late once the ship deadline passes', async () => {
+    await matchExchange();
+
+    expect((await tracker.getUserReputation('offerer', new Date(Date.now() + 13 * DAY_MS))).score).toBe(100);
+    expect(await tracker.getUserReputation('offerer', new Date(Date.now() + 15 * DAY_MS))).toMatchObject({
+      score: 75,
+      overdueShipments: 1
+    });
+  });
+
+  it('should count cancellations and lost disputes', async () => {
+    const cancelled = await matchExchange();
+    await CancelExchange(offerer, cancelled.id, 'Ran out of seeds', collections);
+
+    const disputed = await matchExchange();
+    await MarkShipped(offerer, disputed.id, collections);
+    await OpenDispute(requester, disputed.id, 'Packet was empty', collections);
+    await ResolveDispute(admin, disputed.id, 'fraudulent', undefined, collections);
+    await processor.processChanges();
+
+    const reputation = await tracker.getUserReputation('offerer');
+    expect(reputation).toMatchObject({
+      exchangesMatched: 2,
+      cancellations: 1,
+      shipped: 1,
+      disputesAgainst: 1,
+      disputesLost: 1,
+      overdueShipments: 0
+    });
+    expect(reputation.score).toBeLessThan(100);
+    expect((await tracker.getUserReputation('requester')).cancellations).toBe(0);
+  });
+
+  it('should not count a change twice when events are redelivered', async () => {
+    const exchange = await matchExchange();
+    await MarkShipped(offerer, exchange.id, collections);
+    await processor.processChanges();
+
+    const restarted = new DomainEventProcessor('reputation', collections, new InMemoryLeaseStore());
+    tracker.subscribeTo(restarted.emitter);
+    await restarted.processChanges();
+    await tracker.recordExchange(await collections.getExchange(exchange.id) as SeedExchange);
+
+    expect(await tracker.getUserReputation('offerer')).toMatchObject({ exchangesMatched: 1, shipped: 1 });
+  });
+
+  describe('matching with a minimum score', () => {
+    const flaky: AzureUserToken = { userId: 'flaky' };
+    const reliable: AzureUserToken = { userId: 'reliable' };
+    let options: ExchangeOptions;
+
+    beforeEach(async () => {
+      options = { reputation: tracker, config: { minReputationScore: 80 } };
+
+      // Two exchanges the flaky offerer never shipped, confirmed a month ago
+      for (let i = 0; i < 2; i++) {
+        await SubmitSeedRequest(requester, 'aster', collections, 1);
+        const { filledExchanges } = await SubmitSeedOffer(flaky, 'aster', 1, collections);
+        const stale = { ...filledExchanges[0], confirmationTime: new Date(Date.now() - 30 * DAY_MS) };
+        await collections.updateExchange(stale);
+        await tracker.recordExchange(stale);
+      }
+    });
+
+    it('should pass over open entries of users below the minimum score', async () => {
+      await SubmitSeedOffer(flaky, 'milkweed', 1, collections, options);
+      await SubmitSeedOffer(reliable, 'milkweed', 1, collections, options);
+
+      const result = await SubmitSeedRequest(requester, 'milkweed', collections, 1, options);
+
+      expect((await tracker.getUserReputation('flaky')).score).toBeLessThan(80);
+      expect(result.filledExchanges.map(exchange => exchange.offerUserId)).toEqual(['reliable']);
+      expect(await collections.getOpenOffersByPlant('milkweed')).toHaveLength(1);
+    });
+
+    it('should leave submissions from users below the minimum score unmatched', async () => {
+      await SubmitSeedRequest(requester, 'milkweed', collections, 1, options);
+
+      const result = await SubmitSeedOffer(flaky, 'milkweed', 1, collections, options);
+
+      expect(result.filledExchanges).toEqual([]);
+      expect(result.remainingOffer?.quantity).toBe(1);
+    });
+
+    it('should match everyone when no minimum score is set', async () => {
+      await SubmitSeedRequest(requester, 'milkweed', collections, 1, options);
+
+      const result = await SubmitSeedOffer(flaky, 'milkweed', 1, collections, { reputation: tracker });
+
+      expect(result.filledExchanges).toHaveLength(1);
+    });
+  });
+});
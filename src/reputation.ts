@@ -0,0 +1,258 @@
+import { SeedExchange } from './types';
+import { DomainEvent, DomainEventEmitter } from './domainEvents';
+import { ExchangeConfig, resolveExchangeConfig } from './exchangeConfig';
+import {
+  IReputationStore,
+  ReputationContribution,
+  ReputationCounts,
+  ReputationRecord,
+  UserReputation
+} from './IReputationStore';
+
+/**
+ * Milliseconds in a day, for the ship and receipt deadlines
+ */
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * How much each part of a user's record weighs in their score; the weights add up to 1
+ * - shipping: Share of shipments sent on time, counting overdue ones as late
+ * - receipts: Share of shipments to the user whose receipt they confirmed, counting overdue ones as unconfirmed
+ * - cancellations: Share of matched exchanges the user did not cancel
+ * - disputes: Share of shipments that did not lose a dispute
+ */
+export const REPUTATION_WEIGHTS = {
+  shipping: 0.5,
+  receipts: 0.2,
+  cancellations: 0.2,
+  disputes: 0.1
+};
+
+/**
+ * Good outcomes assumed before any history, so one late shipment does not sink a new user's score
+ */
+const PRIOR_OUTCOMES = 1;
+
+/**
+ * Counts with nothing recorded
+ */
+export function emptyReputationCounts(): ReputationCounts {
+  return {
+    exchangesMatched: 0,
+    shipped: 0,
+    shippedOnTime: 0,
+    receiptsConfirmed: 0,
+    cancellations: 0,
+    disputesAgainst: 0,
+    disputesLost: 0
+  };
+}
+
+/**
+ * Record of a user who has never been matched
+ */
+function emptyReputationRecord(userId: string, now: Date = new Date()): ReputationRecord {
+  return {
+    userId,
+    counts: emptyReputationCounts(),
+    pendingShipments: {},
+    pendingReceipts: {},
+    updatedTime: now
+  };
+}
+
+/**
+ * Work out what a matched (or cancelled) exchange contributes to one of its parties' reputation
+ * @returns undefined if the exchange was never matched or the user is not a party to it
+ */
+export function getReputationContribution(
+  exchange: SeedExchange,
+  userId: string,
+  config: Pick<ExchangeConfig, 'shipDeadlineDays' | 'receiptDeadlineDays'>
+): ReputationContribution | undefined {
+  const role = exchange.offerUserId === userId ? 'offerer' : exchange.requestUserId === userId ? 'requester' : undefined;
+  if (!role || !exchange.confirmationTime || !exchange.requestUserId || !exchange.offerUserId) {
+    return undefined;
+  }
+
+  const counts = emptyReputationCounts();
+  const contribution: ReputationContribution = { userId, exchangeId: exchange.id, role, counts };
+  counts.exchangesMatched = 1;
+  counts.cancellations = exchange.cancellation?.cancelledByUserId === userId ? 1 : 0;
+
+  if (role === 'offerer') {
+    const shipDueTime = new Date(exchange.confirmationTime.getTime() + config.shipDeadlineDays * MS_PER_DAY);
+    if (exchange.shipTime) {
+      counts.shipped = 1;
+      counts.shippedOnTime = exchange.shipTime <= shipDueTime ? 1 : 0;
+    } else if (exchange.status === 'confirmed') {
+      contribution.shipDueTime = shipDueTime;
+    }
+
+    const outcome = exchange.dispute?.resolution?.outcome;
+    counts.disputesAgainst = exchange.dispute ? 1 : 0;
+    counts.disputesLost = outcome === 'refund' || outcome === 'fraudulent' ? 1 : 0;
+  } else {
+    // Receipts recorded when an admin closes a dispute were not confirmed by the requester
+    const confirmed = exchange.receivedTime !== null
+      && (!exchange.dispute || exchange.receivedTime <= exchange.dispute.openTime);
+    counts.receiptsConfirmed = confirmed ? 1 : 0;
+    if (exchange.status === 'shipped' && exchange.shipTime) {
+      contribution.receiptDueTime = new Date(exchange.shipTime.getTime() + config.receiptDeadlineDays * MS_PER_DAY);
+    }
+  }
+
+  return contribution;
+}
+
+/**
+ * Score a user's record as of `now`
+ */
+export function scoreReputation(record: ReputationRecord, now: Date = new Date()): UserReputation {
+  const { counts } = record;
+  const overdueShipments = Object.values(record.pendingShipments).filter(due => due <= now).length;
+  const overdueReceipts = Object.values(record.pendingReceipts).filter(due => due <= now).length;
+
+  const rate = (good: number, total: number) => (good + PRIOR_OUTCOMES) / (total + PRIOR_OUTCOMES);
+  const score = REPUTATION_WEIGHTS.shipping * rate(counts.shippedOnTime, counts.shipped + overdueShipments)
+    + REPUTATION_WEIGHTS.receipts * rate(counts.receiptsConfirmed, counts.receiptsConfirmed + overdueReceipts)
+    + REPUTATION_WEIGHTS.cancellations * rate(counts.exchangesMatched - counts.cancellations, counts.exchangesMatched)
+    + REPUTATION_WEIGHTS.disputes * rate(counts.shipped - counts.disputesLost, counts.shipped);
+
+  return {
+    userId: record.userId,
+    score: Math.round(score * 100),
+    ...counts,
+    overdueShipments,
+    overdueReceipts
+  };
+}
+
+/**
+ * Check whether two contributions count the same outcomes
+ */
+function sameContribution(a: ReputationContribution, b: ReputationContribution): boolean {
+  const counts = Object.keys(a.counts) as Array<keyof ReputationCounts>;
+  return counts.every(key => a.counts[key] === b.counts[key])
+    && a.shipDueTime?.getTime() === b.shipDueTime?.getTime()
+    && a.receiptDueTime?.getTime() === b.receiptDueTime?.getTime();
+}
+
+/**
+ * Copy a record so callers cannot change stored state through nested objects
+ */
+function copyRecord(record: ReputationRecord): ReputationRecord {
+  return {
+    ...record,
+    counts: { ...record.counts },
+    pendingShipments: { ...record.pendingShipments },
+    pendingReceipts: { ...record.pendingReceipts }
+  };
+}
+
+/**
+ * In-memory implementation of reputation storage
+ */
+export class InMemoryReputationStore implements IReputationStore {
+  private records = new Map<string, ReputationRecord>();
+  private contributions = new Map<string, ReputationContribution>();
+
+  async getRecord(userId: string): Promise<ReputationRecord | undefined> {
+    const record = this.records.get(userId);
+    return record ? copyRecord(record) : undefined;
+  }
+
+  async getContribution(userId: string, exchangeId: string): Promise<ReputationContribution | undefined> {
+    const contribution = this.contributions.get(`${userId}:${exchangeId}`);
+    return contribution ? { ...contribution, counts: { ...contribution.counts } } : undefined;
+  }
+
+  async saveContribution(contribution: ReputationContribution, record: ReputationRecord): Promise<void> {
+    this.contributions.set(
+      `${contribution.userId}:${contribution.exchangeId}`,
+      { ...contribution, counts: { ...contribution.counts } }
+    );
+    this.records.set(record.userId, copyRecord(record));
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+    this.contributions.clear();
+  }
+}
+
+/**
+ * Keeps users' reputations up to date from exchange changes.
+ * Each change replaces what the exchange contributed to its parties' running totals, so the totals
+ * are updated incrementally and an event handled twice changes nothing. Run a single tracker per store.
+ */
+export class ReputationTracker {
+  private readonly config: ExchangeConfig;
+
+  /**
+   * @param store - Running totals and per-exchange contributions
+   * @param config - Overrides for the ship and receipt deadlines read from the environment
+   */
+  constructor(private readonly store: IReputationStore, config: Partial<ExchangeConfig> = {}) {
+    this.config = resolveExchangeConfig({ config });
+  }
+
+  /**
+   * Update reputations for every event published by an emitter
+   * @returns A function that stops tracking
+   */
+  subscribeTo(emitter: DomainEventEmitter): () => void {
+    return emitter.on('*', async (event: DomainEvent) => {
+      await this.recordExchange(event.exchange);
+    });
+  }
+
+  /**
+   * Update both parties' reputations from an exchange's current state
+   */
+  async recordExchange(exchange: SeedExchange): Promise<void> {
+    for (const userId of [exchange.offerUserId, exchange.requestUserId]) {
+      const contribution = userId ? getReputationContribution(exchange, userId, this.config) : undefined;
+      if (contribution) {
+        await this.applyContribution(contribution);
+      }
+    }
+  }
+
+  /**
+   * Replace an exchange's previous contribution to a user's totals with its new one
+   */
+  private async applyContribution(contribution: ReputationContribution): Promise<void> {
+    const { userId, exchangeId } = contribution;
+    const previous = await this.store.getContribution(userId, exchangeId);
+    if (previous && sameContribution(previous, contribution)) {
+      return;
+    }
+
+    const record = await this.store.getRecord(userId) ?? emptyReputationRecord(userId);
+    for (const key of Object.keys(record.counts) as Array<keyof ReputationCounts>) {
+      record.counts[key] += contribution.counts[key] - (previous?.counts[key] ?? 0);
+    }
+
+    delete record.pendingShipments[exchangeId];
+    delete record.pendingReceipts[exchangeId];
+    if (contribution.shipDueTime) {
+      record.pendingShipments[exchangeId] = contribution.shipDueTime;
+    }
+    if (contribution.receiptDueTime) {
+      record.pendingReceipts[exchangeId] = contribution.receiptDueTime;
+    }
+    record.updatedTime = new Date();
+
+    await this.store.saveContribution(contribution, record);
+  }
+
+  /**
+   * Get a user's reputation; users who have never been matched have a perfect score
+   * @param now - Time overdue shipments and receipts are counted at
+   */
+  async getUserReputation(userId: string, now: Date = new Date()): Promise<UserReputation> {
+    const record = await this.store.getRecord(userId);
+    return scoreReputation(record ?? emptyReputationRecord(userId, now), now);
+  }
+}
@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line interface for keeping reputation scores up to date.
+ * Reads the change feed and updates both parties' reputation whenever an exchange changes,
+ * until stopped. A new worker starts from the beginning of the feed, so it also scores existing history.
+ * Run a single worker per database.
+ *
+ * Usage:
+ *   COSMOS_DB_ENDPOINT=https://... COSMOS_DB_KEY=... npm run reputation-worker
+ *
+ * Set REPUTATION_POLL_INTERVAL_MS to change how often it polls (default: 5000).
+ */
+
+import { initializeReputationStore } from './collectionsFactory';
+import { runChangeFeedWorker } from './changeFeedWorker';
+import { ReputationTracker } from './reputation';
+
+async function main() {
+  try {
+    const tracker = new ReputationTracker(await initializeReputationStore());
+    await runChangeFeedWorker({
+      name: 'reputation',
+      description: 'Updating reputation scores',
+      intervalMs: Number(process.env.REPUTATION_POLL_INTERVAL_MS || 5000),
+      subscribeTo: emitter => tracker.subscribeTo(emitter),
+      afterChanges: async processed => {
+        if (processed > 0) {
+          console.log(`Updated reputation from ${processed} exchange changes`);
+        }
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to start the reputation worker:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { main };
@@ -0,0 +1,14 @@
+import { AzureUserToken } from './types';
+
+/**
+ * App role that lets a user resolve disputes and read any exchange.
+ * Assigned in the Entra ID app registration and carried in the token's `roles` claim.
+ */
+export const ADMIN_ROLE = 'SeedExchange.Admin';
+
+/**
+ * Check whether the user holds the admin role
+ */
+export function isAdmin(authToken: AzureUserToken): boolean {
+  return authToken.roles?.includes(ADMIN_ROLE) ?? false;
+}
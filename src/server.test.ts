@@ -0,0 +1,581 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createSeedExchangeServer, headerAuthenticator, startSeedExchangeServer } from './server';
+import { SeedExchangeCollections } from './collections';
+import { PlantCatalog } from './plantCatalog';
+import { ADMIN_ROLE } from './roles';
+import { AuditLog } from './auditLog';
+import { InMemoryNotificationStore } from './notifications';
+import { NotificationPreferences } from './INotificationStore';
+import { InMemoryUserProfileStore } from './userProfiles';
+import { ShippingAddress } from './IUserProfileStore';
+import { InMemoryReputationStore, ReputationTracker } from './reputation';
+import { UserReputation } from './IReputationStore';
+import { CreditLedger, InMemoryLedgerStore } from './ledger';
+import { CreditBalance, CreditStatement } from './ILedgerStore';
+import { DEFAULT_PLANTS } from './defaultPlants';
+import { loadExchangeConfig } from './exchangeConfig';
+import { AuditLogEntry, CancelExchangeResult, DisputeResult, ResolveDisputeResult, Plant, SeedExchange, SubmitSeedOfferResult, SubmitSeedRequestResult, WithdrawResult, MarkShippedResult, MarkReceivedResult } from './types';
+
+interface ErrorResponse {
+  error: { code: string; message: string };
+}
+
+describe('HTTP Server', () => {
+  let collections: SeedExchangeCollections;
+  let server: http.Server;
+  let baseUrl: string;
+
+  /**
+   * Send a JSON request as the given user
+   */
+  async function call<T = ErrorResponse>(
+    method: string,
+    path: string,
+    userId?: string,
+    body?: unknown,
+    roles?: string
+  ): Promise<{ status: number; body: T; headers: Headers }> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (userId) {
+      headers['x-user-id'] = userId;
+    }
+    if (roles) {
+      headers['x-user-roles'] = roles;
+    }
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body)
+    });
+    return { status: response.status, body: (await response.json()) as T, headers: response.headers };
+  }
+
+  beforeEach(async () => {
+    collections = new SeedExchangeCollections();
+    server = createSeedExchangeServer({ collections, authenticate: headerAuthenticator });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('Offers and requests', () => {
+    it('should create an open offer', async () => {
+      const response = await call<SubmitSeedOfferResult>('POST', '/offers', 'alice', { plantId: 'milkweed', quantity: 3 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.filledExchanges).toHaveLength(0);
+      expect(response.body.remainingOffer?.quantity).toBe(3);
+      expect(response.body.remainingOffer?.offerUserId).toBe('alice');
+    });
+
+    it('should fill a request from an open offer', async () => {
+      await call('POST', '/offers', 'alice', { plantId: 'milkweed', quantity: 3 });
+
+      const response = await call<SubmitSeedRequestResult>('POST', '/requests', 'bob', { plantId: 'milkweed', quantity: 2 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.filled).toBe(true);
+      expect(response.body.filledExchanges[0].offerUserId).toBe('alice');
+      expect(response.body.filledExchanges[0].quantity).toBe(2);
+    });
+
+    it('should default the request quantity to one packet', async () => {
+      const response = await call<SubmitSeedRequestResult>('POST', '/requests', 'bob', { plantId: 'milkweed' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.remainingRequest?.quantity).toBe(1);
+    });
+
+    it('should list open offers and requests for a plant', async () => {
+      await call('POST', '/offers', 'alice', { plantId: 'milkweed', quantity: 3 });
+      await call('POST', '/requests', 'bob', { plantId: 'aster' });
+
+      const offers = await call<SeedExchange[]>('GET', '/plants/milkweed/offers', 'carol');
+      const requests = await call<SeedExchange[]>('GET', '/plants/aster/requests', 'carol');
+
+      expect(offers.status).toBe(200);
+      expect(offers.body).toHaveLength(1);
+      expect(offers.body[0].offerUserId).toBe('alice');
+      expect(requests.body).toHaveLength(1);
+      expect(requests.body[0].requestUserId).toBe('bob');
+    });
+  });
+
+  describe('Exchange lifecycle', () => {
+    it('should ship, receive and list exchanges for the caller', async () => {
+      await call('POST', '/requests', 'bob', { plantId: 'milkweed' });
+      const offer = await call<SubmitSeedOfferResult>('POST', '/offers', 'alice', { plantId: 'milkweed', quantity: 1 });
+      const exchangeId = offer.body.filledExchanges[0].id;
+
+      const shipped = await call<MarkShippedResult>('POST', `/exchanges/${exchangeId}/ship`, 'alice');
+      expect(shipped.status).toBe(200);
+      expect(shipped.body.shippedExchange?.status).toBe('shipped');
+
+      const received = await call<MarkReceivedResult>('POST', `/exchanges/${exchangeId}/receive`, 'bob');
+      expect(received.status).toBe(200);
+      expect(received.body.receivedExchange?.status).toBe('received');
+
+      const exchange = await call<SeedExchange>('GET', `/exchanges/${exchangeId}`, 'bob');
+      expect(exchange.body.status).toBe('received');
+
+      const mine = await call<SeedExchange[]>('GET', '/me/exchanges', 'alice');
+      expect(mine.body).toHaveLength(1);
+      expect(mine.body[0].id).toBe(exchangeId);
+    });
+
+    it('should cancel a confirmed exchange and requeue the counterparty', async () => {
+      await call('POST', '/requests', 'bob', { plantId: 'milkweed' });
+      const offer = await call<SubmitSeedOfferResult>('POST', '/offers', 'alice', { plantId: 'milkweed', quantity: 1 });
+
+      const response = await call<CancelExchangeResult>(
+        'POST',
+        `/exchanges/${offer.body.filledExchanges[0].id}/cancel`,
+        'alice',
+        { reason: 'Ran out of seed', requeueCounterparty: true }
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.cancelledExchange?.status).toBe('cancelled');
+      expect(response.body.requeuedExchange?.requestUserId).toBe('bob');
+    });
+
+    it('should open, answer and resolve a dispute', async () => {
+      await call('POST', '/requests', 'bob', { plantId: 'milkweed' });
+      const offer = await call<SubmitSeedOfferResult>('POST', '/offers', 'alice', { plantId: 'milkweed', quantity: 1 });
+      const exchangeId = offer.body.filledExchanges[0].id;
+      await call('POST', `/exchanges/${exchangeId}/ship`, 'alice');
+
+      const opened = await call<DisputeResult>('POST', `/exchanges/${exchangeId}/dispute`, 'bob', { reason: 'Never arrived' });
+      expect(opened.status).toBe(200);
+      expect(opened.body.disputedExchange?.status).toBe('disputed');
+
+      const answered = await call<DisputeResult>(
+        'POST', `/exchanges/${exchangeId}/dispute/response`, 'alice', { message: 'Posted last week' }
+      );
+      expect(answered.body.disputedExchange?.dispute?.response?.message).toBe('Posted last week');
+
+      const notAdmin = await call('POST', `/exchanges/${exchangeId}/dispute/resolution`, 'bob', { outcome: 'refund' });
+      expect(notAdmin.status).toBe(403);
+      expect(notAdmin.body.error.code).toBe('NOT_ADMIN');
+
+      const resolved = await call<ResolveDisputeResult>(
+        'POST', `/exchanges/${exchangeId}/dispute/resolution`, 'carol', { outcome: 'refund' }, `Reader, ${ADMIN_ROLE}`
+      );
+      expect(resolved.status).toBe(200);
+      expect(resolved.body.resolvedExchange?.status).toBe('cancelled');
+      expect(resolved.body.requeuedExchange?.requestUserId).toBe('bob');
+    });
+
+    it('should withdraw an open request', async () => {
+      const request = await call<SubmitSeedRequestResult>('POST', '/requests', 'bob', { plantId: 'milkweed' });
+
+      const response = await call<WithdrawResult>('DELETE', `/exchanges/${request.body.remainingRequest?.id}`, 'bob');
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(await collections.getOpenRequestsByPlant('milkweed')).toHaveLength(0);
+    });
+  });
+
+  describe('Paging', () => {
+    it('should page through the caller\'s exchanges with a continuation token header', async () => {
+      for (let i = 0; i < 3; i++) {
+        await call('POST', '/requests', 'alice', { plantId: `plant-${i}` });
+      }
+
+      const first = await call<SeedExchange[]>('GET', '/me/exchanges?pageSize=2', 'alice');
+      const token = first.headers.get('x-continuation-token');
+      const second = await call<SeedExchange[]>(
+        'GET',
+        `/me/exchanges?pageSize=2&continuationToken=${encodeURIComponent(token ?? '')}`,
+        'alice'
+      );
+
+      expect(first.body).toHaveLength(2);
+      expect(token).toBeTruthy();
+      expect(second.body).toHaveLength(1);
+      expect(second.headers.get('x-continuation-token')).toBeNull();
+      expect([...first.body, ...second.body].map(exchange => exchange.id).sort())
+        .toEqual((await collections.getAllExchanges()).map(exchange => exchange.id).sort());
+    });
+
+    it('should search exchanges from query parameters', async () => {
+      await call('POST', '/requests', 'alice', { plantId: 'milkweed' });
+      await call('POST', '/offers', 'bob', { plantId: 'milkweed', quantity: 1 });
+      await call('POST', '/offers', 'bob', { plantId: 'aster', quantity: 1 });
+
+      const mine = await call<SeedExchange[]>('GET', '/exchanges?status=open-offer,confirmed&role=offerer', 'bob');
+      const others = await call('GET', '/exchanges?userId=alice', 'bob');
+      const all = await call<SeedExchange[]>('GET', '/exchanges?plantId=milkweed&sortBy=confirmationTime', 'root', undefined, ADMIN_ROLE);
+      const invalid = await call('GET', '/exchanges?confirmationTimeFrom=yesterday', 'bob');
+
+      expect(mine.body.map(exchange => exchange.plantId).sort()).toEqual(['aster', 'milkweed']);
+      expect(others.status).toBe(403);
+      expect(all.body).toHaveLength(1);
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error.code).toBe('INVALID_FILTER');
+    });
+
+    it('should reject an invalid page size', async () => {
+      const response = await call('GET', '/me/exchanges?pageSize=0', 'alice');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_PAGE_SIZE');
+    });
+  });
+
+  describe('Error mapping', () => {
+    it('should return 401 without an authenticated user', async () => {
+      const response = await call('GET', '/me/exchanges');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should return 400 for validation errors', async () => {
+      const response = await call('POST', '/offers', 'alice', { plantId: 'milkweed', quantity: 0 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_QUANTITY');
+    });
+
+    it('should return 400 for malformed JSON', async () => {
+      const response = await call('POST', '/offers', 'alice', '{not json');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_REQUEST_BODY');
+    });
+
+    it('should return 400 for malformed percent-encoding in the path', async () => {
+      const response = await call('GET', '/exchanges/%E0%A4%A', 'alice');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_PATH');
+    });
+
+    it('should return 403 when acting on another user\'s exchange', async () => {
+      const request = await call<SubmitSeedRequestResult>('POST', '/requests', 'bob', { plantId: 'milkweed' });
+
+      const response = await call('DELETE', `/exchanges/${request.body.remainingRequest?.id}`, 'mallory');
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('NOT_EXCHANGE_OWNER');
+    });
+
+    it('should return 404 for unknown exchanges and routes', async () => {
+      const exchange = await call('GET', '/exchanges/missing', 'alice');
+      expect(exchange.status).toBe(404);
+      expect(exchange.body.error.code).toBe('EXCHANGE_NOT_FOUND');
+
+      const route = await call('GET', '/nothing-here', 'alice');
+      expect(route.status).toBe(404);
+      expect(route.body.error.code).toBe('ROUTE_NOT_FOUND');
+    });
+
+    it('should return 409 for invalid state transitions', async () => {
+      const offer = await call<SubmitSeedOfferResult>('POST', '/offers', 'alice', { plantId: 'milkweed', quantity: 2 });
+
+      const response = await call('POST', `/exchanges/${offer.body.remainingOffer?.id}/ship`, 'alice');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('INVALID_STATUS_TRANSITION');
+    });
+
+    it('should return 500 without leaking details for unexpected errors', async () => {
+      const originalConsoleError = console.error;
+      console.error = jest.fn();
+      jest.spyOn(collections, 'getExchangesByUser').mockRejectedValueOnce(new Error('database exploded'));
+
+      const response = await call('GET', '/me/exchanges', 'alice');
+
+      console.error = originalConsoleError;
+      expect(response.status).toBe(500);
+      expect(response.body.error.code).toBe('INTERNAL_ERROR');
+      expect(JSON.stringify(response.body)).not.toContain('database exploded');
+    });
+  });
+
+  describe('Plant catalog', () => {
+    beforeEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+      server = createSeedExchangeServer({
+        collections,
+        authenticate: headerAuthenticator,
+        exchangeOptions: { catalog: new PlantCatalog(DEFAULT_PLANTS) }
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    it('should list catalog plants by category', async () => {
+      const response = await call<Plant[]>('GET', '/plants?category=monarch-host', 'alice');
+
+      expect(response.status).toBe(200);
+      expect(response.body.map(plant => plant.id)).toEqual(['butterfly-weed', 'common-milkweed', 'swamp-milkweed']);
+    });
+
+    it('should resolve plant aliases in submissions and listings', async () => {
+      await call('POST', '/offers', 'alice', { plantId: 'Orange Milkweed', quantity: 1 });
+
+      const offers = await call<SeedExchange[]>('GET', '/plants/asclepias%20tuberosa/offers', 'bob');
+
+      expect(offers.body).toHaveLength(1);
+      expect(offers.body[0].plantId).toBe('butterfly-weed');
+    });
+
+    it('should return 400 for plants missing from the catalog', async () => {
+      const response = await call('POST', '/requests', 'bob', { plantId: 'butterfly-wed' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('UNKNOWN_PLANT_ID');
+    });
+  });
+
+  describe('Audit log', () => {
+    it('should return 404 for history routes when no audit log is configured', async () => {
+      const response = await call('GET', '/me/history', 'bob');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('ROUTE_NOT_FOUND');
+    });
+
+    it('should record writes and serve the caller\'s history', async () => {
+      await new Promise(resolve => server.close(resolve));
+      server = createSeedExchangeServer({
+        collections,
+        authenticate: headerAuthenticator,
+        exchangeOptions: { auditLog: new AuditLog() }
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+      const request = await call<SubmitSeedRequestResult>('POST', '/requests', 'bob', { plantId: 'milkweed' });
+      const requestId = request.body.remainingRequest?.id;
+      await call('DELETE', `/exchanges/${requestId}`, 'bob');
+
+      const mine = await call<AuditLogEntry[]>('GET', '/me/history', 'bob');
+      expect(mine.status).toBe(200);
+      expect(mine.body.map(entry => entry.action)).toEqual(['submit-request', 'withdraw']);
+
+      const forbidden = await call('GET', `/exchanges/${requestId}/history`, 'bob');
+      expect(forbidden.status).toBe(403);
+
+      const history = await call<AuditLogEntry[]>('GET', `/exchanges/${requestId}/history`, 'carol', undefined, ADMIN_ROLE);
+      expect(history.body).toHaveLength(2);
+      expect(history.body[1].before?.requestUserId).toBe('bob');
+    });
+  });
+
+  describe('Notification preferences', () => {
+    it('should return 404 when no notification store is configured', async () => {
+      const response = await call('GET', '/me/notification-preferences', 'bob');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('ROUTE_NOT_FOUND');
+    });
+
+    it('should read and update the caller\'s preferences', async () => {
+      await new Promise(resolve => server.close(resolve));
+      server = createSeedExchangeServer({
+        collections,
+        authenticate: headerAuthenticator,
+        exchangeOptions: { notificationStore: new InMemoryNotificationStore() }
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+      const updated = await call<NotificationPreferences>('POST', '/me/notification-preferences', 'bob', { eventTypes: ['ExchangeShipped'] });
+      expect(updated.status).toBe(200);
+
+      const current = await call<NotificationPreferences>('GET', '/me/notification-preferences', 'bob');
+      expect(current.body).toMatchObject({ userId: 'bob', enabled: true, eventTypes: ['ExchangeShipped'] });
+
+      const invalid = await call('POST', '/me/notification-preferences', 'bob', { enabled: 'no' });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error.code).toBe('INVALID_NOTIFICATION_PREFERENCES');
+    });
+  });
+
+  describe('User profiles', () => {
+    it('should return 404 when no user profile store is configured', async () => {
+      const response = await call('GET', '/me/profile', 'bob');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('ROUTE_NOT_FOUND');
+    });
+
+    it('should reveal the requester\'s address to the offerer once matched', async () => {
+      await new Promise(resolve => server.close(resolve));
+      server = createSeedExchangeServer({
+        collections,
+        authenticate: headerAuthenticator,
+        userProfileStore: new InMemoryUserProfileStore()
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+      const address = { recipientName: 'Bob', line1: '1 Seed St', city: 'Olympia', country: 'US' };
+      const profile = await call('POST', '/me/profile', 'bob', { displayName: 'Bob', address });
+      expect(profile.status).toBe(200);
+
+      await call('POST', '/requests', 'bob', { plantId: 'milkweed' });
+      const offer = await call<SubmitSeedOfferResult>('POST', '/offers', 'alice', { plantId: 'milkweed', quantity: 1 });
+      const exchangeId = offer.body.filledExchanges[0].id;
+
+      const shipping = await call<ShippingAddress>('GET', `/exchanges/${exchangeId}/shipping-address`, 'alice');
+      expect(shipping.status).toBe(200);
+      expect(shipping.body).toMatchObject({ requestUserId: 'bob', displayName: 'Bob', address });
+
+      const forbidden = await call('GET', `/exchanges/${exchangeId}/shipping-address`, 'carol');
+      expect(forbidden.status).toBe(403);
+
+      await call('DELETE', '/me/profile', 'bob');
+      const missing = await call('GET', `/exchanges/${exchangeId}/shipping-address`, 'alice');
+      expect(missing.status).toBe(404);
+      expect(missing.body.error.code).toBe('SHIPPING_ADDRESS_NOT_FOUND');
+    });
+  });
+
+  describe('Reputation', () => {
+    it('should return 404 when no reputation tracker is configured', async () => {
+      const response = await call('GET', '/users/alice/reputation', 'bob');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('ROUTE_NOT_FOUND');
+    });
+
+    it('should return a user\'s reputation', async () => {
+      await new Promise(resolve => server.close(resolve));
+      server = createSeedExchangeServer({
+        collections,
+        authenticate: headerAuthenticator,
+        exchangeOptions: { reputation: new ReputationTracker(new InMemoryReputationStore()) }
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+      const response = await call<UserReputation>('GET', '/users/alice/reputation', 'bob');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ userId: 'alice', score: 100, exchangesMatched: 0 });
+    });
+  });
+
+  describe('Credit ledger', () => {
+    it('should return 404 when no credit ledger is configured', async () => {
+      const response = await call('GET', '/me/credits', 'alice');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('ROUTE_NOT_FOUND');
+    });
+
+    describe('with a ledger', () => {
+      beforeEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+        server = createSeedExchangeServer({
+          collections,
+          authenticate: headerAuthenticator,
+          exchangeOptions: { ledger: new CreditLedger(new InMemoryLedgerStore(), { startingCredits: 2 }) }
+        });
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+      });
+
+      it('should reserve credits for requests and reject requests beyond them', async () => {
+        await call('POST', '/requests', 'alice', { plantId: 'milkweed', quantity: 2 });
+
+        const rejected = await call('POST', '/requests', 'alice', { plantId: 'aster' });
+        const credits = await call<CreditBalance>('GET', '/me/credits', 'alice');
+
+        expect(rejected.status).toBe(400);
+        expect(rejected.body.error.code).toBe('INSUFFICIENT_CREDITS');
+        expect(credits.body).toEqual({ userId: 'alice', balance: 2, reserved: 2, available: 0 });
+      });
+
+      it('should return statements', async () => {
+        const response = await call<CreditStatement>('GET', '/me/credits/statement?from=2000-01-01T00:00:00Z', 'alice');
+
+        expect(response.status).toBe(200);
+        expect(response.body).toMatchObject({ userId: 'alice', openingBalance: 0, closingBalance: 2 });
+        expect(response.body.entries).toHaveLength(1);
+      });
+
+      it('should only show other users\' credits to admins', async () => {
+        expect((await call('GET', '/users/alice/credits', 'bob')).status).toBe(403);
+        expect((await call('GET', '/users/alice/credits/statement', 'bob', undefined, ADMIN_ROLE)).status).toBe(200);
+      });
+
+      it('should reject invalid statement ranges', async () => {
+        const response = await call('GET', '/me/credits/statement?from=yesterday', 'alice');
+
+        expect(response.status).toBe(400);
+        expect(response.body.error.code).toBe('INVALID_STATEMENT_RANGE');
+      });
+    });
+  });
+
+  describe('startSeedExchangeServer', () => {
+    it('should start with collections from initializeCollections', async () => {
+      const originalConsoleLog = console.log;
+      console.log = jest.fn();
+      const started = await startSeedExchangeServer(0, headerAuthenticator);
+      console.log = originalConsoleLog;
+
+      try {
+        const port = (started.address() as AddressInfo).port;
+        const response = await fetch(`http://localhost:${port}/me/exchanges`, { headers: { 'x-user-id': 'alice' } });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual([]);
+      } finally {
+        await new Promise(resolve => started.close(resolve));
+      }
+    });
+
+    it('should keep reputation scores up to date for in-memory collections', async () => {
+      const originalConsoleLog = console.log;
+      console.log = jest.fn();
+      const started = await startSeedExchangeServer(0, headerAuthenticator);
+      console.log = originalConsoleLog;
+
+      try {
+        const port = (started.address() as AddressInfo).port;
+        const send = (method: string, path: string, userId: string, body?: unknown) => fetch(`http://localhost:${port}${path}`, {
+          method,
+          headers: { 'content-type': 'application/json', 'x-user-id': userId },
+          body: body === undefined ? undefined : JSON.stringify(body)
+        });
+        await send('POST', '/requests', 'alice', { plantId: 'common-milkweed', quantity: 1 });
+        await send('POST', '/offers', 'bob', { plantId: 'common-milkweed', quantity: 1 });
+
+        let reputation: UserReputation | undefined;
+        for (let attempt = 0; attempt < 30 && reputation?.exchangesMatched !== 1; attempt++) {
+          await new Promise(resolve => setTimeout(resolve, 100));
+          reputation = await (await send('GET', '/users/bob/reputation', 'alice')).json() as UserReputation;
+        }
+
+        expect(reputation).toMatchObject({ userId: 'bob', exchangesMatched: 1 });
+      } finally {
+        await new Promise(resolve => started.close(resolve));
+      }
+    });
+
+    it('should refuse a minimum reputation score when nothing keeps scores up to date', async () => {
+      const originalEnv = process.env;
+      const originalConsoleLog = console.log;
+      process.env = { ...originalEnv, SEED_EXCHANGE_SQLITE_PATH: ':memory:', SEED_EXCHANGE_MIN_REPUTATION_SCORE: '50' };
+      console.log = jest.fn();
+
+      try {
+        await expect(startSeedExchangeServer(0, headerAuthenticator)).rejects.toThrow('SEED_EXCHANGE_MIN_REPUTATION_SCORE');
+      } finally {
+        process.env = originalEnv;
+        console.log = originalConsoleLog;
+        loadExchangeConfig();
+      }
+    });
+  });
+});
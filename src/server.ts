@@ -0,0 +1,837 @@
+import http from 'http';
+import { AzureUserToken, DisputeOutcome, ExchangeStatus, PlantCategory } from './types';
+import {
+  ISeedExchangeCollections,
+  ExchangeFilter,
+  ExchangePage,
+  ExchangeRole,
+  ExchangeSortField,
+  PageOptions
+} from './ISeedExchangeCollections';
+import { ExchangeOptions, getExchangeConfig, loadExchangeConfig } from './exchangeConfig';
+import { IAuditLog } from './IAuditLog';
+import { INotificationStore, NotificationEventType } from './INotificationStore';
+import { IUserProfileStore, PostalAddress, UserProfilePreferences } from './IUserProfileStore';
+import { ReputationTracker } from './reputation';
+import { DomainEventProcessor, InMemoryLeaseStore } from './domainEvents';
+import { SeedExchangeCollections } from './collections';
+import { CosmosDbSeedExchangeCollections } from './cosmosDbCollections';
+import { CreditLedger } from './ledger';
+import { LedgerRange } from './ILedgerStore';
+import {
+  initializeCollections,
+  initializePlantCatalog,
+  initializeAuditLog,
+  initializeNotificationStore,
+  initializeUserProfileStore,
+  initializeReputationStore,
+  initializeLedgerStore
+} from './collectionsFactory';
+import { TokenVerifier } from './tokenVerification';
+import { PLANT_CATEGORIES } from './plantCatalog';
+import { EXCHANGE_TIME_FIELDS } from './exchangeFilter';
+import {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  Withdraw,
+  MarkShipped,
+  MarkReceived,
+  GetExchange,
+  SearchExchanges,
+  CancelExchange,
+  OpenDispute,
+  RespondToDispute,
+  ResolveDispute,
+  GetExchangeAuditLog,
+  GetUserAuditLog,
+  GetNotificationPreferences,
+  UpdateNotificationPreferences,
+  GetUserProfile,
+  UpdateUserProfile,
+  DeleteUserProfile,
+  GetShippingAddress,
+  GetCreditBalance,
+  GetCreditStatement
+} from './api';
+import {
+  SeedExchangeError,
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  InvalidStateError,
+  ValidationError,
+  ConflictError
+} from './errors';
+
+/**
+ * Resolves the calling user from an incoming HTTP request.
+ * Returns undefined (or throws UnauthorizedError) when the caller cannot be authenticated.
+ */
+export type Authenticator = (
+  req: http.IncomingMessage
+) => Promise<AzureUserToken | undefined> | AzureUserToken | undefined;
+
+/**
+ * Options for creating the seed exchange HTTP server
+ */
+export interface SeedExchangeServerOptions {
+  collections: ISeedExchangeCollections;
+  authenticate: Authenticator;
+  /** Options passed through to the exchange API functions */
+  exchangeOptions?: ExchangeOptions;
+  /** Store behind the profile and shipping address routes */
+  userProfileStore?: IUserProfileStore;
+}
+
+/**
+ * Context passed to each route handler
+ */
+interface RouteContext {
+  user: AzureUserToken;
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  options: SeedExchangeServerOptions;
+}
+
+/**
+ * A route handler returns the HTTP status code, the JSON response body and optionally extra response headers
+ */
+type RouteHandler = (context: RouteContext) => Promise<[number, unknown, Record<string, string>?]>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+/**
+ * Maximum accepted request body size in bytes
+ */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Response header carrying the token for the next page of a paged list
+ */
+export const CONTINUATION_TOKEN_HEADER = 'x-continuation-token';
+
+/**
+ * Trust user identity headers set by an upstream gateway.
+ * `x-user-roles` takes a comma-separated list of app roles.
+ * Intended for local development and tests only; never expose this directly to the internet.
+ */
+export const headerAuthenticator: Authenticator = (req) => {
+  const userId = req.headers['x-user-id'];
+  if (typeof userId !== 'string' || userId === '') {
+    return undefined;
+  }
+
+  const email = req.headers['x-user-email'];
+  const name = req.headers['x-user-name'];
+  const roles = req.headers['x-user-roles'];
+  return {
+    userId,
+    email: typeof email === 'string' ? email : undefined,
+    name: typeof name === 'string' ? name : undefined,
+    roles: typeof roles === 'string' ? roles.split(',').map(role => role.trim()).filter(Boolean) : undefined
+  };
+};
+
+/**
+ * Authenticate callers with an Entra ID access token in the `Authorization: Bearer` header.
+ * Requests without the header are anonymous; invalid tokens are rejected with UnauthorizedError.
+ */
+export function bearerAuthenticator(verifier: TokenVerifier): Authenticator {
+  return async (req) => {
+    const authorization = req.headers.authorization;
+    if (!authorization) {
+      return undefined;
+    }
+
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+    if (!match) {
+      throw new UnauthorizedError('Authorization header must use the Bearer scheme', 'INVALID_TOKEN');
+    }
+    return verifier.verify(match[1]);
+  };
+}
+
+/**
+ * Resolve a plant id from the URL through the catalog, when one is configured
+ */
+async function resolveListedPlantId(plantId: string, options: SeedExchangeServerOptions): Promise<string> {
+  const catalog = options.exchangeOptions?.catalog;
+  if (!catalog) {
+    return plantId;
+  }
+
+  const plant = await catalog.findPlant(plantId);
+  if (!plant) {
+    throw new ValidationError(`Plant "${plantId}" is not in the plant catalog`, 'UNKNOWN_PLANT_ID');
+  }
+  return plant.id;
+}
+
+/**
+ * Read page options from the query string, or undefined when the caller asked for no paging
+ */
+function readPageOptions(query: URLSearchParams): PageOptions | undefined {
+  const pageSize = query.get('pageSize');
+  const continuationToken = query.get('continuationToken') ?? undefined;
+  if (pageSize === null && continuationToken === undefined) {
+    return undefined;
+  }
+  return { pageSize: pageSize === null ? undefined : Number(pageSize), continuationToken };
+}
+
+/**
+ * Response headers carrying a page's continuation token, if there is a next page
+ */
+function pageHeaders(page: ExchangePage): Record<string, string> {
+  return page.continuationToken ? { [CONTINUATION_TOKEN_HEADER]: page.continuationToken } : {};
+}
+
+/**
+ * Read a comma-separated query parameter as a list
+ */
+function readList(query: URLSearchParams, name: string): string[] | undefined {
+  const value = query.get(name);
+  return value === null ? undefined : value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Read an exchange search filter from the query string, leaving validation to the collections.
+ * Time ranges use `<field>From` and `<field>To`, e.g. `confirmationTimeTo=2025-06-01T00:00:00Z`.
+ */
+async function readExchangeFilter(query: URLSearchParams, options: SeedExchangeServerOptions): Promise<ExchangeFilter> {
+  const plantIds = readList(query, 'plantId');
+  const filter: ExchangeFilter = {
+    status: readList(query, 'status') as ExchangeStatus[] | undefined,
+    plantId: plantIds && await Promise.all(plantIds.map(plantId => resolveListedPlantId(plantId, options))),
+    userId: query.get('userId') ?? undefined,
+    role: (query.get('role') ?? undefined) as ExchangeRole | undefined,
+    sortBy: (query.get('sortBy') ?? undefined) as ExchangeSortField | undefined,
+    sortDirection: (query.get('sortDirection') ?? undefined) as ExchangeFilter['sortDirection']
+  };
+
+  for (const field of EXCHANGE_TIME_FIELDS) {
+    const from = query.get(`${field}From`);
+    const to = query.get(`${field}To`);
+    if (from !== null || to !== null) {
+      filter.timeRanges = {
+        ...filter.timeRanges,
+        [field]: { from: from === null ? undefined : new Date(from), to: to === null ? undefined : new Date(to) }
+      };
+    }
+  }
+
+  return filter;
+}
+
+/**
+ * Get the configured audit log; the history routes do not exist without one
+ */
+function requireAuditLog(options: SeedExchangeServerOptions): IAuditLog {
+  const auditLog = options.exchangeOptions?.auditLog;
+  if (!auditLog) {
+    throw new NotFoundError('No audit log is configured', 'ROUTE_NOT_FOUND');
+  }
+  return auditLog;
+}
+
+/**
+ * Get the configured notification store; the notification preference routes do not exist without one
+ */
+function requireNotificationStore(options: SeedExchangeServerOptions): INotificationStore {
+  const notificationStore = options.exchangeOptions?.notificationStore;
+  if (!notificationStore) {
+    throw new NotFoundError('No notification store is configured', 'ROUTE_NOT_FOUND');
+  }
+  return notificationStore;
+}
+
+/**
+ * Get the configured user profile store; the profile and shipping address routes do not exist without one
+ */
+function requireUserProfileStore(options: SeedExchangeServerOptions): IUserProfileStore {
+  if (!options.userProfileStore) {
+    throw new NotFoundError('No user profile store is configured', 'ROUTE_NOT_FOUND');
+  }
+  return options.userProfileStore;
+}
+
+/**
+ * Get the configured reputation tracker; the reputation route does not exist without one
+ */
+function requireReputation(options: SeedExchangeServerOptions): ReputationTracker {
+  const reputation = options.exchangeOptions?.reputation;
+  if (!reputation) {
+    throw new NotFoundError('No reputation tracker is configured', 'ROUTE_NOT_FOUND');
+  }
+  return reputation;
+}
+
+/**
+ * Get the configured credit ledger; the credit routes do not exist without one
+ */
+function requireLedger(options: SeedExchangeServerOptions): CreditLedger {
+  const ledger = options.exchangeOptions?.ledger;
+  if (!ledger) {
+    throw new NotFoundError('No credit ledger is configured', 'ROUTE_NOT_FOUND');
+  }
+  return ledger;
+}
+
+/**
+ * Read a statement range from the `from` and `to` query parameters, leaving validation to GetCreditStatement
+ */
+function readLedgerRange(query: URLSearchParams): LedgerRange {
+  const from = query.get('from');
+  const to = query.get('to');
+  return { from: from === null ? undefined : new Date(from), to: to === null ? undefined : new Date(to) };
+}
+
+/**
+ * Decode a percent-encoded path parameter
+ * @throws ValidationError if the segment contains a malformed escape such as `%E0%A4%A`
+ */
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new ValidationError(`Path segment "${segment}" is not valid percent-encoding`, 'INVALID_PATH');
+  }
+}
+
+/**
+ * Read a numeric body field, leaving validation of its value to the API functions
+ */
+function readQuantity(body: Record<string, unknown>, defaultValue?: number): number {
+  const quantity = body.quantity ?? defaultValue;
+  if (typeof quantity !== 'number') {
+    throw new ValidationError('Body field "quantity" must be a number', 'INVALID_QUANTITY');
+  }
+  return quantity;
+}
+
+/**
+ * Read the plant id from a request body
+ */
+function readPlantId(body: Record<string, unknown>): string {
+  if (typeof body.plantId !== 'string') {
+    throw new ValidationError('Body field "plantId" must be a string', 'INVALID_PLANT_ID');
+  }
+  return body.plantId;
+}
+
+const routes: Route[] = [
+  {
+    method: 'POST',
+    pattern: /^\/offers$/,
+    handler: async ({ user, body, options }) => {
+      const result = await SubmitSeedOffer(
+        user,
+        readPlantId(body),
+        readQuantity(body),
+        options.collections,
+        options.exchangeOptions
+      );
+      return [201, result];
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/requests$/,
+    handler: async ({ user, body, options }) => {
+      const result = await SubmitSeedRequest(
+        user,
+        readPlantId(body),
+        options.collections,
+        readQuantity(body, 1),
+        options.exchangeOptions
+      );
+      return [201, result];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/exchanges$/,
+    handler: async ({ user, query, options }) => {
+      const filter = await readExchangeFilter(query, options);
+      const page = await SearchExchanges(user, filter, options.collections, readPageOptions(query));
+      return [200, page.exchanges, pageHeaders(page)];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/exchanges\/([^/]+)$/,
+    handler: async ({ user, params, options }) => {
+      return [200, await GetExchange(user, params[0], options.collections)];
+    }
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/exchanges\/([^/]+)$/,
+    handler: async ({ user, params, options }) => {
+      return [200, await Withdraw(user, params[0], options.collections, options.exchangeOptions)];
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/exchanges\/([^/]+)\/ship$/,
+    handler: async ({ user, params, options }) => {
+      return [200, await MarkShipped(user, params[0], options.collections, options.exchangeOptions)];
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/exchanges\/([^/]+)\/receive$/,
+    handler: async ({ user, params, options }) => {
+      return [200, await MarkReceived(user, params[0], options.collections, options.exchangeOptions)];
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/exchanges\/([^/]+)\/cancel$/,
+    handler: async ({ user, params, body, options }) => {
+      if (typeof body.reason !== 'string') {
+        throw new ValidationError('Body field "reason" must be a string', 'INVALID_CANCELLATION_REASON');
+      }
+      const result = await CancelExchange(user, params[0], body.reason, options.collections, {
+        ...options.exchangeOptions,
+        requeueCounterparty: body.requeueCounterparty === true
+      });
+      return [200, result];
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/exchanges\/([^/]+)\/dispute$/,
+    handler: async ({ user, params, body, options }) => {
+      if (typeof body.reason !== 'string') {
+        throw new ValidationError('Body field "reason" must be a string', 'INVALID_DISPUTE_REASON');
+      }
+      return [200, await OpenDispute(user, params[0], body.reason, options.collections, options.exchangeOptions)];
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/exchanges\/([^/]+)\/dispute\/response$/,
+    handler: async ({ user, params, body, options }) => {
+      if (typeof body.message !== 'string') {
+        throw new ValidationError('Body field "message" must be a string', 'INVALID_DISPUTE_RESPONSE');
+      }
+      return [200, await RespondToDispute(user, params[0], body.message, options.collections, options.exchangeOptions)];
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/exchanges\/([^/]+)\/dispute\/resolution$/,
+    handler: async ({ user, params, body, options }) => {
+      if (body.note !== undefined && typeof body.note !== 'string') {
+        throw new ValidationError('Body field "note" must be a string', 'INVALID_DISPUTE_NOTE');
+      }
+      const result = await ResolveDispute(
+        user,
+        params[0],
+        body.outcome as DisputeOutcome,
+        body.note,
+        options.collections,
+        options.exchangeOptions
+      );
+      return [200, result];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/plants$/,
+    handler: async ({ query, options }) => {
+      const catalog = options.exchangeOptions?.catalog;
+      if (!catalog) {
+        throw new NotFoundError('No plant catalog is configured', 'ROUTE_NOT_FOUND');
+      }
+
+      const category = query.get('category') ?? undefined;
+      if (category !== undefined && !PLANT_CATEGORIES.includes(category as PlantCategory)) {
+        throw new ValidationError(`Unknown plant category: ${category}`, 'INVALID_PLANT');
+      }
+      return [200, await catalog.listPlants(category as PlantCategory | undefined)];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/plants\/([^/]+)\/offers$/,
+    handler: async ({ params, options }) => {
+      const plantId = await resolveListedPlantId(params[0], options);
+      return [200, await options.collections.getOpenOffersByPlant(plantId)];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/plants\/([^/]+)\/requests$/,
+    handler: async ({ params, options }) => {
+      const plantId = await resolveListedPlantId(params[0], options);
+      return [200, await options.collections.getOpenRequestsByPlant(plantId)];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/exchanges$/,
+    handler: async ({ user, query, options }) => {
+      const pageOptions = readPageOptions(query);
+      if (!pageOptions) {
+        return [200, await options.collections.getExchangesByUser(user.userId)];
+      }
+
+      const page = await options.collections.getExchangesByUserPage(user.userId, pageOptions);
+      return [200, page.exchanges, pageHeaders(page)];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/history$/,
+    handler: async ({ user, options }) => {
+      return [200, await GetUserAuditLog(user, user.userId, requireAuditLog(options))];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/notification-preferences$/,
+    handler: async ({ user, options }) => {
+      return [200, await GetNotificationPreferences(user, requireNotificationStore(options))];
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/me\/notification-preferences$/,
+    handler: async ({ user, body, options }) => {
+      const preferences = await UpdateNotificationPreferences(
+        user,
+        { enabled: body.enabled as boolean | undefined, eventTypes: body.eventTypes as NotificationEventType[] | undefined },
+        requireNotificationStore(options)
+      );
+      return [200, preferences];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/profile$/,
+    handler: async ({ user, options }) => {
+      return [200, await GetUserProfile(user, requireUserProfileStore(options))];
+    }
+  },
+  {
+    method: 'POST',
+    pattern: /^\/me\/profile$/,
+    handler: async ({ user, body, options }) => {
+      const profile = await UpdateUserProfile(
+        user,
+        {
+          displayName: body.displayName as string | null | undefined,
+          region: body.region as string | null | undefined,
+          address: body.address as PostalAddress | null | undefined,
+          preferences: body.preferences as UserProfilePreferences | undefined
+        },
+        requireUserProfileStore(options)
+      );
+      return [200, profile];
+    }
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/me\/profile$/,
+    handler: async ({ user, options }) => {
+      await DeleteUserProfile(user, requireUserProfileStore(options));
+      return [200, { success: true }];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/exchanges\/([^/]+)\/shipping-address$/,
+    handler: async ({ user, params, options }) => {
+      const address = await GetShippingAddress(
+        user,
+        params[0],
+        options.collections,
+        requireUserProfileStore(options),
+        options.exchangeOptions
+      );
+      return [200, address];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/users\/([^/]+)\/reputation$/,
+    handler: async ({ params, options }) => {
+      return [200, await requireReputation(options).getUserReputation(params[0])];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/credits$/,
+    handler: async ({ user, options }) => {
+      return [200, await GetCreditBalance(user, user.userId, options.collections, requireLedger(options))];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/me\/credits\/statement$/,
+    handler: async ({ user, query, options }) => {
+      return [200, await GetCreditStatement(user, user.userId, readLedgerRange(query), requireLedger(options))];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/users\/([^/]+)\/credits$/,
+    handler: async ({ user, params, options }) => {
+      return [200, await GetCreditBalance(user, params[0], options.collections, requireLedger(options))];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/users\/([^/]+)\/credits\/statement$/,
+    handler: async ({ user, params, query, options }) => {
+      return [200, await GetCreditStatement(user, params[0], readLedgerRange(query), requireLedger(options))];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/users\/([^/]+)\/history$/,
+    handler: async ({ user, params, options }) => {
+      return [200, await GetUserAuditLog(user, params[0], requireAuditLog(options))];
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/exchanges\/([^/]+)\/history$/,
+    handler: async ({ user, params, options }) => {
+      return [200, await GetExchangeAuditLog(user, params[0], requireAuditLog(options))];
+    }
+  }
+];
+
+/**
+ * Map a domain error to its HTTP status code
+ */
+export function statusCodeForError(error: SeedExchangeError): number {
+  if (error instanceof ValidationError) return 400;
+  if (error instanceof UnauthorizedError) return 401;
+  if (error instanceof ForbiddenError) return 403;
+  if (error instanceof NotFoundError) return 404;
+  if (error instanceof InvalidStateError || error instanceof ConflictError) return 409;
+  return 500;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ValidationError('Request body is too large', 'INVALID_REQUEST_BODY');
+    }
+    chunks.push(chunk);
+  }
+
+  if (size === 0) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new ValidationError('Request body must be valid JSON', 'INVALID_REQUEST_BODY');
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ValidationError('Request body must be a JSON object', 'INVALID_REQUEST_BODY');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(statusCode, {
+    ...headers,
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload)
+  });
+  res.end(payload);
+}
+
+/**
+ * Handle a single HTTP request
+ */
+async function handleRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  options: SeedExchangeServerOptions
+): Promise<void> {
+  try {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname;
+    let route: Route | undefined;
+    let params: string[] = [];
+
+    for (const candidate of routes) {
+      const match = candidate.pattern.exec(path);
+      if (match && candidate.method === req.method) {
+        route = candidate;
+        params = match.slice(1).map(decodePathSegment);
+        break;
+      }
+    }
+
+    if (!route) {
+      throw new NotFoundError(`No route for ${req.method} ${path}`, 'ROUTE_NOT_FOUND');
+    }
+
+    const user = await options.authenticate(req);
+    if (!user) {
+      throw new UnauthorizedError('Authentication is required');
+    }
+
+    const body = req.method === 'POST' ? await readJsonBody(req) : {};
+    const [statusCode, responseBody, headers] = await route.handler({
+      user,
+      params,
+      query: url.searchParams,
+      body,
+      options
+    });
+
+    sendJson(res, statusCode, responseBody, headers);
+  } catch (error) {
+    if (error instanceof SeedExchangeError) {
+      sendJson(res, statusCodeForError(error), { error: { code: error.code, message: error.message } });
+    } else {
+      console.error('Unhandled error while processing request:', error);
+      sendJson(res, 500, { error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } });
+    }
+  }
+}
+
+/**
+ * Create an HTTP server exposing the seed exchange API as JSON over REST.
+ *
+ * Routes:
+ * - POST   /offers                    Submit a seed offer `{ plantId, quantity }`
+ * - POST   /requests                  Submit a seed request `{ plantId, quantity? }`
+ * - GET    /exchanges?status=&plantId=&userId=&role=&<field>From=&<field>To=&sortBy=&sortDirection=
+ *                                     Search exchanges, paged like /me/exchanges (the caller's own unless admin)
+ * - GET    /exchanges/:id             Get an exchange the caller is party to (or any exchange, for admins)
+ * - DELETE /exchanges/:id             Withdraw an open request or offer
+ * - POST   /exchanges/:id/ship        Mark an exchange as shipped (offerer)
+ * - POST   /exchanges/:id/receive     Mark an exchange as received (requester)
+ * - POST   /exchanges/:id/cancel      Cancel a confirmed exchange `{ reason, requeueCounterparty? }`
+ * - POST   /exchanges/:id/dispute     Dispute a shipped exchange `{ reason }` (requester)
+ * - POST   /exchanges/:id/dispute/response    Respond to a dispute `{ message }` (offerer)
+ * - POST   /exchanges/:id/dispute/resolution  Resolve a dispute `{ outcome, note? }` (admin)
+ * - GET    /plants?category=          List catalog plants (when a catalog is configured)
+ * - GET    /plants/:plantId/offers    List open offers for a plant
+ * - GET    /plants/:plantId/requests  List open requests for a plant
+ * - GET    /me/exchanges?pageSize=&continuationToken=  List the caller's exchanges (paged when either parameter
+ *                                     is given; the next page's token is returned in the x-continuation-token header)
+ * - GET    /me/history                The caller's audit log entries (when an audit log is configured)
+ * - GET    /me/notification-preferences  The caller's notification preferences (when a notification store is configured)
+ * - POST   /me/notification-preferences  Update them `{ enabled?, eventTypes? }`
+ * - GET    /me/profile                The caller's profile (when a user profile store is configured)
+ * - POST   /me/profile                Update it `{ displayName?, region?, address?, preferences? }`
+ * - DELETE /me/profile                Delete it
+ * - GET    /exchanges/:id/shipping-address  The requester's shipping address (offerer of a matched exchange)
+ * - GET    /users/:userId/reputation  A user's reputation score and record (when a reputation tracker is configured)
+ * - GET    /me/credits                The caller's credit balance and available credits (when a credit ledger is configured)
+ * - GET    /me/credits/statement?from=&to=  The caller's ledger entries over a time range
+ * - GET    /users/:userId/credits     A user's credit balance (the user themselves, or an admin)
+ * - GET    /users/:userId/credits/statement?from=&to=  A user's ledger entries (the user themselves, or an admin)
+ * - GET    /users/:userId/history     A user's audit log entries (admin)
+ * - GET    /exchanges/:id/history     An exchange's audit log entries (admin)
+ *
+ * Errors are returned as `{ error: { code, message } }` with a status code derived from the error class.
+ */
+export function createSeedExchangeServer(options: SeedExchangeServerOptions): http.Server {
+  return http.createServer((req, res) => {
+    void handleRequest(req, res, options);
+  });
+}
+
+/**
+ * Initialize a reputation tracker that is kept up to date for the server's collections.
+ * In-memory collections only exist in this process, so no reputation worker can read their changes and
+ * the server feeds the tracker itself. With Cosmos DB, `npm run reputation-worker` feeds it.
+ * @returns The tracker (undefined when nothing can keep it up to date) and a function that stops feeding it
+ * @throws Error if a minimum reputation score is configured but nothing can keep the scores up to date
+ */
+async function initializeServerReputation(
+  collections: ISeedExchangeCollections
+): Promise<{ reputation?: ReputationTracker; stop: () => void }> {
+  if (collections instanceof SeedExchangeCollections) {
+    const reputation = new ReputationTracker(await initializeReputationStore());
+    const processor = new DomainEventProcessor('reputation', collections, new InMemoryLeaseStore());
+    reputation.subscribeTo(processor.emitter);
+    processor.start();
+    return { reputation, stop: () => processor.stop() };
+  }
+  if (collections instanceof CosmosDbSeedExchangeCollections) {
+    return { reputation: new ReputationTracker(await initializeReputationStore()), stop: () => undefined };
+  }
+
+  if (getExchangeConfig().minReputationScore > 0) {
+    throw new Error('SEED_EXCHANGE_MIN_REPUTATION_SCORE needs reputation scores, which are only kept up to date for Cosmos DB and in-memory collections');
+  }
+  console.log('Reputation scores are not available: nothing reads changes from these collections');
+  return { stop: () => undefined };
+}
+
+/**
+ * Initialize collections, the plant catalog, the audit log, the notification store, the user profile store,
+ * reputation scores and the credit ledger from the environment
+ * and start listening for HTTP requests
+ * @param port - Port to listen on (0 picks a free port)
+ * @param authenticate - Resolves the calling user for each request
+ * @returns The listening server
+ * @throws ConfigurationError if an exchange setting in the environment is invalid
+ */
+export async function startSeedExchangeServer(
+  port: number,
+  authenticate: Authenticator
+): Promise<http.Server> {
+  loadExchangeConfig();
+  const collections = await initializeCollections();
+  const catalog = await initializePlantCatalog();
+  const auditLog = await initializeAuditLog();
+  const notificationStore = await initializeNotificationStore();
+  const userProfileStore = await initializeUserProfileStore();
+  const { reputation, stop: stopReputation } = await initializeServerReputation(collections);
+  const ledger = new CreditLedger(await initializeLedgerStore());
+  const server = createSeedExchangeServer({
+    collections,
+    authenticate,
+    exchangeOptions: { catalog, auditLog, notificationStore, reputation, ledger },
+    userProfileStore
+  });
+  server.once('close', stopReputation);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  return server;
+}
@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line interface for running the seed exchange HTTP server
+ * 
+ * Usage (verifying Entra ID bearer tokens):
+ *   AZURE_AD_TENANT_ID=... AZURE_AD_AUDIENCE=api://seed-exchange npm start
+ * 
+ * Or with a custom port and Cosmos DB:
+ *   PORT=8080 COSMOS_DB_ENDPOINT=https://... COSMOS_DB_KEY=... AZURE_AD_AUDIENCE=... node dist/serverCli.js
+ * 
+ * For local development without Entra ID, trust x-user-id headers instead:
+ *   SEED_EXCHANGE_INSECURE_HEADER_AUTH=1 npm start
+ *
+ * The server refuses to start when neither AZURE_AD_AUDIENCE nor SEED_EXCHANGE_INSECURE_HEADER_AUTH is set.
+ */
+
+import { AddressInfo } from 'net';
+import { startSeedExchangeServer, headerAuthenticator, bearerAuthenticator, Authenticator } from './server';
+import { TokenVerifier, getTokenVerificationConfig } from './tokenVerification';
+
+async function main() {
+  const port = Number(process.env.PORT || 3000);
+
+  try {
+    let authenticate: Authenticator;
+    if (process.env.AZURE_AD_AUDIENCE) {
+      authenticate = bearerAuthenticator(new TokenVerifier(getTokenVerificationConfig()));
+      console.log('✓ Verifying Entra ID bearer tokens');
+    } else if (process.env.SEED_EXCHANGE_INSECURE_HEADER_AUTH === '1') {
+      authenticate = headerAuthenticator;
+      console.warn('⚠️  SEED_EXCHANGE_INSECURE_HEADER_AUTH is set; trusting x-user-id headers for authentication (development only)');
+    } else {
+      throw new Error(
+        'AZURE_AD_AUDIENCE is not set. Configure Entra ID token verification, or set '
+        + 'SEED_EXCHANGE_INSECURE_HEADER_AUTH=1 to trust x-user-id headers for local development.'
+      );
+    }
+
+    const server = await startSeedExchangeServer(port, authenticate);
+    const address = server.address() as AddressInfo;
+    console.log(`✅ SeedExchange API listening on http://localhost:${address.port}`);
+  } catch (error) {
+    console.error('❌ Failed to start SeedExchange API server:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { main };
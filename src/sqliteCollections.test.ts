@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { SqliteSeedExchangeCollections, migrateSqliteDatabase } from './sqliteCollections';
+import {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  MarkShipped,
+  OpenDispute,
+  CancelExchange
+} from './api';
+import { expireStaleEntries } from './expiry';
+import { AzureUserToken, SeedExchange } from './types';
+import { ConflictError } from './errors';
+
+describe('SQLite collections', () => {
+  let collections: SqliteSeedExchangeCollections;
+  let user1: AzureUserToken;
+  let user2: AzureUserToken;
+  let user3: AzureUserToken;
+
+  function openRequest(id: string, seedRequestTime: Date, plantId = 'milkweed-001'): SeedExchange {
+    return {
+      id,
+      plantId,
+      status: 'open-request',
+      requestUserId: 'user-1',
+      offerUserId: null,
+      quantity: 1,
+      seedRequestTime,
+      seedOfferTime: null,
+      confirmationTime: null,
+      shipTime: null,
+      receivedTime: null
+    };
+  }
+
+  beforeEach(() => {
+    collections = new SqliteSeedExchangeCollections(':memory:');
+    user1 = { userId: 'user-1', email: 'user1@example.com', name: 'User 1' };
+    user2 = { userId: 'user-2', email: 'user2@example.com', name: 'User 2' };
+    user3 = { userId: 'user-3', email: 'user3@example.com', name: 'User 3' };
+  });
+
+  afterEach(() => {
+    collections.close();
+  });
+
+  describe('queries', () => {
+    it('should round-trip an exchange and answer open queue queries in FIFO order', async () => {
+      await collections.addExchange(openRequest('later', new Date('2025-02-01')));
+      await collections.addExchange(openRequest('earlier', new Date('2025-01-01')));
+      await collections.addExchange(openRequest('other-plant', new Date('2024-12-01'), 'aster-002'));
+
+      const requests = await collections.getOpenRequestsByPlant('milkweed-001');
+
+      expect(requests.map(request => request.id)).toEqual(['earlier', 'later']);
+      expect(requests[0]).toEqual({ ...openRequest('earlier', new Date('2025-01-01')), etag: '1' });
+      expect(await collections.getOpenOffersByPlant('milkweed-001')).toHaveLength(0);
+    });
+
+    it('should list matched exchanges for both users and as confirmed', async () => {
+      const request = await SubmitSeedRequest(user1, 'milkweed-001', collections);
+      await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+
+      expect(await collections.getOpenRequestsByPlant('milkweed-001')).toHaveLength(0);
+      expect((await collections.getExchangesByUser('user-2')).map(ex => ex.id))
+        .toEqual([request.remainingRequest!.id]);
+      expect(await collections.getExchangesByUser('user-1')).toHaveLength(1);
+      expect(await collections.getConfirmedExchanges()).toHaveLength(1);
+    });
+
+    it('should find stale open entries by their own cutoffs', async () => {
+      await collections.addExchange(openRequest('old', new Date('2025-01-01')));
+      await collections.addExchange(openRequest('new', new Date('2025-06-01')));
+
+      const stale = await collections.getStaleOpenEntries(new Date('2025-03-01'), new Date('2025-03-01'));
+
+      expect(stale.map(exchange => exchange.id)).toEqual(['old']);
+    });
+
+    it('should restore nested dates in disputes', async () => {
+      await SubmitSeedRequest(user1, 'milkweed-001', collections);
+      const offer = await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+      const exchangeId = offer.filledExchanges[0].id;
+      await MarkShipped(user2, exchangeId, collections);
+      await OpenDispute(user1, exchangeId, 'Never arrived', collections);
+
+      const disputed = await collections.getExchange(exchangeId);
+
+      expect(disputed?.status).toBe('disputed');
+      expect(disputed?.dispute?.openTime).toBeInstanceOf(Date);
+      expect(disputed?.shipTime).toBeInstanceOf(Date);
+    });
+
+    it('should restore cancellation dates', async () => {
+      await SubmitSeedRequest(user1, 'milkweed-001', collections);
+      const offer = await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+      const exchangeId = offer.filledExchanges[0].id;
+
+      await CancelExchange(user2, exchangeId, 'Ran out', collections);
+
+      expect((await collections.getExchange(exchangeId))?.cancellation?.cancelTime).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('writes', () => {
+    it('should use the row version as the etag and reject stale updates', async () => {
+      await collections.addExchange(openRequest('request', new Date()));
+      const stored = await collections.getExchange('request');
+
+      await collections.updateExchange({ ...stored!, quantity: 2 }, { ifMatch: stored!.etag });
+
+      expect(stored?.etag).toBe('1');
+      expect((await collections.getExchange('request'))?.etag).toBe('2');
+      await expect(collections.updateExchange({ ...stored!, quantity: 3 }, { ifMatch: stored!.etag }))
+        .rejects.toThrow(ConflictError);
+    });
+
+    it('should reject etags that are not row versions instead of skipping the check', async () => {
+      await collections.addExchange(openRequest('request', new Date()));
+      const stored = await collections.getExchange('request');
+
+      await expect(collections.updateExchange({ ...stored!, quantity: 2 }, { ifMatch: '"0x-cosmos-etag"' }))
+        .rejects.toThrow(ConflictError);
+      await expect(collections.executeBatch([
+        { type: 'delete', id: 'request', plantId: stored!.plantId, ifMatch: 'stale' }
+      ])).rejects.toThrow(ConflictError);
+      expect(await collections.getExchange('request')).toMatchObject({ quantity: 1, etag: '1' });
+    });
+
+    it('should insert on update without an etag', async () => {
+      await collections.updateExchange(openRequest('request', new Date()));
+
+      expect(await collections.getExchange('request')).toBeDefined();
+    });
+
+    it('should reject adding an exchange whose id already exists', async () => {
+      await collections.addExchange(openRequest('request', new Date()));
+
+      await expect(collections.addExchange(openRequest('request', new Date()))).rejects.toThrow(ConflictError);
+    });
+
+    it('should apply nothing when any operation in a batch fails its precondition', async () => {
+      await collections.addExchange(openRequest('request', new Date()));
+
+      await expect(collections.executeBatch([
+        { type: 'create', exchange: openRequest('new', new Date()) },
+        { type: 'replace', exchange: { ...openRequest('request', new Date()), quantity: 5 }, ifMatch: '7' }
+      ])).rejects.toThrow(ConflictError);
+
+      expect(await collections.getExchange('new')).toBeUndefined();
+      expect((await collections.getExchange('request'))?.quantity).toBe(1);
+    });
+
+    it('should reject deleting a missing entry in a batch', async () => {
+      await expect(collections.executeBatch([
+        { type: 'delete', id: 'missing', plantId: 'milkweed-001' }
+      ])).rejects.toThrow(ConflictError);
+    });
+
+    it('should reject a batch spanning several plants', async () => {
+      await expect(collections.executeBatch([
+        { type: 'create', exchange: openRequest('a', new Date()) },
+        { type: 'create', exchange: openRequest('b', new Date(), 'aster-002') }
+      ])).rejects.toThrow('same plant');
+    });
+
+    it('should requeue and rematch a cancelled exchange', async () => {
+      await SubmitSeedRequest(user1, 'milkweed-001', collections);
+      const match = await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+      await SubmitSeedOffer(user3, 'milkweed-001', 1, collections);
+
+      const result = await CancelExchange(user2, match.filledExchanges[0].id, 'Ran out', collections, {
+        requeueCounterparty: true
+      });
+
+      expect(result.rematchedExchanges).toHaveLength(1);
+      expect(result.rematchedExchanges[0].offerUserId).toBe('user-3');
+      expect(await collections.getOpenOffersByPlant('milkweed-001')).toHaveLength(0);
+    });
+
+    it('should expire stale entries', async () => {
+      await collections.addExchange(openRequest('old', new Date('2020-01-01')));
+
+      await expireStaleEntries(collections, new Date());
+
+      expect((await collections.getExchange('old'))?.status).toBe('expired');
+    });
+  });
+
+  describe('persistence and migrations', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'seed-exchange-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should keep exchanges across reopening the database file', async () => {
+      const file = path.join(directory, 'exchange.db');
+      const first = new SqliteSeedExchangeCollections(file);
+      await first.addExchange(openRequest('request', new Date('2025-01-01')));
+      first.close();
+
+      const reopened = new SqliteSeedExchangeCollections(file);
+      try {
+        expect((await reopened.getExchange('request'))?.seedRequestTime).toEqual(new Date('2025-01-01'));
+      } finally {
+        reopened.close();
+      }
+    });
+
+    it('should record the schema version and not reapply migrations', () => {
+      const db = new Database(path.join(directory, 'exchange.db'));
+      try {
+        const version = migrateSqliteDatabase(db);
+
+        expect(db.pragma('user_version', { simple: true })).toBe(version);
+        expect(migrateSqliteDatabase(db)).toBe(version);
+        const indexes = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'exchanges'`)
+          .all() as { name: string }[];
+        expect(indexes.map(index => index.name)).toEqual(expect.arrayContaining([
+          'idx_exchanges_open_requests',
+          'idx_exchanges_open_offers',
+          'idx_exchanges_request_user',
+          'idx_exchanges_offer_user'
+        ]));
+      } finally {
+        db.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,505 @@
+import Database from 'better-sqlite3';
+import { SeedExchange } from './types';
+import {
+  ISeedExchangeCollections,
+  UpdateExchangeOptions,
+  ExchangeWriteOperation,
+  PageOptions,
+  ExchangePage,
+  ExchangeFilter,
+  ExchangeSortField
+} from './ISeedExchangeCollections';
+import { MATCHED_STATUSES } from './exchangeStatus';
+import { ConflictError } from './errors';
+import { getBatchPlantId } from './exchangeIds';
+import { resolvePageSize, parseOffsetToken } from './pagination';
+import { validateExchangeFilter, toList } from './exchangeFilter';
+
+/**
+ * Schema migrations, applied in order. The number applied so far is kept in SQLite's
+ * `user_version` pragma, so each database is brought up to date when it is opened.
+ * Never edit a migration that has shipped; append a new one instead.
+ */
+const MIGRATIONS: readonly string[] = [
+  `CREATE TABLE exchanges (
+    id TEXT PRIMARY KEY,
+    plant_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    request_user_id TEXT,
+    offer_user_id TEXT,
+    quantity INTEGER NOT NULL,
+    seed_request_time INTEGER,
+    seed_offer_time INTEGER,
+    confirmation_time INTEGER,
+    ship_time INTEGER,
+    received_time INTEGER,
+    cancellation TEXT,
+    dispute TEXT,
+    version INTEGER NOT NULL
+  );
+  CREATE INDEX idx_exchanges_open_requests ON exchanges (plant_id, status, seed_request_time);
+  CREATE INDEX idx_exchanges_open_offers ON exchanges (plant_id, status, seed_offer_time);
+  CREATE INDEX idx_exchanges_request_user ON exchanges (request_user_id);
+  CREATE INDEX idx_exchanges_offer_user ON exchanges (offer_user_id);`,
+  `CREATE TABLE exchange_events (
+    sequence INTEGER PRIMARY KEY,
+    type TEXT NOT NULL,
+    exchange_id TEXT NOT NULL,
+    plant_id TEXT NOT NULL,
+    exchange TEXT,
+    timestamp INTEGER NOT NULL
+  );`,
+  `CREATE TABLE ledger_entries (
+    id TEXT PRIMARY KEY,
+    transaction_id TEXT NOT NULL,
+    account TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    exchange_id TEXT,
+    description TEXT NOT NULL,
+    time INTEGER NOT NULL
+  );
+  CREATE INDEX idx_ledger_entries_account ON ledger_entries (account, time);`,
+  `CREATE TABLE credit_holds (
+    user_id TEXT PRIMARY KEY,
+    holds TEXT NOT NULL,
+    version INTEGER NOT NULL
+  );`,
+  `ALTER TABLE exchanges ADD COLUMN transitions TEXT;`
+];
+
+/**
+ * A row of the exchanges table. Times are stored as milliseconds since the epoch,
+ * nested objects as JSON.
+ */
+interface ExchangeRow {
+  id: string;
+  plant_id: string;
+  status: SeedExchange['status'];
+  request_user_id: string | null;
+  offer_user_id: string | null;
+  quantity: number;
+  seed_request_time: number | null;
+  seed_offer_time: number | null;
+  confirmation_time: number | null;
+  ship_time: number | null;
+  received_time: number | null;
+  cancellation: string | null;
+  dispute: string | null;
+  transitions: string | null;
+  version: number;
+}
+
+const EXCHANGE_COLUMNS = `id, plant_id, status, request_user_id, offer_user_id, quantity,
+  seed_request_time, seed_offer_time, confirmation_time, ship_time, received_time, cancellation, dispute, transitions`;
+
+const EXCHANGE_PARAMETERS = `@id, @plant_id, @status, @request_user_id, @offer_user_id, @quantity,
+  @seed_request_time, @seed_offer_time, @confirmation_time, @ship_time, @received_time, @cancellation, @dispute, @transitions`;
+
+/**
+ * Column holding each field an exchange search can filter or sort on
+ */
+const SEARCH_COLUMNS: Readonly<Record<ExchangeSortField, string>> = {
+  id: 'id',
+  quantity: 'quantity',
+  seedRequestTime: 'seed_request_time',
+  seedOfferTime: 'seed_offer_time',
+  confirmationTime: 'confirmation_time',
+  shipTime: 'ship_time',
+  receivedTime: 'received_time'
+};
+
+/**
+ * Build the WHERE clause and named parameters for an exchange search
+ */
+function buildSearchConditions(filter: ExchangeFilter): { where: string; parameters: Record<string, unknown> } {
+  const conditions: string[] = [];
+  const parameters: Record<string, unknown> = {};
+
+  const addList = (column: string, name: string, values: string[] | undefined): void => {
+    if (values) {
+      values.forEach((value, index) => { parameters[`${name}${index}`] = value; });
+      conditions.push(`${column} IN (${values.map((_, index) => `@${name}${index}`).join(', ')})`);
+    }
+  };
+  addList('status', 'status', toList(filter.status));
+  addList('plant_id', 'plantId', toList(filter.plantId));
+
+  if (filter.userId !== undefined) {
+    parameters.userId = filter.userId;
+    conditions.push(filter.role === 'requester' ? 'request_user_id = @userId'
+      : filter.role === 'offerer' ? 'offer_user_id = @userId'
+        : '(request_user_id = @userId OR offer_user_id = @userId)');
+  }
+
+  for (const [field, range] of Object.entries(filter.timeRanges ?? {})) {
+    const column = SEARCH_COLUMNS[field as ExchangeSortField];
+    if (range?.from) {
+      parameters[`${field}From`] = range.from.getTime();
+      conditions.push(`${column} >= @${field}From`);
+    }
+    if (range?.to) {
+      parameters[`${field}To`] = range.to.getTime();
+      conditions.push(`${column} < @${field}To`);
+    }
+  }
+
+  return { where: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1', parameters };
+}
+
+/**
+ * Bring a database's schema up to date
+ * @returns The schema version after migrating
+ */
+export function migrateSqliteDatabase(db: Database.Database): number {
+  const current = db.pragma('user_version', { simple: true }) as number;
+
+  db.transaction(() => {
+    for (let version = current; version < MIGRATIONS.length; version++) {
+      db.exec(MIGRATIONS[version]);
+    }
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  })();
+
+  return MIGRATIONS.length;
+}
+
+/**
+ * Revive ISO date strings in nested JSON objects (cancelTime, openTime, a transition's time and so on)
+ */
+export function reviveTimes(key: string, value: unknown): unknown {
+  return (key === 'time' || key.endsWith('Time')) && typeof value === 'string' ? new Date(value) : value;
+}
+
+/**
+ * Convert a stored time back to a Date
+ */
+function toDate(time: number | null): Date | null {
+  return time === null ? null : new Date(time);
+}
+
+/**
+ * Convert an etag to the row version it stands for. Etags are row versions, so one that is not
+ * cannot match; binding it would pass NaN, which SQLite stores as NULL and so skips the check.
+ * @returns null when no etag is given
+ * @throws ConflictError if the etag is not a version
+ */
+function toVersion(id: string, ifMatch: string | undefined): number | null {
+  if (ifMatch === undefined) {
+    return null;
+  }
+  if (!/^\d+$/.test(ifMatch)) {
+    throw new ConflictError(`Exchange ${id} was modified by another operation`);
+  }
+  return Number(ifMatch);
+}
+
+/**
+ * SQLite implementation of seed exchange collections for self-hosted deployments.
+ * The database is a single file; open, request and user lookups are served by indexes.
+ */
+export class SqliteSeedExchangeCollections implements ISeedExchangeCollections {
+  private db: Database.Database;
+
+  /**
+   * Open (or create) a database file and migrate its schema
+   * @param path - Database file path, or ':memory:' for a throwaway database
+   */
+  constructor(path: string) {
+    this.db = new Database(path);
+    // Write-ahead logging lets readers continue while a write is in progress
+    this.db.pragma('journal_mode = WAL');
+    migrateSqliteDatabase(this.db);
+  }
+
+  /**
+   * Convert Date objects to stored values
+   */
+  private serializeExchange(exchange: SeedExchange): Omit<ExchangeRow, 'version'> {
+    return {
+      id: exchange.id,
+      plant_id: exchange.plantId,
+      status: exchange.status,
+      request_user_id: exchange.requestUserId,
+      offer_user_id: exchange.offerUserId,
+      quantity: exchange.quantity,
+      seed_request_time: exchange.seedRequestTime?.getTime() ?? null,
+      seed_offer_time: exchange.seedOfferTime?.getTime() ?? null,
+      confirmation_time: exchange.confirmationTime?.getTime() ?? null,
+      ship_time: exchange.shipTime?.getTime() ?? null,
+      received_time: exchange.receivedTime?.getTime() ?? null,
+      cancellation: exchange.cancellation ? JSON.stringify(exchange.cancellation) : null,
+      dispute: exchange.dispute ? JSON.stringify(exchange.dispute) : null,
+      transitions: exchange.transitions ? JSON.stringify(exchange.transitions) : null
+    };
+  }
+
+  /**
+   * Convert a stored row back to an exchange, using the row version as its etag
+   */
+  private deserializeExchange(row: ExchangeRow): SeedExchange {
+    return {
+      id: row.id,
+      plantId: row.plant_id,
+      status: row.status,
+      requestUserId: row.request_user_id,
+      offerUserId: row.offer_user_id,
+      quantity: row.quantity,
+      seedRequestTime: toDate(row.seed_request_time),
+      seedOfferTime: toDate(row.seed_offer_time),
+      confirmationTime: toDate(row.confirmation_time),
+      shipTime: toDate(row.ship_time),
+      receivedTime: toDate(row.received_time),
+      cancellation: row.cancellation ? JSON.parse(row.cancellation, reviveTimes) : undefined,
+      dispute: row.dispute ? JSON.parse(row.dispute, reviveTimes) : undefined,
+      transitions: row.transitions ? JSON.parse(row.transitions, reviveTimes) : undefined,
+      etag: String(row.version)
+    };
+  }
+
+  /**
+   * Run a query and convert the resulting rows
+   */
+  private query(sql: string, ...parameters: unknown[]): SeedExchange[] {
+    const rows = this.db.prepare(sql).all(...parameters) as ExchangeRow[];
+    return rows.map(row => this.deserializeExchange(row));
+  }
+
+  /**
+   * Read one page of rows matching `where`, ordered by id.
+   * The continuation token is the last id on the page, so rows added or removed between pages do not shift later pages.
+   */
+  private queryPage(where: string, parameters: Record<string, unknown>, options: PageOptions): ExchangePage {
+    const pageSize = resolvePageSize(options.pageSize);
+    const rows = this.db.prepare(
+      `SELECT * FROM exchanges WHERE (${where}) AND id > @after ORDER BY id LIMIT @limit`
+    ).all({ ...parameters, after: options.continuationToken ?? '', limit: pageSize + 1 }) as ExchangeRow[];
+
+    const exchanges = rows.slice(0, pageSize).map(row => this.deserializeExchange(row));
+    return {
+      exchanges,
+      continuationToken: rows.length > pageSize ? exchanges[exchanges.length - 1].id : undefined
+    };
+  }
+
+  /**
+   * Insert a new row
+   * @throws ConflictError if the id already exists
+   */
+  private insert(exchange: SeedExchange): void {
+    try {
+      this.db.prepare(`INSERT INTO exchanges (${EXCHANGE_COLUMNS}, version) VALUES (${EXCHANGE_PARAMETERS}, 1)`)
+        .run(this.serializeExchange(exchange));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+        throw new ConflictError(`Exchange ${exchange.id} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace an existing row, bumping its version
+   * @returns Whether a row was replaced
+   */
+  private replace(exchange: SeedExchange, ifMatch?: string): boolean {
+    const result = this.db.prepare(
+      `UPDATE exchanges SET (${EXCHANGE_COLUMNS}, version) = (${EXCHANGE_PARAMETERS}, version + 1)
+       WHERE id = @id AND (@if_match IS NULL OR version = @if_match)`
+    ).run({ ...this.serializeExchange(exchange), if_match: toVersion(exchange.id, ifMatch) });
+    return result.changes === 1;
+  }
+
+  /**
+   * Delete a row
+   * @returns Whether a row was deleted
+   */
+  private delete(id: string, ifMatch?: string): boolean {
+    const result = this.db.prepare('DELETE FROM exchanges WHERE id = @id AND (@if_match IS NULL OR version = @if_match)')
+      .run({ id, if_match: toVersion(id, ifMatch) });
+    return result.changes === 1;
+  }
+
+  /**
+   * Get all open seed requests for a specific plant, oldest first
+   */
+  async getOpenRequestsByPlant(plantId: string): Promise<SeedExchange[]> {
+    return this.query(
+      `SELECT * FROM exchanges WHERE plant_id = ? AND status = 'open-request' ORDER BY seed_request_time ASC`,
+      plantId
+    );
+  }
+
+  /**
+   * Get all open seed offers for a specific plant, oldest first
+   */
+  async getOpenOffersByPlant(plantId: string): Promise<SeedExchange[]> {
+    return this.query(
+      `SELECT * FROM exchanges WHERE plant_id = ? AND status = 'open-offer' ORDER BY seed_offer_time ASC`,
+      plantId
+    );
+  }
+
+  /**
+   * Get open requests and offers created before their respective cutoffs
+   */
+  async getStaleOpenEntries(requestCutoff: Date, offerCutoff: Date): Promise<SeedExchange[]> {
+    return this.query(
+      `SELECT * FROM exchanges
+       WHERE (status = 'open-request' AND seed_request_time < ?)
+          OR (status = 'open-offer' AND seed_offer_time < ?)`,
+      requestCutoff.getTime(),
+      offerCutoff.getTime()
+    );
+  }
+
+  /**
+   * Get all confirmed exchanges (matched exchanges that have not been cancelled)
+   */
+  async getConfirmedExchanges(): Promise<SeedExchange[]> {
+    const placeholders = MATCHED_STATUSES.map(() => '?').join(', ');
+    return this.query(`SELECT * FROM exchanges WHERE status IN (${placeholders})`, ...MATCHED_STATUSES);
+  }
+
+  /**
+   * Get one page of confirmed exchanges
+   */
+  async getConfirmedExchangesPage(options: PageOptions = {}): Promise<ExchangePage> {
+    const placeholders = MATCHED_STATUSES.map((_, index) => `@status${index}`).join(', ');
+    const parameters = Object.fromEntries(MATCHED_STATUSES.map((status, index) => [`status${index}`, status]));
+    return this.queryPage(`status IN (${placeholders})`, parameters, options);
+  }
+
+  /**
+   * Get all exchanges for a specific user (as requester or offerer)
+   */
+  async getExchangesByUser(userId: string): Promise<SeedExchange[]> {
+    return this.query(
+      'SELECT * FROM exchanges WHERE request_user_id = ? UNION SELECT * FROM exchanges WHERE offer_user_id = ?',
+      userId,
+      userId
+    );
+  }
+
+  /**
+   * Get one page of exchanges for a specific user
+   */
+  async getExchangesByUserPage(userId: string, options: PageOptions = {}): Promise<ExchangePage> {
+    return this.queryPage('request_user_id = @userId OR offer_user_id = @userId', { userId }, options);
+  }
+
+  /**
+   * Get one page of exchanges matching a filter, using the offset into the sorted result as the continuation token
+   */
+  async searchExchanges(filter: ExchangeFilter, options: PageOptions = {}): Promise<ExchangePage> {
+    validateExchangeFilter(filter);
+    const pageSize = resolvePageSize(options.pageSize);
+    const offset = parseOffsetToken(options.continuationToken);
+    const { where, parameters } = buildSearchConditions(filter);
+    const direction = filter.sortDirection === 'desc' ? 'DESC' : 'ASC';
+
+    // SQLite sorts NULL first in ascending order and last in descending order, as Cosmos DB does
+    const rows = this.db.prepare(
+      `SELECT * FROM exchanges WHERE ${where}
+       ORDER BY ${SEARCH_COLUMNS[filter.sortBy ?? 'id']} ${direction}, id ${direction}
+       LIMIT @limit OFFSET @offset`
+    ).all({ ...parameters, limit: pageSize + 1, offset }) as ExchangeRow[];
+
+    return {
+      exchanges: rows.slice(0, pageSize).map(row => this.deserializeExchange(row)),
+      continuationToken: rows.length > pageSize ? String(offset + pageSize) : undefined
+    };
+  }
+
+  /**
+   * Add a new seed exchange entry
+   */
+  async addExchange(exchange: SeedExchange): Promise<void> {
+    this.insert(exchange);
+  }
+
+  /**
+   * Get a seed exchange by ID
+   */
+  async getExchange(id: string): Promise<SeedExchange | undefined> {
+    const row = this.db.prepare('SELECT * FROM exchanges WHERE id = ?').get(id) as ExchangeRow | undefined;
+    return row ? this.deserializeExchange(row) : undefined;
+  }
+
+  /**
+   * Remove a seed exchange entry
+   */
+  async removeExchange(id: string): Promise<void> {
+    this.delete(id);
+  }
+
+  /**
+   * Update a seed exchange entry, inserting it if it does not exist
+   * (rejects the update if `options.ifMatch` no longer matches the stored etag)
+   */
+  async updateExchange(exchange: SeedExchange, options: UpdateExchangeOptions = {}): Promise<void> {
+    if (options.ifMatch !== undefined) {
+      if (!this.replace(exchange, options.ifMatch)) {
+        throw new ConflictError(`Exchange ${exchange.id} was modified by another operation`);
+      }
+      return;
+    }
+
+    this.db.transaction(() => {
+      if (!this.replace(exchange)) {
+        this.insert(exchange);
+      }
+    })();
+  }
+
+  /**
+   * Apply several writes in a single SQLite transaction
+   */
+  async executeBatch(operations: ExchangeWriteOperation[]): Promise<void> {
+    getBatchPlantId(operations);
+
+    this.db.transaction(() => {
+      for (const op of operations) {
+        if (op.type === 'create') {
+          this.insert(op.exchange);
+          continue;
+        }
+
+        const id = op.type === 'delete' ? op.id : op.exchange.id;
+        const applied = op.type === 'delete' ? this.delete(id, op.ifMatch) : this.replace(op.exchange, op.ifMatch);
+
+        if (!applied) {
+          throw new ConflictError(`Exchange ${id} was modified or removed by another operation`);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Get all seed exchanges
+   */
+  async getAllExchanges(): Promise<SeedExchange[]> {
+    return this.query('SELECT * FROM exchanges');
+  }
+
+  /**
+   * Get one page of all seed exchanges
+   */
+  async getAllExchangesPage(options: PageOptions = {}): Promise<ExchangePage> {
+    return this.queryPage('1 = 1', {}, options);
+  }
+
+  /**
+   * Clear all collections (useful for testing)
+   */
+  async clear(): Promise<void> {
+    this.db.prepare('DELETE FROM exchanges').run();
+  }
+
+  /**
+   * Close the database file
+   */
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SqliteExchangeEventStore } from './sqliteExchangeEventStore';
+import { EventSourcedSeedExchangeCollections } from './eventSourcedCollections';
+import { SubmitSeedOffer, SubmitSeedRequest, MarkShipped, OpenDispute } from './api';
+import { AzureUserToken, SeedExchange } from './types';
+import { ExchangeEvent } from './IExchangeEventStore';
+import { ConflictError } from './errors';
+
+describe('SQLite exchange event store', () => {
+  const user1: AzureUserToken = { userId: 'user-1', email: 'user1@example.com', name: 'User 1' };
+  const user2: AzureUserToken = { userId: 'user-2', email: 'user2@example.com', name: 'User 2' };
+  let directory: string;
+  let file: string;
+  let stores: SqliteExchangeEventStore[];
+
+  const open = (): SqliteExchangeEventStore => {
+    const store = new SqliteExchangeEventStore(file);
+    stores.push(store);
+    return store;
+  };
+
+  function requestEvent(sequence: number, id: string): ExchangeEvent {
+    const exchange: SeedExchange = {
+      id,
+      plantId: 'milkweed-001',
+      status: 'open-request',
+      requestUserId: 'user-1',
+      offerUserId: null,
+      quantity: 1,
+      seedRequestTime: new Date('2025-01-01'),
+      seedOfferTime: null,
+      confirmationTime: null,
+      shipTime: null,
+      receivedTime: null
+    };
+    return { sequence, type: 'RequestSubmitted', exchangeId: id, plantId: 'milkweed-001', exchange, timestamp: new Date('2025-01-01') };
+  }
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'seed-exchange-events-'));
+    file = path.join(directory, 'exchange.db');
+    stores = [];
+  });
+
+  afterEach(() => {
+    stores.forEach(store => store.close());
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should round-trip events, including their dates', async () => {
+    const store = open();
+
+    await store.append([requestEvent(1, 'a'), { ...requestEvent(2, 'a'), type: 'Withdrawn', exchange: null }], 0);
+
+    expect(await store.read()).toEqual([requestEvent(1, 'a'), { ...requestEvent(2, 'a'), type: 'Withdrawn', exchange: null }]);
+    expect((await store.read(1)).map(event => event.sequence)).toEqual([2]);
+  });
+
+  it('should reject an append that does not continue from the end of the stream', async () => {
+    const store = open();
+    await store.append([requestEvent(1, 'a')], 0);
+
+    await expect(open().append([requestEvent(1, 'b')], 0)).rejects.toThrow(ConflictError);
+    await expect(store.append([requestEvent(3, 'b')], 2)).rejects.toThrow(ConflictError);
+    expect(await store.read()).toHaveLength(1);
+  });
+
+  it('should rebuild collections from the stream after reopening the database file', async () => {
+    const collections = new EventSourcedSeedExchangeCollections(open());
+    await SubmitSeedRequest(user1, 'milkweed-001', collections);
+    const offer = await SubmitSeedOffer(user2, 'milkweed-001', 1, collections);
+    const exchangeId = offer.filledExchanges[0].id;
+    await MarkShipped(user2, exchangeId, collections);
+    await OpenDispute(user1, exchangeId, 'Never arrived', collections);
+    const before = await collections.getAllExchanges();
+    stores.forEach(store => store.close());
+    stores = [];
+
+    const reopened = await EventSourcedSeedExchangeCollections.fromEventStore(open());
+
+    expect(await reopened.getAllExchanges()).toEqual(before);
+    expect((await reopened.getExchange(exchangeId))?.dispute?.openTime).toBeInstanceOf(Date);
+    expect((await reopened.getEvents(exchangeId)).map(event => event.type)).toEqual(['RequestSubmitted', 'Matched', 'Shipped', 'Disputed']);
+  });
+
+  it('should let writers in separate connections share the stream', async () => {
+    const first = new EventSourcedSeedExchangeCollections(open());
+    const second = new EventSourcedSeedExchangeCollections(open());
+
+    await SubmitSeedRequest(user1, 'milkweed-001', first);
+    const offer = await SubmitSeedOffer(user2, 'milkweed-001', 1, second);
+
+    expect(offer.filledExchanges).toHaveLength(1);
+    expect((await first.getExchange(offer.filledExchanges[0].id))?.status).toBe('confirmed');
+  });
+});
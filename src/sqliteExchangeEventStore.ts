@@ -0,0 +1,96 @@
+import Database from 'better-sqlite3';
+import { IExchangeEventStore, ExchangeEvent } from './IExchangeEventStore';
+import { ConflictError } from './errors';
+import { migrateSqliteDatabase, reviveTimes } from './sqliteCollections';
+
+/**
+ * A row of the exchange_events table. The exchange is stored as JSON, the timestamp as
+ * milliseconds since the epoch.
+ */
+interface ExchangeEventRow {
+  sequence: number;
+  type: ExchangeEvent['type'];
+  exchange_id: string;
+  plant_id: string;
+  exchange: string | null;
+  timestamp: number;
+}
+
+/**
+ * SQLite implementation of the exchange event store for self-hosted deployments.
+ * The stream is kept in the `exchange_events` table, so it can share a database file with
+ * SqliteSeedExchangeCollections, and several processes can append to the same file.
+ */
+export class SqliteExchangeEventStore implements IExchangeEventStore {
+  private db: Database.Database;
+
+  /**
+   * Open (or create) a database file and migrate its schema
+   * @param path - Database file path, or ':memory:' for a throwaway database
+   */
+  constructor(path: string) {
+    this.db = new Database(path);
+    // Write-ahead logging lets readers continue while a write is in progress
+    this.db.pragma('journal_mode = WAL');
+    migrateSqliteDatabase(this.db);
+  }
+
+  /**
+   * Append events to the end of the stream as one unit.
+   * The write lock is taken before the stream's position is checked, so two processes cannot both pass the check.
+   */
+  async append(events: ExchangeEvent[], expectedSequence: number): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT INTO exchange_events (sequence, type, exchange_id, plant_id, exchange, timestamp)
+       VALUES (@sequence, @type, @exchange_id, @plant_id, @exchange, @timestamp)`
+    );
+
+    this.db.transaction(() => {
+      const { last } = this.db.prepare('SELECT COALESCE(MAX(sequence), 0) AS last FROM exchange_events')
+        .get() as { last: number };
+      if (last !== expectedSequence) {
+        throw new ConflictError(`Event stream is at sequence ${last}, expected ${expectedSequence}`);
+      }
+      for (const event of events) {
+        insert.run({
+          sequence: event.sequence,
+          type: event.type,
+          exchange_id: event.exchangeId,
+          plant_id: event.plantId,
+          exchange: event.exchange ? JSON.stringify(event.exchange) : null,
+          timestamp: event.timestamp.getTime()
+        });
+      }
+    }).immediate();
+  }
+
+  /**
+   * Read events in sequence order
+   */
+  async read(afterSequence = 0): Promise<ExchangeEvent[]> {
+    const rows = this.db.prepare('SELECT * FROM exchange_events WHERE sequence > ? ORDER BY sequence')
+      .all(afterSequence) as ExchangeEventRow[];
+    return rows.map(row => ({
+      sequence: row.sequence,
+      type: row.type,
+      exchangeId: row.exchange_id,
+      plantId: row.plant_id,
+      exchange: row.exchange ? JSON.parse(row.exchange, reviveTimes) : null,
+      timestamp: new Date(row.timestamp)
+    }));
+  }
+
+  /**
+   * Clear the stream (useful for testing)
+   */
+  async clear(): Promise<void> {
+    this.db.prepare('DELETE FROM exchange_events').run();
+  }
+
+  /**
+   * Close the database file
+   */
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SqliteLedgerStore } from './sqliteLedgerStore';
+import { SqliteSeedExchangeCollections } from './sqliteCollections';
+import { CreditLedger, IN_TRANSIT_ACCOUNT, userAccount } from './ledger';
+import { SubmitSeedOffer, SubmitSeedRequest, MarkShipped } from './api';
+import { LedgerTransaction } from './ILedgerStore';
+import { AzureUserToken } from './types';
+import { ConflictError } from './errors';
+
+describe('SQLite ledger store', () => {
+  const requester: AzureUserToken = { userId: 'requester' };
+  const offerer: AzureUserToken = { userId: 'offerer' };
+  let directory: string;
+  let file: string;
+
+  function shipped(id: string, time: Date, quantity = 1): LedgerTransaction {
+    return {
+      id: `shipped:${id}`,
+      kind: 'shipped',
+      exchangeId: id,
+      description: `Shipped ${quantity} packets`,
+      time,
+      postings: [{ account: userAccount('offerer'), amount: quantity }, { account: IN_TRANSIT_ACCOUNT, amount: -quantity }]
+    };
+  }
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'seed-exchange-ledger-'));
+    file = path.join(directory, 'exchange.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should post each entry once and answer balances and ranges', async () => {
+    const store = new SqliteLedgerStore(file);
+    try {
+      await store.postTransaction(shipped('a', new Date('2025-01-01'), 2));
+      await store.postTransaction(shipped('a', new Date('2025-01-01'), 2));
+      await store.postTransaction(shipped('b', new Date('2025-02-01')));
+
+      expect(await store.getBalance(userAccount('offerer'))).toBe(3);
+      expect(await store.getBalance(userAccount('offerer'), new Date('2025-02-01'))).toBe(2);
+      expect(await store.getBalance('user:nobody')).toBe(0);
+      const [entry] = await store.getEntries(userAccount('offerer'), { from: new Date('2025-01-15') });
+      expect(entry).toEqual({
+        id: `shipped:b:${userAccount('offerer')}`,
+        transactionId: 'shipped:b',
+        account: userAccount('offerer'),
+        amount: 1,
+        kind: 'shipped',
+        exchangeId: 'b',
+        description: 'Shipped 1 packets',
+        time: new Date('2025-02-01')
+      });
+      await expect(store.postTransaction({ ...shipped('c', new Date()), postings: [{ account: 'user:x', amount: 1 }] }))
+        .rejects.toThrow('does not balance');
+    } finally {
+      store.close();
+    }
+  });
+
+  it('should only save credit holds over the version that was read', async () => {
+    const store = new SqliteLedgerStore(file);
+    const other = new SqliteLedgerStore(file);
+    try {
+      const hold = { id: 'hold-1', quantity: 2, time: new Date('2025-01-01') };
+      await store.saveCreditHolds({ userId: 'requester', holds: [hold] }, undefined);
+      await expect(other.saveCreditHolds({ userId: 'requester', holds: [] }, undefined)).rejects.toThrow(ConflictError);
+
+      const read = await other.getCreditHolds('requester');
+      expect(read).toEqual({ userId: 'requester', holds: [hold], etag: '1' });
+      await other.saveCreditHolds({ userId: 'requester', holds: [] }, read?.etag);
+
+      await expect(store.saveCreditHolds({ userId: 'requester', holds: [hold] }, '1')).rejects.toThrow(ConflictError);
+      await expect(store.saveCreditHolds({ userId: 'requester', holds: [hold] }, 'not-a-version')).rejects.toThrow(ConflictError);
+      expect(await store.getCreditHolds('requester')).toEqual({ userId: 'requester', holds: [], etag: '2' });
+      expect(await store.getCreditHolds('someone-else')).toBeUndefined();
+    } finally {
+      other.close();
+      store.close();
+    }
+  });
+
+  it('should keep earned credits and starting grants across a restart', async () => {
+    const collections = new SqliteSeedExchangeCollections(file);
+    const store = new SqliteLedgerStore(file);
+    const options = { ledger: new CreditLedger(store, { startingCredits: 1 }), config: { creditOverdraftLimit: 0 } };
+    await SubmitSeedRequest(requester, 'milkweed', collections, 1, options);
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', 1, collections, options);
+    await MarkShipped(offerer, offer.filledExchanges[0].id, collections, options);
+    store.close();
+    collections.close();
+
+    const reopenedCollections = new SqliteSeedExchangeCollections(file);
+    const reopened = new SqliteLedgerStore(file);
+    try {
+      const ledger = new CreditLedger(reopened, { startingCredits: 1 });
+      await ledger.openAccount('offerer');
+      await ledger.openAccount('requester');
+
+      expect(await ledger.getCreditBalance('offerer', reopenedCollections)).toMatchObject({ balance: 2, available: 2 });
+      expect(await ledger.getCreditBalance('requester', reopenedCollections)).toMatchObject({ balance: 1, reserved: 1, available: 0 });
+    } finally {
+      reopened.close();
+      reopenedCollections.close();
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import Database from 'better-sqlite3';
+import { CreditHold, CreditHolds, ILedgerStore, LedgerEntry, LedgerRange, LedgerTransaction } from './ILedgerStore';
+import { toLedgerEntries } from './ledger';
+import { ConflictError } from './errors';
+import { migrateSqliteDatabase } from './sqliteCollections';
+
+/**
+ * A row of the ledger_entries table, with the time as milliseconds since the epoch
+ */
+interface LedgerEntryRow {
+  id: string;
+  transaction_id: string;
+  account: string;
+  amount: number;
+  kind: LedgerEntry['kind'];
+  exchange_id: string | null;
+  description: string;
+  time: number;
+}
+
+/**
+ * A row of the credit_holds table, with the holds as JSON. The version is the etag.
+ */
+interface CreditHoldsRow {
+  user_id: string;
+  holds: string;
+  version: number;
+}
+
+/**
+ * Build the WHERE clause and named parameters for an account's entries within a time range
+ */
+function buildRangeConditions(account: string, range: LedgerRange): { where: string; parameters: Record<string, unknown> } {
+  const conditions = ['account = @account'];
+  const parameters: Record<string, unknown> = { account };
+  if (range.from) {
+    conditions.push('time >= @from');
+    parameters.from = range.from.getTime();
+  }
+  if (range.to) {
+    conditions.push('time < @to');
+    parameters.to = range.to.getTime();
+  }
+  return { where: conditions.join(' AND '), parameters };
+}
+
+/**
+ * SQLite implementation of credit ledger storage for self-hosted deployments.
+ * Entries are kept in the `ledger_entries` table, so the ledger can share a database file with
+ * SqliteSeedExchangeCollections. A transaction's entries are inserted in one transaction.
+ * Each user's credit holds are a row whose version is its etag.
+ */
+export class SqliteLedgerStore implements ILedgerStore {
+  private db: Database.Database;
+
+  /**
+   * Open (or create) a database file and migrate its schema
+   * @param path - Database file path, or ':memory:' for a throwaway database
+   */
+  constructor(path: string) {
+    this.db = new Database(path);
+    // Write-ahead logging lets readers continue while a write is in progress
+    this.db.pragma('journal_mode = WAL');
+    migrateSqliteDatabase(this.db);
+  }
+
+  async postTransaction(transaction: LedgerTransaction): Promise<void> {
+    const entries = toLedgerEntries(transaction);
+    // An entry posted before is skipped
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO ledger_entries (id, transaction_id, account, amount, kind, exchange_id, description, time)
+       VALUES (@id, @transaction_id, @account, @amount, @kind, @exchange_id, @description, @time)`
+    );
+
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        insert.run({
+          id: entry.id,
+          transaction_id: entry.transactionId,
+          account: entry.account,
+          amount: entry.amount,
+          kind: entry.kind,
+          exchange_id: entry.exchangeId ?? null,
+          description: entry.description,
+          time: entry.time.getTime()
+        });
+      }
+    })();
+  }
+
+  async getEntries(account: string, range: LedgerRange = {}): Promise<LedgerEntry[]> {
+    const { where, parameters } = buildRangeConditions(account, range);
+    const rows = this.db.prepare(`SELECT * FROM ledger_entries WHERE ${where} ORDER BY time, rowid`)
+      .all(parameters) as LedgerEntryRow[];
+    return rows.map(row => ({
+      id: row.id,
+      transactionId: row.transaction_id,
+      account: row.account,
+      amount: row.amount,
+      kind: row.kind,
+      exchangeId: row.exchange_id ?? undefined,
+      description: row.description,
+      time: new Date(row.time)
+    }));
+  }
+
+  async getBalance(account: string, before?: Date): Promise<number> {
+    const { where, parameters } = buildRangeConditions(account, { to: before });
+    const { balance } = this.db.prepare(`SELECT COALESCE(SUM(amount), 0) AS balance FROM ledger_entries WHERE ${where}`)
+      .get(parameters) as { balance: number };
+    return balance;
+  }
+
+  async getCreditHolds(userId: string): Promise<CreditHolds | undefined> {
+    const row = this.db.prepare('SELECT * FROM credit_holds WHERE user_id = ?').get(userId) as CreditHoldsRow | undefined;
+    return row && {
+      userId,
+      holds: (JSON.parse(row.holds) as Array<Omit<CreditHold, 'time'> & { time: string }>)
+        .map(hold => ({ ...hold, time: new Date(hold.time) })),
+      etag: String(row.version)
+    };
+  }
+
+  async saveCreditHolds(holds: CreditHolds, ifMatch: string | undefined): Promise<void> {
+    const parameters = { user_id: holds.userId, holds: JSON.stringify(holds.holds), if_match: ifMatch ?? null };
+    // Without an etag there must be no row yet; an etag that is not a version cannot match one
+    const { changes } = ifMatch === undefined
+      ? this.db.prepare('INSERT OR IGNORE INTO credit_holds (user_id, holds, version) VALUES (@user_id, @holds, 1)').run(parameters)
+      : this.db.prepare(
+        'UPDATE credit_holds SET holds = @holds, version = version + 1 WHERE user_id = @user_id AND CAST(version AS TEXT) = @if_match'
+      ).run(parameters);
+    if (changes === 0) {
+      throw new ConflictError(`Credit holds for ${holds.userId} were changed by another request`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.db.prepare('DELETE FROM ledger_entries').run();
+    this.db.prepare('DELETE FROM credit_holds').run();
+  }
+
+  /**
+   * Close the database file
+   */
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { TokenVerifier, TokenVerificationConfig, getTokenVerificationConfig } from './tokenVerification';
+import { createSeedExchangeServer, bearerAuthenticator } from './server';
+import { SeedExchangeCollections } from './collections';
+import { UnauthorizedError } from './errors';
+import { SubmitSeedOfferResult } from './types';
+
+describe('Token Verification', () => {
+  const issuer = 'https://login.microsoftonline.com/test-tenant/v2.0';
+  const audience = 'api://seed-exchange';
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const untrusted = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  let jwksDir: string;
+  let config: TokenVerificationConfig;
+
+  /**
+   * Sign a token with the test key, overriding any claims or header fields
+   */
+  function signToken(
+    claims: Record<string, unknown> = {},
+    header: Record<string, unknown> = {},
+    key: crypto.KeyObject = privateKey
+  ): string {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const encodedHeader = encode({ alg: 'RS256', typ: 'JWT', kid: 'test-key', ...header });
+    const encodedPayload = encode({
+      iss: issuer,
+      aud: audience,
+      exp: now + 3600,
+      nbf: now - 60,
+      oid: 'user-oid-1',
+      preferred_username: 'gardener@example.com',
+      name: 'Test Gardener',
+      ...claims
+    });
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(`${encodedHeader}.${encodedPayload}`), key);
+    return `${encodedHeader}.${encodedPayload}.${signature.toString('base64url')}`;
+  }
+
+  beforeAll(() => {
+    jwksDir = fs.mkdtempSync(path.join(os.tmpdir(), 'seed-exchange-jwks-'));
+    const jwk = publicKey.export({ format: 'jwk' });
+    fs.writeFileSync(
+      path.join(jwksDir, 'jwks.json'),
+      JSON.stringify({ keys: [{ ...jwk, kid: 'test-key', use: 'sig', alg: 'RS256' }] })
+    );
+    config = { issuer, audience, jwksPath: path.join(jwksDir, 'jwks.json') };
+  });
+
+  afterAll(() => {
+    fs.rmSync(jwksDir, { recursive: true, force: true });
+  });
+
+  describe('TokenVerifier', () => {
+    it('should map claims of a valid token into an AzureUserToken', async () => {
+      const verifier = new TokenVerifier(config);
+
+      const user = await verifier.verify(signToken());
+
+      expect(user).toEqual({ userId: 'user-oid-1', email: 'gardener@example.com', name: 'Test Gardener' });
+    });
+
+    it('should map the roles claim', async () => {
+      const verifier = new TokenVerifier(config);
+
+      const user = await verifier.verify(signToken({ roles: ['SeedExchange.Admin', 42] }));
+
+      expect(user.roles).toEqual(['SeedExchange.Admin']);
+    });
+
+    it('should accept an audience list containing the expected audience', async () => {
+      const verifier = new TokenVerifier(config);
+
+      const user = await verifier.verify(signToken({ aud: ['other-api', audience] }));
+
+      expect(user.userId).toBe('user-oid-1');
+    });
+
+    it('should reject malformed tokens', async () => {
+      const verifier = new TokenVerifier(config);
+
+      await expect(verifier.verify('not-a-token')).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+      await expect(verifier.verify('a.b.c')).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+
+    it('should reject tokens signed with an untrusted key', async () => {
+      const verifier = new TokenVerifier(config);
+
+      await expect(verifier.verify(signToken({}, {}, untrusted.privateKey)))
+        .rejects.toMatchObject({ code: 'INVALID_TOKEN_SIGNATURE' });
+      await expect(verifier.verify(signToken({}, { kid: 'unknown-key' })))
+        .rejects.toMatchObject({ code: 'INVALID_TOKEN_SIGNATURE' });
+    });
+
+    it('should reject tokens whose claims were tampered with', async () => {
+      const verifier = new TokenVerifier(config);
+      const [header, , signature] = signToken().split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({
+        iss: issuer, aud: audience, exp: Math.floor(Date.now() / 1000) + 3600, oid: 'someone-else'
+      })).toString('base64url');
+
+      await expect(verifier.verify(`${header}.${forgedPayload}.${signature}`))
+        .rejects.toMatchObject({ code: 'INVALID_TOKEN_SIGNATURE' });
+    });
+
+    it('should reject algorithms other than RS256', async () => {
+      const verifier = new TokenVerifier(config);
+
+      await expect(verifier.verify(signToken({}, { alg: 'none' }))).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+
+    it('should reject the wrong issuer or audience', async () => {
+      const verifier = new TokenVerifier(config);
+
+      await expect(verifier.verify(signToken({ iss: 'https://evil.example.com' })))
+        .rejects.toMatchObject({ code: 'INVALID_TOKEN_ISSUER' });
+      await expect(verifier.verify(signToken({ aud: 'other-api' })))
+        .rejects.toMatchObject({ code: 'INVALID_TOKEN_AUDIENCE' });
+    });
+
+    it('should reject expired and not-yet-valid tokens outside the clock tolerance', async () => {
+      const verifier = new TokenVerifier({ ...config, clockToleranceSeconds: 30 });
+      const now = Math.floor(Date.now() / 1000);
+
+      await expect(verifier.verify(signToken({ exp: now - 60 }))).rejects.toMatchObject({ code: 'TOKEN_EXPIRED' });
+      await expect(verifier.verify(signToken({ nbf: now + 600 }))).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+      await expect(verifier.verify(signToken({ exp: now - 10 }))).resolves.toMatchObject({ userId: 'user-oid-1' });
+    });
+
+    it('should reject tokens without an oid claim', async () => {
+      const verifier = new TokenVerifier(config);
+
+      await expect(verifier.verify(signToken({ oid: undefined }))).rejects.toThrow(UnauthorizedError);
+    });
+  });
+
+  describe('getTokenVerificationConfig', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      delete process.env.AZURE_AD_TENANT_ID;
+      delete process.env.AZURE_AD_ISSUER;
+      delete process.env.AZURE_AD_AUDIENCE;
+      delete process.env.AZURE_AD_JWKS_URI;
+      delete process.env.AZURE_AD_JWKS_PATH;
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should derive issuer and JWKS URI from the tenant id', () => {
+      process.env.AZURE_AD_TENANT_ID = 'tenant-1';
+      process.env.AZURE_AD_AUDIENCE = audience;
+
+      expect(getTokenVerificationConfig()).toEqual({
+        issuer: 'https://login.microsoftonline.com/tenant-1/v2.0',
+        audience,
+        jwksUri: 'https://login.microsoftonline.com/tenant-1/discovery/v2.0/keys',
+        jwksPath: undefined
+      });
+    });
+
+    it('should throw when the audience is missing', () => {
+      process.env.AZURE_AD_TENANT_ID = 'tenant-1';
+
+      expect(() => getTokenVerificationConfig()).toThrow('AZURE_AD_AUDIENCE');
+    });
+  });
+
+  describe('bearerAuthenticator', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      server = createSeedExchangeServer({
+        collections: new SeedExchangeCollections(),
+        authenticate: bearerAuthenticator(new TokenVerifier(config))
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should identify the caller from a valid bearer token', async () => {
+      const response = await fetch(`${baseUrl}/offers`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${signToken()}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plantId: 'milkweed', quantity: 1 })
+      });
+      const body = await response.json() as SubmitSeedOfferResult;
+
+      expect(response.status).toBe(201);
+      expect(body.remainingOffer?.offerUserId).toBe('user-oid-1');
+    });
+
+    it('should return 401 with the verification error code for bad tokens', async () => {
+      const response = await fetch(`${baseUrl}/me/exchanges`, {
+        headers: { Authorization: `Bearer ${signToken({ aud: 'other-api' })}` }
+      });
+      const body = await response.json() as { error: { code: string } };
+
+      expect(response.status).toBe(401);
+      expect(body.error.code).toBe('INVALID_TOKEN_AUDIENCE');
+    });
+
+    it('should return 401 when no token is supplied', async () => {
+      const response = await fetch(`${baseUrl}/me/exchanges`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { AzureUserToken } from './types';
+import { UnauthorizedError } from './errors';
+
+/**
+ * Settings for verifying Azure Entra ID access tokens
+ */
+export interface TokenVerificationConfig {
+  /** Expected `iss` claim */
+  issuer: string;
+  /** Expected `aud` claim (the API's application ID URI or client ID) */
+  audience: string;
+  /** URL of the JSON Web Key Set used to sign tokens */
+  jwksUri?: string;
+  /** Local JWKS file, used instead of jwksUri (for tests and offline development) */
+  jwksPath?: string;
+  /** Allowed clock skew when checking `exp` and `nbf`, in seconds */
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * A single RSA key from a JSON Web Key Set
+ */
+export interface JsonWebKey {
+  kid: string;
+  kty: string;
+  n: string;
+  e: string;
+  use?: string;
+  alg?: string;
+}
+
+/**
+ * A JSON Web Key Set as published by Entra ID
+ */
+export interface JsonWebKeySet {
+  keys: JsonWebKey[];
+}
+
+/**
+ * Claims read from a verified token
+ */
+interface TokenClaims {
+  iss?: unknown;
+  aud?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+  oid?: unknown;
+  preferred_username?: unknown;
+  name?: unknown;
+  roles?: unknown;
+}
+
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 60;
+
+/**
+ * Minimum time between key set reloads triggered by unknown key ids
+ */
+const MIN_KEY_RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Get token verification settings from environment variables.
+ *
+ * Environment variables:
+ * - AZURE_AD_TENANT_ID: Tenant ID used to derive the default issuer and JWKS URI
+ * - AZURE_AD_ISSUER: Expected issuer (default: https://login.microsoftonline.com/{tenant}/v2.0)
+ * - AZURE_AD_AUDIENCE: Expected audience (required)
+ * - AZURE_AD_JWKS_URI: JWKS URL (default: https://login.microsoftonline.com/{tenant}/discovery/v2.0/keys)
+ * - AZURE_AD_JWKS_PATH: Local JWKS file, used instead of AZURE_AD_JWKS_URI when set
+ */
+export function getTokenVerificationConfig(): TokenVerificationConfig {
+  const tenantId = process.env.AZURE_AD_TENANT_ID;
+  const issuer = process.env.AZURE_AD_ISSUER
+    || (tenantId ? `https://login.microsoftonline.com/${tenantId}/v2.0` : undefined);
+  const audience = process.env.AZURE_AD_AUDIENCE;
+  const jwksPath = process.env.AZURE_AD_JWKS_PATH || undefined;
+  const jwksUri = process.env.AZURE_AD_JWKS_URI
+    || (tenantId ? `https://login.microsoftonline.com/${tenantId}/discovery/v2.0/keys` : undefined);
+
+  if (!issuer) {
+    throw new Error('Token issuer is missing. Please set AZURE_AD_TENANT_ID or AZURE_AD_ISSUER environment variable.');
+  }
+  if (!audience) {
+    throw new Error('Token audience is missing. Please set AZURE_AD_AUDIENCE environment variable.');
+  }
+  if (!jwksPath && !jwksUri) {
+    throw new Error(
+      'Token signing keys are missing. Please set AZURE_AD_TENANT_ID, AZURE_AD_JWKS_URI or AZURE_AD_JWKS_PATH environment variable.'
+    );
+  }
+
+  return { issuer, audience, jwksUri, jwksPath };
+}
+
+/**
+ * Decode one base64url-encoded JSON segment of a JWT
+ */
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (typeof decoded === 'object' && decoded !== null && !Array.isArray(decoded)) {
+      return decoded;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new UnauthorizedError('Token is malformed', 'INVALID_TOKEN');
+}
+
+/**
+ * Verifies RS256-signed Entra ID access tokens and maps their claims to an AzureUserToken.
+ * Signing keys are loaded on first use and reloaded when a token names an unknown key id,
+ * so key rotation is picked up without a restart.
+ */
+export class TokenVerifier {
+  private readonly config: TokenVerificationConfig;
+  private keys: Map<string, crypto.KeyObject> | undefined;
+  private keysLoadedAt = 0;
+
+  constructor(config: TokenVerificationConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Verify a compact-serialized JWT
+   * @param token - The raw token, without the "Bearer " prefix
+   * @returns The caller's identity
+   * @throws UnauthorizedError if the token is malformed, unsigned by a trusted key, expired,
+   * or issued for another issuer or audience
+   */
+  async verify(token: string): Promise<AzureUserToken> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new UnauthorizedError('Token is malformed', 'INVALID_TOKEN');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    const header = decodeSegment(encodedHeader);
+    const claims = decodeSegment(encodedPayload) as TokenClaims;
+
+    if (header.alg !== 'RS256') {
+      throw new UnauthorizedError(`Unsupported token algorithm: ${String(header.alg)}`, 'INVALID_TOKEN');
+    }
+    if (typeof header.kid !== 'string') {
+      throw new UnauthorizedError('Token does not name a signing key', 'INVALID_TOKEN');
+    }
+
+    const key = await this.getKey(header.kid);
+    const signatureValid = crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      key,
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!signatureValid) {
+      throw new UnauthorizedError('Token signature is invalid', 'INVALID_TOKEN_SIGNATURE');
+    }
+
+    this.validateClaims(claims);
+
+    if (typeof claims.oid !== 'string' || claims.oid === '') {
+      throw new UnauthorizedError('Token is missing the oid claim', 'INVALID_TOKEN');
+    }
+
+    return {
+      userId: claims.oid,
+      email: typeof claims.preferred_username === 'string' ? claims.preferred_username : undefined,
+      name: typeof claims.name === 'string' ? claims.name : undefined,
+      roles: Array.isArray(claims.roles)
+        ? claims.roles.filter((role): role is string => typeof role === 'string')
+        : undefined
+    };
+  }
+
+  /**
+   * Check issuer, audience and validity period
+   */
+  private validateClaims(claims: TokenClaims): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.config.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+
+    if (claims.iss !== this.config.issuer) {
+      throw new UnauthorizedError('Token was issued by an untrusted issuer', 'INVALID_TOKEN_ISSUER');
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.config.audience)) {
+      throw new UnauthorizedError('Token was issued for another audience', 'INVALID_TOKEN_AUDIENCE');
+    }
+
+    if (typeof claims.exp !== 'number') {
+      throw new UnauthorizedError('Token is missing the exp claim', 'INVALID_TOKEN');
+    }
+    if (now - tolerance >= claims.exp) {
+      throw new UnauthorizedError('Token has expired', 'TOKEN_EXPIRED');
+    }
+    if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) {
+      throw new UnauthorizedError('Token is not yet valid', 'INVALID_TOKEN');
+    }
+  }
+
+  /**
+   * Find a signing key by id, reloading the key set if it is not known (at most every few minutes)
+   */
+  private async getKey(kid: string): Promise<crypto.KeyObject> {
+    let key = this.keys?.get(kid);
+    if (!key && (!this.keys || Date.now() - this.keysLoadedAt >= MIN_KEY_RELOAD_INTERVAL_MS)) {
+      this.keys = await this.loadKeys();
+      this.keysLoadedAt = Date.now();
+      key = this.keys.get(kid);
+    }
+    if (!key) {
+      throw new UnauthorizedError(`Token was signed with an unknown key: ${kid}`, 'INVALID_TOKEN_SIGNATURE');
+    }
+    return key;
+  }
+
+  /**
+   * Load the JSON Web Key Set from the configured file or URL
+   */
+  private async loadKeys(): Promise<Map<string, crypto.KeyObject>> {
+    let jwks: JsonWebKeySet;
+    if (this.config.jwksPath) {
+      jwks = JSON.parse(await fs.readFile(this.config.jwksPath, 'utf8'));
+    } else if (this.config.jwksUri) {
+      const response = await fetch(this.config.jwksUri);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch signing keys from ${this.config.jwksUri}: HTTP ${response.status}`);
+      }
+      jwks = await response.json() as JsonWebKeySet;
+    } else {
+      throw new Error('No JWKS source configured: set jwksUri or jwksPath');
+    }
+
+    const keys = new Map<string, crypto.KeyObject>();
+    for (const jwk of jwks.keys ?? []) {
+      if (jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig')) {
+        keys.set(jwk.kid, crypto.createPublicKey({ key: { kty: jwk.kty, n: jwk.n, e: jwk.e }, format: 'jwk' }));
+      }
+    }
+    return keys;
+  }
+}
@@ -5,6 +5,96 @@ export interface AzureUserToken {
   userId: string;
   email?: string;
   name?: string;
+  /** App roles granted to the user, e.g. ADMIN_ROLE for dispute resolution */
+  roles?: string[];
+}
+
+/**
+ * Role a plant plays for monarch butterflies
+ * - monarch-host: Milkweeds, the only plants monarch caterpillars eat
+ * - nectar: Flowers adult monarchs feed on
+ * - other: Any other plant traded on the exchange
+ */
+export type PlantCategory = 'monarch-host' | 'nectar' | 'other';
+
+/**
+ * An entry in the plant catalog. Exchanges reference plants by `id`.
+ */
+export interface Plant {
+  id: string;
+  commonName: string;
+  scientificName: string;
+  /** Alternative names that resolve to this plant, e.g. regional common names or old ids */
+  aliases: string[];
+  category: PlantCategory;
+}
+
+/**
+ * Lifecycle status of a seed exchange.
+ * Allowed transitions between statuses are defined in exchangeStatus.ts.
+ */
+export type ExchangeStatus =
+  | 'open-request'
+  | 'open-offer'
+  | 'confirmed'
+  | 'shipped'
+  | 'received'
+  | 'cancelled'
+  | 'disputed'
+  | 'expired';
+
+/**
+ * A status an exchange entered, and when
+ */
+export interface ExchangeTransition {
+  status: ExchangeStatus;
+  time: Date;
+}
+
+/**
+ * Who cancelled a confirmed exchange, when and why
+ */
+export interface ExchangeCancellation {
+  cancelledByUserId: string;
+  reason: string;
+  cancelTime: Date;
+}
+
+/**
+ * How an admin settled a dispute
+ * - refund: The exchange is cancelled and the requester's request returns to the queue at its original time
+ * - fraudulent: As refund, and the offerer is recorded as having shipped fraudulently
+ * - closed: The dispute is dismissed and the exchange is treated as received
+ */
+export type DisputeOutcome = 'refund' | 'fraudulent' | 'closed';
+
+/**
+ * The offerer's answer to a dispute
+ */
+export interface DisputeResponse {
+  message: string;
+  responseTime: Date;
+}
+
+/**
+ * An admin's ruling on a dispute
+ */
+export interface DisputeResolution {
+  outcome: DisputeOutcome;
+  resolvedByUserId: string;
+  note?: string;
+  resolveTime: Date;
+}
+
+/**
+ * A requester's complaint about a shipped exchange and every step taken to settle it
+ */
+export interface ExchangeDispute {
+  openedByUserId: string;
+  reason: string;
+  openTime: Date;
+  response?: DisputeResponse;
+  resolution?: DisputeResolution;
 }
 
 /**
@@ -13,10 +103,12 @@ export interface AzureUserToken {
  * - An open request (requestUserId set, offerUserId null)
  * - An open offer (offerUserId set, requestUserId null)
  * - A matched/confirmed exchange (both requestUserId and offerUserId set)
+ * The current stage is recorded explicitly in `status`.
  */
 export interface SeedExchange {
   id: string;
   plantId: string;
+  status: ExchangeStatus;
   requestUserId: string | null;
   offerUserId: string | null;
   quantity: number;
@@ -25,6 +117,50 @@ export interface SeedExchange {
   confirmationTime: Date | null;
   shipTime: Date | null;
   receivedTime: Date | null;
+  /** Set when a confirmed exchange is cancelled by one of its parties */
+  cancellation?: ExchangeCancellation;
+  /** Set when the requester disputes a shipped exchange; kept after the dispute is resolved */
+  dispute?: ExchangeDispute;
+  /**
+   * Every status change made by transitionExchange, oldest first. Missing on open entries
+   * and on exchanges last written before transitions were recorded.
+   */
+  transitions?: ExchangeTransition[];
+  /** Version tag assigned by the storage backend on every write, used for optimistic concurrency */
+  etag?: string;
+}
+
+/**
+ * Operation that changed an exchange, recorded in the audit log
+ */
+export type AuditAction =
+  | 'submit-offer'
+  | 'submit-request'
+  | 'withdraw'
+  | 'cancel'
+  | 'ship'
+  | 'receive'
+  | 'open-dispute'
+  | 'respond-to-dispute'
+  | 'resolve-dispute'
+  | 'expire';
+
+/**
+ * A single change to a single exchange. Audit entries are never updated or deleted.
+ */
+export interface AuditLogEntry {
+  id: string;
+  exchangeId: string;
+  /** User whose call made the change, or SYSTEM_ACTOR_ID for scheduled jobs */
+  actorUserId: string;
+  action: AuditAction;
+  /** The exchange before the change; null when it was created */
+  before: SeedExchange | null;
+  /** The exchange after the change; null when it was deleted */
+  after: SeedExchange | null;
+  /** Users the entry is listed under: the actor and every party before and after the change */
+  userIds: string[];
+  timestamp: Date;
 }
 
 /**
@@ -39,15 +175,79 @@ export interface SubmitSeedOfferResult {
  * Result of submitting a seed request
  */
 export interface SubmitSeedRequestResult {
+  /** Whether the entire requested quantity was filled */
   filled: boolean;
+  /** First confirmed exchange, if any packets were filled */
   exchange?: SeedExchange;
+  filledExchanges: SeedExchange[];
   remainingRequest?: SeedExchange;
 }
 
 /**
- * Result of withdrawing an open request or offer
+ * Result of withdrawing an open request or offer.
+ * Failures are reported by throwing a SeedExchangeError.
  */
 export interface WithdrawResult {
   success: boolean;
   withdrawnExchange?: SeedExchange;
 }
+
+/**
+ * Result of cancelling a confirmed exchange.
+ * Failures are reported by throwing a SeedExchangeError.
+ */
+export interface CancelExchangeResult {
+  success: boolean;
+  cancelledExchange?: SeedExchange;
+  /** The counterparty's side returned to the open queue, if requested and still open */
+  requeuedExchange?: SeedExchange;
+  /** Exchanges confirmed by matching the requeued side against the open queue straight away */
+  rematchedExchanges: SeedExchange[];
+}
+
+/**
+ * Result of marking a confirmed exchange as shipped.
+ * Failures are reported by throwing a SeedExchangeError.
+ */
+export interface MarkShippedResult {
+  success: boolean;
+  shippedExchange?: SeedExchange;
+}
+
+/**
+ * Result of marking a shipped exchange as received.
+ * Failures are reported by throwing a SeedExchangeError.
+ */
+export interface MarkReceivedResult {
+  success: boolean;
+  receivedExchange?: SeedExchange;
+}
+
+/**
+ * Result of opening or responding to a dispute.
+ * Failures are reported by throwing a SeedExchangeError.
+ */
+export interface DisputeResult {
+  success: boolean;
+  disputedExchange?: SeedExchange;
+}
+
+/**
+ * Result of resolving a dispute.
+ * Failures are reported by throwing a SeedExchangeError.
+ */
+export interface ResolveDisputeResult {
+  success: boolean;
+  resolvedExchange?: SeedExchange;
+  /** The requester's request returned to the open queue by a refund, if still open */
+  requeuedExchange?: SeedExchange;
+  /** Exchanges confirmed by matching the requeued request against the open queue straight away */
+  rematchedExchanges: SeedExchange[];
+}
+
+/**
+ * Result of sweeping stale open requests and offers into the expired status
+ */
+export interface ExpireStaleEntriesResult {
+  expiredExchanges: SeedExchange[];
+}
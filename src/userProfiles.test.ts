@@ -0,0 +1,157 @@
+import { InMemoryUserProfileStore } from './userProfiles';
+import { SeedExchangeCollections } from './collections';
+import {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  MarkShipped,
+  MarkReceived,
+  Withdraw,
+  GetUserProfile,
+  UpdateUserProfile,
+  DeleteUserProfile,
+  GetShippingAddress
+} from './api';
+import { PostalAddress } from './IUserProfileStore';
+import { AzureUserToken, SeedExchange } from './types';
+
+const requester: AzureUserToken = { userId: 'requester' };
+const offerer: AzureUserToken = { userId: 'offerer' };
+const stranger: AzureUserToken = { userId: 'stranger' };
+
+const ADDRESS: PostalAddress = {
+  recipientName: 'Robin Gardener',
+  line1: '12 Meadow Lane',
+  city: 'Olympia',
+  region: 'WA',
+  postalCode: '98501',
+  country: 'US'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('User profiles', () => {
+  let store: InMemoryUserProfileStore;
+
+  beforeEach(() => {
+    store = new InMemoryUserProfileStore();
+  });
+
+  it('should return an empty profile for users who have not created one', async () => {
+    expect(await GetUserProfile(requester, store)).toMatchObject({ userId: 'requester', preferences: {} });
+    expect(await store.getProfile('requester')).toBeUndefined();
+  });
+
+  it('should change only the given fields and clear fields set to null', async () => {
+    await UpdateUserProfile(requester, { displayName: '  Robin ', region: 'Pacific Northwest', address: ADDRESS }, store);
+    const updated = await UpdateUserProfile(requester, { region: null, preferences: { units: 'metric', newsletter: false } }, store);
+
+    expect(updated).toMatchObject({
+      displayName: 'Robin',
+      address: ADDRESS,
+      preferences: { units: 'metric', newsletter: false }
+    });
+    expect(updated.region).toBeUndefined();
+    expect(await GetUserProfile(requester, store)).toEqual(updated);
+  });
+
+  it('should keep only the known address fields', async () => {
+    const profile = await UpdateUserProfile(
+      requester,
+      { address: { ...ADDRESS, line2: '', notes: 'leave by the gate' } as PostalAddress },
+      store
+    );
+
+    expect(profile.address).toEqual({ ...ADDRESS, line2: undefined });
+  });
+
+  it('should reject invalid profiles', async () => {
+    await expect(UpdateUserProfile(requester, { displayName: 'x'.repeat(101) }, store))
+      .rejects.toMatchObject({ code: 'INVALID_USER_PROFILE' });
+    await expect(UpdateUserProfile(requester, { address: { ...ADDRESS, city: ' ' } }, store))
+      .rejects.toMatchObject({ code: 'INVALID_POSTAL_ADDRESS' });
+    await expect(UpdateUserProfile(requester, { preferences: { nested: {} as never } }, store))
+      .rejects.toMatchObject({ code: 'INVALID_USER_PROFILE' });
+    expect(await store.getProfile('requester')).toBeUndefined();
+  });
+
+  it('should delete the caller\'s profile', async () => {
+    await UpdateUserProfile(requester, { address: ADDRESS }, store);
+    await DeleteUserProfile(requester, store);
+
+    expect(await store.getProfile('requester')).toBeUndefined();
+  });
+});
+
+describe('GetShippingAddress', () => {
+  let collections: SeedExchangeCollections;
+  let store: InMemoryUserProfileStore;
+
+  beforeEach(async () => {
+    collections = new SeedExchangeCollections();
+    store = new InMemoryUserProfileStore();
+    await UpdateUserProfile(requester, { displayName: 'Robin', address: ADDRESS }, store);
+  });
+
+  const matchExchange = async (): Promise<SeedExchange> => {
+    await SubmitSeedRequest(requester, 'milkweed', collections, 1);
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', 1, collections);
+    return offer.filledExchanges[0];
+  };
+
+  it('should give the offerer of a matched exchange the requester\'s address', async () => {
+    const exchange = await matchExchange();
+
+    expect(await GetShippingAddress(offerer, exchange.id, collections, store)).toEqual({
+      exchangeId: exchange.id,
+      requestUserId: 'requester',
+      displayName: 'Robin',
+      address: ADDRESS,
+      availableUntil: undefined
+    });
+  });
+
+  it('should only reveal the address to the offerer', async () => {
+    const exchange = await matchExchange();
+
+    await expect(GetShippingAddress(requester, exchange.id, collections, store))
+      .rejects.toMatchObject({ code: 'NOT_EXCHANGE_OFFERER' });
+    await expect(GetShippingAddress(stranger, exchange.id, collections, store))
+      .rejects.toMatchObject({ code: 'NOT_EXCHANGE_PARTY' });
+  });
+
+  it('should not reveal the address before the exchange is matched', async () => {
+    const result = await SubmitSeedOffer(offerer, 'milkweed', 1, collections);
+    const openOffer = result.remainingOffer as SeedExchange;
+
+    await expect(GetShippingAddress(offerer, openOffer.id, collections, store))
+      .rejects.toMatchObject({ code: 'SHIPPING_ADDRESS_UNAVAILABLE' });
+
+    await Withdraw(offerer, openOffer.id, collections);
+    await expect(GetShippingAddress(offerer, openOffer.id, collections, store))
+      .rejects.toMatchObject({ code: 'EXCHANGE_NOT_FOUND' });
+  });
+
+  it('should keep the address available for the retention window after receipt', async () => {
+    const exchange = await matchExchange();
+    await MarkShipped(offerer, exchange.id, collections);
+    const { receivedExchange } = await MarkReceived(requester, exchange.id, collections);
+
+    const address = await GetShippingAddress(offerer, exchange.id, collections, store, {
+      config: { shippingAddressRetentionDays: 7 }
+    });
+    expect(address.availableUntil).toEqual(new Date((receivedExchange?.receivedTime as Date).getTime() + 7 * DAY_MS));
+
+    const stored = await collections.getExchange(exchange.id) as SeedExchange;
+    await collections.updateExchange({ ...stored, receivedTime: new Date(Date.now() - 8 * DAY_MS) });
+    await expect(GetShippingAddress(offerer, exchange.id, collections, store, { config: { shippingAddressRetentionDays: 7 } }))
+      .rejects.toMatchObject({ code: 'SHIPPING_ADDRESS_UNAVAILABLE' });
+  });
+
+  it('should fail when the requester has no address', async () => {
+    const exchange = await matchExchange();
+    await UpdateUserProfile(requester, { address: null }, store);
+
+    await expect(GetShippingAddress(offerer, exchange.id, collections, store))
+      .rejects.toMatchObject({ code: 'SHIPPING_ADDRESS_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,47 @@
+import { IUserProfileStore, UserProfile } from './IUserProfileStore';
+
+/**
+ * Profile of a user who has not created one
+ */
+export function defaultUserProfile(userId: string, now: Date = new Date()): UserProfile {
+  return {
+    userId,
+    preferences: {},
+    updatedTime: now
+  };
+}
+
+/**
+ * Copy a profile so callers cannot change stored state through nested objects
+ */
+function copyProfile(profile: UserProfile): UserProfile {
+  return {
+    ...profile,
+    address: profile.address ? { ...profile.address } : undefined,
+    preferences: { ...profile.preferences }
+  };
+}
+
+/**
+ * In-memory implementation of user profile storage
+ */
+export class InMemoryUserProfileStore implements IUserProfileStore {
+  private profiles = new Map<string, UserProfile>();
+
+  async getProfile(userId: string): Promise<UserProfile | undefined> {
+    const profile = this.profiles.get(userId);
+    return profile ? copyProfile(profile) : undefined;
+  }
+
+  async setProfile(profile: UserProfile): Promise<void> {
+    this.profiles.set(profile.userId, copyProfile(profile));
+  }
+
+  async deleteProfile(userId: string): Promise<void> {
+    this.profiles.delete(userId);
+  }
+
+  async clear(): Promise<void> {
+    this.profiles.clear();
+  }
+}
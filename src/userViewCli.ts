@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line interface for rebuilding the per-user view of exchanges in Cosmos DB.
+ * Run it when users' exchange lists drift from the SeedExchanges container, or to
+ * populate a newly configured view container without replaying the whole change feed.
+ * 
+ * Usage:
+ *   COSMOS_DB_ENDPOINT=https://... COSMOS_DB_KEY=... COSMOS_DB_USER_VIEW_CONTAINER_ID=UserExchanges npm run rebuild-user-view
+ */
+
+import { getCosmosDbConfig } from './cosmosDbConfig';
+import { CosmosDbUserExchangeView } from './cosmosDbUserExchangeView';
+
+async function main() {
+  try {
+    const config = await getCosmosDbConfig();
+    if (!config.userViewContainerId) {
+      throw new Error('Set COSMOS_DB_USER_VIEW_CONTAINER_ID to the per-user view container to rebuild.');
+    }
+
+    const view = await CosmosDbUserExchangeView.initialize(config);
+    const copied = await view.rebuild();
+    console.log(`✅ Rebuilt ${config.userViewContainerId} from ${copied} exchange(s)`);
+  } catch (error) {
+    console.error('❌ Failed to rebuild the per-user view:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { main };
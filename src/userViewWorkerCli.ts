@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line interface for keeping the per-user view of exchanges in Cosmos DB up to date.
+ * Reads the SeedExchanges change feed and copies changed exchanges into the view, until stopped.
+ * The server and the other workers only read the view, so run a single worker per database.
+ *
+ * Usage:
+ *   COSMOS_DB_ENDPOINT=https://... COSMOS_DB_KEY=... COSMOS_DB_USER_VIEW_CONTAINER_ID=UserExchanges npm run user-view-worker
+ *
+ * Set USER_VIEW_POLL_INTERVAL_MS to change how often it polls (default: 1000).
+ */
+
+import { getCosmosDbConfig } from './cosmosDbConfig';
+import { CosmosDbUserExchangeView } from './cosmosDbUserExchangeView';
+
+async function main() {
+  try {
+    const config = await getCosmosDbConfig();
+    if (!config.userViewContainerId) {
+      throw new Error('Set COSMOS_DB_USER_VIEW_CONTAINER_ID to the per-user view container to keep up to date.');
+    }
+
+    const view = await CosmosDbUserExchangeView.initialize(config);
+    const intervalMs = Number(process.env.USER_VIEW_POLL_INTERVAL_MS || 1000);
+    console.log(`✅ Updating ${config.userViewContainerId} every ${intervalMs}ms`);
+
+    for (;;) {
+      try {
+        await view.processChanges();
+      } catch (error) {
+        console.error('❌ User view update failed:', error);
+      }
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+  } catch (error) {
+    console.error('❌ Failed to start the user view worker:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { main };
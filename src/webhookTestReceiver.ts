@@ -0,0 +1,75 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from './webhooks';
+
+/**
+ * A request received by WebhookTestReceiver
+ */
+export interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  /** Whether the signature header matched the body and the receiver's secret */
+  verified: boolean;
+}
+
+/**
+ * Local HTTP stand-in for a partner's webhook endpoint, for tests and local development.
+ * Records every request and answers with the scripted status codes, then 200.
+ */
+export class WebhookTestReceiver {
+  readonly received: ReceivedWebhook[] = [];
+  private server?: http.Server;
+  private responses: number[] = [];
+
+  /**
+   * @param secret - Secret the receiver verifies signatures with
+   */
+  constructor(private readonly secret: string) {}
+
+  /**
+   * Listen on a free local port
+   * @returns The URL to subscribe
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const body = Buffer.concat(chunks).toString('utf8');
+        const signature = req.headers[WEBHOOK_SIGNATURE_HEADER];
+        this.received.push({
+          headers: req.headers,
+          body,
+          verified: typeof signature === 'string' && verifyWebhookSignature(this.secret, body, signature)
+        });
+
+        res.statusCode = this.responses.shift() ?? 200;
+        res.end();
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    this.server = server;
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks`;
+  }
+
+  /**
+   * Answer the next requests with these status codes, in order
+   */
+  respondWith(...statusCodes: number[]): void {
+    this.responses.push(...statusCodes);
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      // fetch keeps connections alive, which would otherwise hold close() open
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  }
+}
@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line interface for sending webhooks.
+ * Reads the change feed, queues a delivery for every subscription that wants each event,
+ * and sends due deliveries, until stopped. Run a single worker per database.
+ *
+ * Usage:
+ *   COSMOS_DB_ENDPOINT=https://... COSMOS_DB_KEY=... npm run webhook-worker
+ *
+ * Set WEBHOOK_POLL_INTERVAL_MS to change how often it polls (default: 5000).
+ */
+
+import { initializeWebhookStore } from './collectionsFactory';
+import { runChangeFeedWorker } from './changeFeedWorker';
+import { WebhookDispatcher } from './webhooks';
+
+async function main() {
+  try {
+    const dispatcher = new WebhookDispatcher(await initializeWebhookStore());
+    await runChangeFeedWorker({
+      name: 'webhooks',
+      description: 'Sending webhooks',
+      intervalMs: Number(process.env.WEBHOOK_POLL_INTERVAL_MS || 5000),
+      subscribeTo: emitter => dispatcher.subscribeTo(emitter),
+      afterChanges: async () => {
+        for (const delivery of await dispatcher.deliverDue()) {
+          const outcome = delivery.status === 'delivered' ? 'delivered' : `${delivery.status} (${delivery.lastError})`;
+          console.log(`${delivery.eventType} to ${delivery.subscriptionId}: ${outcome}`);
+        }
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to start the webhook worker:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { main };
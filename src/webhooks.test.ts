@@ -0,0 +1,327 @@
+import dns from 'dns';
+import {
+  InMemoryWebhookStore,
+  WebhookDispatcher,
+  WebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from './webhooks';
+import { WebhookTestReceiver } from './webhookTestReceiver';
+import { DomainEventProcessor, DomainEventType, InMemoryLeaseStore } from './domainEvents';
+import { SeedExchangeCollections } from './collections';
+import {
+  SubmitSeedOffer,
+  SubmitSeedRequest,
+  MarkShipped,
+  MarkReceived,
+  CreateWebhookSubscription,
+  GetWebhookSubscriptions,
+  DeleteWebhookSubscription,
+  GetWebhookDeliveries,
+  RetryWebhookDelivery
+} from './api';
+import { ADMIN_ROLE } from './roles';
+import { AzureUserToken } from './types';
+import { ForbiddenError, InvalidStateError, NotFoundError, ValidationError } from './errors';
+
+const SECRET = 'library-secret';
+
+// The local test receiver listens on loopback, which only allow-listed hosts may use
+const RECEIVER_HOSTS = ['127.0.0.1'];
+
+const admin: AzureUserToken = { userId: 'admin', roles: [ADMIN_ROLE] };
+const requester: AzureUserToken = { userId: 'requester' };
+const offerer: AzureUserToken = { userId: 'offerer' };
+
+describe('Webhooks', () => {
+  let receiver: WebhookTestReceiver;
+  let url: string;
+  let collections: SeedExchangeCollections;
+  let store: InMemoryWebhookStore;
+  let processor: DomainEventProcessor;
+  let dispatcher: WebhookDispatcher;
+
+  beforeEach(async () => {
+    receiver = new WebhookTestReceiver(SECRET);
+    url = await receiver.start();
+    collections = new SeedExchangeCollections();
+    store = new InMemoryWebhookStore();
+    processor = new DomainEventProcessor('webhooks', collections, new InMemoryLeaseStore());
+    dispatcher = new WebhookDispatcher(store, {
+      maxAttempts: 3,
+      initialBackoffMs: 1000,
+      maxBackoffMs: 1500,
+      allowedHosts: RECEIVER_HOSTS
+    });
+    dispatcher.subscribeTo(processor.emitter);
+  });
+
+  afterEach(async () => {
+    dispatcher.stop();
+    await receiver.stop();
+  });
+
+  const subscribe = (
+    eventTypes: DomainEventType[] = ['ExchangeMatched', 'ExchangeShipped', 'ExchangeReceived'],
+    userIds?: string[]
+  ) => CreateWebhookSubscription(admin, 'seed-library', { url, eventTypes, userIds, secret: SECRET }, store, RECEIVER_HOSTS);
+
+  const matchExchange = async () => {
+    await SubmitSeedRequest(requester, 'milkweed', collections);
+    const offer = await SubmitSeedOffer(offerer, 'milkweed', 1, collections);
+    await processor.processChanges();
+    return offer.filledExchanges[0];
+  };
+
+  it('should send signed match, ship and receive events', async () => {
+    await subscribe();
+
+    const exchange = await matchExchange();
+    await MarkShipped(offerer, exchange.id, collections);
+    await processor.processChanges();
+    await MarkReceived(requester, exchange.id, collections);
+    await processor.processChanges();
+    const attempted = await dispatcher.deliverDue();
+
+    expect(attempted.map(delivery => delivery.status)).toEqual(['delivered', 'delivered', 'delivered']);
+    expect(receiver.received.map(request => request.verified)).toEqual([true, true, true]);
+    expect(receiver.received.map(request => request.headers[WEBHOOK_EVENT_HEADER]))
+      .toEqual(['ExchangeMatched', 'ExchangeShipped', 'ExchangeReceived']);
+
+    const payload = JSON.parse(receiver.received[1].body) as WebhookPayload;
+    expect(payload).toMatchObject({
+      id: `${exchange.id}:shipped`,
+      type: 'ExchangeShipped',
+      tenantId: 'seed-library',
+      exchange: { id: exchange.id, plantId: 'milkweed', status: 'shipped', offerUserId: 'offerer' }
+    });
+    expect(payload.exchange).not.toHaveProperty('etag');
+    expect(receiver.received[1].headers[WEBHOOK_DELIVERY_HEADER]).toBe(attempted[1].id);
+  });
+
+  it('should only queue events of the subscribed types about the tenant\'s members', async () => {
+    await subscribe(['ExchangeShipped']);
+    await subscribe(['ExchangeMatched'], ['someone-else']);
+
+    const exchange = await matchExchange();
+    await MarkShipped(offerer, exchange.id, collections);
+    await processor.processChanges();
+
+    const deliveries = await store.getDeliveries('seed-library');
+    expect(deliveries.map(delivery => delivery.eventType)).toEqual(['ExchangeShipped']);
+  });
+
+  it('should queue an event seen twice only once', async () => {
+    await subscribe();
+    await matchExchange();
+
+    const restarted = new DomainEventProcessor('webhooks', collections, new InMemoryLeaseStore());
+    dispatcher.subscribeTo(restarted.emitter);
+    await restarted.processChanges();
+
+    expect(await store.getDeliveries('seed-library')).toHaveLength(1);
+  });
+
+  it('should retry failed deliveries with exponential backoff', async () => {
+    await subscribe();
+    await matchExchange();
+    receiver.respondWith(500, 503);
+    const now = new Date();
+
+    const [first] = await dispatcher.deliverDue(now);
+    expect(first).toMatchObject({ status: 'pending', attempts: 1, lastError: 'HTTP 500' });
+    expect(first.nextAttemptTime).toEqual(new Date(now.getTime() + 1000));
+    expect(await dispatcher.deliverDue(now)).toEqual([]);
+
+    const [second] = await dispatcher.deliverDue(first.nextAttemptTime);
+    expect(second).toMatchObject({ status: 'pending', attempts: 2, lastError: 'HTTP 503' });
+    expect(second.nextAttemptTime).toEqual(new Date(first.nextAttemptTime.getTime() + 1500));
+
+    const [third] = await dispatcher.deliverDue(second.nextAttemptTime);
+    expect(third).toMatchObject({ status: 'delivered', attempts: 3 });
+    expect(receiver.received).toHaveLength(3);
+  });
+
+  it('should dead-letter a delivery after the last attempt and requeue it on request', async () => {
+    await subscribe();
+    await matchExchange();
+    receiver.respondWith(500, 500, 500);
+    let now = new Date();
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await dispatcher.deliverDue(now);
+      now = new Date(now.getTime() + 1500);
+    }
+
+    const [deadLettered] = await GetWebhookDeliveries(admin, 'seed-library', store, 'dead-lettered');
+    expect(deadLettered).toMatchObject({ attempts: 3, lastError: 'HTTP 500' });
+    expect(await dispatcher.deliverDue(now)).toEqual([]);
+
+    await RetryWebhookDelivery(admin, 'seed-library', deadLettered.id, store);
+    const [retried] = await dispatcher.deliverDue(now);
+
+    expect(retried).toMatchObject({ id: deadLettered.id, status: 'delivered', attempts: 1 });
+    await expect(RetryWebhookDelivery(admin, 'seed-library', deadLettered.id, store))
+      .rejects.toThrow(InvalidStateError);
+  });
+
+  it('should dead-letter deliveries of a removed subscription without sending them', async () => {
+    const subscription = await subscribe();
+    await matchExchange();
+
+    await DeleteWebhookSubscription(admin, 'seed-library', subscription.id, store);
+    const [delivery] = await dispatcher.deliverDue();
+
+    expect(delivery).toMatchObject({ status: 'dead-lettered', lastError: 'Subscription was removed' });
+    expect(receiver.received).toHaveLength(0);
+  });
+
+  it('should record unreachable receivers as failed attempts', async () => {
+    await subscribe();
+    await matchExchange();
+    await receiver.stop();
+
+    const [delivery] = await dispatcher.deliverDue();
+
+    expect(delivery.status).toBe('pending');
+    expect(delivery.lastError).toBeDefined();
+  });
+
+  it('should not send to a host that is no longer allowed', async () => {
+    await subscribe();
+    await matchExchange();
+    const unlisted = new WebhookDispatcher(store, { allowedHosts: [] });
+
+    const [delivery] = await unlisted.deliverDue();
+
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Webhook URL must use https' });
+    expect(receiver.received).toHaveLength(0);
+  });
+});
+
+describe('Webhook signatures', () => {
+  const body = '{"id":"milkweed:1:confirmed"}';
+  const now = new Date('2025-06-01T12:00:00Z');
+  const timestamp = now.getTime() / 1000;
+
+  it('should accept a signature made with the secret', () => {
+    expect(verifyWebhookSignature(SECRET, body, signWebhookPayload(SECRET, body, timestamp), now)).toBe(true);
+  });
+
+  it('should reject a changed body, another secret, an old timestamp or a malformed header', () => {
+    const header = signWebhookPayload(SECRET, body, timestamp);
+
+    expect(verifyWebhookSignature(SECRET, body.replace('1', '2'), header, now)).toBe(false);
+    expect(verifyWebhookSignature('other-secret', body, header, now)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, header, new Date(now.getTime() + 301 * 1000))).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, 'v1=abc', now)).toBe(false);
+  });
+});
+
+describe('Webhook subscription API', () => {
+  let store: InMemoryWebhookStore;
+
+  beforeEach(() => {
+    store = new InMemoryWebhookStore();
+    // Resolve without the network: localhost and the internal name to loopback and private addresses,
+    // address literals to themselves and every other host to a public address
+    jest.spyOn(dns.promises, 'lookup').mockImplementation((async (hostname: string) => {
+      const addresses: Record<string, string> = { 'localhost': '127.0.0.1', 'intranet.example.org': '10.1.2.3' };
+      const address = addresses[hostname] ?? (/^[\d.]+$|:/.test(hostname) ? hostname : '93.184.215.14');
+      return [{ address, family: address.includes(':') ? 6 : 4 }];
+    }) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should generate a secret when none is given and list subscriptions per tenant', async () => {
+    const subscription = await CreateWebhookSubscription(
+      admin,
+      'seed-library',
+      { url: 'https://library.example.org/hooks', eventTypes: ['ExchangeMatched', 'ExchangeMatched'] },
+      store
+    );
+
+    expect(subscription.secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(subscription.eventTypes).toEqual(['ExchangeMatched']);
+    const [listed] = await GetWebhookSubscriptions(admin, 'seed-library', store);
+    expect(listed).toMatchObject({ id: subscription.id, url: subscription.url, eventTypes: ['ExchangeMatched'] });
+    expect(listed).not.toHaveProperty('secret');
+    expect(await GetWebhookSubscriptions(admin, 'garden-club', store)).toEqual([]);
+  });
+
+  it('should only let admins manage webhooks', async () => {
+    await expect(CreateWebhookSubscription(
+      requester,
+      'seed-library',
+      { url: 'https://library.example.org/hooks', eventTypes: ['ExchangeMatched'] },
+      store
+    )).rejects.toThrow(ForbiddenError);
+    await expect(GetWebhookDeliveries(requester, 'seed-library', store)).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should reject invalid subscriptions', async () => {
+    const create = (tenantId: string, url: string, eventTypes: string[], userIds?: string[]) =>
+      CreateWebhookSubscription(admin, tenantId, { url, eventTypes: eventTypes as never, userIds }, store);
+
+    await expect(create('', 'https://example.org', ['ExchangeMatched'])).rejects.toMatchObject({ code: 'INVALID_TENANT_ID' });
+    await expect(create('library', 'not a url', ['ExchangeMatched'])).rejects.toMatchObject({ code: 'INVALID_WEBHOOK_URL' });
+    await expect(create('library', 'ftp://example.org', ['ExchangeMatched'])).rejects.toMatchObject({ code: 'INVALID_WEBHOOK_URL' });
+    await expect(create('library', 'https://example.org', [])).rejects.toMatchObject({ code: 'INVALID_WEBHOOK_EVENT_TYPES' });
+    await expect(create('library', 'https://example.org', ['SeedsPlanted'])).rejects.toThrow(ValidationError);
+    await expect(create('library', 'https://example.org', ['ExchangeMatched'], [''])).rejects.toMatchObject({ code: 'INVALID_WEBHOOK_USER_IDS' });
+  });
+
+  it('should reject URLs that are not https or reach loopback, private or link-local addresses', async () => {
+    const create = (url: string, allowedHosts: string[] = []) =>
+      CreateWebhookSubscription(admin, 'seed-library', { url, eventTypes: ['ExchangeMatched'] }, store, allowedHosts);
+
+    await expect(create('http://library.example.org/hooks')).rejects.toMatchObject({ code: 'INVALID_WEBHOOK_URL' });
+    for (const url of [
+      'https://localhost/hooks',
+      'https://127.0.0.1/hooks',
+      'https://10.0.0.5/hooks',
+      'https://192.168.1.20/hooks',
+      'https://169.254.169.254/latest/meta-data',
+      'https://[::1]/hooks',
+      'https://[::ffff:127.0.0.1]/hooks',
+      'https://[fe80::1]/hooks',
+      'https://intranet.example.org/hooks'
+    ]) {
+      await expect(create(url)).rejects.toMatchObject({ code: 'INVALID_WEBHOOK_URL' });
+    }
+    expect(await GetWebhookSubscriptions(admin, 'seed-library', store)).toEqual([]);
+  });
+
+  it('should accept allow-listed hosts whatever they resolve to', async () => {
+    const subscription = await CreateWebhookSubscription(
+      admin,
+      'seed-library',
+      { url: 'http://intranet.example.org/hooks', eventTypes: ['ExchangeMatched'] },
+      store,
+      ['intranet.example.org']
+    );
+
+    expect(subscription.url).toBe('http://intranet.example.org/hooks');
+  });
+
+  it('should report hosts that do not resolve', async () => {
+    jest.mocked(dns.promises.lookup).mockRejectedValueOnce(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+
+    await expect(CreateWebhookSubscription(
+      admin,
+      'seed-library',
+      { url: 'https://missing.example.org/hooks', eventTypes: ['ExchangeMatched'] },
+      store
+    )).rejects.toMatchObject({ code: 'INVALID_WEBHOOK_URL' });
+  });
+
+  it('should report missing subscriptions and deliveries', async () => {
+    await expect(DeleteWebhookSubscription(admin, 'seed-library', 'missing', store)).rejects.toThrow(NotFoundError);
+    await expect(RetryWebhookDelivery(admin, 'seed-library', 'missing', store))
+      .rejects.toMatchObject({ code: 'WEBHOOK_DELIVERY_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,421 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { SeedExchange } from './types';
+import { DomainEvent, DomainEventEmitter, DomainEventType } from './domainEvents';
+import {
+  IWebhookStore,
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryStatus
+} from './IWebhookStore';
+import { startPolling, StopPolling } from './polling';
+import { ValidationError } from './errors';
+
+/**
+ * Header carrying the payload signature, as `t=<unix seconds>,v1=<hex HMAC-SHA256>`
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-seed-exchange-signature';
+
+/**
+ * Header carrying the delivery id, which receivers can use to ignore repeated deliveries
+ */
+export const WEBHOOK_DELIVERY_HEADER = 'x-seed-exchange-delivery';
+
+/**
+ * Header carrying the event type
+ */
+export const WEBHOOK_EVENT_HEADER = 'x-seed-exchange-event';
+
+/**
+ * JSON body sent to a webhook
+ */
+export interface WebhookPayload {
+  /** The domain event id, `<exchange id>:<status>` */
+  id: string;
+  type: DomainEventType;
+  tenantId: string;
+  /** ISO 8601 time the exchange entered its status */
+  occurredAt: string;
+  /** The exchange, with dates as ISO 8601 strings */
+  exchange: Omit<SeedExchange, 'etag'>;
+}
+
+/**
+ * Retry settings for webhook deliveries
+ */
+export interface WebhookDeliveryConfig {
+  /** Attempts before a delivery is dead-lettered */
+  maxAttempts: number;
+  /** Wait after the first failed attempt; each later failure doubles it */
+  initialBackoffMs: number;
+  /** Longest wait between attempts */
+  maxBackoffMs: number;
+  /** How long to wait for the receiver to answer */
+  timeoutMs: number;
+  /** Hosts exempt from the https and public address checks (default: from getWebhookAllowedHosts()) */
+  allowedHosts: string[];
+}
+
+/**
+ * Defaults: eight attempts over roughly two hours
+ */
+export const DEFAULT_WEBHOOK_DELIVERY_CONFIG: WebhookDeliveryConfig = {
+  maxAttempts: 8,
+  initialBackoffMs: 60 * 1000,
+  maxBackoffMs: 60 * 60 * 1000,
+  timeoutMs: 10 * 1000,
+  allowedHosts: []
+};
+
+/**
+ * Addresses webhooks are never sent to, so a subscription cannot reach the operator's own network:
+ * unspecified, loopback, private, carrier-grade NAT, link-local (including cloud metadata endpoints
+ * such as 169.254.169.254), benchmarking, multicast and reserved ranges
+ */
+const NON_PUBLIC_ADDRESSES = (() => {
+  const list = new net.BlockList();
+  const ipv4: Array<[string, number]> = [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+  ];
+  const ipv6: Array<[string, number]> = [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]];
+  ipv4.forEach(([address, prefix]) => list.addSubnet(address, prefix, 'ipv4'));
+  ipv6.forEach(([address, prefix]) => list.addSubnet(address, prefix, 'ipv6'));
+  return list;
+})();
+
+/**
+ * Check whether an address is outside the public internet
+ */
+function isNonPublicAddress(address: string): boolean {
+  // IPv4 addresses mapped into IPv6 (::ffff:127.0.0.1) reach the IPv4 address
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped || net.isIPv4(address)) {
+    return NON_PUBLIC_ADDRESSES.check(mapped ? mapped[1] : address, 'ipv4');
+  }
+  return NON_PUBLIC_ADDRESSES.check(address, 'ipv6');
+}
+
+/**
+ * Get the hosts the operator trusts to receive webhooks whatever they resolve to, over http or https.
+ * Reads SEED_EXCHANGE_WEBHOOK_ALLOWED_HOSTS, a comma-separated list of host names or addresses
+ * (default: none), e.g. for receivers on the operator's own network or a local test receiver.
+ */
+export function getWebhookAllowedHosts(): string[] {
+  return (process.env.SEED_EXCHANGE_WEBHOOK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(host => host !== '');
+}
+
+/**
+ * Check that webhooks can be sent to a URL without reaching the operator's own network:
+ * it must use https and its host must only resolve to public addresses, unless the host is allowed
+ * @param allowedHosts - Hosts exempt from both checks
+ * @returns The parsed URL
+ * @throws ValidationError if the URL is invalid, not https, or its host cannot be resolved or is not public
+ */
+export async function validateWebhookUrl(url: string, allowedHosts: string[] = getWebhookAllowedHosts()): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ValidationError(`Webhook URL is not a valid URL: ${url}`, 'INVALID_WEBHOOK_URL');
+  }
+
+  // IPv6 hosts keep their brackets in URL.hostname
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (allowedHosts.includes(host)) {
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new ValidationError('Webhook URL must use http or https', 'INVALID_WEBHOOK_URL');
+    }
+    return parsed;
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new ValidationError('Webhook URL must use https', 'INVALID_WEBHOOK_URL');
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new ValidationError(`Webhook host ${host} could not be resolved`, 'INVALID_WEBHOOK_URL');
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isNonPublicAddress(address))) {
+    throw new ValidationError(`Webhook host ${host} is not a public internet address`, 'INVALID_WEBHOOK_URL');
+  }
+  return parsed;
+}
+
+/**
+ * Sign a payload with a subscription's secret
+ * @param timestamp - Unix seconds; signed with the body so a captured request cannot be replayed later
+ * @returns The value of the WEBHOOK_SIGNATURE_HEADER header
+ */
+export function signWebhookPayload(secret: string, payload: string, timestamp: number): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a WEBHOOK_SIGNATURE_HEADER header, for receivers
+ * @param toleranceSeconds - How old the signature may be (default: five minutes)
+ * @returns Whether the payload was signed with the secret within the tolerance
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  payload: string,
+  header: string,
+  now: Date = new Date(),
+  toleranceSeconds = 300
+): boolean {
+  const parts = new Map(header.split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature || Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = signWebhookPayload(secret, payload, timestamp).split('v1=')[1];
+  return signature.length === expected.length
+    && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+/**
+ * Build the JSON body sent to a tenant for an event
+ */
+export function buildWebhookPayload(event: DomainEvent, tenantId: string): string {
+  const { etag, ...exchange } = event.exchange;
+  const payload: WebhookPayload = {
+    id: event.id,
+    type: event.type,
+    tenantId,
+    occurredAt: event.occurredAt.toISOString(),
+    exchange
+  };
+  return JSON.stringify(payload);
+}
+
+/**
+ * Whether a subscription wants an event
+ */
+export function matchesWebhookSubscription(subscription: WebhookSubscription, event: DomainEvent): boolean {
+  if (!subscription.eventTypes.includes(event.type)) {
+    return false;
+  }
+  const { requestUserId, offerUserId } = event.exchange;
+  return !subscription.userIds
+    || subscription.userIds.some(userId => userId === requestUserId || userId === offerUserId);
+}
+
+/**
+ * In-memory implementation of webhook storage
+ */
+export class InMemoryWebhookStore implements IWebhookStore {
+  private subscriptions = new Map<string, WebhookSubscription>();
+  private deliveries = new Map<string, WebhookDelivery>();
+
+  async addSubscription(subscription: WebhookSubscription): Promise<void> {
+    this.subscriptions.set(subscription.id, subscription);
+  }
+
+  async getSubscriptions(tenantId: string): Promise<WebhookSubscription[]> {
+    return Array.from(this.subscriptions.values()).filter(subscription => subscription.tenantId === tenantId);
+  }
+
+  async getAllSubscriptions(): Promise<WebhookSubscription[]> {
+    return Array.from(this.subscriptions.values());
+  }
+
+  async removeSubscription(tenantId: string, subscriptionId: string): Promise<void> {
+    if (this.subscriptions.get(subscriptionId)?.tenantId === tenantId) {
+      this.subscriptions.delete(subscriptionId);
+    }
+  }
+
+  async addDeliveries(deliveries: WebhookDelivery[]): Promise<void> {
+    for (const delivery of deliveries) {
+      if (!this.deliveries.has(delivery.id)) {
+        this.deliveries.set(delivery.id, { ...delivery });
+      }
+    }
+  }
+
+  async getDelivery(tenantId: string, deliveryId: string): Promise<WebhookDelivery | undefined> {
+    const delivery = this.deliveries.get(deliveryId);
+    return delivery?.tenantId === tenantId ? { ...delivery } : undefined;
+  }
+
+  async getDeliveries(tenantId: string, status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(delivery => delivery.tenantId === tenantId && (status === undefined || delivery.status === status))
+      .map(delivery => ({ ...delivery }));
+  }
+
+  async getDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(delivery => delivery.status === 'pending' && delivery.nextAttemptTime <= now)
+      .sort((a, b) => a.nextAttemptTime.getTime() - b.nextAttemptTime.getTime())
+      .slice(0, limit)
+      .map(delivery => ({ ...delivery }));
+  }
+
+  async updateDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, { ...delivery });
+  }
+
+  async clear(): Promise<void> {
+    this.subscriptions.clear();
+    this.deliveries.clear();
+  }
+}
+
+/**
+ * Largest number of deliveries attempted in one pass
+ */
+const DELIVERY_BATCH_SIZE = 50;
+
+/**
+ * Queues domain events for the webhooks subscribed to them and sends the queued deliveries.
+ * Deliveries are retried with exponential backoff and dead-lettered after `maxAttempts` failures.
+ * Run a single dispatcher per store: two dispatchers would send due deliveries twice.
+ */
+export class WebhookDispatcher {
+  private readonly config: WebhookDeliveryConfig;
+  private stopPolling?: StopPolling;
+
+  /**
+   * @param store - Subscriptions and the delivery queue
+   * @param config - Retry settings (merged over DEFAULT_WEBHOOK_DELIVERY_CONFIG)
+   */
+  constructor(private readonly store: IWebhookStore, config: Partial<WebhookDeliveryConfig> = {}) {
+    this.config = { ...DEFAULT_WEBHOOK_DELIVERY_CONFIG, allowedHosts: getWebhookAllowedHosts(), ...config };
+  }
+
+  /**
+   * Queue every event published by an emitter
+   * @returns A function that stops queueing
+   */
+  subscribeTo(emitter: DomainEventEmitter): () => void {
+    return emitter.on('*', async event => {
+      await this.enqueue(event);
+    });
+  }
+
+  /**
+   * Queue an event for each subscription that wants it
+   * @returns The deliveries queued (including any already queued for the same event)
+   */
+  async enqueue(event: DomainEvent, now: Date = new Date()): Promise<WebhookDelivery[]> {
+    const subscriptions = (await this.store.getAllSubscriptions())
+      .filter(subscription => matchesWebhookSubscription(subscription, event));
+
+    const deliveries = subscriptions.map((subscription): WebhookDelivery => ({
+      id: `${subscription.id}:${event.id}`,
+      tenantId: subscription.tenantId,
+      subscriptionId: subscription.id,
+      eventId: event.id,
+      eventType: event.type,
+      payload: buildWebhookPayload(event, subscription.tenantId),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptTime: now
+    }));
+
+    await this.store.addDeliveries(deliveries);
+    return deliveries;
+  }
+
+  /**
+   * Wait before the attempt after `attempts` failed ones
+   */
+  private backoff(attempts: number): number {
+    return Math.min(this.config.initialBackoffMs * 2 ** (attempts - 1), this.config.maxBackoffMs);
+  }
+
+  /**
+   * Send one delivery and record the outcome
+   */
+  private async attempt(delivery: WebhookDelivery, subscription: WebhookSubscription | undefined, now: Date): Promise<WebhookDelivery> {
+    let error: string | undefined;
+
+    if (!subscription) {
+      error = 'Subscription was removed';
+    } else {
+      try {
+        // Checked again on every attempt, as the host may since resolve elsewhere
+        await validateWebhookUrl(subscription.url, this.config.allowedHosts);
+        const response = await fetch(subscription.url, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+            [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, delivery.payload, Math.floor(now.getTime() / 1000))
+          },
+          body: delivery.payload,
+          // A redirect could point anywhere, including the operator's own network
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.config.timeoutMs)
+        });
+        if (!response.ok) {
+          error = `HTTP ${response.status}`;
+        }
+      } catch (failure) {
+        error = failure instanceof Error ? failure.message : String(failure);
+      }
+    }
+
+    const attempts = delivery.attempts + 1;
+    if (error === undefined) {
+      return { ...delivery, status: 'delivered', attempts, lastAttemptTime: now, lastError: undefined };
+    }
+
+    // A removed subscription will never accept the delivery, so there is no point retrying
+    const deadLetter = !subscription || attempts >= this.config.maxAttempts;
+    return {
+      ...delivery,
+      status: deadLetter ? 'dead-lettered' : 'pending',
+      attempts,
+      lastAttemptTime: now,
+      lastError: error,
+      nextAttemptTime: deadLetter ? delivery.nextAttemptTime : new Date(now.getTime() + this.backoff(attempts))
+    };
+  }
+
+  /**
+   * Attempt every delivery that is due
+   * @returns The deliveries attempted, with their new state
+   */
+  async deliverDue(now: Date = new Date()): Promise<WebhookDelivery[]> {
+    const subscriptions = new Map((await this.store.getAllSubscriptions()).map(subscription => [subscription.id, subscription]));
+    const attempted: WebhookDelivery[] = [];
+
+    for (const delivery of await this.store.getDueDeliveries(now, DELIVERY_BATCH_SIZE)) {
+      const updated = await this.attempt(delivery, subscriptions.get(delivery.subscriptionId), now);
+      await this.store.updateDelivery(updated);
+      attempted.push(updated);
+    }
+
+    return attempted;
+  }
+
+  /**
+   * Send due deliveries every `intervalMs` until stop() is called
+   * @param onError - Called when a pass fails, e.g. because the store is unavailable
+   */
+  start(intervalMs = 5000, onError: (error: unknown) => void = error => console.error('Webhook delivery failed:', error)): void {
+    if (!this.stopPolling) {
+      this.stopPolling = startPolling(() => this.deliverDue(), intervalMs, onError);
+    }
+  }
+
+  /**
+   * Stop sending deliveries. A pass already under way runs to completion.
+   */
+  stop(): void {
+    this.stopPolling?.();
+    this.stopPolling = undefined;
+  }
+}